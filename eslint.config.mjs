@@ -35,6 +35,14 @@ export default [
       "no-console": ["warn", { allow: ["warn", "error"] }],
     },
   },
+  {
+    files: ["tests/**/*.ts"],
+    languageOptions: {
+      parserOptions: {
+        project: "./tests/tsconfig.json",
+      },
+    },
+  },
   {
     ignores: ["dist/**", "node_modules/**"],
   },
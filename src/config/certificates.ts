@@ -0,0 +1,44 @@
+import { getAddress, TypedDataDomain, TypedDataField, Wallet } from 'ethers';
+import { env } from '../utils/validateEnv';
+
+export interface CertificateConfig {
+  /** Signs certificate payloads; certificates are issued unsigned when unset */
+  signer: Wallet | null;
+  /** Addresses whose signatures verify: the signer and earlier signing keys */
+  trustedSigners: string[];
+}
+
+const signer = env.CERTIFICATE_SIGNER_PRIVATE_KEY ? new Wallet(env.CERTIFICATE_SIGNER_PRIVATE_KEY) : null;
+
+export const certificateConfig: CertificateConfig = {
+  signer,
+  trustedSigners: [
+    ...(signer ? [signer.address] : []),
+    ...(env.CERTIFICATE_TRUSTED_SIGNERS || '')
+      .split(',')
+      .map((address) => address.trim())
+      .filter(Boolean)
+      .map((address) => getAddress(address.toLowerCase())),
+  ],
+};
+
+/**
+ * EIP-712 domain and types of certificate payloads. certificate_hash is the typed data hash,
+ * so anyone can recompute it and recover the signer with standard wallet tooling.
+ */
+export const CERTIFICATE_DOMAIN: TypedDataDomain = {
+  name: '0xAcademy Certificate',
+  version: '1',
+};
+
+export const CERTIFICATE_TYPES: Record<string, TypedDataField[]> = {
+  Certificate: [
+    { name: 'id', type: 'string' },
+    { name: 'recipient', type: 'address' },
+    { name: 'kind', type: 'string' },
+    { name: 'subjectId', type: 'string' },
+    { name: 'title', type: 'string' },
+    { name: 'instructor', type: 'address' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+};
@@ -0,0 +1,59 @@
+import { AbstractProvider, JsonRpcProvider, Network } from 'ethers';
+import { logger } from '../utils/logger';
+import { env } from '../utils/validateEnv';
+
+/**
+ * Read-only JSON-RPC providers used for on-chain checks (ERC-1271/6492 signatures, ENS, etc.)
+ *
+ * Providers are created lazily from ETH_RPC_URLS ("1=https://...,8453=https://...")
+ * with ETH_RPC_URL as the fallback for every other chain. Point ETH_RPC_URL at a local
+ * anvil fork (http://127.0.0.1:8545) to run everything offline, or swap in any ethers
+ * provider with setRpcProvider().
+ */
+const providers = new Map<number, AbstractProvider>();
+
+const parseRpcUrls = (value: string | undefined): Map<number, string> => {
+  const urls = new Map<number, string>();
+
+  (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [chainId, ...rest] = entry.split('=');
+      urls.set(Number(chainId), rest.join('='));
+    });
+
+  return urls;
+};
+
+const rpcUrls = parseRpcUrls(env.ETH_RPC_URLS);
+
+export const getRpcProvider = (chainId: number): AbstractProvider | null => {
+  const existing = providers.get(chainId);
+  if (existing) {
+    return existing;
+  }
+
+  const url = rpcUrls.get(chainId) || env.ETH_RPC_URL;
+  if (!url) {
+    logger.warn(`No RPC URL configured for chain ${chainId}`);
+    return null;
+  }
+
+  const provider = new JsonRpcProvider(url, Network.from(chainId), { staticNetwork: true });
+  providers.set(chainId, provider);
+
+  return provider;
+};
+
+/**
+ * Override the provider for a chain (mocked providers, local forks)
+ */
+export const setRpcProvider = (chainId: number, provider: AbstractProvider | null): void => {
+  if (provider) {
+    providers.set(chainId, provider);
+  } else {
+    providers.delete(chainId);
+  }
+};
@@ -0,0 +1,22 @@
+import { env } from '../utils/validateEnv';
+
+export interface PaymentConfig {
+  /** Platform treasury receiving course payments; payments are disabled when unset */
+  recipient: string | null;
+  /** How long a checkout intent accepts payments, in minutes */
+  intentTtlMinutes: number;
+  /** Blocks on top of the payment block before it is accepted */
+  minConfirmations: number;
+  /** Platform fee charged on each sale, in basis points (100 = 1%) */
+  platformFeeBps: number;
+  /** Tolerated drift between the intent creation time and the block timestamp */
+  clockSkewSeconds: number;
+}
+
+export const paymentConfig: PaymentConfig = {
+  recipient: env.PAYMENT_RECIPIENT_ADDRESS ? env.PAYMENT_RECIPIENT_ADDRESS.toLowerCase() : null,
+  intentTtlMinutes: Number(env.PAYMENT_INTENT_TTL_MINUTES),
+  minConfirmations: Number(env.PAYMENT_MIN_CONFIRMATIONS),
+  platformFeeBps: Number(env.PLATFORM_FEE_BPS),
+  clockSkewSeconds: 120,
+};
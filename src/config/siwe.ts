@@ -0,0 +1,31 @@
+import { env } from '../utils/validateEnv';
+
+export interface SiwePolicy {
+  /** Domains allowed in the message `domain` field */
+  allowedDomains: string[];
+  /** Origins the message `uri` must belong to */
+  allowedOrigins: string[];
+  /** EIP-155 chain IDs users may sign in from */
+  allowedChainIds: number[];
+  /** Maximum age of `issuedAt` in seconds */
+  maxMessageAgeSeconds: number;
+  /** Exact statement the message must carry, if set */
+  requiredStatement?: string;
+  /** Tolerated clock drift between wallet and server in seconds */
+  clockSkewSeconds: number;
+}
+
+const splitList = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export const siwePolicy: SiwePolicy = {
+  allowedDomains: splitList(env.SIWE_DOMAIN),
+  allowedOrigins: splitList(env.SIWE_ORIGIN).map((origin) => new URL(origin).origin),
+  allowedChainIds: splitList(env.SIWE_ALLOWED_CHAIN_IDS).map(Number),
+  maxMessageAgeSeconds: Number(env.SIWE_MAX_MESSAGE_AGE_SECONDS),
+  requiredStatement: env.SIWE_STATEMENT || undefined,
+  clockSkewSeconds: 60,
+};
@@ -47,6 +47,15 @@ const options: swaggerJsdoc.Options = {
               type: 'number',
               example: 400,
             },
+            code: {
+              type: 'string',
+              example: 'SIWE_CHAIN_NOT_ALLOWED',
+              description: 'Machine-readable error code, when available',
+            },
+            details: {
+              type: 'object',
+              description: 'Extra context for some error codes (e.g. unmet requirements for ACCESS_REQUIREMENT_NOT_MET)',
+            },
           },
         },
         User: {
@@ -77,6 +86,17 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               nullable: true,
             },
+            ens_name: {
+              type: 'string',
+              nullable: true,
+              example: 'vitalik.eth',
+              description: 'Primary ENS name of the wallet',
+            },
+            ens_avatar: {
+              type: 'string',
+              nullable: true,
+              description: 'Avatar URL from the ENS name records',
+            },
             social_links: {
               type: 'object',
               nullable: true,
@@ -127,11 +147,77 @@ const options: swaggerJsdoc.Options = {
             is_published: {
               type: 'boolean',
             },
+            publish_at: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the course will be published automatically',
+            },
+            unpublish_at: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the course will be unpublished automatically',
+            },
             tags: {
               type: 'array',
               items: { type: 'string' },
               nullable: true,
             },
+            price_amount: {
+              type: 'string',
+              nullable: true,
+              description: 'Positive price in base units of the payment token; null for free courses',
+              example: '10000000',
+            },
+            price_currency: {
+              type: 'string',
+              nullable: true,
+              example: 'USDC',
+            },
+            price_decimals: {
+              type: 'integer',
+              example: 6,
+            },
+            price_chain_id: {
+              type: 'integer',
+              nullable: true,
+              example: 8453,
+            },
+            price_token_address: {
+              type: 'string',
+              nullable: true,
+              description: 'ERC-20 token contract; null for the native currency',
+            },
+            sequential: {
+              type: 'boolean',
+              description: 'Each lesson unlocks once the previous one is completed',
+            },
+            is_template: {
+              type: 'boolean',
+              description: 'Listed at /courses/templates; anyone signed in can clone its content',
+            },
+            completion_all_lessons: {
+              type: 'boolean',
+              description: 'Completion criterion: every lesson completed',
+            },
+            completion_min_quiz_score: {
+              type: 'integer',
+              minimum: 0,
+              maximum: 100,
+              nullable: true,
+              description: 'Completion criterion: average best quiz score in percent, unattempted quizzes counting as 0',
+            },
+            completion_requires_assignments: {
+              type: 'boolean',
+              description: 'Completion criterion: every assignment passed',
+            },
+            duplicated_from: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Course this one was duplicated from',
+            },
             instructor_id: {
               type: 'string',
               format: 'uuid',
@@ -152,6 +238,8 @@ const options: swaggerJsdoc.Options = {
                 wallet_address: { type: 'string' },
                 display_name: { type: 'string', nullable: true },
                 avatar_url: { type: 'string', nullable: true },
+                ens_name: { type: 'string', nullable: true },
+                ens_avatar: { type: 'string', nullable: true },
               },
             },
             lessons: {
@@ -199,104 +287,1183 @@ const options: swaggerJsdoc.Options = {
               type: 'number',
               nullable: true,
             },
+            section_id: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            release_after_days: {
+              type: 'integer',
+              nullable: true,
+              description: 'Unlocks this many days after the learner enrolled',
+            },
+            release_at: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Unlocks for everyone at this date',
+            },
+            is_preview: {
+              type: 'boolean',
+              description: 'Free preview; content and video are open to visitors who are not enrolled',
+            },
+            locked: {
+              type: 'boolean',
+              description: 'Learner views only. Locked lessons have no content or video_url',
+            },
+            locked_reason: {
+              type: 'string',
+              enum: ['enrollment', 'drip', 'sequential'],
+              nullable: true,
+              description:
+                'Learner views only. enrollment: not enrolled and not a preview; drip: not released yet; sequential: previous lesson not completed',
+            },
+            unlocks_at: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Learner views only. When the lesson unlocks for this learner',
+            },
             created_at: {
               type: 'string',
               format: 'date-time',
             },
           },
         },
-        Enrollment: {
+        Section: {
           type: 'object',
           properties: {
             id: {
               type: 'string',
               format: 'uuid',
             },
-            user_id: {
+            course_id: {
               type: 'string',
               format: 'uuid',
             },
-            course_id: {
+            title: {
               type: 'string',
-              format: 'uuid',
             },
-            enrolled_at: {
+            description: {
               type: 'string',
-              format: 'date-time',
+              nullable: true,
             },
-            course: {
-              $ref: '#/components/schemas/Course',
+            order: {
+              type: 'number',
+            },
+            lessons: {
+              type: 'array',
+              description: 'Lessons of the section sorted by order (only in curriculum trees)',
+              items: { $ref: '#/components/schemas/Lesson' },
             },
           },
         },
-        Progress: {
+        SectionProgress: {
           type: 'object',
           properties: {
-            id: {
+            section_id: {
               type: 'string',
               format: 'uuid',
+              nullable: true,
+              description: 'null for lessons outside any section',
+            },
+            title: {
+              type: 'string',
+              nullable: true,
             },
+            totalLessons: { type: 'number' },
+            completedLessons: { type: 'number' },
+            progressPercentage: { type: 'number' },
+          },
+        },
+        CourseMember: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            course_id: { type: 'string', format: 'uuid' },
             user_id: {
               type: 'string',
               format: 'uuid',
+              nullable: true,
+              description: 'Set once the invite is accepted',
             },
-            lesson_id: {
+            wallet_address: { type: 'string' },
+            role: {
               type: 'string',
-              format: 'uuid',
+              enum: ['owner', 'co_instructor', 'ta'],
             },
-            enrollment_id: {
+            permissions: {
+              type: 'array',
+              nullable: true,
+              description: 'Overrides the role defaults; null uses them',
+              items: { type: 'string' },
+            },
+            effective_permissions: {
+              type: 'array',
+              description: 'What the member can do; manage_course is the owner only',
+              items: {
+                type: 'string',
+                enum: [
+                  'edit_content',
+                  'upload_video',
+                  'publish',
+                  'view_students',
+                  'moderate_discussions',
+                  'grade_submissions',
+                  'manage_course',
+                ],
+              },
+            },
+            status: {
               type: 'string',
-              format: 'uuid',
+              enum: ['pending', 'active'],
             },
-            completed: {
+            invited_at: { type: 'string', format: 'date-time' },
+            accepted_at: { type: 'string', format: 'date-time', nullable: true },
+          },
+        },
+        Quiz: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            lesson_id: { type: 'string', format: 'uuid' },
+            title: { type: 'string' },
+            description: { type: 'string', nullable: true },
+            pass_percentage: {
+              type: 'integer',
+              minimum: 0,
+              maximum: 100,
+              description: 'Share of the points needed to pass',
+            },
+            max_attempts: {
+              type: 'integer',
+              nullable: true,
+              description: 'null for unlimited attempts',
+            },
+            required_to_complete: {
               type: 'boolean',
+              description: 'The lesson can only be marked complete once the quiz is passed',
             },
-            completed_at: {
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        QuizQuestion: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            quiz_id: { type: 'string', format: 'uuid' },
+            type: {
+              type: 'string',
+              enum: ['multiple_choice', 'multi_select', 'true_false', 'short_answer'],
+            },
+            prompt: { type: 'string' },
+            options: {
+              type: 'array',
+              nullable: true,
+              description: 'Answer choices of multiple_choice and multi_select questions',
+              items: { type: 'string' },
+            },
+            correct_answer: {
+              description:
+                'Staff, and learners who passed. multiple_choice: option index; multi_select: option indexes; true_false: boolean; short_answer: accepted answers (case-insensitive)',
+            },
+            explanation: {
               type: 'string',
-              format: 'date-time',
               nullable: true,
+              description: 'Staff, and learners who passed',
             },
+            points: { type: 'integer', minimum: 1 },
+            order: { type: 'integer' },
           },
         },
-        Certificate: {
+        QuizAttempt: {
           type: 'object',
           properties: {
-            id: {
+            id: { type: 'string', format: 'uuid' },
+            score: { type: 'integer' },
+            max_score: { type: 'integer' },
+            percentage: { type: 'number', description: 'Only on a freshly submitted attempt' },
+            passed: { type: 'boolean' },
+            results: {
+              type: 'array',
+              description: 'Whether each question was answered correctly; only once the learner passed',
+              items: {
+                type: 'object',
+                properties: {
+                  question_id: { type: 'string', format: 'uuid' },
+                  correct: { type: 'boolean' },
+                  points: { type: 'integer' },
+                },
+              },
+            },
+            submitted_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        QuizSummary: {
+          type: 'object',
+          properties: {
+            attempts_used: { type: 'integer' },
+            attempts_remaining: { type: 'integer', nullable: true, description: 'null for unlimited attempts' },
+            passed: { type: 'boolean' },
+            best_score: { type: 'integer', nullable: true },
+          },
+        },
+        Assignment: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            lesson_id: { type: 'string', format: 'uuid' },
+            title: { type: 'string' },
+            instructions: { type: 'string' },
+            submission_types: {
+              type: 'array',
+              items: { type: 'string', enum: ['text', 'url', 'github', 'contract'] },
+            },
+            contract_chain_id: {
+              type: 'integer',
+              nullable: true,
+              description: 'Chain contract submissions must be deployed on',
+            },
+            rubric: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  key: { type: 'string' },
+                  title: { type: 'string' },
+                  description: { type: 'string', nullable: true },
+                  max_points: { type: 'integer', minimum: 1 },
+                },
+              },
+            },
+            pass_percentage: { type: 'integer', minimum: 0, maximum: 100 },
+            allow_resubmission: {
+              type: 'boolean',
+              description: 'Whether learners may submit again after a failing grade',
+            },
+            max_submissions: { type: 'integer', nullable: true, description: 'null for no limit' },
+            required_to_complete: {
+              type: 'boolean',
+              description: 'The lesson can only be marked complete once the assignment is passed',
+            },
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        AssignmentSubmission: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            assignment_id: { type: 'string', format: 'uuid' },
+            course_id: { type: 'string', format: 'uuid' },
+            user_id: { type: 'string', format: 'uuid' },
+            attempt_number: { type: 'integer' },
+            submission_type: { type: 'string', enum: ['text', 'url', 'github', 'contract'] },
+            content: { type: 'string', description: 'Text, URL or contract address' },
+            status: {
+              type: 'string',
+              enum: ['submitted', 'returned', 'graded'],
+              description: 'returned: sent back for revision without a grade',
+            },
+            rubric_scores: {
+              type: 'object',
+              nullable: true,
+              additionalProperties: { type: 'integer' },
+              description: 'Rubric key -> points awarded',
+            },
+            score: { type: 'integer', nullable: true },
+            max_score: { type: 'integer', nullable: true },
+            passed: { type: 'boolean', nullable: true },
+            feedback: { type: 'string', nullable: true },
+            graded_by: { type: 'string', format: 'uuid', nullable: true },
+            graded_at: { type: 'string', format: 'date-time', nullable: true },
+            submitted_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        Notification: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            type: { type: 'string', enum: ['assignment_graded', 'assignment_returned'] },
+            title: { type: 'string' },
+            body: { type: 'string', nullable: true },
+            data: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Ids to link to, e.g. courseId, lessonId and submissionId',
+            },
+            read_at: { type: 'string', format: 'date-time', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        CodeExercise: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            lesson_id: { type: 'string', format: 'uuid' },
+            title: { type: 'string' },
+            instructions: { type: 'string' },
+            starter_code: { type: 'string', nullable: true },
+            solution_source: { type: 'string', description: 'Reference solution; course staff only' },
+            test_source: {
+              type: 'string',
+              description: 'Test contract, compiled as Test.sol next to the learner source (Solution.sol)',
+            },
+            test_cases: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Contract.function of every test* function in the test source',
+            },
+            gas_limit: { type: 'integer', description: 'Gas of each deployment, setUp() and test call' },
+            required_to_complete: {
+              type: 'boolean',
+              description: 'The lesson can only be marked complete once an attempt passes every test',
+            },
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        TestCaseResult: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            passed: { type: 'boolean' },
+            gas_used: { type: 'integer' },
+            error: { type: 'string', description: 'Revert reason or EVM error of a failing test' },
+          },
+        },
+        CodeExerciseAttempt: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            exercise_id: { type: 'string', format: 'uuid' },
+            user_id: { type: 'string', format: 'uuid' },
+            source: { type: 'string' },
+            compiler_version: { type: 'string', nullable: true, description: 'null when the run timed out' },
+            status: { type: 'string', enum: ['passed', 'failed', 'compile_error', 'timeout'] },
+            errors: { type: 'array', items: { type: 'string' }, description: 'Compiler errors' },
+            results: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/TestCaseResult' },
+            },
+            tests_passed: { type: 'integer' },
+            tests_total: { type: 'integer' },
+            submitted_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        ExerciseProgress: {
+          type: 'object',
+          properties: {
+            attempt_id: { type: 'string', format: 'uuid' },
+            status: { type: 'string', enum: ['passed', 'failed', 'compile_error', 'timeout'] },
+            tests: {
+              type: 'array',
+              description: 'Every test case of the exercise; tests that did not run count as failed',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  passed: { type: 'boolean' },
+                },
+              },
+            },
+            submitted_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        Prerequisite: {
+          type: 'object',
+          properties: {
+            prerequisite_id: {
               type: 'string',
               format: 'uuid',
             },
-            user_id: {
+            enforcement: {
+              type: 'string',
+              enum: ['required', 'recommended'],
+              description: 'required blocks enrollment until completed; recommended only warns',
+            },
+            course: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                title: { type: 'string' },
+                thumbnail_url: { type: 'string', nullable: true },
+                is_published: { type: 'boolean' },
+              },
+            },
+            completed: {
+              type: 'boolean',
+              description: 'Signed-in learners only. Whether they completed the prerequisite',
+            },
+          },
+        },
+        LearningPath: {
+          type: 'object',
+          properties: {
+            id: {
               type: 'string',
               format: 'uuid',
             },
-            course_id: {
+            creator_id: {
               type: 'string',
               format: 'uuid',
             },
-            issued_at: {
+            slug: {
               type: 'string',
-              format: 'date-time',
+              example: 'web3-developer',
             },
-            certificate_hash: {
+            title: {
+              type: 'string',
+            },
+            description: {
               type: 'string',
               nullable: true,
             },
-            nft_token_id: {
+            thumbnail_url: {
               type: 'string',
               nullable: true,
             },
+            is_published: {
+              type: 'boolean',
+            },
+            courses: {
+              type: 'array',
+              description: 'Courses of the path in order',
+              items: { $ref: '#/components/schemas/PathCourse' },
+            },
+            created_at: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updated_at: {
+              type: 'string',
+              format: 'date-time',
+            },
           },
         },
-      },
-    },
-    tags: [
-      {
-        name: 'Authentication',
-        description: 'Web3 authentication endpoints using Sign-In with Ethereum (SIWE)',
-      },
-      {
-        name: 'Courses',
-        description: 'Course management and enrollment endpoints',
+        PathCourse: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            title: { type: 'string' },
+            description: { type: 'string', nullable: true },
+            thumbnail_url: { type: 'string', nullable: true },
+            level: { type: 'string', nullable: true },
+            price_amount: { type: 'string', nullable: true },
+            price_currency: { type: 'string', nullable: true },
+            is_published: { type: 'boolean' },
+            order: { type: 'integer' },
+            enrolled: {
+              type: 'boolean',
+              description: 'Progress views only',
+            },
+            completed: {
+              type: 'boolean',
+              description: 'Progress views only',
+            },
+          },
+        },
+        PathProgress: {
+          type: 'object',
+          properties: {
+            totalCourses: { type: 'number' },
+            completedCourses: { type: 'number' },
+            progressPercentage: { type: 'number' },
+            nextCourseId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'First course of the path not completed yet',
+            },
+            courses: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/PathCourse' },
+            },
+          },
+        },
+        PathEnrollment: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            path_id: { type: 'string', format: 'uuid' },
+            user_id: { type: 'string', format: 'uuid' },
+            enrolled_at: { type: 'string', format: 'date-time' },
+            completed_at: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Set, and a certificate issued, once every course of the path is completed',
+            },
+          },
+        },
+        Enrollment: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            user_id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            course_id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            enrolled_at: {
+              type: 'string',
+              format: 'date-time',
+            },
+            course: {
+              $ref: '#/components/schemas/Course',
+            },
+          },
+        },
+        Progress: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            user_id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            lesson_id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            enrollment_id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            completed: {
+              type: 'boolean',
+            },
+            completed_at: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            exercise_results: {
+              allOf: [{ $ref: '#/components/schemas/ExerciseProgress' }],
+              nullable: true,
+              description: 'Latest code exercise attempt of the lesson',
+            },
+          },
+        },
+        CompletionStatus: {
+          type: 'object',
+          properties: {
+            completed: {
+              type: 'boolean',
+              description: 'Kept once reached, even if the criteria change later',
+            },
+            completedAt: { type: 'string', format: 'date-time', nullable: true },
+            progressPercentage: { type: 'number' },
+            completedLessons: { type: 'integer' },
+            totalLessons: { type: 'integer' },
+            quizScore: {
+              type: 'number',
+              nullable: true,
+              description: 'Average best quiz score in percent; null for courses without quizzes',
+            },
+            passedAssignments: { type: 'integer' },
+            totalAssignments: { type: 'integer' },
+            criteria: {
+              type: 'array',
+              description: 'Criteria the course requires and whether they are met',
+              items: {
+                type: 'object',
+                properties: {
+                  criterion: { type: 'string', enum: ['all_lessons', 'min_quiz_score', 'assignments'] },
+                  met: { type: 'boolean' },
+                },
+              },
+            },
+            certificate: {
+              allOf: [{ $ref: '#/components/schemas/Certificate' }],
+              nullable: true,
+              description: 'Certificate issued by this update',
+            },
+          },
+        },
+        Certificate: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            user_id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            course_id: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            path_id: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Set instead of course_id for learning path certificates',
+            },
+            issued_at: {
+              type: 'string',
+              format: 'date-time',
+            },
+            certificate_hash: {
+              type: 'string',
+              nullable: true,
+              description: 'EIP-712 hash of payload',
+            },
+            payload: {
+              type: 'object',
+              nullable: true,
+              description: 'Signed certificate contents; null for certificates issued before signing',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                recipient: { type: 'string', description: 'Learner wallet' },
+                kind: { type: 'string', enum: ['course', 'learning_path'] },
+                subjectId: { type: 'string', format: 'uuid', description: 'Course or learning path id' },
+                title: { type: 'string' },
+                instructor: { type: 'string', description: 'Wallet of the course instructor or path creator' },
+                issuedAt: { type: 'integer', description: 'Unix seconds' },
+              },
+            },
+            signature: {
+              type: 'string',
+              nullable: true,
+              description: 'EIP-712 signature of payload by the platform certificate signer',
+            },
+            nft_token_id: {
+              type: 'string',
+              nullable: true,
+            },
+          },
+        },
+        CertificateVerification: {
+          type: 'object',
+          properties: {
+            valid: {
+              type: 'boolean',
+              description: 'The payload hashes to certificate_hash and is signed by a trusted platform signer',
+            },
+            checks: {
+              type: 'object',
+              properties: {
+                hashMatches: { type: 'boolean' },
+                signedByIssuer: { type: 'boolean' },
+              },
+            },
+            signer: {
+              type: 'string',
+              nullable: true,
+              description: 'Address recovered from the signature',
+            },
+            certificate: {
+              type: 'object',
+              description: 'Public certificate fields; the learner is identified by the payload wallet',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                certificate_hash: { type: 'string', nullable: true },
+                signature: { type: 'string', nullable: true },
+                issued_at: { type: 'string', format: 'date-time' },
+                nft_token_id: { type: 'string', nullable: true },
+                payload: { type: 'object', nullable: true },
+              },
+            },
+            typedData: {
+              type: 'object',
+              nullable: true,
+              description: 'EIP-712 domain, types and message, to check the signature with any wallet library (e.g. ethers verifyTypedData)',
+              properties: {
+                domain: { type: 'object' },
+                types: { type: 'object' },
+                primaryType: { type: 'string', example: 'Certificate' },
+                message: { type: 'object' },
+              },
+            },
+          },
+        },
+        Wallet: {
+          type: 'object',
+          properties: {
+            address: {
+              type: 'string',
+              example: '0x1234567890abcdef1234567890abcdef12345678',
+            },
+            is_primary: {
+              type: 'boolean',
+            },
+            linked_at: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        Session: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            ip_address: {
+              type: 'string',
+              nullable: true,
+            },
+            user_agent: {
+              type: 'string',
+              nullable: true,
+            },
+            created_at: {
+              type: 'string',
+              format: 'date-time',
+            },
+            last_seen_at: {
+              type: 'string',
+              format: 'date-time',
+            },
+            expires_at: {
+              type: 'string',
+              format: 'date-time',
+            },
+            current: {
+              type: 'boolean',
+              description: 'Whether this is the session making the request',
+            },
+          },
+        },
+        CourseRevision: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            course_id: { type: 'string', format: 'uuid' },
+            status: { type: 'string', enum: ['draft', 'published'] },
+            version: { type: 'integer', nullable: true, description: 'null while draft' },
+            snapshot: {
+              type: 'object',
+              description: 'Versioned content: { course, sections, lessons }. Omitted in version lists.',
+            },
+            based_on_version: { type: 'integer', nullable: true },
+            rolled_back_from: { type: 'integer', nullable: true },
+            notes: { type: 'string', nullable: true },
+            created_by: { type: 'string', format: 'uuid', nullable: true },
+            published_by: { type: 'string', format: 'uuid', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time' },
+            published_at: { type: 'string', format: 'date-time', nullable: true },
+            diff: { $ref: '#/components/schemas/RevisionDiff' },
+          },
+        },
+        RevisionDiff: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            course: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/FieldChange' },
+            },
+            sections: { $ref: '#/components/schemas/ItemDiff' },
+            lessons: { $ref: '#/components/schemas/ItemDiff' },
+          },
+        },
+        ItemDiff: {
+          type: 'object',
+          properties: {
+            added: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { id: { type: 'string' }, title: { type: 'string' } },
+              },
+            },
+            removed: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { id: { type: 'string' }, title: { type: 'string' } },
+              },
+            },
+            changed: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  title: { type: 'string' },
+                  changes: {
+                    type: 'array',
+                    items: { $ref: '#/components/schemas/FieldChange' },
+                  },
+                },
+              },
+            },
+          },
+        },
+        FieldChange: {
+          type: 'object',
+          properties: {
+            field: { type: 'string' },
+            before: {},
+            after: {},
+          },
+        },
+        PaymentIntent: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            course_id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            chain_id: {
+              type: 'integer',
+            },
+            token_address: {
+              type: 'string',
+              nullable: true,
+              description: 'ERC-20 token to pay with; null for the native currency',
+            },
+            currency: {
+              type: 'string',
+              nullable: true,
+            },
+            decimals: {
+              type: 'integer',
+            },
+            recipient: {
+              type: 'string',
+              description: 'Address the payment must be sent to',
+            },
+            amount: {
+              type: 'string',
+              description: 'Amount due in base units',
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'confirmed'],
+            },
+            tx_hash: {
+              type: 'string',
+              nullable: true,
+            },
+            expires_at: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Payments mined after this time are not accepted',
+            },
+          },
+        },
+        Coupon: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            code: {
+              type: 'string',
+              example: 'LAUNCH50',
+            },
+            course_id: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'null for all of the instructor\'s courses',
+            },
+            discount_type: {
+              type: 'string',
+              enum: ['percent', 'fixed'],
+            },
+            percent_off: {
+              type: 'number',
+              nullable: true,
+              example: 50,
+            },
+            amount_off: {
+              type: 'string',
+              nullable: true,
+              description: 'Fixed discount in base units of `currency`',
+            },
+            currency: {
+              type: 'string',
+              nullable: true,
+            },
+            max_redemptions: {
+              type: 'integer',
+              nullable: true,
+            },
+            per_wallet_limit: {
+              type: 'integer',
+              nullable: true,
+            },
+            redemption_count: {
+              type: 'integer',
+            },
+            expires_at: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            is_active: {
+              type: 'boolean',
+            },
+          },
+        },
+        PriceQuote: {
+          type: 'object',
+          properties: {
+            course_id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            currency: {
+              type: 'string',
+              nullable: true,
+            },
+            decimals: {
+              type: 'integer',
+            },
+            list_amount: {
+              type: 'string',
+            },
+            discount_amount: {
+              type: 'string',
+            },
+            final_amount: {
+              type: 'string',
+            },
+            coupon: {
+              type: 'object',
+              nullable: true,
+            },
+          },
+        },
+        Sale: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            course_id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            course_title: {
+              type: 'string',
+            },
+            buyer_id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            payer_address: {
+              type: 'string',
+              nullable: true,
+            },
+            currency: {
+              type: 'string',
+              nullable: true,
+            },
+            list_amount: {
+              type: 'string',
+            },
+            discount_amount: {
+              type: 'string',
+            },
+            amount: {
+              type: 'string',
+              description: 'Amount paid in base units',
+            },
+            coupon_code: {
+              type: 'string',
+              nullable: true,
+            },
+            tx_hash: {
+              type: 'string',
+              nullable: true,
+            },
+            sold_at: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        Payout: {
+          type: 'object',
+          required: ['instructor_id', 'chain_id', 'amount', 'tx_hash'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            instructor_id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            chain_id: {
+              type: 'integer',
+            },
+            token_address: {
+              type: 'string',
+              nullable: true,
+            },
+            currency: {
+              type: 'string',
+              nullable: true,
+            },
+            decimals: {
+              type: 'integer',
+            },
+            amount: {
+              type: 'string',
+              description: 'Amount paid out in base units',
+            },
+            recipient_address: {
+              type: 'string',
+              description: 'Defaults to the instructor\'s primary wallet',
+            },
+            tx_hash: {
+              type: 'string',
+            },
+            note: {
+              type: 'string',
+              nullable: true,
+            },
+            paid_at: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        RevenueReport: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              nullable: true,
+            },
+            to: {
+              type: 'string',
+              nullable: true,
+            },
+            courses: {
+              type: 'array',
+              description: 'Per course and asset: sales_count, gross, discounts, platform_fee, net',
+              items: { type: 'object' },
+            },
+            totals: {
+              type: 'array',
+              description: 'Per asset: the figures above plus paid_out and balance_owed',
+              items: { type: 'object' },
+            },
+            payouts: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/Payout' },
+            },
+          },
+        },
+        AccessRule: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            rule_type: {
+              type: 'string',
+              enum: ['erc20', 'erc721', 'erc1155', 'merkle_allowlist'],
+            },
+            chain_id: {
+              type: 'integer',
+              nullable: true,
+            },
+            contract_address: {
+              type: 'string',
+              nullable: true,
+            },
+            token_id: {
+              type: 'string',
+              nullable: true,
+              description: 'Specific ERC-721/1155 token id',
+            },
+            min_balance: {
+              type: 'string',
+              nullable: true,
+              description: 'Minimum balance in base units (defaults to 1)',
+            },
+            merkle_root: {
+              type: 'string',
+              nullable: true,
+              description: 'Root of an OpenZeppelin StandardMerkleTree of ["address"] leaves',
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+            },
+          },
+        },
+        AccessRuleResult: {
+          type: 'object',
+          properties: {
+            rule_id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            rule_type: {
+              type: 'string',
+            },
+            requirement: {
+              type: 'string',
+              example: 'Hold at least 1 of token #7 of ERC-1155 contract 0xabc... on chain 1',
+            },
+            met: {
+              type: 'boolean',
+            },
+            required_balance: {
+              type: 'string',
+            },
+            current_balance: {
+              type: 'string',
+              description: 'Balance summed across all linked wallets',
+            },
+            reason: {
+              type: 'string',
+            },
+          },
+        },
+      },
+    },
+    tags: [
+      {
+        name: 'Authentication',
+        description: 'Web3 authentication endpoints using Sign-In with Ethereum (SIWE)',
+      },
+      {
+        name: 'Certificates',
+        description: 'Public verification of course and learning path certificates',
+      },
+      {
+        name: 'Courses',
+        description: 'Course management and enrollment endpoints',
+      },
+      {
+        name: 'Learning Paths',
+        description: 'Ordered sets of courses with their own enrollment and certificate',
+      },
+      {
+        name: 'Payments',
+        description: 'On-chain checkout for paid courses',
       },
       {
         name: 'User',
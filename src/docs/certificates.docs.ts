@@ -0,0 +1,60 @@
+/**
+ * @swagger
+ * /certificates/verify:
+ *   get:
+ *     tags: [Certificates]
+ *     summary: Verify a certificate by its hash
+ *     description: Public, no sign-in needed. Recomputes the EIP-712 hash of the signed payload and checks it was signed by a trusted platform signer.
+ *     parameters:
+ *       - in: query
+ *         name: hash
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{64}$'
+ *         description: certificate_hash of the certificate
+ *     responses:
+ *       200:
+ *         description: Verification result; valid is false for tampered or unsigned certificates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 verification:
+ *                   $ref: '#/components/schemas/CertificateVerification'
+ *       400:
+ *         description: Invalid hash
+ *       404:
+ *         description: Certificate not found
+ */
+
+/**
+ * @swagger
+ * /certificates/{id}/verify:
+ *   get:
+ *     tags: [Certificates]
+ *     summary: Verify a certificate by its id
+ *     description: Public, no sign-in needed. Same checks as verifying by hash.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Verification result; valid is false for tampered or unsigned certificates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 verification:
+ *                   $ref: '#/components/schemas/CertificateVerification'
+ *       400:
+ *         description: Invalid certificate id
+ *       404:
+ *         description: Certificate not found
+ */
@@ -29,13 +29,39 @@
  *         description: Server error
  */
 
+/**
+ * @swagger
+ * /courses/templates:
+ *   get:
+ *     tags: [Courses]
+ *     summary: List course templates
+ *     description: Published courses marked `is_template`, newest first. Anyone signed in can clone them.
+ *     responses:
+ *       200:
+ *         description: Templates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 courses:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Course'
+ */
+
 /**
  * @swagger
  * /courses/{courseId}:
  *   get:
  *     tags: [Courses]
  *     summary: Get course details
- *     description: Returns detailed information about a specific course including lessons
+ *     description: >
+ *       Returns detailed information about a specific course including its curriculum.
+ *       `course.lessons` is the flat list in curriculum order, `course.sections` nests the
+ *       lessons under their sections and `course.unsectioned_lessons` holds the rest.
+ *       Only preview lessons (`is_preview`) of published courses include their content and
+ *       video; course staff also see them on drafts.
  *     parameters:
  *       - in: path
  *         name: courseId
@@ -139,6 +165,29 @@
  *           type: string
  *           format: uuid
  *         description: Course ID to enroll in
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               allowlistProofs:
+ *                 type: array
+ *                 description: Merkle proofs for allowlist rules, stored and re-checked on later access
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     ruleId:
+ *                       type: string
+ *                       format: uuid
+ *                     address:
+ *                       type: string
+ *                       description: One of the user's linked wallets
+ *                     proof:
+ *                       type: array
+ *                       items:
+ *                         type: string
  *     responses:
  *       201:
  *         description: Successfully enrolled in course
@@ -149,10 +198,21 @@
  *               properties:
  *                 enrollment:
  *                   $ref: '#/components/schemas/Enrollment'
+ *                 warnings:
+ *                   type: array
+ *                   description: Recommended prerequisites not completed yet
+ *                   items:
+ *                     $ref: '#/components/schemas/Prerequisite'
  *       400:
- *         description: Already enrolled or course requires payment
+ *         description: Already enrolled
  *       401:
  *         description: Not authenticated
+ *       402:
+ *         description: Paid course, use the checkout endpoint instead (PAYMENT_REQUIRED)
+ *       403:
+ *         description: >
+ *           Token-gating requirements not met (code ACCESS_REQUIREMENT_NOT_MET, details.requirements lists each rule),
+ *           or required prerequisites not completed (code PREREQUISITES_NOT_MET, details.prerequisites lists each)
  *       404:
  *         description: Course not found or not published
  */
@@ -163,8 +223,15 @@
  *   get:
  *     tags: [Courses]
  *     summary: Get course lessons
- *     description: Returns all lessons for a course (requires enrollment or ownership)
+ *     description: >
+ *       Returns all lessons for a course, flat in curriculum order and nested by section
+ *       (requires enrollment or ownership). Lessons not yet released to the learner, or whose
+ *       previous lesson is not completed in a sequential course, are included with
+ *       `locked: true`, `locked_reason` and `unlocks_at`, without content or video.
+ *       Published courses with preview lessons are open to anyone: visitors who are not
+ *       enrolled get the previews unlocked and every other lesson locked (`locked_reason: enrollment`).
  *     security:
+ *       - {}
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
@@ -186,10 +253,18 @@
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/Lesson'
+ *                 sections:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Section'
+ *                 unsectioned_lessons:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Lesson'
  *       401:
- *         description: Not authenticated
+ *         description: Not authenticated and the course has no previews
  *       403:
- *         description: Not enrolled in course
+ *         description: Not enrolled in course and the course has no previews
  */
 
 /**
@@ -198,7 +273,7 @@
  *   post:
  *     tags: [Courses]
  *     summary: Create a new lesson
- *     description: Add a new lesson to a course (course owner only)
+ *     description: Add a new lesson to a course (requires the edit_content course permission)
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -236,6 +311,24 @@
  *               duration_minutes:
  *                 type: integer
  *                 minimum: 0
+ *               section_id:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *                 description: Section of the same course to place the lesson in
+ *               release_after_days:
+ *                 type: integer
+ *                 minimum: 0
+ *                 nullable: true
+ *                 description: Drip release, days after enrollment (clears release_at)
+ *               release_at:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Drip release on a fixed date (clears release_after_days)
+ *               is_preview:
+ *                 type: boolean
+ *                 description: Free preview, content and video open to visitors who are not enrolled
  *     responses:
  *       201:
  *         description: Lesson created successfully
@@ -249,7 +342,2048 @@
  *       401:
  *         description: Not authenticated
  *       403:
- *         description: Not the course owner
+ *         description: Missing the course permission
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/lessons/order:
+ *   put:
+ *     tags: [Courses]
+ *     summary: Reorder and move lessons
+ *     description: >
+ *       Requires the edit_content course permission. Takes every lesson of the course
+ *       exactly once, in curriculum order, and applies it in one transaction: lessons are
+ *       renumbered 0..n-1 and optionally moved between sections.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lessonIds
+ *             properties:
+ *               lessonIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               sectionAssignments:
+ *                 type: object
+ *                 description: Lesson ID to section ID; null moves the lesson out of its section
+ *                 additionalProperties:
+ *                   type: string
+ *                   format: uuid
+ *                   nullable: true
+ *     responses:
+ *       200:
+ *         description: New curriculum, in the same shape as GET /courses/{courseId}/lessons
+ *       400:
+ *         description: The list does not match the course's lessons, or a section belongs to another course
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Missing the course permission
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/lessons/{lessonId}/quiz:
+ *   get:
+ *     tags: [Courses]
+ *     summary: Get the quiz of a lesson
+ *     description: >
+ *       Course staff get every question with its answer. Learners need access to the lesson
+ *       (enrolled, or a preview lesson) and get the questions without `correct_answer` and
+ *       `explanation` until they pass, plus a summary of their attempts.
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Quiz
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 quiz:
+ *                   $ref: '#/components/schemas/Quiz'
+ *                 questions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/QuizQuestion'
+ *                 summary:
+ *                   $ref: '#/components/schemas/QuizSummary'
+ *       403:
+ *         description: Not enrolled or lesson locked (code LESSON_LOCKED)
+ *       404:
+ *         description: Lesson or quiz not found
+ *   put:
+ *     tags: [Courses]
+ *     summary: Create or update the quiz of a lesson
+ *     description: Requires the edit_content course permission
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [title]
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               pass_percentage:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 default: 70
+ *               max_attempts:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: null for unlimited attempts
+ *               required_to_complete:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Quiz saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 quiz:
+ *                   $ref: '#/components/schemas/Quiz'
+ *       404:
+ *         description: Lesson not found
+ *   delete:
+ *     tags: [Courses]
+ *     summary: Delete the quiz of a lesson
+ *     description: Requires the edit_content course permission. Questions and attempts are deleted with it.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Quiz deleted
+ *       404:
+ *         description: Lesson or quiz not found
+ *
+ * /courses/{courseId}/lessons/{lessonId}/quiz/questions:
+ *   post:
+ *     tags: [Courses]
+ *     summary: Add a quiz question
+ *     description: Requires the edit_content course permission
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, prompt, correct_answer]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [multiple_choice, multi_select, true_false, short_answer]
+ *               prompt:
+ *                 type: string
+ *               options:
+ *                 type: array
+ *                 description: At least two, for multiple_choice and multi_select only
+ *                 items:
+ *                   type: string
+ *               correct_answer:
+ *                 description: >
+ *                   multiple_choice: option index; multi_select: option indexes; true_false:
+ *                   boolean; short_answer: accepted answers, compared case-insensitively
+ *               explanation:
+ *                 type: string
+ *               points:
+ *                 type: integer
+ *                 minimum: 1
+ *                 default: 1
+ *               order:
+ *                 type: integer
+ *                 description: Defaults to after the last question
+ *     responses:
+ *       201:
+ *         description: Question created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 question:
+ *                   $ref: '#/components/schemas/QuizQuestion'
+ *       400:
+ *         description: Options or correct_answer do not fit the question type
+ *       404:
+ *         description: Lesson or quiz not found
+ *
+ * /courses/{courseId}/lessons/{lessonId}/quiz/questions/{questionId}:
+ *   patch:
+ *     tags: [Courses]
+ *     summary: Update a quiz question
+ *     description: >
+ *       Requires the edit_content course permission. Takes the fields of POST; the updated
+ *       question is validated as a whole.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: questionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Question updated
+ *       400:
+ *         description: Options or correct_answer do not fit the question type
+ *       404:
+ *         description: Question not found
+ *   delete:
+ *     tags: [Courses]
+ *     summary: Delete a quiz question
+ *     description: Requires the edit_content course permission
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: questionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Question deleted
+ *       404:
+ *         description: Question not found
+ *
+ * /courses/{courseId}/lessons/{lessonId}/quiz/attempts:
+ *   get:
+ *     tags: [Courses]
+ *     summary: List own quiz attempts
+ *     description: Newest first. Per-question `results` are only included once the learner passed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attempts:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/QuizAttempt'
+ *                 summary:
+ *                   $ref: '#/components/schemas/QuizSummary'
+ *   post:
+ *     tags: [Courses]
+ *     summary: Submit a quiz attempt
+ *     description: >
+ *       Enrolled learners only. Graded on the server: a question scores its points only when
+ *       answered exactly right, and the attempt passes at `pass_percentage` of the points.
+ *       Unanswered questions score nothing. Once passed, the response includes the questions
+ *       with their answers and explanations.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [answers]
+ *             properties:
+ *               answers:
+ *                 type: object
+ *                 description: Question id -> option index, option indexes, true/false or text
+ *                 additionalProperties: true
+ *     responses:
+ *       201:
+ *         description: Graded attempt
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attempt:
+ *                   $ref: '#/components/schemas/QuizAttempt'
+ *                 summary:
+ *                   $ref: '#/components/schemas/QuizSummary'
+ *                 questions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/QuizQuestion'
+ *                 completion:
+ *                   $ref: '#/components/schemas/CompletionStatus'
+ *       400:
+ *         description: Quiz has no questions
+ *       403:
+ *         description: Not enrolled or lesson locked (code LESSON_LOCKED)
+ *       404:
+ *         description: Lesson or quiz not found
+ *       409:
+ *         description: No attempts left (code QUIZ_MAX_ATTEMPTS_REACHED)
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/lessons/{lessonId}/assignment:
+ *   get:
+ *     tags: [Courses]
+ *     summary: Get the assignment of a lesson
+ *     description: >
+ *       Course staff get the assignment only. Learners need access to the lesson (enrolled, or a
+ *       preview lesson) and also get their own submissions when signed in.
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Assignment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 assignment:
+ *                   $ref: '#/components/schemas/Assignment'
+ *                 submissions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AssignmentSubmission'
+ *       403:
+ *         description: Not enrolled or lesson locked (code LESSON_LOCKED)
+ *       404:
+ *         description: Lesson or assignment not found
+ *   put:
+ *     tags: [Courses]
+ *     summary: Create or update the assignment of a lesson
+ *     description: Requires the edit_content course permission
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [title, instructions, submission_types, rubric]
+ *             properties:
+ *               title:
+ *                 type: string
+ *               instructions:
+ *                 type: string
+ *               submission_types:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [text, url, github, contract]
+ *               contract_chain_id:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Required when contract submissions are allowed
+ *               rubric:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [key, title, max_points]
+ *                   properties:
+ *                     key:
+ *                       type: string
+ *                       description: Unique, lowercase letters, digits and "_"
+ *                     title:
+ *                       type: string
+ *                     description:
+ *                       type: string
+ *                     max_points:
+ *                       type: integer
+ *               pass_percentage:
+ *                 type: integer
+ *                 default: 60
+ *               allow_resubmission:
+ *                 type: boolean
+ *                 default: true
+ *               max_submissions:
+ *                 type: integer
+ *                 nullable: true
+ *               required_to_complete:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Assignment saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 assignment:
+ *                   $ref: '#/components/schemas/Assignment'
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Missing edit_content permission
+ *       404:
+ *         description: Lesson not found
+ *   delete:
+ *     tags: [Courses]
+ *     summary: Delete the assignment of a lesson
+ *     description: Requires the edit_content course permission. Deletes all submissions too.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Assignment deleted
+ *       404:
+ *         description: Assignment not found
+ *
+ * /courses/{courseId}/lessons/{lessonId}/assignment/submissions:
+ *   get:
+ *     tags: [Courses]
+ *     summary: List own submissions
+ *     description: Newest first
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Submissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 submissions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AssignmentSubmission'
+ *   post:
+ *     tags: [Courses]
+ *     summary: Submit an assignment
+ *     description: >
+ *       Enrolled learners only. URLs must be http(s), GitHub submissions a repository URL and
+ *       contract submissions the address of a contract deployed on `contract_chain_id`. A learner
+ *       can submit again once a submission is returned for revision, or after a failing grade when
+ *       `allow_resubmission` is set, up to `max_submissions`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [submission_type, content]
+ *             properties:
+ *               submission_type:
+ *                 type: string
+ *                 enum: [text, url, github, contract]
+ *               content:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Submission received
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 submission:
+ *                   $ref: '#/components/schemas/AssignmentSubmission'
+ *       400:
+ *         description: Submission type not allowed or invalid content
+ *       403:
+ *         description: Not enrolled or lesson locked (code LESSON_LOCKED)
+ *       404:
+ *         description: Lesson or assignment not found
+ *       409:
+ *         description: >
+ *           A submission awaits grading (code SUBMISSION_PENDING), already passed
+ *           (ASSIGNMENT_ALREADY_PASSED), resubmission not allowed (RESUBMISSION_NOT_ALLOWED) or
+ *           no submissions left (MAX_SUBMISSIONS_REACHED)
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/lessons/{lessonId}/exercise:
+ *   get:
+ *     tags: [Courses]
+ *     summary: Get the code exercise of a lesson
+ *     description: >
+ *       Course staff get the whole exercise. Learners need access to the lesson (enrolled, or a
+ *       preview lesson) and get it without `solution_source`, plus their own attempts when
+ *       signed in.
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Code exercise
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 exercise:
+ *                   $ref: '#/components/schemas/CodeExercise'
+ *                 attempts:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CodeExerciseAttempt'
+ *       403:
+ *         description: Not enrolled or lesson locked (code LESSON_LOCKED)
+ *       404:
+ *         description: Lesson or code exercise not found
+ *   put:
+ *     tags: [Courses]
+ *     summary: Create or update the code exercise of a lesson
+ *     description: >
+ *       Requires the edit_content course permission. The reference solution is compiled with
+ *       the test source and must pass every test; the test cases are taken from that run.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [title, instructions, solution_source, test_source]
+ *             properties:
+ *               title:
+ *                 type: string
+ *               instructions:
+ *                 type: string
+ *               starter_code:
+ *                 type: string
+ *                 nullable: true
+ *               solution_source:
+ *                 type: string
+ *               test_source:
+ *                 type: string
+ *                 description: >
+ *                   Solidity importing "./Solution.sol"; each public test* function without
+ *                   parameters is a test case, run after setUp() on a fresh deployment
+ *               gas_limit:
+ *                 type: integer
+ *                 minimum: 100000
+ *                 maximum: 30000000
+ *                 default: 10000000
+ *               required_to_complete:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Code exercise saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 exercise:
+ *                   $ref: '#/components/schemas/CodeExercise'
+ *       400:
+ *         description: >
+ *           Validation error, too many test cases, or the reference solution does not compile
+ *           or pass every test (code SOLUTION_FAILS_TESTS, the run in `details`)
+ *       403:
+ *         description: Missing edit_content permission
+ *       404:
+ *         description: Lesson not found
+ *       503:
+ *         description: All exercise runners are busy (code EXERCISE_RUNNER_BUSY)
+ *   delete:
+ *     tags: [Courses]
+ *     summary: Delete the code exercise of a lesson
+ *     description: Requires the edit_content course permission. Deletes all attempts too.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Code exercise deleted
+ *       404:
+ *         description: Code exercise not found
+ *
+ * /courses/{courseId}/lessons/{lessonId}/exercise/attempts:
+ *   get:
+ *     tags: [Courses]
+ *     summary: List own exercise attempts
+ *     description: Newest first
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attempts:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CodeExerciseAttempt'
+ *   post:
+ *     tags: [Courses]
+ *     summary: Submit a code exercise attempt
+ *     description: >
+ *       Enrolled learners only, 20 attempts per 10 minutes. The source is compiled with the
+ *       pinned solc-js build and the tests run on an in-process EVM with the exercise's gas limit
+ *       and a 20 second time limit. The per-test results are also stored in the learner's lesson
+ *       progress (`exercise_results`). Failing tests are a normal result, not an error.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lessonId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [source]
+ *             properties:
+ *               source:
+ *                 type: string
+ *                 description: Solidity source, compiled as Solution.sol
+ *     responses:
+ *       201:
+ *         description: Graded attempt
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attempt:
+ *                   $ref: '#/components/schemas/CodeExerciseAttempt'
+ *       403:
+ *         description: Not enrolled or lesson locked (code LESSON_LOCKED)
+ *       404:
+ *         description: Lesson or code exercise not found
+ *       429:
+ *         description: Too many attempts
+ *       503:
+ *         description: All exercise runners are busy (code EXERCISE_RUNNER_BUSY)
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/sections:
+ *   get:
+ *     tags: [Courses]
+ *     summary: List course sections
+ *     description: Sections of a course sorted by order
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Sections retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sections:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Section'
+ *   post:
+ *     tags: [Courses]
+ *     summary: Create a section
+ *     description: Requires the edit_content course permission. Without an order the section is appended after the last one.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 maxLength: 200
+ *               description:
+ *                 type: string
+ *               order:
+ *                 type: integer
+ *                 minimum: 0
+ *     responses:
+ *       201:
+ *         description: Section created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 section:
+ *                   $ref: '#/components/schemas/Section'
+ *       403:
+ *         description: Missing the course permission
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/sections/{sectionId}:
+ *   patch:
+ *     tags: [Courses]
+ *     summary: Update a section
+ *     description: Requires the edit_content course permission
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: sectionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               order:
+ *                 type: integer
+ *                 minimum: 0
+ *     responses:
+ *       200:
+ *         description: Section updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 section:
+ *                   $ref: '#/components/schemas/Section'
+ *       404:
+ *         description: Section not found
+ *   delete:
+ *     tags: [Courses]
+ *     summary: Delete a section
+ *     description: Requires the edit_content course permission. Lessons of the section are kept and become unsectioned.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: sectionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Section deleted
+ *       404:
+ *         description: Section not found
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/duplicate:
+ *   post:
+ *     tags: [Courses]
+ *     summary: Duplicate a course
+ *     description: >
+ *       Copies the course, its sections and lessons into a new unpublished course owned by the
+ *       caller. Staff with the edit_content course permission also get pricing, access rules and
+ *       prerequisites; anyone else can only clone a published template (`is_template`) and gets
+ *       the content alone. Videos are reused by default; `copy` starts a Cloudflare copy per lesson which
+ *       replaces the original once ready. An original still preparing its download stays reused and
+ *       is not copied later; duplicate again to retry. The original's MP4 download is only enabled
+ *       while the copy fetches it.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 description: Defaults to the title of the original
+ *               videos:
+ *                 type: string
+ *                 enum: [reuse, copy, none]
+ *                 default: reuse
+ *     responses:
+ *       201:
+ *         description: The new course and, with `videos=copy`, the outcome per lesson video
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 course:
+ *                   $ref: '#/components/schemas/Course'
+ *                 videos:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       lesson_id:
+ *                         type: string
+ *                         format: uuid
+ *                       video_id:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                         enum: [copying, reused, failed]
+ *                         description: "`reused` videos keep streaming the original and are never copied later"
+ *       403:
+ *         description: Not course staff and the course is not a published template
+ *       404:
+ *         description: Course not found
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/publish:
+ *   post:
+ *     tags: [Courses]
+ *     summary: Publish or unpublish a course now
+ *     description: >
+ *       Requires the publish course permission. Publishing requires at least one lesson
+ *       and clears a pending `publish_at`; unpublishing clears a pending `unpublish_at`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               publish:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       200:
+ *         description: Course status updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 course:
+ *                   $ref: '#/components/schemas/Course'
+ *       400:
+ *         description: Course has no lessons
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/schedule:
+ *   put:
+ *     tags: [Courses]
+ *     summary: Schedule publishing and unpublishing
+ *     description: >
+ *       Requires the publish course permission. Sets or clears (null) `publish_at` and
+ *       `unpublish_at`. Times must be in the future and `unpublish_at` after `publish_at`.
+ *       A background scheduler applies them, invalidates the course caches and writes
+ *       PUBLISH/UNPUBLISH audit events.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               publish_at:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               unpublish_at:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Schedule updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 course:
+ *                   $ref: '#/components/schemas/Course'
+ *       400:
+ *         description: Invalid times, or scheduling publication of a course without lessons
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/draft:
+ *   get:
+ *     tags: [Courses]
+ *     summary: Get the course draft
+ *     description: Requires the edit_content course permission. Returns the draft, a preview of it and its changes from the live content.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Draft with preview and diff
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 draft:
+ *                   $ref: '#/components/schemas/CourseRevision'
+ *                 preview:
+ *                   type: object
+ *                   description: Draft content shaped like GET /courses/{courseId}
+ *                 diff:
+ *                   $ref: '#/components/schemas/RevisionDiff'
+ *       404:
+ *         description: The course has no draft (code DRAFT_NOT_FOUND)
+ *   post:
+ *     tags: [Courses]
+ *     summary: Start a draft
+ *     description: >
+ *       Requires the edit_content course permission. Copies the live content into a draft,
+ *       or returns the draft in progress. The first draft of a course records the live content as version 1.
+ *       Published courses can only be edited through drafts; direct edits return 409
+ *       with code COURSE_PUBLISHED.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       201:
+ *         description: Draft with preview and diff
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 draft:
+ *                   $ref: '#/components/schemas/CourseRevision'
+ *                 preview:
+ *                   type: object
+ *                   description: Draft content shaped like GET /courses/{courseId}
+ *                 diff:
+ *                   $ref: '#/components/schemas/RevisionDiff'
+ *   patch:
+ *     tags: [Courses]
+ *     summary: Edit the draft
+ *     description: >
+ *       Requires the edit_content course permission. `course` fields are merged; `sections`
+ *       and `lessons` replace the whole list in order. Items without an id are new; supply your own UUID to place a
+ *       new lesson in a new section.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               course:
+ *                 type: object
+ *                 description: title, description, thumbnail_url, category, level, tags
+ *               sections:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [title]
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *                     title:
+ *                       type: string
+ *                     description:
+ *                       type: string
+ *                       nullable: true
+ *               lessons:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [title]
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *                     section_id:
+ *                       type: string
+ *                       format: uuid
+ *                       nullable: true
+ *                     title:
+ *                       type: string
+ *                     description:
+ *                       type: string
+ *                     video_url:
+ *                       type: string
+ *                     content:
+ *                       type: string
+ *                     duration_minutes:
+ *                       type: number
+ *               notes:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Updated draft with preview and diff
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 draft:
+ *                   $ref: '#/components/schemas/CourseRevision'
+ *                 preview:
+ *                   type: object
+ *                   description: Draft content shaped like GET /courses/{courseId}
+ *                 diff:
+ *                   $ref: '#/components/schemas/RevisionDiff'
+ *       400:
+ *         description: Invalid ids or section references
+ *       404:
+ *         description: The course has no draft
+ *   delete:
+ *     tags: [Courses]
+ *     summary: Discard the draft
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Draft discarded
+ *       404:
+ *         description: The course has no draft
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/draft/publish:
+ *   post:
+ *     tags: [Courses]
+ *     summary: Publish the draft as a new version
+ *     description: >
+ *       Requires the publish course permission. Replaces the live content with the draft in one transaction.
+ *       Lessons are matched by id, so progress on kept lessons is preserved. Fails with
+ *       409 DRAFT_OUTDATED if another version went live after the draft was started,
+ *       unless `force` is set.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               force:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: The published version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 version:
+ *                   $ref: '#/components/schemas/CourseRevision'
+ *       404:
+ *         description: The course has no draft
+ *       409:
+ *         description: Draft is outdated
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/versions:
+ *   get:
+ *     tags: [Courses]
+ *     summary: List published versions
+ *     description: Requires the edit_content course permission. Newest first, each with its changes from the previous version.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Version history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 currentVersion:
+ *                   type: integer
+ *                   nullable: true
+ *                 versions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CourseRevision'
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/versions/{version}:
+ *   get:
+ *     tags: [Courses]
+ *     summary: Get a published version
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       200:
+ *         description: Version with its content, preview and diff
+ *       404:
+ *         description: Version not found
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/versions/{version}/rollback:
+ *   post:
+ *     tags: [Courses]
+ *     summary: Roll back to a version
+ *     description: Requires the publish course permission. Publishes the content of an earlier version again as a new version.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       200:
+ *         description: The new version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 version:
+ *                   $ref: '#/components/schemas/CourseRevision'
+ *       404:
+ *         description: Version not found
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/members:
+ *   get:
+ *     tags: [Courses]
+ *     summary: List course members
+ *     description: >
+ *       Course staff only. The owner, co-instructors and TAs, plus pending invites, each
+ *       with `effective_permissions`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Members
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 members:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CourseMember'
+ *       403:
+ *         description: Not on the course staff
+ *   post:
+ *     tags: [Courses]
+ *     summary: Invite a co-instructor or TA
+ *     description: >
+ *       Course owner only. The invite is addressed to a wallet; whoever has it linked
+ *       accepts with POST /courses/{courseId}/members/accept. `permissions` overrides the
+ *       role defaults (co_instructor: all but owner-only actions; ta: view_students,
+ *       moderate_discussions, grade_submissions).
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [wallet_address, role]
+ *             properties:
+ *               wallet_address:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [co_instructor, ta]
+ *               permissions:
+ *                 type: array
+ *                 nullable: true
+ *                 items:
+ *                   type: string
+ *                   enum: [edit_content, upload_video, publish, view_students, moderate_discussions, grade_submissions]
+ *     responses:
+ *       201:
+ *         description: Invite created
+ *       403:
+ *         description: Not the course owner
+ *       409:
+ *         description: Wallet already a member or invited
+ *
+ * /courses/{courseId}/members/accept:
+ *   post:
+ *     tags: [Courses]
+ *     summary: Accept an invite to a course staff
+ *     description: Accepts the pending invite sent to one of the user's linked wallets.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Now a member
+ *       404:
+ *         description: No invite for the user's wallets
+ *       409:
+ *         description: Already a member of this course
+ *
+ * /courses/{courseId}/members/decline:
+ *   post:
+ *     tags: [Courses]
+ *     summary: Decline an invite to a course staff
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invite declined
+ *       404:
+ *         description: No invite for the user's wallets
+ *
+ * /courses/{courseId}/members/{memberId}:
+ *   patch:
+ *     tags: [Courses]
+ *     summary: Change the role or permissions of a member
+ *     description: Course owner only. The owner's own membership cannot be changed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [co_instructor, ta]
+ *               permissions:
+ *                 type: array
+ *                 nullable: true
+ *                 description: null restores the role defaults
+ *                 items:
+ *                   type: string
+ *                   enum: [edit_content, upload_video, publish, view_students, moderate_discussions, grade_submissions]
+ *     responses:
+ *       200:
+ *         description: Member updated
+ *       400:
+ *         description: Target is the owner
+ *       403:
+ *         description: Not the course owner
+ *       404:
+ *         description: Member not found
+ *   delete:
+ *     tags: [Courses]
+ *     summary: Remove a member or withdraw an invite
+ *     description: Course owner only. The owner cannot be removed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       400:
+ *         description: Target is the owner
+ *       403:
+ *         description: Not the course owner
+ *       404:
+ *         description: Member not found
+ *
+ * /courses/{courseId}/submissions:
+ *   get:
+ *     tags: [Courses]
+ *     summary: Grading queue
+ *     description: >
+ *       Requires the grade_submissions course permission. Submissions of the course with the
+ *       given status (default `submitted`), oldest first, with their assignment and learner.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [submitted, returned, graded]
+ *           default: submitted
+ *       - in: query
+ *         name: assignmentId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Submissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 submissions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AssignmentSubmission'
+ *       403:
+ *         description: Missing grade_submissions permission
+ *
+ * /courses/{courseId}/submissions/{submissionId}/grade:
+ *   post:
+ *     tags: [Courses]
+ *     summary: Grade a submission
+ *     description: >
+ *       Requires the grade_submissions course permission. Every rubric criterion must be scored,
+ *       from 0 to its `max_points`; the submission passes at `pass_percentage` of the points.
+ *       The learner is notified, and a passing grade can complete the course for them.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: submissionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [rubric_scores]
+ *             properties:
+ *               rubric_scores:
+ *                 type: object
+ *                 description: Rubric key -> points awarded
+ *                 additionalProperties:
+ *                   type: integer
+ *               feedback:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Graded submission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 submission:
+ *                   $ref: '#/components/schemas/AssignmentSubmission'
+ *       400:
+ *         description: Rubric scores missing, unknown or out of range
+ *       404:
+ *         description: Submission not found
+ *       409:
+ *         description: Submission already graded or returned (code SUBMISSION_ALREADY_GRADED)
+ *
+ * /courses/{courseId}/submissions/{submissionId}/return:
+ *   post:
+ *     tags: [Courses]
+ *     summary: Return a submission for revision
+ *     description: >
+ *       Requires the grade_submissions course permission. Sends the submission back ungraded with
+ *       feedback; the learner is notified and can submit again.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: submissionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [feedback]
+ *             properties:
+ *               feedback:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Returned submission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 submission:
+ *                   $ref: '#/components/schemas/AssignmentSubmission'
+ *       404:
+ *         description: Submission not found
+ *       409:
+ *         description: Submission already graded or returned (code SUBMISSION_ALREADY_GRADED)
+ *
+ * /courses/{courseId}/students:
+ *   get:
+ *     tags: [Courses]
+ *     summary: List enrolled students and their progress
+ *     description: Requires the view_students course permission.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Students, newest enrollment first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 students:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                         format: uuid
+ *                       enrolled_at:
+ *                         type: string
+ *                         format: date-time
+ *                       completed_at:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       user:
+ *                         type: object
+ *                       completedLessons:
+ *                         type: number
+ *                       totalLessons:
+ *                         type: number
+ *                       progressPercentage:
+ *                         type: number
+ *       403:
+ *         description: Missing the view_students course permission
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/prerequisites:
+ *   get:
+ *     tags: [Courses]
+ *     summary: List course prerequisites
+ *     description: Courses to complete first. Signed-in users also get whether they completed each one.
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Prerequisites
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 prerequisites:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Prerequisite'
+ *                 eligibility:
+ *                   type: object
+ *                   description: Signed-in users only
+ *                   properties:
+ *                     met:
+ *                       type: boolean
+ *                       description: Every required prerequisite is completed
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Prerequisite'
+ *                     warnings:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Prerequisite'
+ *   put:
+ *     tags: [Courses]
+ *     summary: Replace course prerequisites
+ *     description: Course owner only. Prerequisites cannot form a cycle.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [prerequisites]
+ *             properties:
+ *               prerequisites:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [prerequisite_id]
+ *                   properties:
+ *                     prerequisite_id:
+ *                       type: string
+ *                       format: uuid
+ *                     enforcement:
+ *                       type: string
+ *                       enum: [required, recommended]
+ *                       default: required
+ *     responses:
+ *       200:
+ *         description: Prerequisites updated
+ *       400:
+ *         description: Unknown course, duplicate, self-reference or cycle
+ *       403:
+ *         description: Not the course owner
+ */
+
+/**
+ * @swagger
+ * /courses/{courseId}/access-rules:
+ *   get:
+ *     tags: [Courses]
+ *     summary: List token-gating rules of a course
+ *     description: Public. When authenticated, also returns whether the user's linked wallets meet the rules.
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Access rules
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 mode:
+ *                   type: string
+ *                   enum: [all, any]
+ *                 rules:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AccessRule'
+ *                 eligibility:
+ *                   type: object
+ *                   properties:
+ *                     granted:
+ *                       type: boolean
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AccessRuleResult'
+ *       404:
+ *         description: Course not found
+ *   post:
+ *     tags: [Courses]
+ *     summary: Add a token-gating rule
+ *     description: Course owner only. Set courses.access_rule_mode to "any" to require just one rule.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AccessRule'
+ *     responses:
+ *       201:
+ *         description: Rule created
+ *       400:
+ *         description: Invalid rule
+ *       403:
+ *         description: Not the course owner
+ *
+ * /courses/{courseId}/access-rules/{ruleId}:
+ *   delete:
+ *     tags: [Courses]
+ *     summary: Remove a token-gating rule
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Rule removed
+ *       403:
+ *         description: Not the course owner
+ *       404:
+ *         description: Rule not found
  */
 
 export {};
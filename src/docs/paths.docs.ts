@@ -0,0 +1,225 @@
+/**
+ * @swagger
+ * /paths:
+ *   get:
+ *     tags: [Learning Paths]
+ *     summary: List published learning paths
+ *     responses:
+ *       200:
+ *         description: Published paths, newest first, with their courses in order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 paths:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LearningPath'
+ *   post:
+ *     tags: [Learning Paths]
+ *     summary: Create a learning path
+ *     description: Paths start unpublished; add courses, then publish with PATCH.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [slug, title]
+ *             properties:
+ *               slug:
+ *                 type: string
+ *                 description: Lowercase letters, digits and "-"; used in the landing page URL
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               thumbnail_url:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Path created
+ *       401:
+ *         description: Not authenticated
+ *       409:
+ *         description: Slug already in use
+ *
+ * /paths/{pathId}:
+ *   get:
+ *     tags: [Learning Paths]
+ *     summary: Get a learning path landing page
+ *     description: >
+ *       The path and its courses in order. Signed-in users also get their path enrollment
+ *       and course-by-course progress. Unpublished paths are only visible to their creator.
+ *     parameters:
+ *       - in: path
+ *         name: pathId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Path ID or slug
+ *     responses:
+ *       200:
+ *         description: Learning path
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 path:
+ *                   $ref: '#/components/schemas/LearningPath'
+ *                 enrollment:
+ *                   nullable: true
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/PathEnrollment'
+ *                 progress:
+ *                   $ref: '#/components/schemas/PathProgress'
+ *       404:
+ *         description: Learning path not found
+ *   patch:
+ *     tags: [Learning Paths]
+ *     summary: Update a learning path
+ *     description: >
+ *       Creator only. Publishing requires at least one course, all of them published.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pathId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               slug:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               thumbnail_url:
+ *                 type: string
+ *               is_published:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Path updated
+ *       400:
+ *         description: Path has no courses or unpublished courses
+ *       403:
+ *         description: Not the path creator
+ *       404:
+ *         description: Learning path not found
+ *       409:
+ *         description: Slug already in use
+ *   delete:
+ *     tags: [Learning Paths]
+ *     summary: Delete a learning path
+ *     description: Creator only. Enrollments and certificates of the path are removed with it.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pathId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Path deleted
+ *       403:
+ *         description: Not the path creator
+ *       404:
+ *         description: Learning path not found
+ *
+ * /paths/{pathId}/courses:
+ *   put:
+ *     tags: [Learning Paths]
+ *     summary: Set the courses of a learning path
+ *     description: >
+ *       Creator only. Replaces the courses in the given order. Published paths need at
+ *       least one course and only take published courses.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pathId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [courseIds]
+ *             properties:
+ *               courseIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       200:
+ *         description: Courses of the path in order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 courses:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PathCourse'
+ *       400:
+ *         description: Unknown, duplicate or unpublished course
+ *       403:
+ *         description: Not the path creator
+ *       404:
+ *         description: Learning path not found
+ *
+ * /paths/{pathId}/enroll:
+ *   post:
+ *     tags: [Learning Paths]
+ *     summary: Enroll in a learning path
+ *     description: >
+ *       Follows the path; each course still needs its own enrollment. Once every course of
+ *       the path is completed the path enrollment gets `completed_at` and a certificate is issued.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pathId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Path ID or slug
+ *     responses:
+ *       201:
+ *         description: Enrolled in the path
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 enrollment:
+ *                   $ref: '#/components/schemas/PathEnrollment'
+ *       400:
+ *         description: Already enrolled
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Learning path not found
+ */
@@ -0,0 +1,314 @@
+/**
+ * @swagger
+ * /courses/{courseId}/checkout/preview:
+ *   get:
+ *     tags: [Payments]
+ *     summary: Preview the price of a course with an optional coupon
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *         description: Coupon code
+ *     responses:
+ *       200:
+ *         description: Final price
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 quote:
+ *                   $ref: '#/components/schemas/PriceQuote'
+ *       400:
+ *         description: Coupon cannot be used (COUPON_INACTIVE, COUPON_EXPIRED, COUPON_NOT_APPLICABLE, COUPON_EXHAUSTED, COUPON_WALLET_LIMIT) or course is free
+ *       404:
+ *         description: Course or coupon not found (COUPON_NOT_FOUND)
+ *
+ * /courses/{courseId}/checkout:
+ *   post:
+ *     tags: [Payments]
+ *     summary: Start a checkout for a paid course
+ *     description: |
+ *       Creates a payment intent with the chain, token, recipient and amount to pay.
+ *       An unexpired pending intent for the same price is returned instead of a new one.
+ *       Send the payment from one of your linked wallets, then confirm it with the transaction hash.
+ *       When a coupon covers the whole price, the user is enrolled right away and `intent` is null.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               couponCode:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Payment intent, or enrollment for fully discounted checkouts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 intent:
+ *                   $ref: '#/components/schemas/PaymentIntent'
+ *                 enrollment:
+ *                   $ref: '#/components/schemas/Enrollment'
+ *                 quote:
+ *                   $ref: '#/components/schemas/PriceQuote'
+ *       400:
+ *         description: Course is free, already enrolled, or coupon cannot be used
+ *       403:
+ *         description: Token-gating requirements (ACCESS_REQUIREMENT_NOT_MET) or required prerequisites (PREREQUISITES_NOT_MET) not met
+ *       404:
+ *         description: Course not found or not published
+ *       503:
+ *         description: Payments are not enabled (PAYMENTS_DISABLED)
+ *
+ * /payments/{intentId}:
+ *   get:
+ *     tags: [Payments]
+ *     summary: Get a payment intent
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: intentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Payment intent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 intent:
+ *                   $ref: '#/components/schemas/PaymentIntent'
+ *       404:
+ *         description: Payment intent not found
+ *
+ * /payments/{intentId}/confirm:
+ *   post:
+ *     tags: [Payments]
+ *     summary: Confirm a payment with its transaction hash
+ *     description: |
+ *       Verifies the transaction receipt (and ERC-20 Transfer logs) against the intent, then
+ *       enrolls the user. Submitting the same hash again returns the existing enrollment.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: intentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - txHash
+ *             properties:
+ *               txHash:
+ *                 type: string
+ *                 example: '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060'
+ *     responses:
+ *       201:
+ *         description: Payment confirmed and user enrolled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 intent:
+ *                   $ref: '#/components/schemas/PaymentIntent'
+ *                 enrollment:
+ *                   $ref: '#/components/schemas/Enrollment'
+ *       200:
+ *         description: Transaction was already confirmed for this intent
+ *       400:
+ *         description: Transaction failed or does not match the intent (PAYMENT_TX_FAILED, PAYMENT_TX_MISMATCH, PAYMENT_TX_OUTSIDE_WINDOW)
+ *       404:
+ *         description: Intent or transaction not found (PAYMENT_TX_NOT_FOUND)
+ *       409:
+ *         description: Transaction not yet confirmed (PAYMENT_TX_PENDING) or already used (PAYMENT_TX_ALREADY_USED, PAYMENT_INTENT_ALREADY_CONFIRMED)
+ */
+
+/**
+ * @swagger
+ * /coupons:
+ *   get:
+ *     tags: [Payments]
+ *     summary: List your coupons
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Coupons
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 coupons:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Coupon'
+ *   post:
+ *     tags: [Payments]
+ *     summary: Create a coupon
+ *     description: Omit course_id to make the coupon valid for all of your courses. Fixed discounts only apply to courses priced in their currency.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Coupon'
+ *     responses:
+ *       201:
+ *         description: Coupon created
+ *       400:
+ *         description: Invalid coupon
+ *       403:
+ *         description: Course belongs to another instructor
+ *       409:
+ *         description: Code already exists
+ *
+ * /coupons/{couponId}:
+ *   patch:
+ *     tags: [Payments]
+ *     summary: Update limits, expiry or active state of a coupon
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: couponId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               max_redemptions:
+ *                 type: integer
+ *                 nullable: true
+ *               per_wallet_limit:
+ *                 type: integer
+ *                 nullable: true
+ *               expires_at:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               is_active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Coupon updated
+ *       404:
+ *         description: Coupon not found
+ *
+ * /coupons/{couponId}/redemptions:
+ *   get:
+ *     tags: [Payments]
+ *     summary: List redemptions of a coupon
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: couponId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Redemptions with list price, discount and final price
+ *       404:
+ *         description: Coupon not found
+ */
+
+/**
+ * @swagger
+ * /payouts:
+ *   get:
+ *     tags: [Payments]
+ *     summary: List payouts of an instructor (admin)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: instructorId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Payouts
+ *       403:
+ *         description: Admin access required
+ *   post:
+ *     tags: [Payments]
+ *     summary: Record a payout sent to an instructor (admin)
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Payout'
+ *     responses:
+ *       201:
+ *         description: Payout recorded
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Instructor not found
+ *       409:
+ *         description: Transaction hash already recorded
+ */
+
+export {};
@@ -103,6 +103,22 @@
  *                         type: number
  *                       totalLessons:
  *                         type: number
+ *                       sections:
+ *                         type: array
+ *                         description: Progress per section, in curriculum order
+ *                         items:
+ *                           $ref: '#/components/schemas/SectionProgress'
+ *                 paths:
+ *                   type: array
+ *                   description: Learning paths the user is enrolled in
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/PathEnrollment'
+ *                       - $ref: '#/components/schemas/PathProgress'
+ *                       - type: object
+ *                         properties:
+ *                           path:
+ *                             $ref: '#/components/schemas/LearningPath'
  *       401:
  *         description: Not authenticated
  */
@@ -113,7 +129,10 @@
  *   post:
  *     tags: [User]
  *     summary: Mark lesson as completed/incomplete
- *     description: Update the completion status of a specific lesson
+ *     description: >
+ *       Update the completion status of a specific lesson. Also updates the enrollment's
+ *       `progress_percentage`; once the course's completion criteria are met the enrollment is
+ *       completed and the course certificate issued.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -145,11 +164,18 @@
  *                   $ref: '#/components/schemas/Progress'
  *                 courseCompleted:
  *                   type: boolean
- *                   description: Whether all lessons in the course are completed
+ *                   description: Whether the course's completion criteria have been met
+ *                 completion:
+ *                   $ref: '#/components/schemas/CompletionStatus'
  *       401:
  *         description: Not authenticated
  *       403:
- *         description: Not enrolled in course
+ *         description: >
+ *           Not enrolled in course, lesson not released yet, or previous lesson of a sequential
+ *           course not completed (code LESSON_LOCKED, `details.reason`); completing a lesson whose
+ *           quiz is required and not passed yet (code QUIZ_NOT_PASSED), whose assignment is
+ *           required and not passed yet (code ASSIGNMENT_NOT_PASSED), or whose code exercise is
+ *           required and not passed yet (code EXERCISE_NOT_PASSED)
  *       404:
  *         description: Lesson not found
  */
@@ -159,8 +185,10 @@
  * /user/teaching:
  *   get:
  *     tags: [User]
- *     summary: Get courses created by user
- *     description: Returns all courses where the user is the instructor
+ *     summary: Get courses the user teaches
+ *     description: >
+ *       Returns all courses where the user is the owner, a co-instructor or a TA, with
+ *       their `role` and `permissions` on each
  *     security:
  *       - bearerAuth: []
  *     responses:
@@ -179,13 +207,236 @@
  *         description: Not authenticated
  */
 
+/**
+ * @swagger
+ * /user/notifications:
+ *   get:
+ *     tags: [User]
+ *     summary: Get notifications
+ *     description: Latest 50 notifications, newest first, such as graded or returned assignments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: boolean
+ *         description: Only unread notifications
+ *     responses:
+ *       200:
+ *         description: Notifications
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 notifications:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Notification'
+ *                 unread:
+ *                   type: integer
+ *       401:
+ *         description: Not authenticated
+ *
+ * /user/notifications/read:
+ *   post:
+ *     tags: [User]
+ *     summary: Mark notifications as read
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *                 description: Omit to mark all notifications as read
+ *     responses:
+ *       200:
+ *         description: Notifications marked as read
+ *       401:
+ *         description: Not authenticated
+ */
+
+/**
+ * @swagger
+ * /user/invitations:
+ *   get:
+ *     tags: [User]
+ *     summary: Get pending course staff invites
+ *     description: Invites addressed to any of the user's linked wallets, newest first
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pending invites
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 invitations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CourseMember'
+ *       401:
+ *         description: Not authenticated
+ */
+
+/**
+ * @swagger
+ * /user/teaching/sales:
+ *   get:
+ *     tags: [User]
+ *     summary: Get sales of the user's courses
+ *     description: Confirmed payments and fully discounted coupon enrollments, newest first, with coupon and discount details
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Inclusive start of the range
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Exclusive end of the range
+ *     responses:
+ *       200:
+ *         description: Sales retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sales:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Sale'
+ *       401:
+ *         description: Not authenticated
+ */
+
+/**
+ * @swagger
+ * /user/teaching/revenue:
+ *   get:
+ *     tags: [User]
+ *     summary: Get revenue of the user's courses
+ *     description: |
+ *       Gross sales, platform fee and net per course and per asset (chain + token) within the range,
+ *       payouts made in the range, and the balance still owed at the end of the range.
+ *       Amounts are strings in base units of the asset.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Inclusive start of the range
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Exclusive end of the range
+ *     responses:
+ *       200:
+ *         description: Revenue report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 report:
+ *                   $ref: '#/components/schemas/RevenueReport'
+ *       401:
+ *         description: Not authenticated
+ *
+ * /user/teaching/revenue/export:
+ *   get:
+ *     tags: [User]
+ *     summary: Export the revenue ledger as CSV
+ *     description: One line per sale and per payout, oldest first, amounts in base units
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Inclusive start of the range
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Exclusive end of the range
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Not authenticated
+ *
+ * /user/teaching/payouts:
+ *   get:
+ *     tags: [User]
+ *     summary: Get payouts made to the user
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Inclusive start of the range
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Exclusive end of the range
+ *     responses:
+ *       200:
+ *         description: Payouts, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 payouts:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Payout'
+ *       401:
+ *         description: Not authenticated
+ */
+
 /**
  * @swagger
  * /user/certificates:
  *   get:
  *     tags: [User]
  *     summary: Get user's certificates
- *     description: Returns all certificates earned by the user
+ *     description: Returns all certificates earned by the user, first issuing any missing for completed courses
  *     security:
  *       - bearerAuth: []
  *     responses:
@@ -204,21 +455,227 @@
  *         description: Not authenticated
  */
 
+/**
+ * @swagger
+ * /user/sessions:
+ *   get:
+ *     tags: [User]
+ *     summary: List active sessions
+ *     description: Returns every signed-in device (sessions that are neither revoked nor expired), most recently used first
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sessions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Session'
+ *       401:
+ *         description: Not authenticated
+ *
+ *   delete:
+ *     tags: [User]
+ *     summary: Log out everywhere
+ *     description: Revokes all of the user's sessions, including the current one
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 revoked:
+ *                   type: number
+ *                   description: Number of sessions revoked
+ *       401:
+ *         description: Not authenticated
+ */
+
+/**
+ * @swagger
+ * /user/sessions/{sessionId}:
+ *   delete:
+ *     tags: [User]
+ *     summary: Revoke a session
+ *     description: Signs out a single device. Access and refresh tokens of that session stop working immediately.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 current:
+ *                   type: boolean
+ *                   description: Whether the revoked session was the one making the request
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Session not found
+ */
+
+/**
+ * @swagger
+ * /user/wallets:
+ *   get:
+ *     tags: [User]
+ *     summary: List linked wallets
+ *     description: Returns every wallet linked to the authenticated user, primary first
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Wallets retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 wallets:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Wallet'
+ *       401:
+ *         description: Not authenticated
+ *
+ *   post:
+ *     tags: [User]
+ *     summary: Link a wallet
+ *     description: |
+ *       Links an additional wallet. Request a nonce for the new address from /auth/nonce,
+ *       sign a SIWE message with the new wallet and submit it here while authenticated.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - message
+ *               - signature
+ *             properties:
+ *               message:
+ *                 type: string
+ *                 description: SIWE message signed by the wallet being linked
+ *               signature:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Wallet linked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 wallet:
+ *                   $ref: '#/components/schemas/Wallet'
+ *       401:
+ *         description: Not authenticated, or invalid SIWE message/signature (see `code`)
+ *       409:
+ *         description: Wallet already linked to an account
+ */
+
+/**
+ * @swagger
+ * /user/wallets/{walletAddress}:
+ *   delete:
+ *     tags: [User]
+ *     summary: Unlink a wallet
+ *     description: Removes a secondary wallet. The primary wallet cannot be unlinked.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: walletAddress
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: ^0x[a-fA-F0-9]{40}$
+ *     responses:
+ *       200:
+ *         description: Wallet unlinked
+ *       400:
+ *         description: Wallet is the primary wallet
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Wallet not linked to this account
+ */
+
+/**
+ * @swagger
+ * /user/wallets/{walletAddress}/primary:
+ *   post:
+ *     tags: [User]
+ *     summary: Set primary wallet
+ *     description: Makes a linked wallet the primary one. The primary wallet is shown as the user's wallet_address.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: walletAddress
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: ^0x[a-fA-F0-9]{40}$
+ *     responses:
+ *       200:
+ *         description: Primary wallet updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 wallets:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Wallet'
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Wallet not linked to this account
+ */
+
 /**
  * @swagger
  * /user/{address}:
  *   get:
  *     tags: [User]
  *     summary: Get public user profile
- *     description: Returns public profile information for any user by wallet address
+ *     description: Returns public profile information for any user by any of their linked wallet addresses or an ENS name resolving to one
  *     parameters:
  *       - in: path
  *         name: address
  *         required: true
  *         schema:
  *           type: string
- *           pattern: ^0x[a-fA-F0-9]{40}$
- *         description: Wallet address
+ *           example: vitalik.eth
+ *         description: Wallet address or ENS name
  *     responses:
  *       200:
  *         description: Public profile retrieved successfully
@@ -240,6 +697,12 @@
  *                       type: string
  *                     avatar_url:
  *                       type: string
+ *                     ens_name:
+ *                       type: string
+ *                       nullable: true
+ *                     ens_avatar:
+ *                       type: string
+ *                       nullable: true
  *                     social_links:
  *                       type: object
  *                     created_at:
@@ -10,11 +10,17 @@ import { authRouter } from './routes/auth.routes';
 import { coursesRouter } from './routes/courses.routes';
 import { videosRouter } from './routes/videos.routes';
 import { userRouter } from './routes/user.routes';
+import { paymentsRouter } from './routes/payments.routes';
+import { couponsRouter } from './routes/coupons.routes';
+import { payoutsRouter } from './routes/payouts.routes';
+import { pathsRouter } from './routes/paths.routes';
+import { certificatesRouter } from './routes/certificates.routes';
 import { errorHandler } from './middleware/error.middleware';
 import { logger } from './utils/logger';
 import { env } from './utils/validateEnv';
 import { swaggerSpec } from './config/swagger';
 import { connectRedis } from './config/redis';
+import { PublishScheduleService } from './services/publishSchedule.service';
 
 dotenv.config();
 
@@ -113,6 +119,11 @@ app.use('/api/auth', authRouter);
 app.use('/api/courses', coursesRouter);
 app.use('/api/videos', videosRouter);
 app.use('/api/user', userRouter);
+app.use('/api/payments', paymentsRouter);
+app.use('/api/coupons', couponsRouter);
+app.use('/api/payouts', payoutsRouter);
+app.use('/api/paths', pathsRouter);
+app.use('/api/certificates', certificatesRouter);
 
 app.use(errorHandler);
 
@@ -120,6 +131,8 @@ app.listen(PORT, () => {
   logger.info(`🚀 Server running on port ${PORT}`);
   logger.info(`📱 Environment: ${env.NODE_ENV}`);
   logger.info(`📚 API Documentation available at http://localhost:${PORT}/api-docs`);
+
+  PublishScheduleService.start(Number(env.PUBLISH_SCHEDULER_INTERVAL_SECONDS));
 });
 
 export default app;
@@ -1,4 +1,4 @@
-import { Response, NextFunction } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { AuthRequest } from './auth.middleware';
 import { AuditService, AuditAction, ResourceType } from '../services/audit.service';
 
@@ -97,7 +97,7 @@ export const auditAuth = async (req: AuthRequest, res: Response, next: NextFunct
             walletAddress: body.user.address || body.user.wallet_address,
             ipAddress,
             userAgent,
-            sessionId: body.token?.substring(0, 20), // First 20 chars as session identifier
+            sessionId: res.locals.sessionId,
           });
         } else if (res.statusCode >= 400) {
           // Failed authentication
@@ -201,7 +201,7 @@ export const detectSuspiciousActivity = async (
 /**
  * Helper to get client IP address from request
  */
-function getClientIp(req: AuthRequest): string | undefined {
+export function getClientIp(req: Request): string | undefined {
   // Check for common proxy headers
   const forwarded = req.get('x-forwarded-for');
   if (forwarded) {
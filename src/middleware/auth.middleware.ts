@@ -2,11 +2,15 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { AppError } from '../utils/errors';
 import { supabaseAdmin } from '../config/supabase';
+import { CourseAccessService } from '../services/courseAccess.service';
+import { CourseMemberService, CoursePermission } from '../services/courseMember.service';
+import { SessionService } from '../services/session.service';
 
 export interface AuthRequest extends Request {
   user?: {
     id: string;
     address: string;
+    sessionId: string;
   };
 }
 
@@ -22,21 +26,29 @@ export const authenticate = async (
       throw new AppError('Authentication required', 401);
     }
     
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { id: string; address: string };
+    const decoded = SessionService.verifyAccessToken(token);
 
-    const { data: user, error } = await supabaseAdmin
-      .from('users')
-      .select('id, wallet_address')
-      .eq('id', decoded.id)
-      .single();
+    const [{ data: user, error }, sessionActive] = await Promise.all([
+      supabaseAdmin
+        .from('users')
+        .select('id, wallet_address')
+        .eq('id', decoded.id)
+        .single(),
+      SessionService.isActive(decoded.sid, decoded.id),
+    ]);
     
     if (error || !user) {
       throw new AppError('User not found', 401);
     }
+
+    if (!sessionActive) {
+      throw new AppError('Session revoked', 401);
+    }
     
     req.user = {
       id: user.id,
       address: user.wallet_address,
+      sessionId: decoded.sid,
     };
     
     next();
@@ -63,18 +75,22 @@ export const optionalAuth = async (
       return next();
     }
     
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { id: string; address: string };
+    const decoded = SessionService.verifyAccessToken(token);
     
-    const { data: user } = await supabaseAdmin
-      .from('users')
-      .select('id, wallet_address')
-      .eq('id', decoded.id)
-      .single();
+    const [{ data: user }, sessionActive] = await Promise.all([
+      supabaseAdmin
+        .from('users')
+        .select('id, wallet_address')
+        .eq('id', decoded.id)
+        .single(),
+      SessionService.isActive(decoded.sid, decoded.id),
+    ]);
     
-    if (user) {
+    if (user && sessionActive) {
       req.user = {
         id: user.id,
         address: user.wallet_address,
+        sessionId: decoded.sid,
       };
     }
     
@@ -84,7 +100,10 @@ export const optionalAuth = async (
   }
 };
 
-export const requireCourseOwner = async (
+/**
+ * Allow course members holding `permission` (see CourseMemberService for role defaults)
+ */
+export const requireCoursePermission = (permission: CoursePermission) => async (
   req: AuthRequest,
   _res: Response,
   next: NextFunction
@@ -98,7 +117,7 @@ export const requireCourseOwner = async (
     
     const { data: course, error } = await supabaseAdmin
       .from('courses')
-      .select('instructor_id')
+      .select('id')
       .eq('id', courseId)
       .single();
     
@@ -106,9 +125,7 @@ export const requireCourseOwner = async (
       throw new AppError('Course not found', 404);
     }
     
-    if (course.instructor_id !== req.user.id) {
-      throw new AppError('Access denied', 403);
-    }
+    await CourseMemberService.assertPermission(courseId, req.user.id, permission);
     
     next();
   } catch (error) {
@@ -116,21 +133,25 @@ export const requireCourseOwner = async (
   }
 };
 
+/** Owner-only actions: pricing, access rules, prerequisites, members, deletion */
+export const requireCourseOwner = requireCoursePermission('manage_course');
+
+/**
+ * Course staff and enrolled learners get through; so does anyone, signed in
+ * or not, when the course is published and has preview lessons. Use after
+ * `optionalAuth`; routes show non-enrolled visitors only the previews.
+ */
 export const requireCourseAccess = async (
   req: AuthRequest,
   _res: Response,
   next: NextFunction
 ) => {
   try {
-    if (!req.user) {
-      throw new AppError('Authentication required', 401);
-    }
-
     const courseId = req.params.courseId;
 
     const { data: course } = await supabaseAdmin
       .from('courses')
-      .select('instructor_id')
+      .select('is_published')
       .eq('id', courseId)
       .single();
 
@@ -138,23 +159,43 @@ export const requireCourseAccess = async (
       throw new AppError('Course not found', 404);
     }
 
-    // Allow access if user is the course instructor
-    if (course.instructor_id === req.user.id) {
+    // Allow access if user is on the course staff
+    if (req.user && await CourseMemberService.isStaff(courseId, req.user.id)) {
       return next();
     }
 
     // Check if user is enrolled in the course
-    const { data: enrollment } = await supabaseAdmin
-      .from('enrollments')
-      .select('id')
-      .eq('user_id', req.user.id)
-      .eq('course_id', courseId)
-      .single();
+    const { data: enrollment } = req.user
+      ? await supabaseAdmin
+          .from('enrollments')
+          .select('id')
+          .eq('user_id', req.user.id)
+          .eq('course_id', courseId)
+          .maybeSingle()
+      : { data: null };
 
     if (!enrollment) {
+      const { count: previews } = course.is_published
+        ? await supabaseAdmin
+            .from('lessons')
+            .select('*', { count: 'exact', head: true })
+            .eq('course_id', courseId)
+            .eq('is_preview', true)
+        : { count: 0 };
+
+      if (previews) {
+        return next();
+      }
+
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
       throw new AppError('Access denied. Please enroll in this course.', 403);
     }
 
+    // Token-gated courses: holdings are re-checked, so selling the token revokes access
+    await CourseAccessService.assertAccess(courseId, req.user!.id);
+
     next();
   } catch (error) {
     next(error);
@@ -5,10 +5,10 @@ import { logger } from '../utils/logger';
 
 export interface CacheOptions {
   /**
-   * Time to live in seconds
+   * Time to live in seconds, or a function of the response body; 0 or less skips caching
    * @default 300 (5 minutes)
    */
-  ttl?: number;
+  ttl?: number | ((body: unknown) => number);
 
   /**
    * Custom key generator function
@@ -38,7 +38,8 @@ const defaultKeyGenerator = (
   includeQueryParams: boolean = true,
   includeUserId: boolean = false
 ): string => {
-  let key = `cache:${req.method}:${req.path}`;
+  // Full path: req.path is relative to the router, e.g. "/:courseId" under /api/courses
+  let key = `cache:${req.method}:${req.baseUrl}${req.path}`;
 
   if (includeQueryParams && Object.keys(req.query).length > 0) {
     const sortedQuery = Object.keys(req.query)
@@ -112,20 +113,24 @@ export const cache = (options: CacheOptions = {}) => {
 
       // Override json method to cache the response
       res.json = function (body: any): Response {
+        const seconds = typeof ttl === 'function' ? ttl(body) : ttl;
+
         // Cache the response
-        CacheService.set(
-          cacheKey,
-          {
-            body,
-            status: res.statusCode,
-            headers: {
-              'Content-Type': res.getHeader('Content-Type') as string,
+        if (seconds > 0) {
+          CacheService.set(
+            cacheKey,
+            {
+              body,
+              status: res.statusCode,
+              headers: {
+                'Content-Type': res.getHeader('Content-Type') as string,
+              },
             },
-          },
-          ttl
-        ).catch((error) => {
-          logger.error('Failed to cache response:', error);
-        });
+            seconds
+          ).catch((error) => {
+            logger.error('Failed to cache response:', error);
+          });
+        }
 
         // Add cache header
         res.setHeader('X-Cache', 'MISS');
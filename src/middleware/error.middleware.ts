@@ -43,6 +43,8 @@ export const errorHandler = (
     res.status(err.statusCode).json({
       success: false,
       message: err.message,
+      ...(err.code && { code: err.code }),
+      ...(err.details !== undefined && { details: err.details }),
     });
     return;
   }
@@ -12,6 +12,7 @@ export interface RoleAuthRequest extends AuthRequest {
   user?: {
     id: string;
     address: string;
+    sessionId: string;
     role?: UserRole;
   };
 }
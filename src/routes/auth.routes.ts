@@ -1,9 +1,14 @@
 import { Router, Request, Response } from 'express';
-import { SiweMessage } from 'siwe';
-import jwt from 'jsonwebtoken';
 import { supabaseAdmin } from '../config/supabase';
+import { authenticate, optionalAuth, AuthRequest } from '../middleware/auth.middleware';
+import { auditAuth, getClientIp } from '../middleware/audit.middleware';
+import { SessionService } from '../services/session.service';
+import { SiweService } from '../services/siwe.service';
+import { WalletService } from '../services/wallet.service';
+import { AuditService } from '../services/audit.service';
+import { EnsService } from '../services/ens.service';
 import { asyncHandler } from '../utils/asyncHandler';
-import { AppError } from '../utils/errors';
+import { AppError, SiweValidationError } from '../utils/errors';
 import { z } from 'zod';
 
 const router = Router();
@@ -17,6 +22,14 @@ const verifySchema = z.object({
   signature: z.string(),
 });
 
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const logoutSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
 /**
  * @swagger
  * /auth/nonce:
@@ -87,7 +100,7 @@ router.post('/nonce', asyncHandler(async (req: Request, res: Response) => {
  *   post:
  *     tags: [Authentication]
  *     summary: Verify SIWE signature and authenticate user
- *     description: Verifies a signed SIWE message and returns a JWT token. Creates a new user if wallet address doesn't exist.
+ *     description: Verifies a signed SIWE message, starts a server-side session and returns a short-lived access token plus a rotating refresh token. Signing with any wallet linked to an account logs in to that account. Creates a new user if the wallet is not linked to anyone.
  *     requestBody:
  *       required: true
  *       content:
@@ -116,12 +129,25 @@ router.post('/nonce', asyncHandler(async (req: Request, res: Response) => {
  *               properties:
  *                 token:
  *                   type: string
- *                   description: JWT token valid for 7 days
+ *                   description: Access token valid for JWT_EXPIRES_IN
  *                   example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *                 refreshToken:
+ *                   type: string
+ *                   description: Single-use refresh token for /auth/refresh
  *                 user:
  *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Malformed SIWE message (code SIWE_INVALID_MESSAGE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
- *         description: Invalid signature or expired nonce
+ *         description: |
+ *           SIWE policy violation, invalid signature or expired nonce. The `code` field identifies the reason:
+ *           SIWE_DOMAIN_NOT_ALLOWED, SIWE_URI_NOT_ALLOWED, SIWE_CHAIN_NOT_ALLOWED, SIWE_STATEMENT_MISMATCH,
+ *           SIWE_ISSUED_IN_FUTURE, SIWE_MESSAGE_TOO_OLD, SIWE_MESSAGE_EXPIRED, SIWE_MESSAGE_NOT_YET_VALID,
+ *           SIWE_INVALID_SIGNATURE, SIWE_INVALID_NONCE
  *         content:
  *           application/json:
  *             schema:
@@ -133,76 +159,35 @@ router.post('/nonce', asyncHandler(async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/verify', asyncHandler(async (req: Request, res: Response) => {
+router.post('/verify', auditAuth, asyncHandler(async (req: Request, res: Response) => {
   const { message, signature } = verifySchema.parse(req.body);
   
   try {
-    const siweMessage = new SiweMessage(message);
-    
-    const fields = await siweMessage.verify({ signature });
-    
-    if (!fields.success) {
-      throw new AppError('Invalid signature', 401);
-    }
-    
-    const address = fields.data.address.toLowerCase();
-    
-    const { data: nonceData, error: nonceError } = await supabaseAdmin
-      .from('nonces')
-      .select('*')
-      .eq('address', address)
-      .eq('nonce', fields.data.nonce)
-      .gt('expires_at', new Date().toISOString())
-      .single();
+    const siweMessage = await SiweService.verify(message, signature);
     
-    if (nonceError || !nonceData) {
-      throw new AppError('Invalid or expired nonce', 401);
-    }
+    const address = siweMessage.address.toLowerCase();
     
-    await supabaseAdmin
-      .from('nonces')
-      .delete()
-      .eq('id', nonceData.id);
+    await SiweService.consumeNonce(siweMessage);
     
-    let { data: user } = await supabaseAdmin
+    // Any linked wallet signs in to the same account; the first sign-in creates it
+    const userId = await WalletService.signIn(address);
+
+    const { data: user, error: userError } = await supabaseAdmin
       .from('users')
-      .select('*')
-      .eq('wallet_address', address)
+      .update({ last_login: new Date().toISOString() })
+      .eq('id', userId)
+      .select()
       .single();
-    
-    if (!user) {
-      const { data: newUser, error: createError } = await supabaseAdmin
-        .from('users')
-        .insert({
-          wallet_address: address,
-          created_at: new Date().toISOString(),
-          last_login: new Date().toISOString(),
-        })
-        .select()
-        .single();
-      
-      if (createError) {
-        throw new AppError('Failed to create user', 500);
-      }
-      
-      user = newUser;
-    } else {
-      await supabaseAdmin
-        .from('users')
-        .update({ last_login: new Date().toISOString() })
-        .eq('id', user.id);
+
+    if (userError || !user) {
+      throw new AppError('Failed to load user', 500);
     }
-    
-    const token = jwt.sign(
-      {
-        id: user.id,
-        address: user.wallet_address,
-      },
-      process.env.JWT_SECRET!,
-      {
-        expiresIn: '7d',
-      }
-    );
+
+    const session = await SessionService.create(user, {
+      ipAddress: getClientIp(req),
+      userAgent: req.get('user-agent'),
+    });
+    res.locals.sessionId = session.sessionId;
 
     await supabaseAdmin.auth.admin.createUser({
       email: `${address}@wallet.local`,
@@ -215,7 +200,8 @@ router.post('/verify', asyncHandler(async (req: Request, res: Response) => {
     });
     
     res.json({
-      token,
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
       user: {
         id: user.id,
         wallet_address: user.wallet_address,
@@ -230,18 +216,80 @@ router.post('/verify', asyncHandler(async (req: Request, res: Response) => {
     });
     
   } catch (error) {
+    if (error instanceof SiweValidationError) {
+      throw error;
+    }
     console.error('Verification error:', error);
     throw new AppError('Authentication failed', 401);
   }
 }));
 
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Rotate tokens
+ *     description: Exchanges a refresh token for a new access token and refresh token. Each refresh token can be used once; reusing one revokes the whole session.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tokens rotated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 token:
+ *                   type: string
+ *                 refreshToken:
+ *                   type: string
+ *       401:
+ *         description: Invalid, expired, revoked or reused refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/refresh', asyncHandler(async (req: Request, res: Response) => {
+  const { refreshToken } = refreshSchema.parse(req.body);
+
+  const session = await SessionService.refresh(refreshToken, {
+    ipAddress: getClientIp(req),
+    userAgent: req.get('user-agent'),
+  });
+
+  res.json({
+    token: session.accessToken,
+    refreshToken: session.refreshToken,
+  });
+}));
+
 /**
  * @swagger
  * /auth/logout:
  *   post:
  *     tags: [Authentication]
  *     summary: Logout user
- *     description: Client-side logout endpoint (token should be removed from client storage)
+ *     description: Revokes the current session. The session is taken from the bearer token, or from the refresh token in the body when the access token has already expired.
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Logout successful
@@ -257,7 +305,30 @@ router.post('/verify', asyncHandler(async (req: Request, res: Response) => {
  *                   type: string
  *                   example: "Logged out successfully"
  */
-router.post('/logout', asyncHandler(async (_req: Request, res: Response) => {
+router.post('/logout', optionalAuth, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { refreshToken } = logoutSchema.parse(req.body ?? {});
+
+  let sessionId: string | null = null;
+
+  if (req.user) {
+    sessionId = req.user.sessionId;
+    await SessionService.revoke(sessionId, 'logout');
+  } else if (refreshToken) {
+    sessionId = await SessionService.revokeByRefreshToken(refreshToken, 'logout');
+  }
+
+  if (sessionId) {
+    await AuditService.log({
+      userId: req.user?.id,
+      walletAddress: req.user?.address,
+      action: 'LOGOUT',
+      resourceType: 'auth',
+      ipAddress: getClientIp(req),
+      userAgent: req.get('user-agent'),
+      sessionId,
+    });
+  }
+
   res.json({ success: true, message: 'Logged out successfully' });
 }));
 
@@ -293,43 +364,35 @@ router.post('/logout', asyncHandler(async (_req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/me', asyncHandler(async (req: Request, res: Response) => {
-  const token = req.headers.authorization?.replace('Bearer ', '');
-  
-  if (!token) {
-    throw new AppError('No token provided', 401);
-  }
-  
-  try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { id: string; address: string };
+router.get('/me', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { data: user, error } = await supabaseAdmin
+    .from('users')
+    .select('*')
+    .eq('id', req.user!.id)
+    .single();
 
-    const { data: user, error } = await supabaseAdmin
-      .from('users')
-      .select('*')
-      .eq('id', decoded.id)
-      .single();
+  if (error || !user) {
+    throw new AppError('User not found', 404);
+  }
 
-    if (error || !user) {
-      throw new AppError('User not found', 404);
-    }
+  const ens = await EnsService.getProfile(user.wallet_address);
 
-    res.json({
-      user: {
-        id: user.id,
-        wallet_address: user.wallet_address,
-        address: user.wallet_address,
-        display_name: user.display_name,
-        role: user.role,
-        bio: user.bio,
-        avatar_url: user.avatar_url,
-        social_links: user.social_links,
-        created_at: user.created_at,
-        updated_at: user.updated_at,
-      },
-    });
-  } catch (_error) {
-    throw new AppError('Invalid token', 401);
-  }
+  res.json({
+    user: {
+      id: user.id,
+      wallet_address: user.wallet_address,
+      address: user.wallet_address,
+      display_name: user.display_name,
+      role: user.role,
+      bio: user.bio,
+      avatar_url: user.avatar_url,
+      ens_name: ens.ens_name,
+      ens_avatar: ens.ens_avatar,
+      social_links: user.social_links,
+      created_at: user.created_at,
+      updated_at: user.updated_at,
+    },
+  });
 }));
 
 function generateNonce(length: number = 16): string {
@@ -0,0 +1,38 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../utils/errors';
+import { CertificateService } from '../services/certificate.service';
+
+const router = Router();
+
+const verifyByHashSchema = z.object({
+  hash: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid certificate hash'),
+});
+
+// Public: employers verify certificates without an account. Declared before /:id/verify.
+router.get('/verify', asyncHandler(async (req: Request, res: Response) => {
+  const { hash } = verifyByHashSchema.parse(req.query);
+
+  const certificate = await CertificateService.getByHash(hash);
+
+  if (!certificate) {
+    throw new AppError('Certificate not found', 404);
+  }
+
+  res.json({ verification: CertificateService.verify(certificate) });
+}));
+
+router.get('/:id/verify', asyncHandler(async (req: Request, res: Response) => {
+  const id = z.string().uuid().parse(req.params.id);
+
+  const certificate = await CertificateService.getById(id);
+
+  if (!certificate) {
+    throw new AppError('Certificate not found', 404);
+  }
+
+  res.json({ verification: CertificateService.verify(certificate) });
+}));
+
+export const certificatesRouter = router;
@@ -0,0 +1,62 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { CouponService } from '../services/coupon.service';
+
+const router = Router();
+
+const createCouponSchema = z.discriminatedUnion('discount_type', [
+  z.object({
+    discount_type: z.literal('percent'),
+    percent_off: z.number().positive().max(100).multipleOf(0.01),
+  }),
+  z.object({
+    discount_type: z.literal('fixed'),
+    amount_off: z.string().regex(/^\d+$/, 'Must be a non-negative integer string'), // Base units
+    currency: z.string().min(1).max(16),
+  }),
+]).and(z.object({
+  code: z.string().regex(/^[A-Za-z0-9_-]{3,64}$/, 'Use 3-64 letters, digits, "-" or "_"'),
+  course_id: z.string().uuid().nullable().optional(), // Omit for all of your courses
+  max_redemptions: z.number().int().positive().nullable().optional(),
+  per_wallet_limit: z.number().int().positive().nullable().optional(),
+  expires_at: z.string().datetime().nullable().optional(),
+}));
+
+const updateCouponSchema = z.object({
+  max_redemptions: z.number().int().positive().nullable().optional(),
+  per_wallet_limit: z.number().int().positive().nullable().optional(),
+  expires_at: z.string().datetime().nullable().optional(),
+  is_active: z.boolean().optional(),
+});
+
+router.get('/', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const coupons = await CouponService.listForInstructor(req.user!.id);
+
+  res.json({ coupons });
+}));
+
+router.post('/', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const validatedData = createCouponSchema.parse(req.body);
+
+  const coupon = await CouponService.create(req.user!.id, validatedData);
+
+  res.status(201).json({ coupon });
+}));
+
+router.patch('/:couponId', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const validatedData = updateCouponSchema.parse(req.body);
+
+  const coupon = await CouponService.update(req.user!.id, req.params.couponId, validatedData);
+
+  res.json({ coupon });
+}));
+
+router.get('/:couponId/redemptions', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const redemptions = await CouponService.listRedemptions(req.user!.id, req.params.couponId);
+
+  res.json({ redemptions });
+}));
+
+export const couponsRouter = router;
@@ -1,10 +1,35 @@
 import { Router, Response } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../config/supabase';
-import { authenticate, optionalAuth, requireCourseOwner, requireCourseAccess, AuthRequest } from '../middleware/auth.middleware';
+import {
+  authenticate,
+  optionalAuth,
+  requireCourseOwner,
+  requireCoursePermission,
+  requireCourseAccess,
+  AuthRequest,
+} from '../middleware/auth.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
-import { AppError } from '../utils/errors';
+import { AppError, PaymentError, RevisionError, ValidationError } from '../utils/errors';
 import { cache, invalidateCache } from '../middleware/cache.middleware';
+import { userRateLimit } from '../middleware/advancedRateLimit.middleware';
+import { EnsService } from '../services/ens.service';
+import { CourseAccessService } from '../services/courseAccess.service';
+import { PaymentService } from '../services/payment.service';
+import { CouponService } from '../services/coupon.service';
+import { CurriculumService } from '../services/curriculum.service';
+import { CourseSnapshot, RevisionService, VERSIONED_COURSE_FIELDS } from '../services/revision.service';
+import { AuditService } from '../services/audit.service';
+import { PublishScheduleService } from '../services/publishSchedule.service';
+import { LessonReleaseService } from '../services/lessonRelease.service';
+import { PrerequisiteService } from '../services/prerequisite.service';
+import { CourseMemberService } from '../services/courseMember.service';
+import { CourseDuplicationService } from '../services/courseDuplication.service';
+import { QuizService } from '../services/quiz.service';
+import { AssignmentService } from '../services/assignment.service';
+import { CodeExerciseService } from '../services/codeExercise.service';
+import { CourseCompletionService } from '../services/courseCompletion.service';
+import { getClientIp } from '../middleware/audit.middleware';
 
 const router = Router();
 
@@ -49,6 +74,31 @@ async function deleteVideoFromCloudflare(videoId: string): Promise<boolean> {
   }
 }
 
+/**
+ * Duplicated courses can reuse videos; a video is only deleted from Cloudflare once
+ * no lesson outside the ones being removed still uses it
+ */
+async function isVideoUsedElsewhere(videoId: string, except: { courseId?: string; lessonId?: string }): Promise<boolean> {
+  let query = supabaseAdmin
+    .from('lessons')
+    .select('id', { count: 'exact', head: true })
+    .eq('video_url', videoId);
+
+  if (except.courseId) {
+    query = query.neq('course_id', except.courseId);
+  }
+  if (except.lessonId) {
+    query = query.neq('id', except.lessonId);
+  }
+
+  const { count } = await query;
+  return (count ?? 0) > 0;
+}
+
+const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address');
+const uintSchema = z.string().regex(/^\d+$/, 'Must be a non-negative integer string');
+const positiveUintSchema = z.string().regex(/^[1-9]\d*$/, 'Must be a positive integer string');
+
 const createCourseSchema = z.object({
   title: z.string().min(3).max(200),
   description: z.string().min(10),
@@ -56,10 +106,39 @@ const createCourseSchema = z.object({
   category: z.string().optional(),
   level: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
   tags: z.array(z.string()).optional(),
+  access_rule_mode: z.enum(['all', 'any']).optional(),
+  // Each lesson unlocks once the previous one is completed
+  sequential: z.boolean().optional(),
+  // Price in base units; null makes the course free
+  price_amount: positiveUintSchema.nullable().optional(),
+  price_currency: z.string().min(1).max(16).nullable().optional(),
+  price_decimals: z.number().int().min(0).max(36).optional(),
+  price_chain_id: z.number().int().positive().nullable().optional(),
+  price_token_address: addressSchema.nullable().optional(), // null for the native currency
+  // Lets any instructor clone the course content
+  is_template: z.boolean().optional(),
+  // Completion criteria; at least one must be set
+  completion_all_lessons: z.boolean().optional(),
+  completion_min_quiz_score: z.number().int().min(0).max(100).nullable().optional(), // Average best quiz score in percent
+  completion_requires_assignments: z.boolean().optional(),
 });
 
 const updateCourseSchema = createCourseSchema.partial();
 
+// Pricing, access, template and completion settings are left to the course owner
+const OWNER_COURSE_FIELDS = [
+  'access_rule_mode',
+  'completion_all_lessons',
+  'completion_min_quiz_score',
+  'completion_requires_assignments',
+  'is_template',
+  'price_amount',
+  'price_currency',
+  'price_decimals',
+  'price_chain_id',
+  'price_token_address',
+] as const;
+
 const createLessonSchema = z.object({
   title: z.string().min(3).max(200),
   description: z.string().optional(),
@@ -67,10 +146,230 @@ const createLessonSchema = z.object({
   content: z.string().optional(),
   order: z.number().int().min(0).optional(),
   duration_minutes: z.number().min(0).optional(), // Accept decimal values for precise duration
+  section_id: z.string().uuid().nullable().optional(), // null leaves the lesson outside any section
+  // Drip release: days after the learner enrolled, or a fixed date (one or the other)
+  release_after_days: z.number().int().min(0).max(3650).nullable().optional(),
+  release_at: z.string().datetime({ offset: true }).nullable().optional(),
+  is_preview: z.boolean().optional(), // Content and video open to visitors who are not enrolled
 });
 
 const updateLessonSchema = createLessonSchema.partial();
 
+const quizSettingsSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().nullable().optional(),
+  pass_percentage: z.number().int().min(0).max(100).optional(),
+  max_attempts: z.number().int().positive().nullable().optional(), // null for unlimited attempts
+  required_to_complete: z.boolean().optional(), // Lesson can only be completed once the quiz is passed
+});
+
+// Options and correct_answer are checked against the question type by QuizService
+const quizQuestionSchema = z.object({
+  type: z.enum(['multiple_choice', 'multi_select', 'true_false', 'short_answer']),
+  prompt: z.string().min(1),
+  options: z.array(z.string().min(1)).max(20).nullable().optional(),
+  correct_answer: z.union([
+    z.number().int().min(0),
+    z.boolean(),
+    z.array(z.number().int().min(0)),
+    z.array(z.string().min(1)),
+  ]),
+  explanation: z.string().nullable().optional(),
+  points: z.number().int().positive().optional(),
+  order: z.number().int().min(0).optional(),
+});
+
+const quizAttemptSchema = z.object({
+  // Question id -> answer: an option index, option indexes, true/false or text
+  answers: z.record(
+    z.string().uuid(),
+    z.union([z.number().int(), z.boolean(), z.string().max(1000), z.array(z.number().int())])
+  ),
+});
+
+const submissionTypeSchema = z.enum(['text', 'url', 'github', 'contract']);
+
+const assignmentSchema = z.object({
+  title: z.string().min(1).max(200),
+  instructions: z.string().min(1),
+  submission_types: z.array(submissionTypeSchema).min(1)
+    .refine((types) => new Set(types).size === types.length, 'Submission types must be unique'),
+  contract_chain_id: z.number().int().positive().nullable().optional(), // Required for contract submissions
+  rubric: z.array(z.object({
+    key: z.string().regex(/^[a-z0-9_]+$/, 'Use lowercase letters, digits and "_"').max(50),
+    title: z.string().min(1).max(200),
+    description: z.string().nullable().optional(),
+    max_points: z.number().int().positive(),
+  })).min(1)
+    .refine((criteria) => new Set(criteria.map((c) => c.key)).size === criteria.length, 'Rubric keys must be unique'),
+  pass_percentage: z.number().int().min(0).max(100).optional(),
+  allow_resubmission: z.boolean().optional(), // After a failing grade; returned submissions can always be revised
+  max_submissions: z.number().int().positive().nullable().optional(), // null for no limit
+  required_to_complete: z.boolean().optional(), // Lesson can only be completed once the assignment is passed
+});
+
+const submissionSchema = z.object({
+  submission_type: submissionTypeSchema,
+  content: z.string().min(1).max(20000), // Text, URL or contract address
+});
+
+const gradeSubmissionSchema = z.object({
+  rubric_scores: z.record(z.string(), z.number().int().min(0)),
+  feedback: z.string().max(5000).nullable().optional(),
+});
+
+const returnSubmissionSchema = z.object({
+  feedback: z.string().min(1).max(5000),
+});
+
+const gradingQueueSchema = z.object({
+  status: z.enum(['submitted', 'returned', 'graded']).optional(),
+  assignmentId: z.string().uuid().optional(),
+});
+
+const MAX_SOLIDITY_SOURCE_LENGTH = 50_000;
+
+const codeExerciseSchema = z.object({
+  title: z.string().min(1).max(200),
+  instructions: z.string().min(1),
+  starter_code: z.string().max(MAX_SOLIDITY_SOURCE_LENGTH).nullable().optional(),
+  solution_source: z.string().min(1).max(MAX_SOLIDITY_SOURCE_LENGTH), // Must pass every test, never shown to learners
+  test_source: z.string().min(1).max(MAX_SOLIDITY_SOURCE_LENGTH), // Imports "./Solution.sol"; test* functions are the test cases
+  gas_limit: z.number().int().min(100_000).max(30_000_000).optional(), // Per deployment, setUp() and test call
+  required_to_complete: z.boolean().optional(),
+});
+
+const exerciseAttemptSchema = z.object({
+  source: z.string().min(1).max(MAX_SOLIDITY_SOURCE_LENGTH),
+});
+
+const duplicateCourseSchema = z.object({
+  title: z.string().min(3).max(200).optional(),
+  videos: z.enum(['reuse', 'copy', 'none']).optional(),
+});
+
+const reorderLessonsSchema = z.object({
+  lessonIds: z.array(z.string().uuid()).min(1)
+    .refine((ids) => new Set(ids).size === ids.length, 'Lesson IDs must be unique'),
+  // Lesson id -> section id, or null to move the lesson out of its section
+  sectionAssignments: z.record(z.string().uuid(), z.string().uuid().nullable()).optional(),
+});
+
+const draftLessonSchema = createLessonSchema
+  .omit({ order: true })
+  .extend({ id: z.string().uuid().optional() });
+
+const draftSectionSchema = z.object({
+  id: z.string().uuid().optional(),
+  title: z.string().min(1).max(200),
+  description: z.string().nullable().optional(),
+});
+
+const updateDraftSchema = z.object({
+  course: createCourseSchema.pick({
+    title: true,
+    description: true,
+    thumbnail_url: true,
+    category: true,
+    level: true,
+    tags: true,
+  }).partial().optional(),
+  // Full ordered lists; omitted items are removed when the draft is published
+  sections: z.array(draftSectionSchema).optional(),
+  lessons: z.array(draftLessonSchema).optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+const publishScheduleSchema = z.object({
+  publish_at: z.string().datetime({ offset: true }).nullable().optional(),
+  unpublish_at: z.string().datetime({ offset: true }).nullable().optional(),
+});
+
+const publishDraftSchema = z.object({
+  force: z.boolean().optional(),
+});
+
+const versionParamSchema = z.coerce.number().int().positive();
+
+const createSectionSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().optional(),
+  order: z.number().int().min(0).optional(),
+});
+
+const updateSectionSchema = createSectionSchema.partial();
+
+const createAccessRuleSchema = z.discriminatedUnion('rule_type', [
+  z.object({
+    rule_type: z.literal('erc20'),
+    chain_id: z.number().int().positive(),
+    contract_address: addressSchema,
+    min_balance: uintSchema,
+    description: z.string().max(500).optional(),
+  }),
+  z.object({
+    rule_type: z.literal('erc721'),
+    chain_id: z.number().int().positive(),
+    contract_address: addressSchema,
+    token_id: uintSchema.optional(),
+    min_balance: uintSchema.optional(),
+    description: z.string().max(500).optional(),
+  }),
+  z.object({
+    rule_type: z.literal('erc1155'),
+    chain_id: z.number().int().positive(),
+    contract_address: addressSchema,
+    token_id: uintSchema,
+    min_balance: uintSchema.optional(),
+    description: z.string().max(500).optional(),
+  }),
+  z.object({
+    rule_type: z.literal('merkle_allowlist'),
+    merkle_root: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid Merkle root'),
+    description: z.string().max(500).optional(),
+  }),
+]);
+
+const memberPermissionsSchema = z
+  .array(z.enum(['edit_content', 'upload_video', 'publish', 'view_students', 'moderate_discussions', 'grade_submissions']))
+  .nullable()
+  .optional(); // null restores the role defaults
+
+const inviteMemberSchema = z.object({
+  wallet_address: addressSchema,
+  role: z.enum(['co_instructor', 'ta']),
+  permissions: memberPermissionsSchema,
+});
+
+const updateMemberSchema = inviteMemberSchema.omit({ wallet_address: true }).partial();
+
+const setPrerequisitesSchema = z.object({
+  prerequisites: z
+    .array(z.object({
+      prerequisite_id: z.string().uuid(),
+      enforcement: z.enum(['required', 'recommended']).optional(), // Defaults to required
+    }))
+    .refine((items) => new Set(items.map((item) => item.prerequisite_id)).size === items.length, {
+      message: 'Prerequisites must be unique',
+    }),
+});
+
+const checkoutSchema = z.object({
+  couponCode: z.string().min(1).max(64).optional(),
+});
+
+const checkoutPreviewSchema = z.object({
+  code: z.string().min(1).max(64).optional(),
+});
+
+const enrollSchema = z.object({
+  allowlistProofs: z.array(z.object({
+    ruleId: z.string().uuid(),
+    address: addressSchema,
+    proof: z.array(z.string().regex(/^0x[a-fA-F0-9]{64}$/)).max(64),
+  })).max(20).optional(),
+});
+
 /**
  * @swagger
  * /courses:
@@ -165,7 +464,7 @@ router.get('/', optionalAuth, cache({ ttl: 300 }), asyncHandler(async (req: Auth
   }
 
   res.json({
-    courses,
+    courses: await EnsService.withInstructorProfiles(courses),
     pagination: {
       page: +page,
       limit: +limit,
@@ -196,10 +495,29 @@ router.get('/enrolled', authenticate, cache({ ttl: 180, includeUserId: true }),
     throw new AppError('Failed to fetch enrolled courses', 500);
   }
 
-  res.json({ enrollments });
+  res.json({
+    enrollments: await Promise.all(
+      enrollments.map(async (enrollment) => ({
+        ...enrollment,
+        course: enrollment.course
+          ? (await EnsService.withInstructorProfiles([enrollment.course]))[0]
+          : enrollment.course,
+      }))
+    ),
+  });
+}));
+
+router.get('/templates', optionalAuth, cache({ ttl: 300 }), asyncHandler(async (_req: AuthRequest, res: Response) => {
+  const templates = await CourseDuplicationService.listTemplates();
+
+  res.json({ courses: await EnsService.withInstructorProfiles(templates) });
 }));
 
-router.get('/:courseId', optionalAuth, cache({ ttl: 600 }), asyncHandler(async (req: AuthRequest, res: Response) => {
+// Shared by every viewer, so drafts, which staff see with preview content, are not cached
+const courseCacheTtl = (body: unknown) =>
+  (body as { course?: { is_published?: boolean | null } }).course?.is_published ? 600 : 0;
+
+router.get('/:courseId', optionalAuth, cache({ ttl: courseCacheTtl }), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { courseId } = req.params;
   
   const { data: course, error } = await supabaseAdmin
@@ -217,7 +535,19 @@ router.get('/:courseId', optionalAuth, cache({ ttl: 600 }), asyncHandler(async (
         title,
         description,
         order,
-        duration_minutes
+        duration_minutes,
+        section_id,
+        release_after_days,
+        release_at,
+        is_preview,
+        content,
+        video_url
+      ),
+      sections(
+        id,
+        title,
+        description,
+        order
       ),
       _count:enrollments(count)
     `)
@@ -229,8 +559,10 @@ router.get('/:courseId', optionalAuth, cache({ ttl: 600 }), asyncHandler(async (
   }
   
   let hasFullAccess = false;
+  let isStaff = false;
   if (req.user) {
-    if (course.instructor_id === req.user.id) {
+    isStaff = await CourseMemberService.isStaff(courseId, req.user.id);
+    if (isStaff) {
       hasFullAccess = true;
     } else {
       const { data: enrollment } = await supabaseAdmin
@@ -244,12 +576,23 @@ router.get('/:courseId', optionalAuth, cache({ ttl: 600 }), asyncHandler(async (
     }
   }
   
-  if (course.lessons) {
-    course.lessons.sort((a: { order: number }, b: { order: number }) => a.order - b.order);
-  }
-  
+  // Only previews of published courses carry their content here; enrolled learners get the
+  // rest from /lessons
+  const showPreviews = !!course.is_published || isStaff;
+  const lessons = (course.lessons || []).map((lesson) =>
+    lesson.is_preview && showPreviews ? lesson : { ...lesson, content: null, video_url: null }
+  );
+  const curriculum = CurriculumService.buildTree(course.sections || [], lessons);
+
+  const [courseWithEns] = await EnsService.withInstructorProfiles([{
+    ...course,
+    lessons: CurriculumService.flatten(curriculum),
+    sections: curriculum.sections,
+    unsectioned_lessons: curriculum.unsectioned_lessons,
+  }]);
+
   res.json({
-    course,
+    course: courseWithEns,
     hasFullAccess,
   });
 }));
@@ -274,9 +617,17 @@ router.post('/', authenticate, invalidateCache('cache:*:\/api\/courses*'), async
   res.status(201).json({ course });
 }));
 
-router.patch('/:courseId', authenticate, requireCourseOwner, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+router.patch('/:courseId', authenticate, requireCoursePermission('edit_content'), invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { courseId } = req.params;
   const validatedData = updateCourseSchema.parse(req.body);
+
+  if (OWNER_COURSE_FIELDS.some((field) => validatedData[field] !== undefined)) {
+    await CourseMemberService.assertPermission(courseId, req.user!.id, 'manage_course');
+  }
+
+  if (VERSIONED_COURSE_FIELDS.some((field) => validatedData[field] !== undefined)) {
+    await RevisionService.assertLiveEditable(courseId);
+  }
   
   const { data: course, error } = await supabaseAdmin
     .from('courses')
@@ -286,6 +637,9 @@ router.patch('/:courseId', authenticate, requireCourseOwner, invalidateCache('ca
     .single();
   
   if (error) {
+    if (error.message?.includes('courses_completion_criteria_check')) {
+      throw new ValidationError('A course needs at least one completion criterion');
+    }
     throw new AppError('Failed to update course', 500);
   }
   
@@ -307,7 +661,7 @@ router.delete('/:courseId', authenticate, requireCourseOwner, invalidateCache('c
       .filter(lesson => lesson.video_url)
       .map(async (lesson) => {
         const videoId = extractVideoIdFromUrl(lesson.video_url);
-        if (videoId) {
+        if (videoId && !(await isVideoUsedElsewhere(videoId, { courseId }))) {
           await deleteVideoFromCloudflare(videoId);
           console.log(`Deleted video ${videoId} from lesson ${lesson.id} during course deletion`);
         }
@@ -331,22 +685,43 @@ router.delete('/:courseId', authenticate, requireCourseOwner, invalidateCache('c
   res.json({ success: true });
 }));
 
-router.post('/:courseId/publish', authenticate, requireCourseOwner, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+router.post('/:courseId/duplicate', authenticate, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+  const validatedData = duplicateCourseSchema.parse(req.body);
+
+  const { course, videos, includesSettings } = await CourseDuplicationService.duplicate(
+    courseId,
+    req.user!.id,
+    validatedData
+  );
+
+  await AuditService.log({
+    userId: req.user!.id,
+    walletAddress: req.user!.address,
+    action: 'CREATE',
+    resourceType: 'course',
+    resourceId: course?.id,
+    ipAddress: getClientIp(req),
+    userAgent: req.get('user-agent'),
+    sessionId: req.user!.sessionId,
+    metadata: { duplicatedFrom: courseId, videos: validatedData.videos ?? 'reuse', includesSettings },
+  });
+
+  res.status(201).json({ course, videos });
+}));
+
+router.post('/:courseId/publish', authenticate, requireCoursePermission('publish'), invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { courseId } = req.params;
   const { publish = true } = req.body;
-  
-  const { count } = await supabaseAdmin
-    .from('lessons')
-    .select('*', { count: 'exact', head: true })
-    .eq('course_id', courseId);
-  
-  if (publish && (!count || count === 0)) {
-    throw new AppError('Cannot publish course without lessons', 400);
+
+  if (publish) {
+    await PublishScheduleService.assertPublishable(courseId);
   }
-  
+
+  // Publishing by hand replaces a pending scheduled change in the same direction
   const { data: course, error } = await supabaseAdmin
     .from('courses')
-    .update({ is_published: publish })
+    .update(publish ? { is_published: true, publish_at: null } : { is_published: false, unpublish_at: null })
     .eq('id', courseId)
     .select()
     .single();
@@ -354,29 +729,62 @@ router.post('/:courseId/publish', authenticate, requireCourseOwner, invalidateCa
   if (error) {
     throw new AppError('Failed to update course status', 500);
   }
+
+  await AuditService.logCoursePublication({
+    userId: req.user!.id,
+    courseId,
+    published: !!publish,
+    ipAddress: getClientIp(req),
+  });
   
   res.json({ course });
 }));
 
-router.get('/:courseId/lessons', authenticate, requireCourseAccess, cache({ ttl: 600 }), asyncHandler(async (req: AuthRequest, res: Response) => {
+router.put('/:courseId/schedule', authenticate, requireCoursePermission('publish'), invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { courseId } = req.params;
-  
-  const { data: lessons, error } = await supabaseAdmin
-    .from('lessons')
-    .select('*')
-    .eq('course_id', courseId)
-    .order('order', { ascending: true });
-  
-  if (error) {
-    throw new AppError('Failed to fetch lessons', 500);
-  }
-  
-  res.json({ lessons });
+  const schedule = publishScheduleSchema.parse(req.body);
+
+  const course = await PublishScheduleService.setSchedule(courseId, schedule);
+
+  res.json({ course });
+}));
+
+// Cached until the next drip release at the latest, so lessons unlock on time
+const lessonsCacheTtl = (body: unknown) => {
+  const lessons = (body as { lessons?: Array<{ unlocks_at: string | null }> }).lessons ?? [];
+  return Math.min(600, LessonReleaseService.secondsUntilNextRelease(lessons) ?? 600);
+};
+
+router.get('/:courseId/lessons', optionalAuth, requireCourseAccess, cache({ ttl: lessonsCacheTtl, includeUserId: true }), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+
+  const [tree, viewer] = await Promise.all([
+    CurriculumService.getTree(courseId),
+    LessonReleaseService.getViewer(courseId, req.user?.id),
+  ]);
+
+  // Locked lessons, and for visitors every lesson but the previews, are listed without content
+  const curriculum = CurriculumService.buildTree(
+    tree.sections,
+    LessonReleaseService.apply(CurriculumService.flatten(tree), viewer)
+  );
+
+  res.json({
+    lessons: CurriculumService.flatten(curriculum),
+    sections: curriculum.sections,
+    unsectioned_lessons: curriculum.unsectioned_lessons,
+  });
 }));
 
-router.post('/:courseId/lessons', authenticate, requireCourseOwner, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+router.post('/:courseId/lessons', authenticate, requireCoursePermission('edit_content'), invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { courseId } = req.params;
-  const validatedData = createLessonSchema.parse(req.body);
+  const validatedData = LessonReleaseService.normalizeRule(createLessonSchema.parse(req.body));
+
+  await RevisionService.assertLiveEditable(courseId);
+
+  if (validatedData.section_id) {
+    await CurriculumService.assertSectionInCourse(courseId, validatedData.section_id);
+  }
 
   const { data: lastLesson } = await supabaseAdmin
       .from('lessons')
@@ -405,9 +813,28 @@ router.post('/:courseId/lessons', authenticate, requireCourseOwner, invalidateCa
   res.status(201).json({ lesson });
 }));
 
-router.patch('/:courseId/lessons/:lessonId', authenticate, requireCourseOwner, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+router.put('/:courseId/lessons/order', authenticate, requireCoursePermission('edit_content'), invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+  const { lessonIds, sectionAssignments } = reorderLessonsSchema.parse(req.body);
+
+  await RevisionService.assertLiveEditable(courseId);
+
+  await CurriculumService.reorderLessons(courseId, lessonIds, sectionAssignments);
+
+  const curriculum = await CurriculumService.getTree(courseId);
+
+  res.json({
+    lessons: CurriculumService.flatten(curriculum),
+    sections: curriculum.sections,
+    unsectioned_lessons: curriculum.unsectioned_lessons,
+  });
+}));
+
+router.patch('/:courseId/lessons/:lessonId', authenticate, requireCoursePermission('edit_content'), invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { courseId, lessonId } = req.params;
-  const validatedData = updateLessonSchema.parse(req.body);
+  const validatedData = LessonReleaseService.normalizeRule(updateLessonSchema.parse(req.body));
+
+  await RevisionService.assertLiveEditable(courseId);
 
   // Verify lesson belongs to course and get current video_url
   const { data: existingLesson } = await supabaseAdmin
@@ -421,13 +848,17 @@ router.patch('/:courseId/lessons/:lessonId', authenticate, requireCourseOwner, i
     throw new AppError('Lesson not found', 404);
   }
 
+  if (validatedData.section_id) {
+    await CurriculumService.assertSectionInCourse(courseId, validatedData.section_id);
+  }
+
   // If updating with a new video_url, delete the old video from Cloudflare
   if (validatedData.video_url && existingLesson.video_url && validatedData.video_url !== existingLesson.video_url) {
     const oldVideoId = extractVideoIdFromUrl(existingLesson.video_url);
     const newVideoId = extractVideoIdFromUrl(validatedData.video_url);
 
     // Only delete if the video IDs are actually different
-    if (oldVideoId && newVideoId && oldVideoId !== newVideoId) {
+    if (oldVideoId && newVideoId && oldVideoId !== newVideoId && !(await isVideoUsedElsewhere(oldVideoId, { lessonId }))) {
       await deleteVideoFromCloudflare(oldVideoId);
       console.log(`Deleted old video ${oldVideoId} when updating lesson ${lessonId} with new video ${newVideoId}`);
     }
@@ -447,9 +878,11 @@ router.patch('/:courseId/lessons/:lessonId', authenticate, requireCourseOwner, i
   res.json({ lesson });
 }));
 
-router.delete('/:courseId/lessons/:lessonId', authenticate, requireCourseOwner, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+router.delete('/:courseId/lessons/:lessonId', authenticate, requireCoursePermission('edit_content'), invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { courseId, lessonId } = req.params;
 
+  await RevisionService.assertLiveEditable(courseId);
+
   // Verify lesson belongs to course and get video_url
   const { data: existingLesson } = await supabaseAdmin
     .from('lessons')
@@ -465,7 +898,7 @@ router.delete('/:courseId/lessons/:lessonId', authenticate, requireCourseOwner,
   // Delete video from Cloudflare Stream if exists
   if (existingLesson.video_url) {
     const videoId = extractVideoIdFromUrl(existingLesson.video_url);
-    if (videoId) {
+    if (videoId && !(await isVideoUsedElsewhere(videoId, { lessonId }))) {
       await deleteVideoFromCloudflare(videoId);
       console.log(`Deleted video ${videoId} associated with lesson ${lessonId}`);
     }
@@ -481,32 +914,748 @@ router.delete('/:courseId/lessons/:lessonId', authenticate, requireCourseOwner,
     throw new AppError('Failed to delete lesson', 500);
   }
 
+  await CurriculumService.renumberLessons(courseId);
+
   res.json({ success: true });
 }));
 
-router.post('/:courseId/enroll', authenticate, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
-  const { courseId } = req.params;
-  
-  const { data: existingEnrollment } = await supabaseAdmin
+router.get('/:courseId/lessons/:lessonId/quiz', optionalAuth, requireCourseAccess, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+
+  const { quiz, questions } = await QuizService.getForLessonOrFail(courseId, lessonId);
+  const viewer = await LessonReleaseService.getViewer(courseId, req.user?.id);
+
+  if (viewer.isInstructor) {
+    res.json({ quiz, questions });
+    return;
+  }
+
+  await LessonReleaseService.assertAccessible(courseId, lessonId, viewer);
+
+  const attempts = req.user ? await QuizService.listAttempts(quiz.id, req.user.id) : [];
+  const summary = QuizService.summarize(quiz, attempts);
+
+  res.json({ quiz, questions: QuizService.forLearner(questions, summary.passed), summary });
+}));
+
+router.put('/:courseId/lessons/:lessonId/quiz', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+  const validatedData = quizSettingsSchema.parse(req.body);
+
+  const quiz = await QuizService.upsert(courseId, lessonId, validatedData);
+
+  res.json({ quiz });
+}));
+
+router.delete('/:courseId/lessons/:lessonId/quiz', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+
+  await QuizService.remove(courseId, lessonId);
+
+  res.json({ success: true });
+}));
+
+router.post('/:courseId/lessons/:lessonId/quiz/questions', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+  const validatedData = quizQuestionSchema.parse(req.body);
+
+  const { quiz } = await QuizService.getForLessonOrFail(courseId, lessonId);
+  const question = await QuizService.addQuestion(quiz.id, validatedData);
+
+  res.status(201).json({ question });
+}));
+
+router.patch('/:courseId/lessons/:lessonId/quiz/questions/:questionId', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId, questionId } = req.params;
+  const validatedData = quizQuestionSchema.partial().parse(req.body);
+
+  const { quiz } = await QuizService.getForLessonOrFail(courseId, lessonId);
+  const question = await QuizService.updateQuestion(quiz.id, questionId, validatedData);
+
+  res.json({ question });
+}));
+
+router.delete('/:courseId/lessons/:lessonId/quiz/questions/:questionId', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId, questionId } = req.params;
+
+  const { quiz } = await QuizService.getForLessonOrFail(courseId, lessonId);
+  await QuizService.removeQuestion(quiz.id, questionId);
+
+  res.json({ success: true });
+}));
+
+router.get('/:courseId/lessons/:lessonId/quiz/attempts', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+
+  const { quiz } = await QuizService.getForLessonOrFail(courseId, lessonId);
+  const attempts = await QuizService.listAttempts(quiz.id, req.user!.id);
+  const summary = QuizService.summarize(quiz, attempts);
+
+  // Per-question results would give the answers away before the learner passed
+  res.json({
+    attempts: summary.passed ? attempts : attempts.map((attempt) => ({ ...attempt, results: undefined })),
+    summary,
+  });
+}));
+
+router.post('/:courseId/lessons/:lessonId/quiz/attempts', authenticate, requireCourseAccess, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+  const { answers } = quizAttemptSchema.parse(req.body);
+
+  const { data: enrollment } = await supabaseAdmin
     .from('enrollments')
     .select('id')
     .eq('user_id', req.user!.id)
     .eq('course_id', courseId)
-    .single();
-  
-  if (existingEnrollment) {
-    throw new AppError('Already enrolled in this course', 400);
+    .maybeSingle();
+
+  if (!enrollment) {
+    throw new AppError('Not enrolled in this course', 403);
   }
-  
-  const { data: course } = await supabaseAdmin
-    .from('courses')
-    .select('is_published')
-    .eq('id', courseId)
-    .single();
-  
-  if (!course || !course.is_published) {
-    throw new AppError('Course not available', 404);
+
+  const { quiz, questions } = await QuizService.getForLessonOrFail(courseId, lessonId);
+
+  await LessonReleaseService.assertAccessible(
+    courseId,
+    lessonId,
+    await LessonReleaseService.getViewer(courseId, req.user!.id)
+  );
+
+  const attempt = await QuizService.submitAttempt(quiz, questions, req.user!.id, answers);
+  const summary = QuizService.summarize(quiz, await QuizService.listAttempts(quiz.id, req.user!.id));
+
+  // The quiz score can complete the course
+  const completion = await CourseCompletionService.sync(courseId, req.user!.id);
+
+  res.status(201).json({
+    attempt: summary.passed ? attempt : { ...attempt, results: undefined },
+    summary,
+    // Answers and explanations are revealed once the quiz is passed
+    questions: summary.passed ? questions : undefined,
+    completion,
+  });
+}));
+
+router.get('/:courseId/lessons/:lessonId/assignment', optionalAuth, requireCourseAccess, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+
+  const assignment = await AssignmentService.getForLessonOrFail(courseId, lessonId);
+  const viewer = await LessonReleaseService.getViewer(courseId, req.user?.id);
+
+  if (viewer.isInstructor) {
+    res.json({ assignment });
+    return;
+  }
+
+  await LessonReleaseService.assertAccessible(courseId, lessonId, viewer);
+
+  res.json({
+    assignment,
+    submissions: req.user ? await AssignmentService.listSubmissions(assignment.id, req.user.id) : [],
+  });
+}));
+
+router.put('/:courseId/lessons/:lessonId/assignment', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+  const validatedData = assignmentSchema.parse(req.body);
+
+  const assignment = await AssignmentService.upsert(courseId, lessonId, validatedData);
+
+  res.json({ assignment });
+}));
+
+router.delete('/:courseId/lessons/:lessonId/assignment', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+
+  await AssignmentService.remove(courseId, lessonId);
+
+  res.json({ success: true });
+}));
+
+router.get('/:courseId/lessons/:lessonId/assignment/submissions', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+
+  const assignment = await AssignmentService.getForLessonOrFail(courseId, lessonId);
+
+  res.json({ submissions: await AssignmentService.listSubmissions(assignment.id, req.user!.id) });
+}));
+
+router.post('/:courseId/lessons/:lessonId/assignment/submissions', authenticate, requireCourseAccess, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+  const validatedData = submissionSchema.parse(req.body);
+
+  const { data: enrollment } = await supabaseAdmin
+    .from('enrollments')
+    .select('id')
+    .eq('user_id', req.user!.id)
+    .eq('course_id', courseId)
+    .maybeSingle();
+
+  if (!enrollment) {
+    throw new AppError('Not enrolled in this course', 403);
+  }
+
+  const assignment = await AssignmentService.getForLessonOrFail(courseId, lessonId);
+
+  await LessonReleaseService.assertAccessible(
+    courseId,
+    lessonId,
+    await LessonReleaseService.getViewer(courseId, req.user!.id)
+  );
+
+  const submission = await AssignmentService.submit(assignment, courseId, req.user!.id, validatedData);
+
+  res.status(201).json({ submission });
+}));
+
+router.get('/:courseId/lessons/:lessonId/exercise', optionalAuth, requireCourseAccess, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+
+  const exercise = await CodeExerciseService.getForLessonOrFail(courseId, lessonId);
+  const viewer = await LessonReleaseService.getViewer(courseId, req.user?.id);
+
+  if (viewer.isInstructor) {
+    res.json({ exercise });
+    return;
   }
+
+  await LessonReleaseService.assertAccessible(courseId, lessonId, viewer);
+
+  res.json({
+    exercise: CodeExerciseService.forLearner(exercise),
+    attempts: req.user ? await CodeExerciseService.listAttempts(exercise.id, req.user.id) : [],
+  });
+}));
+
+router.put('/:courseId/lessons/:lessonId/exercise', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+  const validatedData = codeExerciseSchema.parse(req.body);
+
+  const exercise = await CodeExerciseService.upsert(courseId, lessonId, validatedData);
+
+  res.json({ exercise });
+}));
+
+router.delete('/:courseId/lessons/:lessonId/exercise', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+
+  await CodeExerciseService.remove(courseId, lessonId);
+
+  res.json({ success: true });
+}));
+
+router.get('/:courseId/lessons/:lessonId/exercise/attempts', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+
+  const exercise = await CodeExerciseService.getForLessonOrFail(courseId, lessonId);
+
+  res.json({ attempts: await CodeExerciseService.listAttempts(exercise.id, req.user!.id) });
+}));
+
+// Every attempt compiles and runs the tests, so learners are limited to 20 per 10 minutes
+router.post('/:courseId/lessons/:lessonId/exercise/attempts', authenticate, userRateLimit(20, 600), requireCourseAccess, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, lessonId } = req.params;
+  const { source } = exerciseAttemptSchema.parse(req.body);
+
+  const { data: enrollment } = await supabaseAdmin
+    .from('enrollments')
+    .select('id')
+    .eq('user_id', req.user!.id)
+    .eq('course_id', courseId)
+    .maybeSingle();
+
+  if (!enrollment) {
+    throw new AppError('Not enrolled in this course', 403);
+  }
+
+  const exercise = await CodeExerciseService.getForLessonOrFail(courseId, lessonId);
+
+  await LessonReleaseService.assertAccessible(
+    courseId,
+    lessonId,
+    await LessonReleaseService.getViewer(courseId, req.user!.id)
+  );
+
+  const attempt = await CodeExerciseService.submit(exercise, enrollment.id, req.user!.id, source);
+
+  res.status(201).json({ attempt });
+}));
+
+router.get('/:courseId/sections', optionalAuth, cache({ ttl: 600 }), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+
+  const { data: sections, error } = await supabaseAdmin
+    .from('sections')
+    .select('*')
+    .eq('course_id', courseId)
+    .order('order', { ascending: true });
+
+  if (error) {
+    throw new AppError('Failed to fetch sections', 500);
+  }
+
+  res.json({ sections });
+}));
+
+router.post('/:courseId/sections', authenticate, requireCoursePermission('edit_content'), invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+  const validatedData = createSectionSchema.parse(req.body);
+
+  await RevisionService.assertLiveEditable(courseId);
+
+  let order = validatedData.order;
+  if (order === undefined) {
+    const { data: lastSection } = await supabaseAdmin
+      .from('sections')
+      .select('order')
+      .eq('course_id', courseId)
+      .order('order', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    order = lastSection ? lastSection.order + 1 : 0;
+  }
+
+  const { data: section, error } = await supabaseAdmin
+    .from('sections')
+    .insert({
+      ...validatedData,
+      order,
+      course_id: courseId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new AppError('Failed to create section', 500);
+  }
+
+  res.status(201).json({ section });
+}));
+
+router.patch('/:courseId/sections/:sectionId', authenticate, requireCoursePermission('edit_content'), invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, sectionId } = req.params;
+  const validatedData = updateSectionSchema.parse(req.body);
+
+  await RevisionService.assertLiveEditable(courseId);
+
+  const { data: section, error } = await supabaseAdmin
+    .from('sections')
+    .update({ ...validatedData, updated_at: new Date().toISOString() })
+    .eq('id', sectionId)
+    .eq('course_id', courseId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError('Failed to update section', 500);
+  }
+
+  if (!section) {
+    throw new AppError('Section not found', 404);
+  }
+
+  res.json({ section });
+}));
+
+// Lessons of a deleted section are kept and become unsectioned
+router.delete('/:courseId/sections/:sectionId', authenticate, requireCoursePermission('edit_content'), invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, sectionId } = req.params;
+
+  await RevisionService.assertLiveEditable(courseId);
+
+  const { data: section, error } = await supabaseAdmin
+    .from('sections')
+    .delete()
+    .eq('id', sectionId)
+    .eq('course_id', courseId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError('Failed to delete section', 500);
+  }
+
+  if (!section) {
+    throw new AppError('Section not found', 404);
+  }
+
+  res.json({ success: true });
+}));
+
+const draftResponse = async (courseId: string, draft: Awaited<ReturnType<typeof RevisionService.startDraft>>) => {
+  const snapshot = draft.snapshot as unknown as CourseSnapshot;
+  const live = await RevisionService.captureLive(courseId);
+
+  return {
+    draft,
+    preview: RevisionService.toTree(snapshot),
+    diff: RevisionService.diff(live, snapshot),
+  };
+};
+
+router.get('/:courseId/draft', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+
+  const draft = await RevisionService.getDraft(courseId);
+
+  if (!draft) {
+    throw new RevisionError('DRAFT_NOT_FOUND', 'This course has no draft', 404);
+  }
+
+  res.json(await draftResponse(courseId, draft));
+}));
+
+router.post('/:courseId/draft', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+
+  const draft = await RevisionService.startDraft(courseId, req.user!.id);
+
+  res.status(201).json(await draftResponse(courseId, draft));
+}));
+
+router.patch('/:courseId/draft', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+  const changes = updateDraftSchema.parse(req.body);
+
+  const draft = await RevisionService.updateDraft(courseId, changes);
+
+  res.json(await draftResponse(courseId, draft));
+}));
+
+router.delete('/:courseId/draft', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+
+  await RevisionService.discardDraft(courseId);
+
+  res.json({ success: true });
+}));
+
+router.post('/:courseId/draft/publish', authenticate, requireCoursePermission('publish'), invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+  const { force } = publishDraftSchema.parse(req.body);
+
+  const version = await RevisionService.publishDraft(courseId, req.user!.id, force);
+
+  await AuditService.log({
+    userId: req.user!.id,
+    walletAddress: req.user!.address,
+    action: 'UPDATE',
+    resourceType: 'course',
+    resourceId: courseId,
+    ipAddress: getClientIp(req),
+    userAgent: req.get('user-agent'),
+    sessionId: req.user!.sessionId,
+    metadata: { version, forced: !!force },
+  });
+
+  res.json({ version: await RevisionService.getVersion(courseId, version) });
+}));
+
+router.get('/:courseId/versions', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+
+  const { data: course } = await supabaseAdmin
+    .from('courses')
+    .select('published_version')
+    .eq('id', courseId)
+    .single();
+
+  const versions = await RevisionService.listVersions(courseId);
+
+  res.json({ currentVersion: course?.published_version ?? null, versions });
+}));
+
+router.get('/:courseId/versions/:version', authenticate, requireCoursePermission('edit_content'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+  const version = versionParamSchema.parse(req.params.version);
+
+  const revision = await RevisionService.getVersion(courseId, version);
+
+  res.json({ version: revision, preview: RevisionService.toTree(revision.snapshot) });
+}));
+
+router.post('/:courseId/versions/:version/rollback', authenticate, requireCoursePermission('publish'), invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+  const targetVersion = versionParamSchema.parse(req.params.version);
+
+  const version = await RevisionService.rollback(courseId, targetVersion, req.user!.id);
+
+  await AuditService.log({
+    userId: req.user!.id,
+    walletAddress: req.user!.address,
+    action: 'UPDATE',
+    resourceType: 'course',
+    resourceId: courseId,
+    ipAddress: getClientIp(req),
+    userAgent: req.get('user-agent'),
+    sessionId: req.user!.sessionId,
+    metadata: { version, rolledBackFrom: targetVersion },
+  });
+
+  res.json({ version: await RevisionService.getVersion(courseId, version) });
+}));
+
+router.get('/:courseId/members', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+
+  if (!(await CourseMemberService.isStaff(courseId, req.user!.id))) {
+    throw new AppError('Access denied', 403);
+  }
+
+  res.json({ members: await CourseMemberService.list(courseId) });
+}));
+
+router.post('/:courseId/members', authenticate, requireCourseOwner, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const validatedData = inviteMemberSchema.parse(req.body);
+
+  const member = await CourseMemberService.invite(req.params.courseId, req.user!.id, validatedData);
+
+  res.status(201).json({ member });
+}));
+
+router.post('/:courseId/members/accept', authenticate, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const member = await CourseMemberService.accept(req.params.courseId, req.user!.id);
+
+  res.json({ member });
+}));
+
+router.post('/:courseId/members/decline', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  await CourseMemberService.decline(req.params.courseId, req.user!.id);
+
+  res.json({ success: true });
+}));
+
+router.patch('/:courseId/members/:memberId', authenticate, requireCourseOwner, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, memberId } = req.params;
+  const validatedData = updateMemberSchema.parse(req.body);
+
+  const member = await CourseMemberService.update(courseId, memberId, validatedData);
+
+  res.json({ member });
+}));
+
+router.delete('/:courseId/members/:memberId', authenticate, requireCourseOwner, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, memberId } = req.params;
+
+  await CourseMemberService.remove(courseId, memberId);
+
+  res.json({ success: true });
+}));
+
+// Grading queue: submissions awaiting grading by default, oldest first
+router.get('/:courseId/submissions', authenticate, requireCoursePermission('grade_submissions'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const filters = gradingQueueSchema.parse(req.query);
+
+  const submissions = await AssignmentService.queue(req.params.courseId, filters);
+
+  res.json({ submissions });
+}));
+
+router.post('/:courseId/submissions/:submissionId/grade', authenticate, requireCoursePermission('grade_submissions'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, submissionId } = req.params;
+  const validatedData = gradeSubmissionSchema.parse(req.body);
+
+  const submission = await AssignmentService.grade(courseId, submissionId, req.user!.id, validatedData);
+
+  // A passing grade can complete the course for the learner
+  await CourseCompletionService.sync(courseId, submission.user_id);
+
+  res.json({ submission });
+}));
+
+router.post('/:courseId/submissions/:submissionId/return', authenticate, requireCoursePermission('grade_submissions'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, submissionId } = req.params;
+  const { feedback } = returnSubmissionSchema.parse(req.body);
+
+  const submission = await AssignmentService.returnForRevision(courseId, submissionId, req.user!.id, feedback);
+
+  res.json({ submission });
+}));
+
+router.get('/:courseId/students', authenticate, requireCoursePermission('view_students'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+
+  const { data: enrollments, error } = await supabaseAdmin
+    .from('enrollments')
+    .select(`
+      id,
+      enrolled_at,
+      completed_at,
+      user:users(id, wallet_address, display_name, avatar_url),
+      progress:lesson_progress(lesson_id, completed, completed_at)
+    `)
+    .eq('course_id', courseId)
+    .order('enrolled_at', { ascending: false });
+
+  if (error) {
+    throw new AppError('Failed to fetch students', 500);
+  }
+
+  const { count: totalLessons } = await supabaseAdmin
+    .from('lessons')
+    .select('*', { count: 'exact', head: true })
+    .eq('course_id', courseId);
+
+  res.json({
+    students: (enrollments || []).map(({ progress, ...enrollment }) => {
+      const completedLessons = (progress || []).filter((p) => p.completed).length;
+
+      return {
+        ...enrollment,
+        completedLessons,
+        totalLessons: totalLessons ?? 0,
+        progressPercentage: totalLessons ? (completedLessons / totalLessons) * 100 : 0,
+      };
+    }),
+  });
+}));
+
+router.get('/:courseId/access-rules', optionalAuth, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+
+  const { data: course } = await supabaseAdmin
+    .from('courses')
+    .select('access_rule_mode')
+    .eq('id', courseId)
+    .single();
+
+  if (!course) {
+    throw new AppError('Course not found', 404);
+  }
+
+  const rules = await CourseAccessService.listRules(courseId);
+
+  res.json({
+    mode: course.access_rule_mode ?? 'all',
+    rules,
+    ...(req.user && { eligibility: await CourseAccessService.evaluate(courseId, req.user.id) }),
+  });
+}));
+
+router.post('/:courseId/access-rules', authenticate, requireCourseOwner, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+  const validatedData = createAccessRuleSchema.parse(req.body);
+
+  const { data: rule, error } = await supabaseAdmin
+    .from('course_access_rules')
+    .insert({
+      ...validatedData,
+      ...('contract_address' in validatedData && {
+        contract_address: validatedData.contract_address.toLowerCase(),
+      }),
+      course_id: courseId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new AppError('Failed to create access rule', 500);
+  }
+
+  res.status(201).json({ rule });
+}));
+
+router.delete('/:courseId/access-rules/:ruleId', authenticate, requireCourseOwner, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId, ruleId } = req.params;
+
+  const { data: deleted, error } = await supabaseAdmin
+    .from('course_access_rules')
+    .delete()
+    .eq('id', ruleId)
+    .eq('course_id', courseId)
+    .select('id');
+
+  if (error) {
+    throw new AppError('Failed to delete access rule', 500);
+  }
+
+  if (!deleted || deleted.length === 0) {
+    throw new AppError('Access rule not found', 404);
+  }
+
+  res.json({ success: true });
+}));
+
+router.get('/:courseId/prerequisites', optionalAuth, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+
+  const prerequisites = await PrerequisiteService.list(courseId);
+
+  res.json({
+    prerequisites,
+    ...(req.user && { eligibility: await PrerequisiteService.evaluate(courseId, req.user.id) }),
+  });
+}));
+
+router.put('/:courseId/prerequisites', authenticate, requireCourseOwner, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { prerequisites } = setPrerequisitesSchema.parse(req.body);
+
+  res.json({ prerequisites: await PrerequisiteService.set(req.params.courseId, prerequisites) });
+}));
+
+router.get('/:courseId/checkout/preview', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+  const { code } = checkoutPreviewSchema.parse(req.query);
+
+  const quote = await CouponService.quote(req.user!.id, courseId, code);
+
+  res.json({ quote });
+}));
+
+router.post('/:courseId/checkout', authenticate, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+  const { couponCode } = checkoutSchema.parse(req.body ?? {});
+
+  const { intent, enrollmentId, quote } = await PaymentService.checkout(req.user!.id, courseId, couponCode);
+
+  if (enrollmentId) {
+    const { data: enrollment } = await supabaseAdmin
+      .from('enrollments')
+      .select('*')
+      .eq('id', enrollmentId)
+      .single();
+
+    res.status(201).json({ intent: null, enrollment, quote });
+    return;
+  }
+
+  res.status(201).json({ intent, quote });
+}));
+
+router.post('/:courseId/enroll', authenticate, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseId } = req.params;
+  const { allowlistProofs } = enrollSchema.parse(req.body ?? {});
+  
+  const { data: existingEnrollment } = await supabaseAdmin
+    .from('enrollments')
+    .select('id')
+    .eq('user_id', req.user!.id)
+    .eq('course_id', courseId)
+    .single();
+  
+  if (existingEnrollment) {
+    throw new AppError('Already enrolled in this course', 400);
+  }
+  
+  const { data: course } = await supabaseAdmin
+    .from('courses')
+    .select('is_published, price_amount')
+    .eq('id', courseId)
+    .single();
+  
+  if (!course || !course.is_published) {
+    throw new AppError('Course not available', 404);
+  }
+
+  if (course.price_amount) {
+    throw new PaymentError('PAYMENT_REQUIRED', 'This course requires payment. Start a checkout first', 402);
+  }
+
+  await CourseAccessService.assertAccess(courseId, req.user!.id, allowlistProofs);
+
+  // Required prerequisites block enrollment; recommended ones come back as warnings
+  const { warnings } = await PrerequisiteService.assertMet(courseId, req.user!.id);
   
   const { data: enrollment, error } = await supabaseAdmin
     .from('enrollments')
@@ -522,7 +1671,7 @@ router.post('/:courseId/enroll', authenticate, invalidateCache('cache:*:\/api\/c
     throw new AppError('Failed to enroll in course', 500);
   }
   
-  res.status(201).json({ enrollment });
+  res.status(201).json({ enrollment, warnings });
 }));
 
 export const coursesRouter = router;
@@ -0,0 +1,92 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, optionalAuth, AuthRequest } from '../middleware/auth.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { supabaseAdmin } from '../config/supabase';
+import { LearningPathService } from '../services/learningPath.service';
+
+const router = Router();
+
+const createPathSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Use lowercase letters, digits and single "-"').max(100),
+  title: z.string().min(3).max(200),
+  description: z.string().nullable().optional(),
+  thumbnail_url: z.string().url().nullable().optional(),
+});
+
+const updatePathSchema = createPathSchema.partial().extend({
+  is_published: z.boolean().optional(),
+});
+
+const setPathCoursesSchema = z.object({
+  courseIds: z.array(z.string().uuid()).refine((ids) => new Set(ids).size === ids.length, {
+    message: 'Course ids must be unique',
+  }),
+});
+
+router.get('/', asyncHandler(async (_req: AuthRequest, res: Response) => {
+  const paths = await LearningPathService.listPublished();
+
+  res.json({ paths });
+}));
+
+// Landing page: the path, its courses in order and, for signed-in learners, their progress
+router.get('/:pathId', optionalAuth, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const path = await LearningPathService.get(req.params.pathId, req.user?.id);
+
+  if (!req.user) {
+    res.json({ path, enrollment: null });
+    return;
+  }
+
+  const { data: enrollment } = await supabaseAdmin
+    .from('path_enrollments')
+    .select('*')
+    .eq('path_id', path.id)
+    .eq('user_id', req.user.id)
+    .maybeSingle();
+
+  res.json({
+    path,
+    enrollment,
+    progress: await LearningPathService.progress(req.user.id, path.courses),
+  });
+}));
+
+router.post('/', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const validatedData = createPathSchema.parse(req.body);
+
+  const path = await LearningPathService.create(req.user!.id, validatedData);
+
+  res.status(201).json({ path });
+}));
+
+router.patch('/:pathId', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const validatedData = updatePathSchema.parse(req.body);
+
+  const path = await LearningPathService.update(req.user!.id, req.params.pathId, validatedData);
+
+  res.json({ path });
+}));
+
+router.delete('/:pathId', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  await LearningPathService.remove(req.user!.id, req.params.pathId);
+
+  res.json({ success: true });
+}));
+
+router.put('/:pathId/courses', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { courseIds } = setPathCoursesSchema.parse(req.body);
+
+  const courses = await LearningPathService.setCourses(req.user!.id, req.params.pathId, courseIds);
+
+  res.json({ courses });
+}));
+
+router.post('/:pathId/enroll', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const enrollment = await LearningPathService.enroll(req.user!.id, req.params.pathId);
+
+  res.status(201).json({ enrollment });
+}));
+
+export const pathsRouter = router;
@@ -0,0 +1,62 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, AuthRequest } from '../middleware/auth.middleware';
+import { invalidateCache } from '../middleware/cache.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { supabaseAdmin } from '../config/supabase';
+import { PaymentService } from '../services/payment.service';
+import { AuditService } from '../services/audit.service';
+import { getClientIp } from '../middleware/audit.middleware';
+
+const router = Router();
+
+const confirmPaymentSchema = z.object({
+  txHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid transaction hash'),
+});
+
+router.get('/:intentId', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const intent = await PaymentService.getIntent(req.user!.id, req.params.intentId);
+
+  res.json({ intent });
+}));
+
+router.post('/:intentId/confirm', authenticate, invalidateCache('cache:*:\/api\/courses*'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { txHash } = confirmPaymentSchema.parse(req.body);
+
+  const { intent, enrollmentId, created } = await PaymentService.confirm(
+    req.user!.id,
+    req.params.intentId,
+    txHash
+  );
+
+  const { data: enrollment } = await supabaseAdmin
+    .from('enrollments')
+    .select('*')
+    .eq('id', enrollmentId)
+    .single();
+
+  if (created) {
+    await AuditService.log({
+      userId: req.user!.id,
+      walletAddress: req.user!.address,
+      action: 'ENROLL',
+      resourceType: 'enrollment',
+      resourceId: enrollmentId,
+      ipAddress: getClientIp(req),
+      userAgent: req.get('user-agent'),
+      sessionId: req.user!.sessionId,
+      metadata: {
+        courseId: intent.course_id,
+        paymentIntentId: intent.id,
+        txHash: intent.tx_hash,
+        chainId: intent.chain_id,
+        amount: intent.amount,
+        tokenAddress: intent.token_address,
+      },
+    });
+  }
+
+  res.status(created ? 201 : 200).json({ intent, enrollment });
+}));
+
+export const paymentsRouter = router;
@@ -0,0 +1,65 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireAdmin, RoleAuthRequest } from '../middleware/roles.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
+import { RevenueService } from '../services/revenue.service';
+import { AuditService } from '../services/audit.service';
+import { getClientIp } from '../middleware/audit.middleware';
+
+const router = Router();
+
+const recordPayoutSchema = z.object({
+  instructor_id: z.string().uuid(),
+  chain_id: z.number().int().positive(),
+  token_address: z.string().regex(/^0x[a-fA-F0-9]{40}$/).nullable().optional(), // null for the native currency
+  currency: z.string().min(1).max(16).optional(),
+  decimals: z.number().int().min(0).max(36).optional(),
+  amount: z.string().regex(/^\d+$/, 'Must be a non-negative integer string'), // Base units
+  recipient_address: z.string().regex(/^0x[a-fA-F0-9]{40}$/).optional(),
+  tx_hash: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid transaction hash'),
+  note: z.string().max(500).optional(),
+  paid_at: z.string().datetime({ offset: true }).optional(),
+});
+
+const listPayoutsSchema = z.object({
+  instructorId: z.string().uuid(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+
+router.get('/', authenticate, requireAdmin, asyncHandler(async (req: RoleAuthRequest, res: Response) => {
+  const { instructorId, from, to } = listPayoutsSchema.parse(req.query);
+
+  const payouts = await RevenueService.listPayouts(instructorId, { from, to });
+
+  res.json({ payouts });
+}));
+
+router.post('/', authenticate, requireAdmin, asyncHandler(async (req: RoleAuthRequest, res: Response) => {
+  const validatedData = recordPayoutSchema.parse(req.body);
+
+  const payout = await RevenueService.recordPayout(req.user!.id, validatedData);
+
+  await AuditService.log({
+    userId: req.user!.id,
+    walletAddress: req.user!.address,
+    action: 'CREATE',
+    resourceType: 'payout',
+    resourceId: payout.id,
+    ipAddress: getClientIp(req),
+    userAgent: req.get('user-agent'),
+    sessionId: req.user!.sessionId,
+    metadata: {
+      instructorId: payout.instructor_id,
+      amount: payout.amount,
+      chainId: payout.chain_id,
+      tokenAddress: payout.token_address,
+      txHash: payout.tx_hash,
+    },
+  });
+
+  res.status(201).json({ payout });
+}));
+
+export const payoutsRouter = router;
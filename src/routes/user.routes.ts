@@ -4,9 +4,39 @@ import { authenticate, AuthRequest } from '../middleware/auth.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
 import { AppError } from '../utils/errors';
 import { supabaseAdmin } from '../config/supabase';
+import { SessionService } from '../services/session.service';
+import { SiweService } from '../services/siwe.service';
+import { WalletService } from '../services/wallet.service';
+import { EnsService } from '../services/ens.service';
+import { SalesService } from '../services/sales.service';
+import { RevenueService } from '../services/revenue.service';
+import { CurriculumService, Lesson, Section } from '../services/curriculum.service';
+import { LessonReleaseService } from '../services/lessonRelease.service';
+import { QuizService } from '../services/quiz.service';
+import { AssignmentService } from '../services/assignment.service';
+import { CodeExerciseService } from '../services/codeExercise.service';
+import { CourseCompletionService } from '../services/courseCompletion.service';
+import { NotificationService } from '../services/notification.service';
+import { LearningPathService } from '../services/learningPath.service';
+import { CourseMemberService } from '../services/courseMember.service';
+import { AuditService } from '../services/audit.service';
+import { CacheService } from '../services/cache.service';
+import { getClientIp } from '../middleware/audit.middleware';
 
 const router = Router();
 
+const linkWalletSchema = z.object({
+  message: z.string(),
+  signature: z.string(),
+});
+
+const walletAddressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
+
+const salesRangeSchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+
 const updateProfileSchema = z.object({
   display_name: z.string().min(1).max(100).optional(),
   bio: z.string().max(500).optional(),
@@ -25,7 +55,12 @@ router.get('/profile', authenticate, asyncHandler(async (req: AuthRequest, res:
     .select(`
       *,
       _count:courses!courses_instructor_id_fkey(count),
-      _enrolled:enrollments(count)
+      _enrolled:enrollments(count),
+      wallets:user_wallets(
+        address,
+        is_primary,
+        linked_at
+      )
     `)
     .eq('id', req.user!.id)
     .single();
@@ -34,7 +69,7 @@ router.get('/profile', authenticate, asyncHandler(async (req: AuthRequest, res:
     throw new AppError('User not found', 404);
   }
   
-  res.json({ user });
+  res.json({ user: await EnsService.withProfile(user) });
 }));
 
 router.patch('/profile', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
@@ -57,7 +92,18 @@ router.patch('/profile', authenticate, asyncHandler(async (req: AuthRequest, res
   res.json({ user });
 }));
 
+// Courses the user owns or helps teach, with their role and permissions on each
 router.get('/teaching', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { data: memberships, error: membershipError } = await supabaseAdmin
+    .from('course_members')
+    .select('course_id, role, permissions')
+    .eq('user_id', req.user!.id)
+    .eq('status', 'active');
+
+  if (membershipError) {
+    throw new AppError('Failed to fetch courses', 500);
+  }
+
   const { data: courses, error } = await supabaseAdmin
     .from('courses')
     .select(`
@@ -65,16 +111,89 @@ router.get('/teaching', authenticate, asyncHandler(async (req: AuthRequest, res:
       _count:enrollments(count),
       _lessons:lessons(count)
     `)
-    .eq('instructor_id', req.user!.id)
+    .in('id', (memberships || []).map((membership) => membership.course_id))
     .order('created_at', { ascending: false });
   
   if (error) {
     throw new AppError('Failed to fetch courses', 500);
   }
+
+  const byCourse = new Map((memberships || []).map((membership) => [membership.course_id, membership]));
   
-  res.json({ courses });
+  res.json({
+    courses: courses.map((course) => {
+      const membership = byCourse.get(course.id)!;
+      return {
+        ...course,
+        role: membership.role,
+        permissions: CourseMemberService.permissionsOf(membership),
+      };
+    }),
+  });
+}));
+
+const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).optional(), // Omit to mark every notification read
+});
+
+router.get('/notifications', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const unreadOnly = req.query.unread === 'true';
+
+  res.json(await NotificationService.list(req.user!.id, { unreadOnly }));
+}));
+
+router.post('/notifications/read', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { ids } = markNotificationsReadSchema.parse(req.body);
+
+  await NotificationService.markRead(req.user!.id, ids);
+
+  res.json({ success: true });
+}));
+
+router.get('/invitations', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const invitations = await CourseMemberService.listInvitations(req.user!.id);
+
+  res.json({ invitations });
 }));
 
+router.get('/teaching/sales', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { from, to } = salesRangeSchema.parse(req.query);
+
+  const sales = await SalesService.listForInstructor(req.user!.id, { from, to });
+
+  res.json({ sales });
+}));
+
+router.get('/teaching/revenue', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { from, to } = salesRangeSchema.parse(req.query);
+
+  const report = await RevenueService.getReport(req.user!.id, { from, to });
+
+  res.json({ report });
+}));
+
+router.get('/teaching/revenue/export', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { from, to } = salesRangeSchema.parse(req.query);
+
+  const entries = await RevenueService.getLedger(req.user!.id, { from, to });
+  const period = [from, to].map((date) => (date ? date.slice(0, 10) : 'all')).join('_');
+
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="revenue-${period}.csv"`);
+  res.send(RevenueService.toCsv(entries));
+}));
+
+router.get('/teaching/payouts', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { from, to } = salesRangeSchema.parse(req.query);
+
+  const payouts = await RevenueService.listPayouts(req.user!.id, { from, to });
+
+  res.json({ payouts });
+}));
+
+type CourseSection = Pick<Section, 'id' | 'title' | 'order'>;
+type CourseLesson = Pick<Lesson, 'id' | 'order' | 'section_id'>;
+
 router.get('/progress', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
   const { data: enrollments, error } = await supabaseAdmin
     .from('enrollments')
@@ -84,7 +203,8 @@ router.get('/progress', authenticate, asyncHandler(async (req: AuthRequest, res:
         id,
         title,
         thumbnail_url,
-        _total_lessons:lessons(count)
+        lessons(id, order, section_id),
+        sections(id, title, order)
       ),
       progress:lesson_progress(
         lesson_id,
@@ -99,19 +219,34 @@ router.get('/progress', authenticate, asyncHandler(async (req: AuthRequest, res:
   }
   
   const progressData = enrollments.map((enrollment: any) => {
-    const totalLessons = enrollment.course?._total_lessons?.[0]?.count || 0;
-    const completedLessons = enrollment.progress?.filter((p: any) => p.completed).length || 0;
+    const { lessons, sections, ...course } = enrollment.course || {};
+    const completedIds = new Set<string>(
+      (enrollment.progress || [])
+        .filter((p: { completed: boolean }) => p.completed)
+        .map((p: { lesson_id: string }) => p.lesson_id)
+    );
+    const curriculum = CurriculumService.buildTree<CourseSection, CourseLesson>(sections || [], lessons || []);
+
+    const courseLessons = CurriculumService.flatten(curriculum);
+
+    const totalLessons = courseLessons.length;
+    const completedLessons = courseLessons.filter((lesson) => completedIds.has(lesson.id)).length;
     const progressPercentage = totalLessons > 0 ? (completedLessons / totalLessons) * 100 : 0;
 
     return {
       ...enrollment,
+      course: enrollment.course ? course : null,
       progressPercentage,
       completedLessons,
       totalLessons,
+      sections: CurriculumService.rollup(curriculum, completedIds),
     };
   });
   
-  res.json({ progress: progressData });
+  res.json({
+    progress: progressData,
+    paths: await LearningPathService.listEnrolled(req.user!.id),
+  });
 }));
 
 router.post('/progress/lesson/:lessonId', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
@@ -120,7 +255,7 @@ router.post('/progress/lesson/:lessonId', authenticate, asyncHandler(async (req:
   
   const { data: lesson } = await supabaseAdmin
     .from('lessons')
-    .select('course_id')
+    .select('id, course_id')
     .eq('id', lessonId)
     .single();
 
@@ -138,6 +273,19 @@ router.post('/progress/lesson/:lessonId', authenticate, asyncHandler(async (req:
   if (!enrollment) {
     throw new AppError('Not enrolled in this course', 403);
   }
+
+  // Drip release and, in sequential courses, completion of the previous lesson
+  await LessonReleaseService.assertAccessible(
+    lesson.course_id,
+    lesson.id,
+    await LessonReleaseService.getViewer(lesson.course_id, req.user!.id)
+  );
+
+  if (completed) {
+    await QuizService.assertCompletable(lesson.id, req.user!.id);
+    await AssignmentService.assertCompletable(lesson.id, req.user!.id);
+    await CodeExerciseService.assertCompletable(lesson.id, req.user!.id);
+  }
   
   const { data: progress, error } = await supabaseAdmin
     .from('lesson_progress')
@@ -156,27 +304,25 @@ router.post('/progress/lesson/:lessonId', authenticate, asyncHandler(async (req:
   if (error) {
     throw new AppError('Failed to update progress', 500);
   }
+
+  // Completing a lesson can unlock the next one in the cached lesson list
+  await CacheService.delPattern(`cache:GET:/api/courses/${lesson.course_id}/lessons*:user:${req.user!.id}`);
   
-  const { data: allProgress } = await supabaseAdmin
-    .from('lesson_progress')
-    .select('completed')
-    .eq('enrollment_id', enrollment.id);
-  
-  const { data: totalLessons } = await supabaseAdmin
-    .from('lessons')
-    .select('id')
-    .eq('course_id', lesson.course_id);
-  
-  const allCompleted = allProgress?.length === totalLessons?.length &&
-                       allProgress?.every((p: any) => p.completed);
+  // Updates progress_percentage and, once the course's criteria are met, completes the
+  // enrollment and issues the certificate
+  const completion = await CourseCompletionService.sync(lesson.course_id, req.user!.id);
   
   res.json({ 
     progress,
-    courseCompleted: allCompleted,
+    courseCompleted: !!completion?.completed,
+    completion,
   });
 }));
 
 router.get('/certificates', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  // Courses completed without a certificate get it now
+  await CourseCompletionService.issueMissingCertificates(req.user!.id);
+
   const { data: certificates, error } = await supabaseAdmin
     .from('certificates')
     .select(`
@@ -188,6 +334,11 @@ router.get('/certificates', authenticate, asyncHandler(async (req: AuthRequest,
           display_name,
           wallet_address
         )
+      ),
+      path:learning_paths(
+        id,
+        slug,
+        title
       )
     `)
     .eq('user_id', req.user!.id)
@@ -231,8 +382,133 @@ router.post('/become-instructor', authenticate, asyncHandler(async (req: AuthReq
   });
 }));
 
+router.get('/sessions', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const sessions = await SessionService.listActive(req.user!.id);
+
+  res.json({
+    sessions: sessions.map((session) => ({
+      ...session,
+      current: session.id === req.user!.sessionId,
+    })),
+  });
+}));
+
+router.delete('/sessions', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const revoked = await SessionService.revokeAllForUser(req.user!.id, 'logout_all');
+
+  await AuditService.log({
+    userId: req.user!.id,
+    walletAddress: req.user!.address,
+    action: 'LOGOUT',
+    resourceType: 'auth',
+    ipAddress: getClientIp(req),
+    userAgent: req.get('user-agent'),
+    sessionId: req.user!.sessionId,
+    metadata: { scope: 'all', revoked },
+  });
+
+  res.json({ success: true, revoked });
+}));
+
+router.delete('/sessions/:sessionId', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { sessionId } = req.params;
+
+  await SessionService.revokeForUser(req.user!.id, sessionId, 'revoked_by_user');
+
+  await AuditService.log({
+    userId: req.user!.id,
+    walletAddress: req.user!.address,
+    action: 'LOGOUT',
+    resourceType: 'auth',
+    resourceId: sessionId,
+    ipAddress: getClientIp(req),
+    userAgent: req.get('user-agent'),
+    sessionId: req.user!.sessionId,
+    metadata: { scope: 'single' },
+  });
+
+  res.json({ success: true, current: sessionId === req.user!.sessionId });
+}));
+
+router.get('/wallets', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const wallets = await WalletService.list(req.user!.id);
+
+  res.json({ wallets });
+}));
+
+router.post('/wallets', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { message, signature } = linkWalletSchema.parse(req.body);
+
+  // The new wallet proves control by signing a SIWE message with a nonce from /auth/nonce
+  const siweMessage = await SiweService.verify(message, signature);
+  await SiweService.consumeNonce(siweMessage);
+
+  const wallet = await WalletService.link(req.user!.id, siweMessage.address);
+
+  await AuditService.log({
+    userId: req.user!.id,
+    walletAddress: req.user!.address,
+    action: 'CREATE',
+    resourceType: 'wallet',
+    resourceId: wallet.address,
+    ipAddress: getClientIp(req),
+    userAgent: req.get('user-agent'),
+  });
+
+  res.status(201).json({ wallet });
+}));
+
+router.delete('/wallets/:walletAddress', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const walletAddress = walletAddressSchema.parse(req.params.walletAddress);
+
+  await WalletService.unlink(req.user!.id, walletAddress);
+
+  await AuditService.log({
+    userId: req.user!.id,
+    walletAddress: req.user!.address,
+    action: 'DELETE',
+    resourceType: 'wallet',
+    resourceId: walletAddress.toLowerCase(),
+    ipAddress: getClientIp(req),
+    userAgent: req.get('user-agent'),
+  });
+
+  res.json({ success: true });
+}));
+
+router.post('/wallets/:walletAddress/primary', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const walletAddress = walletAddressSchema.parse(req.params.walletAddress);
+
+  await WalletService.setPrimary(req.user!.id, walletAddress);
+
+  await AuditService.log({
+    userId: req.user!.id,
+    walletAddress: req.user!.address,
+    action: 'UPDATE',
+    resourceType: 'wallet',
+    resourceId: walletAddress.toLowerCase(),
+    ipAddress: getClientIp(req),
+    userAgent: req.get('user-agent'),
+    changes: { primary: walletAddress.toLowerCase() },
+  });
+
+  const wallets = await WalletService.list(req.user!.id);
+
+  res.json({ wallets });
+}));
+
 router.get('/:address', asyncHandler(async (req: Request, res: Response) => {
-  const { address } = req.params;
+  const { address: addressOrName } = req.params;
+
+  const address = EnsService.isEnsName(addressOrName)
+    ? await EnsService.resolveName(addressOrName)
+    : addressOrName;
+
+  const userId = address ? await WalletService.findUserId(address) : null;
+
+  if (!userId) {
+    throw new AppError('User not found', 404);
+  }
   
   const { data: user, error } = await supabaseAdmin
     .from('users')
@@ -253,7 +529,7 @@ router.get('/:address', asyncHandler(async (req: Request, res: Response) => {
         _count:enrollments(count)
       )
     `)
-    .eq('wallet_address', address.toLowerCase())
+    .eq('id', userId)
     .single();
   
   if (error || !user) {
@@ -262,7 +538,7 @@ router.get('/:address', asyncHandler(async (req: Request, res: Response) => {
   
   user.courses = user.courses.filter((course: any) => course.is_published);
   
-  res.json({ user });
+  res.json({ user: await EnsService.withProfile(user) });
 }));
 
 export const userRouter = router;
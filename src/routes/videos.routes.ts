@@ -1,9 +1,12 @@
 import { Router, Response, Request } from 'express';
 import crypto from 'crypto';
-import { authenticate, AuthRequest } from '../middleware/auth.middleware';
+import { authenticate, optionalAuth, AuthRequest } from '../middleware/auth.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
 import { AppError } from '../utils/errors';
 import { supabaseAdmin } from '../config/supabase';
+import { LessonReleaseService } from '../services/lessonRelease.service';
+import { CourseMemberService } from '../services/courseMember.service';
+import { CourseDuplicationService } from '../services/courseDuplication.service';
 
 const router = Router();
 
@@ -18,13 +21,7 @@ router.post('/upload-url', authenticate, asyncHandler(async (req: AuthRequest, r
     throw new AppError('Course ID is required', 400);
   }
 
-  const { data: course } = await supabaseAdmin
-    .from('courses')
-    .select('instructor_id')
-    .eq('id', courseId)
-    .single();
-
-  if (!course || course.instructor_id !== req.user!.id) {
+  if (!(await CourseMemberService.hasPermission(courseId, req.user!.id, 'upload_video'))) {
     throw new AppError('Access denied', 403);
   }
 
@@ -75,7 +72,57 @@ router.post('/upload-url', authenticate, asyncHandler(async (req: AuthRequest, r
   });
 }));
 
-router.get('/:videoId', authenticate, asyncHandler(async (req: AuthRequest, res: Response) => {
+interface VideoUse {
+  id: string | null;
+  course_id: string;
+  is_preview: boolean;
+}
+
+/**
+ * Whether the user may watch a video through one lesson (or, for a video not yet
+ * attached to a lesson, through its course)
+ */
+async function assertCanWatch(use: VideoUse, userId?: string): Promise<void> {
+  const { data: course } = await supabaseAdmin
+    .from('courses')
+    .select('is_published')
+    .eq('id', use.course_id)
+    .single();
+
+  // Preview lessons of published courses can be watched without enrolling
+  if (course?.is_published && use.is_preview) {
+    return;
+  }
+
+  if (!userId) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const [{ data: enrollment }, isStaff] = await Promise.all([
+    supabaseAdmin
+      .from('enrollments')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('course_id', use.course_id)
+      .maybeSingle(),
+    CourseMemberService.isStaff(use.course_id, userId),
+  ]);
+
+  if (!course || (!isStaff && !enrollment)) {
+    throw new AppError('Access denied', 403);
+  }
+
+  // Drip release and sequential gating: the lesson using this video must be unlocked for the learner
+  if (use.id) {
+    await LessonReleaseService.assertAccessible(
+      use.course_id,
+      use.id,
+      await LessonReleaseService.getViewer(use.course_id, userId)
+    );
+  }
+}
+
+router.get('/:videoId', optionalAuth, asyncHandler(async (req: AuthRequest, res: Response) => {
   const { videoId } = req.params;
   
   const response = await fetch(`${CLOUDFLARE_BASE_URL}/stream/${videoId}`, {
@@ -89,25 +136,29 @@ router.get('/:videoId', authenticate, asyncHandler(async (req: AuthRequest, res:
   }
   
   const data = await response.json() as any;
-  
+
+  // Duplicated courses can reuse videos, so every lesson using the video may grant access
+  const { data: lessons } = await supabaseAdmin
+    .from('lessons')
+    .select('id, course_id, is_preview')
+    .eq('video_url', videoId);
+
   const meta = data.result.meta;
-  if (meta && meta.courseId) {
-    const { data: course } = await supabaseAdmin
-      .from('courses')
-      .select('instructor_id')
-      .eq('id', meta.courseId)
-      .single();
-    
-    const { data: enrollment } = await supabaseAdmin
-      .from('enrollments')
-      .select('id')
-      .eq('user_id', req.user!.id)
-      .eq('course_id', meta.courseId)
-      .single();
-    
-    if (!course || (course.instructor_id !== req.user!.id && !enrollment)) {
-      throw new AppError('Access denied', 403);
+  const uses: VideoUse[] = (lessons || []).flatMap((lesson) =>
+    lesson.course_id ? [{ id: lesson.id, course_id: lesson.course_id, is_preview: lesson.is_preview }] : []
+  );
+  if (uses.length === 0 && meta?.courseId) {
+    uses.push({ id: null, course_id: meta.courseId, is_preview: false });
+  }
+
+  if (uses.length > 0) {
+    const results = await Promise.allSettled(uses.map((use) => assertCanWatch(use, req.user?.id)));
+
+    if (!results.some((result) => result.status === 'fulfilled')) {
+      throw (results[0] as PromiseRejectedResult).reason;
     }
+  } else if (!req.user) {
+    throw new AppError('Authentication required', 401);
   }
   
   res.json({
@@ -238,6 +289,11 @@ router.post('/webhook', asyncHandler(async (req: Request, res: Response) => {
     metadata: meta,
   });
 
+  // A finished copy of a duplicated course's video no longer needs the original's download
+  if ((status?.state === 'ready' && readyToStream) || status?.state === 'error') {
+    await CourseDuplicationService.finishVideoCopy(meta);
+  }
+
   // Handle successful video processing
   if (status?.state === 'ready' && readyToStream) {
     if (meta?.lessonId) {
@@ -272,8 +328,9 @@ router.post('/webhook', asyncHandler(async (req: Request, res: Response) => {
       lessonId: meta?.lessonId,
     });
 
-    // Optionally update lesson to indicate error
-    if (meta?.lessonId) {
+    // Optionally update lesson to indicate error. A failed copy of a duplicated
+    // course's video leaves the lesson on the original.
+    if (meta?.lessonId && !meta.copyOf) {
       await supabaseAdmin
         .from('lessons')
         .update({
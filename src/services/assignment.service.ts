@@ -0,0 +1,430 @@
+import { isAddress } from 'ethers';
+import { getRpcProvider } from '../config/ethereum';
+import { supabaseAdmin } from '../config/supabase';
+import { Database, Json } from '../types/database.types';
+import { AppError, AssignmentError, AssignmentErrorCode, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { NotificationService } from './notification.service';
+
+export type Assignment = Database['public']['Tables']['assignments']['Row'];
+export type AssignmentSubmission = Database['public']['Tables']['assignment_submissions']['Row'];
+
+export type SubmissionType = 'text' | 'url' | 'github' | 'contract';
+export type SubmissionStatus = 'submitted' | 'returned' | 'graded';
+
+export interface RubricCriterion {
+  key: string;
+  title: string;
+  description?: string | null;
+  max_points: number;
+}
+
+export interface AssignmentSettings {
+  title: string;
+  instructions: string;
+  submission_types: SubmissionType[];
+  contract_chain_id?: number | null;
+  rubric: RubricCriterion[];
+  pass_percentage?: number;
+  allow_resubmission?: boolean;
+  max_submissions?: number | null;
+  required_to_complete?: boolean;
+}
+
+export interface SubmissionInput {
+  submission_type: SubmissionType;
+  content: string;
+}
+
+export interface GradeInput {
+  /** Criterion key -> points, for every criterion of the rubric */
+  rubric_scores: Record<string, number>;
+  feedback?: string | null;
+}
+
+const GITHUB_REPO_URL = /^https:\/\/github\.com\/[\w.-]+\/[\w.-]+(\/.*)?$/i;
+
+// Errors raised by submit_assignment
+const SUBMIT_ERRORS: Partial<Record<AssignmentErrorCode, string>> = {
+  SUBMISSION_PENDING: 'Your previous submission has not been graded yet',
+  ASSIGNMENT_ALREADY_PASSED: 'You already passed this assignment',
+  RESUBMISSION_NOT_ALLOWED: 'This assignment does not accept resubmissions',
+  MAX_SUBMISSIONS_REACHED: 'No submissions left for this assignment',
+};
+
+export class AssignmentService {
+  /**
+   * Assignment of a lesson, or null
+   */
+  static async getForLesson(courseId: string, lessonId: string): Promise<Assignment | null> {
+    await this.assertLessonInCourse(courseId, lessonId);
+
+    const { data: assignment } = await supabaseAdmin
+      .from('assignments')
+      .select('*')
+      .eq('lesson_id', lessonId)
+      .maybeSingle();
+
+    return assignment;
+  }
+
+  /**
+   * @throws NotFoundError if the lesson has no assignment
+   */
+  static async getForLessonOrFail(courseId: string, lessonId: string): Promise<Assignment> {
+    const assignment = await this.getForLesson(courseId, lessonId);
+
+    if (!assignment) {
+      throw new NotFoundError('Assignment not found');
+    }
+
+    return assignment;
+  }
+
+  /**
+   * Create the assignment of a lesson or replace its settings
+   */
+  static async upsert(courseId: string, lessonId: string, settings: AssignmentSettings): Promise<Assignment> {
+    await this.assertLessonInCourse(courseId, lessonId);
+
+    if (settings.submission_types.includes('contract') && !settings.contract_chain_id) {
+      throw new ValidationError('contract_chain_id is required for contract submissions');
+    }
+
+    const { data: assignment, error } = await supabaseAdmin
+      .from('assignments')
+      .upsert(
+        { ...settings, rubric: settings.rubric as unknown as Json, lesson_id: lessonId },
+        { onConflict: 'lesson_id' }
+      )
+      .select()
+      .single();
+
+    if (error || !assignment) {
+      throw new AppError('Failed to save assignment', 500);
+    }
+
+    return assignment;
+  }
+
+  /**
+   * Delete the assignment of a lesson with its submissions
+   */
+  static async remove(courseId: string, lessonId: string): Promise<void> {
+    const assignment = await this.getForLessonOrFail(courseId, lessonId);
+
+    const { error } = await supabaseAdmin.from('assignments').delete().eq('id', assignment.id);
+
+    if (error) {
+      throw new AppError('Failed to delete assignment', 500);
+    }
+  }
+
+  /**
+   * Submit work for an assignment
+   * @throws AssignmentError when the resubmission rules do not allow another submission
+   */
+  static async submit(
+    assignment: Assignment,
+    courseId: string,
+    userId: string,
+    input: SubmissionInput
+  ): Promise<AssignmentSubmission> {
+    if (!assignment.submission_types.includes(input.submission_type)) {
+      throw new ValidationError(`This assignment accepts ${assignment.submission_types.join(', ')} submissions`);
+    }
+
+    const content = await this.normalizeContent(assignment, input);
+
+    const { data: submissionId, error } = await supabaseAdmin.rpc('submit_assignment', {
+      assignment_id_param: assignment.id,
+      course_id_param: courseId,
+      user_id_param: userId,
+      submission_type_param: input.submission_type,
+      content_param: content,
+    });
+
+    if (error || !submissionId) {
+      const code = (Object.keys(SUBMIT_ERRORS) as AssignmentErrorCode[]).find((key) => error?.message?.includes(key));
+      if (code) {
+        throw new AssignmentError(code, SUBMIT_ERRORS[code]!);
+      }
+      if (error?.message?.includes('ASSIGNMENT_NOT_FOUND')) {
+        throw new NotFoundError('Assignment not found');
+      }
+
+      logger.error('Failed to submit assignment:', error);
+      throw new AppError('Failed to submit assignment', 500);
+    }
+
+    return this.getSubmission(courseId, submissionId);
+  }
+
+  /**
+   * A learner's submissions to an assignment, newest first
+   */
+  static async listSubmissions(assignmentId: string, userId: string): Promise<AssignmentSubmission[]> {
+    const { data, error } = await supabaseAdmin
+      .from('assignment_submissions')
+      .select('*')
+      .eq('assignment_id', assignmentId)
+      .eq('user_id', userId)
+      .order('attempt_number', { ascending: false });
+
+    if (error) {
+      throw new AppError('Failed to fetch submissions', 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Grading queue of a course, oldest first
+   */
+  static async queue(courseId: string, filters: { status?: SubmissionStatus; assignmentId?: string } = {}) {
+    let query = supabaseAdmin
+      .from('assignment_submissions')
+      .select(`
+        *,
+        assignment:assignments(id, lesson_id, title, rubric, pass_percentage),
+        user:users!assignment_submissions_user_id_fkey(id, wallet_address, display_name, avatar_url)
+      `)
+      .eq('course_id', courseId)
+      .eq('status', filters.status ?? 'submitted')
+      .order('submitted_at', { ascending: true });
+
+    if (filters.assignmentId) {
+      query = query.eq('assignment_id', filters.assignmentId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new AppError('Failed to fetch grading queue', 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Score a submission against the rubric and notify the learner
+   * @throws ValidationError unless every rubric criterion is scored within its points
+   */
+  static async grade(courseId: string, submissionId: string, graderId: string, input: GradeInput) {
+    const submission = await this.getPendingSubmission(courseId, submissionId);
+    const assignment = await this.getAssignment(submission.assignment_id);
+    const rubric = assignment.rubric as unknown as RubricCriterion[];
+
+    const unknownKeys = Object.keys(input.rubric_scores).filter(
+      (key) => !rubric.some((criterion) => criterion.key === key)
+    );
+    if (unknownKeys.length) {
+      throw new ValidationError(`Unknown rubric criteria: ${unknownKeys.join(', ')}`);
+    }
+
+    for (const criterion of rubric) {
+      const points = input.rubric_scores[criterion.key];
+      if (points === undefined || points < 0 || points > criterion.max_points) {
+        throw new ValidationError(`Rubric score "${criterion.key}" must be between 0 and ${criterion.max_points}`);
+      }
+    }
+
+    const score = rubric.reduce((sum, criterion) => sum + input.rubric_scores[criterion.key], 0);
+    const maxScore = rubric.reduce((sum, criterion) => sum + criterion.max_points, 0);
+    // Integer comparison so a 60% pass mark is not missed by rounding
+    const passed = score * 100 >= assignment.pass_percentage * maxScore;
+
+    const graded = await this.updatePending(submission.id, {
+      status: 'graded',
+      rubric_scores: input.rubric_scores,
+      score,
+      max_score: maxScore,
+      passed,
+      feedback: input.feedback ?? null,
+      graded_by: graderId,
+      graded_at: new Date().toISOString(),
+    });
+
+    await NotificationService.notify(submission.user_id, {
+      type: 'assignment_graded',
+      title: `"${assignment.title}" was graded`,
+      body: `Score ${score}/${maxScore}: ${passed ? 'passed' : 'not passed yet'}`,
+      data: { courseId, lessonId: assignment.lesson_id, assignmentId: assignment.id, submissionId: submission.id },
+    });
+
+    return graded;
+  }
+
+  /**
+   * Send a submission back for revision; the learner can always resubmit after this
+   */
+  static async returnForRevision(courseId: string, submissionId: string, graderId: string, feedback: string) {
+    const submission = await this.getPendingSubmission(courseId, submissionId);
+    const assignment = await this.getAssignment(submission.assignment_id);
+
+    const returned = await this.updatePending(submission.id, {
+      status: 'returned',
+      feedback,
+      graded_by: graderId,
+      graded_at: new Date().toISOString(),
+    });
+
+    await NotificationService.notify(submission.user_id, {
+      type: 'assignment_returned',
+      title: `"${assignment.title}" needs revision`,
+      body: feedback,
+      data: { courseId, lessonId: assignment.lesson_id, assignmentId: assignment.id, submissionId: submission.id },
+    });
+
+    return returned;
+  }
+
+  /**
+   * Whether the learner has a passing grade on the assignment
+   */
+  static async hasPassed(assignmentId: string, userId: string): Promise<boolean> {
+    const { count } = await supabaseAdmin
+      .from('assignment_submissions')
+      .select('id', { count: 'exact', head: true })
+      .eq('assignment_id', assignmentId)
+      .eq('user_id', userId)
+      .eq('status', 'graded')
+      .eq('passed', true);
+
+    return !!count;
+  }
+
+  /**
+   * Lessons whose assignment is required_to_complete can only be completed once it is passed
+   * @throws AssignmentError ASSIGNMENT_NOT_PASSED
+   */
+  static async assertCompletable(lessonId: string, userId: string): Promise<void> {
+    const { data: assignment } = await supabaseAdmin
+      .from('assignments')
+      .select('id, required_to_complete')
+      .eq('lesson_id', lessonId)
+      .maybeSingle();
+
+    if (assignment?.required_to_complete && !(await this.hasPassed(assignment.id, userId))) {
+      throw new AssignmentError('ASSIGNMENT_NOT_PASSED', 'Pass the assignment of this lesson to complete it', 403);
+    }
+  }
+
+  /**
+   * Check submitted content against its type; contract addresses must hold code on the
+   * assignment's chain when an RPC provider is configured for it
+   */
+  private static async normalizeContent(assignment: Assignment, input: SubmissionInput): Promise<string> {
+    const content = input.content.trim();
+
+    switch (input.submission_type) {
+      case 'text':
+        if (!content) {
+          throw new ValidationError('Submission text is empty');
+        }
+        return content;
+      case 'url':
+        if (!/^https?:\/\/\S+$/i.test(content)) {
+          throw new ValidationError('Submit an http(s) URL');
+        }
+        return content;
+      case 'github':
+        if (!GITHUB_REPO_URL.test(content)) {
+          throw new ValidationError('Submit a GitHub repository URL (https://github.com/owner/repo)');
+        }
+        return content;
+      case 'contract': {
+        if (!isAddress(content)) {
+          throw new ValidationError('Invalid contract address');
+        }
+
+        const provider = getRpcProvider(assignment.contract_chain_id!);
+        if (provider && (await provider.getCode(content)) === '0x') {
+          throw new ValidationError(`No contract deployed at ${content} on chain ${assignment.contract_chain_id}`);
+        }
+        return content.toLowerCase();
+      }
+    }
+  }
+
+  private static async getAssignment(assignmentId: string): Promise<Assignment> {
+    const { data: assignment } = await supabaseAdmin
+      .from('assignments')
+      .select('*')
+      .eq('id', assignmentId)
+      .single();
+
+    if (!assignment) {
+      throw new NotFoundError('Assignment not found');
+    }
+
+    return assignment;
+  }
+
+  private static async getSubmission(courseId: string, submissionId: string): Promise<AssignmentSubmission> {
+    const { data: submission } = await supabaseAdmin
+      .from('assignment_submissions')
+      .select('*')
+      .eq('id', submissionId)
+      .eq('course_id', courseId)
+      .maybeSingle();
+
+    if (!submission) {
+      throw new NotFoundError('Submission not found');
+    }
+
+    return submission;
+  }
+
+  /**
+   * @throws AssignmentError SUBMISSION_ALREADY_GRADED unless the submission awaits grading
+   */
+  private static async getPendingSubmission(courseId: string, submissionId: string): Promise<AssignmentSubmission> {
+    const submission = await this.getSubmission(courseId, submissionId);
+
+    if (submission.status !== 'submitted') {
+      throw new AssignmentError('SUBMISSION_ALREADY_GRADED', 'This submission was already graded or returned');
+    }
+
+    return submission;
+  }
+
+  /**
+   * Update a submission still awaiting grading, so two graders cannot both grade it
+   */
+  private static async updatePending(
+    submissionId: string,
+    changes: Database['public']['Tables']['assignment_submissions']['Update']
+  ): Promise<AssignmentSubmission> {
+    const { data: submission, error } = await supabaseAdmin
+      .from('assignment_submissions')
+      .update(changes)
+      .eq('id', submissionId)
+      .eq('status', 'submitted')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError('Failed to update submission', 500);
+    }
+
+    if (!submission) {
+      throw new AssignmentError('SUBMISSION_ALREADY_GRADED', 'This submission was already graded or returned');
+    }
+
+    return submission;
+  }
+
+  private static async assertLessonInCourse(courseId: string, lessonId: string): Promise<void> {
+    const { data: lesson } = await supabaseAdmin
+      .from('lessons')
+      .select('id')
+      .eq('id', lessonId)
+      .eq('course_id', courseId)
+      .maybeSingle();
+
+    if (!lesson) {
+      throw new NotFoundError('Lesson not found');
+    }
+  }
+}
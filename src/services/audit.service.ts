@@ -26,6 +26,8 @@ export type ResourceType =
   | 'progress'
   | 'certificate'
   | 'video'
+  | 'wallet'
+  | 'payout'
   | 'auth'
   | 'system';
 
@@ -166,10 +168,12 @@ export class AuditService {
    * Log course publication/unpublication
    */
   static async logCoursePublication(params: {
-    userId: string;
+    userId?: string;
     courseId: string;
     published: boolean;
     ipAddress?: string;
+    /** Applied by the publish scheduler rather than a request */
+    scheduled?: boolean;
   }): Promise<void> {
     await this.log({
       userId: params.userId,
@@ -179,6 +183,7 @@ export class AuditService {
       ipAddress: params.ipAddress,
       metadata: {
         published: params.published,
+        scheduled: params.scheduled ?? false,
       },
     });
   }
@@ -236,7 +241,9 @@ export class AuditService {
   static async logCertificateIssued(params: {
     userId: string;
     certificateId: string;
-    courseId: string;
+    courseId?: string;
+    /** Set instead of courseId for learning path certificates */
+    pathId?: string;
     nftTokenId?: string;
   }): Promise<void> {
     await this.log({
@@ -246,6 +253,7 @@ export class AuditService {
       resourceId: params.certificateId,
       metadata: {
         courseId: params.courseId,
+        pathId: params.pathId,
         nftTokenId: params.nftTokenId,
       },
     });
@@ -212,6 +212,14 @@ export const CacheKeys = {
   user: (id: string) => `user:${id}`,
   userByWallet: (walletAddress: string) => `user:wallet:${walletAddress}`,
 
+  // ENS
+  ensProfile: (walletAddress: string) => `ens:profile:${walletAddress}`,
+  ensName: (name: string) => `ens:name:${name}`,
+
+  // Token gating
+  tokenBalance: (chainId: number, contract: string, tokenId: string | null, walletAddress: string) =>
+    `token:balance:${chainId}:${contract}:${tokenId ?? '-'}:${walletAddress}`,
+
   // Enrollments
   userEnrollments: (userId: string) => `enrollments:user:${userId}`,
   courseEnrollments: (courseId: string) => `enrollments:course:${courseId}`,
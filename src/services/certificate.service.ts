@@ -0,0 +1,217 @@
+import { randomUUID } from 'crypto';
+import { getAddress, TypedDataEncoder, verifyTypedData } from 'ethers';
+import { CERTIFICATE_DOMAIN, CERTIFICATE_TYPES, certificateConfig } from '../config/certificates';
+import { supabaseAdmin } from '../config/supabase';
+import { Database, Json } from '../types/database.types';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+
+export type Certificate = Database['public']['Tables']['certificates']['Row'];
+
+/** A certificate is for either a course or a learning path */
+export type CertificateSubject = { courseId: string; pathId?: undefined } | { pathId: string; courseId?: undefined };
+
+/** Signed contents of a certificate, stored in certificates.payload */
+export interface CertificatePayload {
+  id: string;
+  /** Learner wallet */
+  recipient: string;
+  kind: 'course' | 'learning_path';
+  /** Course or learning path id */
+  subjectId: string;
+  title: string;
+  /** Wallet of the course instructor or learning path creator */
+  instructor: string;
+  /** Unix seconds */
+  issuedAt: number;
+}
+
+export interface CertificateVerification {
+  /** Whether the payload hashes to certificate_hash and is signed by a trusted signer */
+  valid: boolean;
+  checks: { hashMatches: boolean; signedByIssuer: boolean };
+  /** Address recovered from the signature */
+  signer: string | null;
+  certificate: Pick<Certificate, 'id' | 'certificate_hash' | 'signature' | 'issued_at' | 'nft_token_id'> & {
+    payload: CertificatePayload | null;
+  };
+  /** EIP-712 typed data of the payload, to verify the signature independently */
+  typedData: {
+    domain: typeof CERTIFICATE_DOMAIN;
+    types: typeof CERTIFICATE_TYPES;
+    primaryType: 'Certificate';
+    message: CertificatePayload;
+  } | null;
+}
+
+export class CertificateService {
+  /**
+   * Issue the learner's certificate for a course or learning path and log CERTIFICATE_ISSUED.
+   * The payload is hashed into certificate_hash and signed by the certificate signer.
+   * Returns null when it was issued before or could not be stored, so completing a course
+   * never fails on it.
+   */
+  static async issue(userId: string, subject: CertificateSubject): Promise<Certificate | null> {
+    const subjectLabel = `${subject.courseId ? 'course' : 'learning path'} ${subject.courseId ?? subject.pathId}`;
+
+    const payload = await this.buildPayload(userId, subject);
+
+    if (!payload) {
+      logger.error(`Failed to issue certificate for ${subjectLabel}: learner or subject not found`);
+      return null;
+    }
+
+    const signature = certificateConfig.signer
+      ? await certificateConfig.signer.signTypedData(CERTIFICATE_DOMAIN, CERTIFICATE_TYPES, payload)
+      : null;
+
+    const { data: certificate, error } = await supabaseAdmin
+      .from('certificates')
+      .insert({
+        id: payload.id,
+        user_id: userId,
+        course_id: subject.courseId ?? null,
+        path_id: subject.pathId ?? null,
+        issued_at: new Date(payload.issuedAt * 1000).toISOString(),
+        certificate_hash: this.hash(payload),
+        payload: payload as unknown as Json,
+        signature,
+      })
+      .select()
+      .single();
+
+    if (error || !certificate) {
+      // 23505: the learner already holds this certificate
+      if (error?.code !== '23505') {
+        logger.error(`Failed to issue certificate for ${subjectLabel}:`, error);
+      }
+      return null;
+    }
+
+    await AuditService.logCertificateIssued({
+      userId,
+      certificateId: certificate.id,
+      courseId: subject.courseId,
+      pathId: subject.pathId,
+    });
+
+    return certificate;
+  }
+
+  static async getById(id: string): Promise<Certificate | null> {
+    const { data } = await supabaseAdmin.from('certificates').select('*').eq('id', id).maybeSingle();
+
+    return data;
+  }
+
+  static async getByHash(hash: string): Promise<Certificate | null> {
+    const { data } = await supabaseAdmin
+      .from('certificates')
+      .select('*')
+      .eq('certificate_hash', hash.toLowerCase())
+      .maybeSingle();
+
+    return data;
+  }
+
+  /**
+   * Check that a certificate's payload hashes to its certificate_hash and was signed by a
+   * trusted signer. Certificates issued before payloads were signed do not verify.
+   */
+  static verify(certificate: Certificate): CertificateVerification {
+    const payload = certificate.payload as unknown as CertificatePayload | null;
+
+    const hashMatches = !!payload
+      && payload.id === certificate.id
+      && payload.subjectId === (certificate.course_id ?? certificate.path_id)
+      && this.hash(payload) === certificate.certificate_hash;
+
+    let signer: string | null = null;
+
+    if (payload && certificate.signature) {
+      try {
+        signer = verifyTypedData(CERTIFICATE_DOMAIN, CERTIFICATE_TYPES, payload, certificate.signature);
+      } catch {
+        // Malformed signatures verify as unsigned
+      }
+    }
+
+    const signedByIssuer = !!signer && certificateConfig.trustedSigners.includes(signer);
+
+    return {
+      valid: hashMatches && signedByIssuer,
+      checks: { hashMatches, signedByIssuer },
+      signer,
+      certificate: {
+        id: certificate.id,
+        certificate_hash: certificate.certificate_hash,
+        signature: certificate.signature,
+        issued_at: certificate.issued_at,
+        nft_token_id: certificate.nft_token_id,
+        payload,
+      },
+      typedData: payload
+        ? { domain: CERTIFICATE_DOMAIN, types: CERTIFICATE_TYPES, primaryType: 'Certificate', message: payload }
+        : null,
+    };
+  }
+
+  /**
+   * Snapshot the learner wallet, course or path title and instructor at issue time
+   */
+  private static async buildPayload(userId: string, subject: CertificateSubject): Promise<CertificatePayload | null> {
+    const { data: user } = await supabaseAdmin.from('users').select('wallet_address').eq('id', userId).maybeSingle();
+
+    let title: string;
+    let instructor: string;
+
+    if (subject.courseId !== undefined) {
+      const { data: course } = await supabaseAdmin
+        .from('courses')
+        .select('title, instructor:users!courses_instructor_id_fkey(wallet_address)')
+        .eq('id', subject.courseId)
+        .maybeSingle();
+
+      if (!course?.instructor) {
+        return null;
+      }
+
+      title = course.title;
+      instructor = course.instructor.wallet_address;
+    } else {
+      const { data: path } = await supabaseAdmin
+        .from('learning_paths')
+        .select('title, creator:users!learning_paths_creator_id_fkey(wallet_address)')
+        .eq('id', subject.pathId)
+        .maybeSingle();
+
+      if (!path?.creator) {
+        return null;
+      }
+
+      title = path.title;
+      instructor = path.creator.wallet_address;
+    }
+
+    if (!user) {
+      return null;
+    }
+
+    return {
+      id: randomUUID(),
+      recipient: getAddress(user.wallet_address.toLowerCase()),
+      kind: subject.courseId ? 'course' : 'learning_path',
+      subjectId: subject.courseId ?? subject.pathId,
+      title,
+      instructor: getAddress(instructor.toLowerCase()),
+      issuedAt: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  /**
+   * EIP-712 hash of the payload, lowercase like the lookups by hash
+   */
+  private static hash(payload: CertificatePayload): string {
+    return TypedDataEncoder.hash(CERTIFICATE_DOMAIN, CERTIFICATE_TYPES, payload).toLowerCase();
+  }
+}
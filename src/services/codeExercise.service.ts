@@ -0,0 +1,250 @@
+import { supabaseAdmin } from '../config/supabase';
+import { Database, Json } from '../types/database.types';
+import { AppError, ExerciseError, ExerciseSolutionError, NotFoundError, ValidationError } from '../utils/errors';
+import { SolidityRunnerService } from './solidityRunner.service';
+
+export type CodeExercise = Database['public']['Tables']['code_exercises']['Row'];
+export type CodeExerciseAttempt = Database['public']['Tables']['code_exercise_attempts']['Row'];
+
+export interface CodeExerciseSettings {
+  title: string;
+  instructions: string;
+  starter_code?: string | null;
+  solution_source: string;
+  test_source: string;
+  gas_limit?: number;
+  required_to_complete?: boolean;
+}
+
+/** Stored in lesson_progress.exercise_results */
+export interface ExerciseProgress {
+  attempt_id: string;
+  status: string;
+  tests: { name: string; passed: boolean }[];
+  submitted_at: string;
+}
+
+const DEFAULT_GAS_LIMIT = 10_000_000;
+const MAX_TEST_CASES = 50;
+
+export class CodeExerciseService {
+  /**
+   * Code exercise of a lesson, or null
+   */
+  static async getForLesson(courseId: string, lessonId: string): Promise<CodeExercise | null> {
+    await this.assertLessonInCourse(courseId, lessonId);
+
+    const { data: exercise } = await supabaseAdmin
+      .from('code_exercises')
+      .select('*')
+      .eq('lesson_id', lessonId)
+      .maybeSingle();
+
+    return exercise;
+  }
+
+  /**
+   * @throws NotFoundError if the lesson has no code exercise
+   */
+  static async getForLessonOrFail(courseId: string, lessonId: string): Promise<CodeExercise> {
+    const exercise = await this.getForLesson(courseId, lessonId);
+
+    if (!exercise) {
+      throw new NotFoundError('Code exercise not found');
+    }
+
+    return exercise;
+  }
+
+  /**
+   * Create the code exercise of a lesson or replace it. The reference solution is run against
+   * the tests first, which also discovers the test cases.
+   * @throws ExerciseSolutionError unless the reference solution compiles and passes every test
+   */
+  static async upsert(courseId: string, lessonId: string, settings: CodeExerciseSettings): Promise<CodeExercise> {
+    await this.assertLessonInCourse(courseId, lessonId);
+
+    const gasLimit = settings.gas_limit ?? DEFAULT_GAS_LIMIT;
+
+    const run = await SolidityRunnerService.run({
+      source: settings.solution_source,
+      testSource: settings.test_source,
+      gasLimit,
+    });
+
+    if (run.status !== 'passed') {
+      throw new ExerciseSolutionError('The reference solution must compile and pass every test', run);
+    }
+
+    if (run.tests.length > MAX_TEST_CASES) {
+      throw new ValidationError(`An exercise can have at most ${MAX_TEST_CASES} test cases`);
+    }
+
+    const { data: exercise, error } = await supabaseAdmin
+      .from('code_exercises')
+      .upsert(
+        {
+          ...settings,
+          gas_limit: gasLimit,
+          test_cases: run.tests.map((test) => test.name),
+          lesson_id: lessonId,
+        },
+        { onConflict: 'lesson_id' }
+      )
+      .select()
+      .single();
+
+    if (error || !exercise) {
+      throw new AppError('Failed to save code exercise', 500);
+    }
+
+    return exercise;
+  }
+
+  /**
+   * Delete the code exercise of a lesson with its attempts
+   */
+  static async remove(courseId: string, lessonId: string): Promise<void> {
+    const exercise = await this.getForLessonOrFail(courseId, lessonId);
+
+    const { error } = await supabaseAdmin.from('code_exercises').delete().eq('id', exercise.id);
+
+    if (error) {
+      throw new AppError('Failed to delete code exercise', 500);
+    }
+  }
+
+  /**
+   * Exercise as shown to learners, without the reference solution
+   */
+  static forLearner(exercise: CodeExercise) {
+    return { ...exercise, solution_source: undefined };
+  }
+
+  /**
+   * Run the learner's source against the exercise tests, store the attempt and record the
+   * per-test results in the learner's lesson progress
+   */
+  static async submit(
+    exercise: CodeExercise,
+    enrollmentId: string,
+    userId: string,
+    source: string
+  ): Promise<CodeExerciseAttempt> {
+    const run = await SolidityRunnerService.run({
+      source,
+      testSource: exercise.test_source,
+      gasLimit: exercise.gas_limit,
+    });
+
+    const { data: attempt, error } = await supabaseAdmin
+      .from('code_exercise_attempts')
+      .insert({
+        exercise_id: exercise.id,
+        user_id: userId,
+        source,
+        compiler_version: run.compiler,
+        status: run.status,
+        errors: run.errors,
+        results: run.tests as unknown as Json,
+        tests_passed: run.tests.filter((test) => test.passed).length,
+        tests_total: exercise.test_cases.length,
+      })
+      .select()
+      .single();
+
+    if (error || !attempt) {
+      throw new AppError('Failed to save exercise attempt', 500);
+    }
+
+    // Test cases that did not run, e.g. after a compiler error, count as failed
+    const progress: ExerciseProgress = {
+      attempt_id: attempt.id,
+      status: attempt.status,
+      tests: exercise.test_cases.map((name) => ({
+        name,
+        passed: run.tests.some((test) => test.name === name && test.passed),
+      })),
+      submitted_at: attempt.submitted_at,
+    };
+
+    const { error: progressError } = await supabaseAdmin
+      .from('lesson_progress')
+      .upsert(
+        {
+          user_id: userId,
+          lesson_id: exercise.lesson_id,
+          enrollment_id: enrollmentId,
+          exercise_results: progress as unknown as Json,
+        },
+        { onConflict: 'user_id,lesson_id' }
+      );
+
+    if (progressError) {
+      throw new AppError('Failed to update progress', 500);
+    }
+
+    return attempt;
+  }
+
+  /**
+   * Attempts of a learner, newest first
+   */
+  static async listAttempts(exerciseId: string, userId: string): Promise<CodeExerciseAttempt[]> {
+    const { data, error } = await supabaseAdmin
+      .from('code_exercise_attempts')
+      .select('*')
+      .eq('exercise_id', exerciseId)
+      .eq('user_id', userId)
+      .order('submitted_at', { ascending: false });
+
+    if (error) {
+      throw new AppError('Failed to fetch exercise attempts', 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Whether any attempt of the learner passed every test
+   */
+  static async hasPassed(exerciseId: string, userId: string): Promise<boolean> {
+    const { count } = await supabaseAdmin
+      .from('code_exercise_attempts')
+      .select('id', { count: 'exact', head: true })
+      .eq('exercise_id', exerciseId)
+      .eq('user_id', userId)
+      .eq('status', 'passed');
+
+    return !!count;
+  }
+
+  /**
+   * Lessons whose exercise is required_to_complete can only be completed once it is passed
+   * @throws ExerciseError EXERCISE_NOT_PASSED
+   */
+  static async assertCompletable(lessonId: string, userId: string): Promise<void> {
+    const { data: exercise } = await supabaseAdmin
+      .from('code_exercises')
+      .select('id, required_to_complete')
+      .eq('lesson_id', lessonId)
+      .maybeSingle();
+
+    if (exercise?.required_to_complete && !(await this.hasPassed(exercise.id, userId))) {
+      throw new ExerciseError('EXERCISE_NOT_PASSED', 'Pass every test of the code exercise to complete this lesson');
+    }
+  }
+
+  private static async assertLessonInCourse(courseId: string, lessonId: string): Promise<void> {
+    const { data: lesson } = await supabaseAdmin
+      .from('lessons')
+      .select('id')
+      .eq('id', lessonId)
+      .eq('course_id', courseId)
+      .maybeSingle();
+
+    if (!lesson) {
+      throw new NotFoundError('Lesson not found');
+    }
+  }
+}
@@ -0,0 +1,353 @@
+import { supabaseAdmin } from '../config/supabase';
+import { Database } from '../types/database.types';
+import { AppError, CouponError, CouponErrorCode, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { WalletService } from './wallet.service';
+
+export type Coupon = Database['public']['Tables']['coupons']['Row'];
+export type CouponInput = Pick<
+  Database['public']['Tables']['coupons']['Insert'],
+  'code' | 'course_id' | 'discount_type' | 'percent_off' | 'amount_off' | 'currency' | 'max_redemptions' | 'per_wallet_limit' | 'expires_at'
+>;
+export type CouponUpdate = Pick<
+  Database['public']['Tables']['coupons']['Update'],
+  'max_redemptions' | 'per_wallet_limit' | 'expires_at' | 'is_active'
+>;
+
+export interface PriceQuote {
+  course_id: string;
+  currency: string | null;
+  decimals: number;
+  chain_id: number | null;
+  token_address: string | null;
+  list_amount: string;
+  discount_amount: string;
+  final_amount: string;
+  coupon: Pick<Coupon, 'id' | 'code' | 'discount_type' | 'percent_off' | 'amount_off' | 'currency'> | null;
+}
+
+const COUPON_ERROR_CODES: CouponErrorCode[] = [
+  'COUPON_NOT_FOUND',
+  'COUPON_EXHAUSTED',
+  'COUPON_WALLET_LIMIT',
+];
+
+export class CouponService {
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Discount a coupon gives on a list price, never more than the price itself
+   */
+  static discountFor(coupon: Pick<Coupon, 'discount_type' | 'percent_off' | 'amount_off'>, listAmount: bigint): bigint {
+    if (coupon.discount_type === 'percent') {
+      // Percent has two decimals; work in basis points to stay in integers
+      const basisPoints = BigInt(Math.round(Number(coupon.percent_off) * 100));
+      return (listAmount * basisPoints) / 10000n;
+    }
+
+    const amountOff = BigInt(coupon.amount_off ?? '0');
+    return amountOff > listAmount ? listAmount : amountOff;
+  }
+
+  /**
+   * Price a paid course for a user, optionally with a coupon code. Uses held by other
+   * pending checkouts count against the coupon limits; reserve() enforces them for good.
+   * @throws CouponError when the code cannot be used by this user on this course
+   */
+  static async quote(userId: string, courseId: string, code?: string): Promise<PriceQuote> {
+    const { data: course } = await supabaseAdmin
+      .from('courses')
+      .select('instructor_id, is_published, price_amount, price_currency, price_decimals, price_chain_id, price_token_address')
+      .eq('id', courseId)
+      .single();
+
+    if (!course || !course.is_published) {
+      throw new NotFoundError('Course not available');
+    }
+
+    if (!course.price_amount) {
+      throw new AppError('This course is free. Enroll directly instead', 400);
+    }
+
+    const listAmount = BigInt(course.price_amount);
+    const base = {
+      course_id: courseId,
+      currency: course.price_currency,
+      decimals: course.price_decimals ?? 18,
+      chain_id: course.price_chain_id,
+      token_address: course.price_token_address?.toLowerCase() ?? null,
+      list_amount: listAmount.toString(),
+    };
+
+    if (!code) {
+      return { ...base, discount_amount: '0', final_amount: base.list_amount, coupon: null };
+    }
+
+    const { data: coupon } = await supabaseAdmin
+      .from('coupons')
+      .select('*')
+      .eq('code', this.normalizeCode(code))
+      .maybeSingle();
+
+    if (!coupon) {
+      throw new CouponError('COUPON_NOT_FOUND', 'Coupon code not found', 404);
+    }
+
+    if (!coupon.is_active) {
+      throw new CouponError('COUPON_INACTIVE', 'Coupon is no longer active');
+    }
+
+    if (coupon.expires_at && new Date(coupon.expires_at).getTime() <= Date.now()) {
+      throw new CouponError('COUPON_EXPIRED', 'Coupon has expired');
+    }
+
+    const appliesToCourse = coupon.instructor_id === course.instructor_id
+      && (!coupon.course_id || coupon.course_id === courseId);
+    const currencyMatches = coupon.discount_type !== 'fixed'
+      || coupon.currency?.toUpperCase() === course.price_currency?.toUpperCase();
+
+    if (!appliesToCourse || !currencyMatches) {
+      throw new CouponError('COUPON_NOT_APPLICABLE', 'Coupon cannot be used for this course');
+    }
+
+    if (
+      coupon.max_redemptions !== null
+      && coupon.redemption_count + await this.pendingReservations(coupon.id, userId, courseId, false) >= coupon.max_redemptions
+    ) {
+      throw new CouponError('COUPON_EXHAUSTED', 'Coupon has reached its redemption limit');
+    }
+
+    if (coupon.per_wallet_limit !== null) {
+      const wallets = (await WalletService.list(userId)).map((wallet) => wallet.address);
+      const walletFilter = wallets.length > 0 ? `,wallet_address.in.(${wallets.join(',')})` : '';
+
+      const { count } = await supabaseAdmin
+        .from('coupon_redemptions')
+        .select('*', { count: 'exact', head: true })
+        .eq('coupon_id', coupon.id)
+        .or(`user_id.eq.${userId}${walletFilter}`);
+
+      const pending = await this.pendingReservations(coupon.id, userId, courseId, true);
+
+      if ((count ?? 0) + pending >= coupon.per_wallet_limit) {
+        throw new CouponError('COUPON_WALLET_LIMIT', 'You have already used this coupon');
+      }
+    }
+
+    const discount = this.discountFor(coupon, listAmount);
+
+    return {
+      ...base,
+      discount_amount: discount.toString(),
+      final_amount: (listAmount - discount).toString(),
+      coupon: {
+        id: coupon.id,
+        code: coupon.code,
+        discount_type: coupon.discount_type,
+        percent_off: coupon.percent_off,
+        amount_off: coupon.amount_off,
+        currency: coupon.currency,
+      },
+    };
+  }
+
+  /**
+   * Reserve the coupon use of a new checkout under the coupon row lock, so concurrent
+   * checkouts cannot exceed its limits. The reservation lapses when the intent expires.
+   * @throws CouponError COUPON_EXHAUSTED or COUPON_WALLET_LIMIT
+   */
+  static async reserve(userId: string, intentId: string): Promise<void> {
+    const wallets = (await WalletService.list(userId)).map((wallet) => wallet.address);
+
+    const { error } = await supabaseAdmin.rpc('reserve_coupon', {
+      intent_id_param: intentId,
+      wallet_addresses_param: wallets,
+    });
+
+    if (error) {
+      this.throwLimitError(error);
+      logger.error('Failed to reserve coupon:', error);
+      throw new AppError('Failed to create payment intent', 500);
+    }
+  }
+
+  /**
+   * Enroll with a coupon covering the whole price. The enrollment and the
+   * redemption are written in one database transaction.
+   * @returns Enrollment id
+   */
+  static async enrollFree(userId: string, quote: PriceQuote): Promise<string> {
+    if (!quote.coupon || BigInt(quote.final_amount) !== 0n) {
+      throw new AppError('Coupon does not cover the full price', 400);
+    }
+
+    const [primaryWallet] = await WalletService.list(userId);
+
+    const { data: enrollmentId, error } = await supabaseAdmin.rpc('enroll_with_coupon', {
+      user_id_param: userId,
+      course_id_param: quote.course_id,
+      coupon_id_param: quote.coupon.id,
+      wallet_address_param: primaryWallet?.address ?? '',
+      list_amount_param: quote.list_amount,
+    });
+
+    if (error || !enrollmentId) {
+      this.throwLimitError(error);
+      if (error?.code === '23505') {
+        throw new AppError('Already enrolled in this course', 400);
+      }
+      logger.error('Failed to enroll with coupon:', error);
+      throw new AppError('Failed to enroll in course', 500);
+    }
+
+    return enrollmentId;
+  }
+
+  /**
+   * Coupons created by an instructor, newest first
+   */
+  static async listForInstructor(instructorId: string): Promise<Coupon[]> {
+    const { data, error } = await supabaseAdmin
+      .from('coupons')
+      .select('*')
+      .eq('instructor_id', instructorId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new AppError('Failed to fetch coupons', 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Create a coupon. Course-scoped coupons must target one of the instructor's courses.
+   */
+  static async create(instructorId: string, input: CouponInput): Promise<Coupon> {
+    if (input.course_id) {
+      const { data: course } = await supabaseAdmin
+        .from('courses')
+        .select('instructor_id')
+        .eq('id', input.course_id)
+        .single();
+
+      if (!course) {
+        throw new NotFoundError('Course not found');
+      }
+
+      if (course.instructor_id !== instructorId) {
+        throw new AppError('Access denied', 403);
+      }
+    }
+
+    const { data: coupon, error } = await supabaseAdmin
+      .from('coupons')
+      .insert({
+        ...input,
+        code: this.normalizeCode(input.code),
+        currency: input.currency?.toUpperCase() ?? null,
+        instructor_id: instructorId,
+      })
+      .select()
+      .single();
+
+    if (error || !coupon) {
+      if (error?.code === '23505') {
+        throw new AppError('Coupon code already exists', 409);
+      }
+      throw new AppError('Failed to create coupon', 500);
+    }
+
+    return coupon;
+  }
+
+  /**
+   * Change limits, expiry or active state of an instructor's coupon
+   */
+  static async update(instructorId: string, couponId: string, changes: CouponUpdate): Promise<Coupon> {
+    const { data: coupon, error } = await supabaseAdmin
+      .from('coupons')
+      .update(changes)
+      .eq('id', couponId)
+      .eq('instructor_id', instructorId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError('Failed to update coupon', 500);
+    }
+
+    if (!coupon) {
+      throw new NotFoundError('Coupon not found');
+    }
+
+    return coupon;
+  }
+
+  /**
+   * Redemptions of an instructor's coupon, newest first
+   */
+  static async listRedemptions(instructorId: string, couponId: string) {
+    const { data: coupon } = await supabaseAdmin
+      .from('coupons')
+      .select('id')
+      .eq('id', couponId)
+      .eq('instructor_id', instructorId)
+      .maybeSingle();
+
+    if (!coupon) {
+      throw new NotFoundError('Coupon not found');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('coupon_redemptions')
+      .select('*')
+      .eq('coupon_id', couponId)
+      .order('redeemed_at', { ascending: false });
+
+    if (error) {
+      throw new AppError('Failed to fetch redemptions', 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Uses of a coupon held by unexpired pending checkouts, leaving out the user's own
+   * checkout of the course; with onlyUser, just the user's checkouts
+   */
+  private static async pendingReservations(
+    couponId: string,
+    userId: string,
+    courseId: string,
+    onlyUser: boolean
+  ): Promise<number> {
+    const { data, error } = await supabaseAdmin.rpc('pending_coupon_reservations', {
+      coupon_id_param: couponId,
+      user_id_param: userId,
+      course_id_param: courseId,
+      only_user_param: onlyUser,
+    });
+
+    if (error) {
+      throw new AppError('Failed to check coupon limits', 500);
+    }
+
+    return data ?? 0;
+  }
+
+  /**
+   * Limits are re-checked under a row lock; surface them like the preview does
+   */
+  private static throwLimitError(error: { message?: string } | null): void {
+    const code = COUPON_ERROR_CODES.find((candidate) => error?.message?.includes(candidate));
+    if (code === 'COUPON_EXHAUSTED') {
+      throw new CouponError(code, 'Coupon has reached its redemption limit');
+    }
+    if (code === 'COUPON_WALLET_LIMIT') {
+      throw new CouponError(code, 'You have already used this coupon');
+    }
+  }
+}
@@ -0,0 +1,322 @@
+import { AbiCoder, Contract, concat, isError, keccak256 } from 'ethers';
+import { getRpcProvider } from '../config/ethereum';
+import { supabaseAdmin } from '../config/supabase';
+import { Database } from '../types/database.types';
+import { AccessRequirementError, AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { CacheService, CacheKeys } from './cache.service';
+import { WalletService } from './wallet.service';
+
+export type AccessRule = Database['public']['Tables']['course_access_rules']['Row'];
+export type AccessRuleType = 'erc20' | 'erc721' | 'erc1155' | 'merkle_allowlist';
+export type AccessRuleMode = 'all' | 'any';
+
+export interface AllowlistProof {
+  ruleId: string;
+  address: string;
+  proof: string[];
+}
+
+export interface AccessRuleResult {
+  rule_id: string;
+  rule_type: AccessRuleType;
+  requirement: string;
+  met: boolean;
+  chain_id?: number | null;
+  contract_address?: string | null;
+  token_id?: string | null;
+  required_balance?: string;
+  current_balance?: string;
+  /** Wallet whose allowlist proof was accepted */
+  address?: string;
+  /** Why the rule could not be checked or was not met */
+  reason?: string;
+}
+
+export interface AccessEvaluation {
+  granted: boolean;
+  mode: AccessRuleMode;
+  rules: AccessRule[];
+  results: AccessRuleResult[];
+}
+
+const BALANCE_CACHE_TTL = 5 * 60; // 5 minutes
+
+const TOKEN_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function balanceOf(address account, uint256 id) view returns (uint256)',
+];
+
+/**
+ * Leaf of an OpenZeppelin StandardMerkleTree built with the ['address'] encoding
+ */
+const allowlistLeaf = (address: string): string =>
+  keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(['address'], [address])));
+
+const describeRule = (rule: AccessRule): string => {
+  if (rule.description) {
+    return rule.description;
+  }
+
+  switch (rule.rule_type) {
+    case 'erc20':
+      return `Hold at least ${rule.min_balance ?? '1'} (base units) of ERC-20 token ${rule.contract_address} on chain ${rule.chain_id}`;
+    case 'erc721':
+      return rule.token_id
+        ? `Own token #${rule.token_id} of ERC-721 collection ${rule.contract_address} on chain ${rule.chain_id}`
+        : `Own at least ${rule.min_balance ?? '1'} token(s) of ERC-721 collection ${rule.contract_address} on chain ${rule.chain_id}`;
+    case 'erc1155':
+      return `Hold at least ${rule.min_balance ?? '1'} of token #${rule.token_id} of ERC-1155 contract ${rule.contract_address} on chain ${rule.chain_id}`;
+    default:
+      return 'Be on the course allowlist';
+  }
+};
+
+export class CourseAccessService {
+  /**
+   * Access rules of a course, oldest first
+   */
+  static async listRules(courseId: string): Promise<AccessRule[]> {
+    const { data, error } = await supabaseAdmin
+      .from('course_access_rules')
+      .select('*')
+      .eq('course_id', courseId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new AppError('Failed to fetch access rules', 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Check every rule of a course against all wallets linked to the user.
+   * Balances are summed across wallets; allowlist rules use the submitted
+   * proofs, falling back to proofs stored at enrollment.
+   */
+  static async evaluate(
+    courseId: string,
+    userId: string,
+    submittedProofs: AllowlistProof[] = []
+  ): Promise<AccessEvaluation> {
+    const [{ data: course }, rules] = await Promise.all([
+      supabaseAdmin
+        .from('courses')
+        .select('access_rule_mode')
+        .eq('id', courseId)
+        .single(),
+      this.listRules(courseId),
+    ]);
+
+    const mode: AccessRuleMode = course?.access_rule_mode === 'any' ? 'any' : 'all';
+
+    if (rules.length === 0) {
+      return { granted: true, mode, rules, results: [] };
+    }
+
+    const wallets = (await WalletService.list(userId)).map((wallet) => wallet.address);
+
+    const results = await Promise.all(
+      rules.map((rule) =>
+        rule.rule_type === 'merkle_allowlist'
+          ? this.checkAllowlist(rule, userId, wallets, submittedProofs)
+          : this.checkHoldings(rule, wallets)
+      )
+    );
+
+    const granted = mode === 'any'
+      ? results.some((result) => result.met)
+      : results.every((result) => result.met);
+
+    return { granted, mode, rules, results };
+  }
+
+  /**
+   * Evaluate the rules and remember any allowlist proofs that got the user in
+   * @throws AccessRequirementError listing the requirements when access is not granted
+   */
+  static async assertAccess(
+    courseId: string,
+    userId: string,
+    submittedProofs: AllowlistProof[] = []
+  ): Promise<AccessEvaluation> {
+    const evaluation = await this.evaluate(courseId, userId, submittedProofs);
+
+    if (!evaluation.granted) {
+      throw new AccessRequirementError(
+        evaluation.mode === 'any'
+          ? 'Course access requires meeting at least one of the listed requirements'
+          : 'Course access requirements not met',
+        { mode: evaluation.mode, requirements: evaluation.results }
+      );
+    }
+
+    // One valid proof per met allowlist rule
+    const acceptedProofs = new Map<string, AllowlistProof>();
+    for (const submitted of submittedProofs) {
+      const result = evaluation.results.find((r) => r.rule_id === submitted.ruleId);
+      const rule = result?.met && result.address === submitted.address.toLowerCase()
+        ? evaluation.rules.find((r) => r.id === submitted.ruleId)
+        : undefined;
+
+      if (
+        rule &&
+        !acceptedProofs.has(rule.id) &&
+        this.verifyAllowlistProof(rule.merkle_root!, submitted.address, submitted.proof)
+      ) {
+        acceptedProofs.set(rule.id, submitted);
+      }
+    }
+
+    if (acceptedProofs.size > 0) {
+      const { error } = await supabaseAdmin
+        .from('course_allowlist_proofs')
+        .upsert(
+          [...acceptedProofs.values()].map((submitted) => ({
+            rule_id: submitted.ruleId,
+            user_id: userId,
+            address: submitted.address.toLowerCase(),
+            proof: submitted.proof,
+          })),
+          { onConflict: 'rule_id,user_id' }
+        );
+
+      if (error) {
+        logger.error('Failed to store allowlist proofs:', error);
+      }
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Verify a sorted-pair Merkle proof for an address against a root
+   */
+  static verifyAllowlistProof(root: string, address: string, proof: string[]): boolean {
+    try {
+      const computed = proof.reduce((hash, sibling) => {
+        const [a, b] = [hash.toLowerCase(), sibling.toLowerCase()].sort();
+        return keccak256(concat([a, b]));
+      }, allowlistLeaf(address));
+
+      return computed.toLowerCase() === root.toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+
+  private static async checkAllowlist(
+    rule: AccessRule,
+    userId: string,
+    wallets: string[],
+    submittedProofs: AllowlistProof[]
+  ): Promise<AccessRuleResult> {
+    const base: AccessRuleResult = {
+      rule_id: rule.id,
+      rule_type: 'merkle_allowlist',
+      requirement: describeRule(rule),
+      met: false,
+    };
+
+    const candidates = submittedProofs
+      .filter((submitted) => submitted.ruleId === rule.id)
+      .map((submitted) => ({ address: submitted.address.toLowerCase(), proof: submitted.proof }));
+
+    if (candidates.length === 0) {
+      const { data: stored } = await supabaseAdmin
+        .from('course_allowlist_proofs')
+        .select('address, proof')
+        .eq('rule_id', rule.id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (stored && Array.isArray(stored.proof)) {
+        candidates.push({ address: stored.address, proof: stored.proof as string[] });
+      }
+    }
+
+    if (candidates.length === 0) {
+      return { ...base, reason: 'No allowlist proof provided' };
+    }
+
+    const accepted = candidates.find(
+      (candidate) =>
+        wallets.includes(candidate.address) &&
+        this.verifyAllowlistProof(rule.merkle_root!, candidate.address, candidate.proof)
+    );
+
+    return accepted
+      ? { ...base, met: true, address: accepted.address }
+      : { ...base, reason: 'Allowlist proof is invalid or not for one of your wallets' };
+  }
+
+  private static async checkHoldings(rule: AccessRule, wallets: string[]): Promise<AccessRuleResult> {
+    const required = BigInt(rule.min_balance ?? '1');
+    const base: AccessRuleResult = {
+      rule_id: rule.id,
+      rule_type: rule.rule_type as AccessRuleType,
+      requirement: describeRule(rule),
+      met: false,
+      chain_id: rule.chain_id,
+      contract_address: rule.contract_address,
+      token_id: rule.token_id,
+      required_balance: required.toString(),
+    };
+
+    try {
+      const balances = await Promise.all(wallets.map((wallet) => this.getBalance(rule, wallet)));
+      const total = balances.reduce((sum, balance) => sum + balance, 0n);
+
+      return { ...base, met: total >= required, current_balance: total.toString() };
+    } catch (error) {
+      logger.warn(`Token gate check failed for rule ${rule.id}:`, error);
+      return { ...base, reason: `Could not read balances on chain ${rule.chain_id}. Try again later` };
+    }
+  }
+
+  /**
+   * Balance of one wallet for a rule (cached). Failed reads throw and are not cached.
+   */
+  private static async getBalance(rule: AccessRule, wallet: string): Promise<bigint> {
+    const chainId = rule.chain_id!;
+    const contractAddress = rule.contract_address!.toLowerCase();
+
+    const { balance } = await CacheService.getOrSet<{ balance: string }>(
+      CacheKeys.tokenBalance(chainId, contractAddress, rule.token_id, wallet),
+      async () => {
+        const provider = getRpcProvider(chainId);
+        if (!provider) {
+          throw new Error(`No RPC provider for chain ${chainId}`);
+        }
+
+        const token = new Contract(contractAddress, TOKEN_ABI, provider);
+
+        if (rule.rule_type === 'erc1155') {
+          const amount: bigint = await token['balanceOf(address,uint256)'](wallet, rule.token_id);
+          return { balance: amount.toString() };
+        }
+
+        if (rule.rule_type === 'erc721' && rule.token_id) {
+          try {
+            const owner: string = await token.ownerOf(rule.token_id);
+            return { balance: owner.toLowerCase() === wallet ? '1' : '0' };
+          } catch (error) {
+            // ownerOf reverts for burned or unminted tokens
+            if (isError(error, 'CALL_EXCEPTION')) {
+              return { balance: '0' };
+            }
+            throw error;
+          }
+        }
+
+        const amount: bigint = await token['balanceOf(address)'](wallet);
+        return { balance: amount.toString() };
+      },
+      BALANCE_CACHE_TTL
+    );
+
+    return BigInt(balance);
+  }
+}
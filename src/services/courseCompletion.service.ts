@@ -0,0 +1,249 @@
+import { supabaseAdmin } from '../config/supabase';
+import { AppError, NotFoundError } from '../utils/errors';
+import { Certificate, CertificateService } from './certificate.service';
+import { LearningPathService } from './learningPath.service';
+
+export type CompletionCriterion = 'all_lessons' | 'min_quiz_score' | 'assignments';
+
+export interface CompletionProgress {
+  progressPercentage: number;
+  completedLessons: number;
+  totalLessons: number;
+  /** Average best score over the course's quizzes in percent; null for courses without quizzes */
+  quizScore: number | null;
+  passedAssignments: number;
+  totalAssignments: number;
+  /** Criteria the course requires and whether the learner meets them */
+  criteria: { criterion: CompletionCriterion; met: boolean }[];
+}
+
+export interface CompletionStatus extends CompletionProgress {
+  /** Kept once reached, even if the criteria change later */
+  completed: boolean;
+  completedAt: string | null;
+  /** Certificate issued by this update */
+  certificate: Certificate | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class CourseCompletionService {
+  /**
+   * Evaluate the course's completion criteria for a learner's enrollment
+   */
+  static async evaluate(courseId: string, userId: string, enrollmentId: string): Promise<CompletionProgress> {
+    const [{ data: course }, { data: lessons }, { data: progress }, { data: quizzes }, { data: assignments }] =
+      await Promise.all([
+        supabaseAdmin
+          .from('courses')
+          .select('completion_all_lessons, completion_min_quiz_score, completion_requires_assignments')
+          .eq('id', courseId)
+          .maybeSingle(),
+        supabaseAdmin.from('lessons').select('id').eq('course_id', courseId),
+        supabaseAdmin
+          .from('lesson_progress')
+          .select('lesson_id')
+          .eq('enrollment_id', enrollmentId)
+          .eq('completed', true),
+        supabaseAdmin
+          .from('quizzes')
+          .select('id, lesson:lessons!inner(course_id)')
+          .eq('lesson.course_id', courseId),
+        supabaseAdmin
+          .from('assignments')
+          .select('id, lesson:lessons!inner(course_id)')
+          .eq('lesson.course_id', courseId),
+      ]);
+
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+
+    const completedIds = new Set((progress || []).map((row) => row.lesson_id));
+    const totalLessons = lessons?.length ?? 0;
+    const completedLessons = (lessons || []).filter((lesson) => completedIds.has(lesson.id)).length;
+
+    const quizScore = await this.quizScore(userId, (quizzes || []).map((quiz) => quiz.id));
+
+    const assignmentIds = new Set((assignments || []).map((assignment) => assignment.id));
+    const passedAssignments = await this.passedAssignments(courseId, userId, assignmentIds);
+
+    const criteria: CompletionProgress['criteria'] = [];
+
+    if (course.completion_all_lessons) {
+      criteria.push({ criterion: 'all_lessons', met: completedLessons === totalLessons });
+    }
+
+    // Courses without quizzes have nothing to score
+    if (course.completion_min_quiz_score !== null) {
+      criteria.push({ criterion: 'min_quiz_score', met: (quizScore ?? 100) >= course.completion_min_quiz_score });
+    }
+
+    if (course.completion_requires_assignments) {
+      criteria.push({ criterion: 'assignments', met: passedAssignments === assignmentIds.size });
+    }
+
+    return {
+      progressPercentage: totalLessons > 0 ? round((completedLessons / totalLessons) * 100) : 0,
+      completedLessons,
+      totalLessons,
+      quizScore,
+      passedAssignments,
+      totalAssignments: assignmentIds.size,
+      criteria,
+    };
+  }
+
+  /**
+   * Store the learner's progress percentage and, once every criterion is met, stamp the
+   * enrollment as completed and issue the course certificate. Call after anything that can
+   * move a learner towards completion: lesson progress, quiz attempts and assignment grades.
+   * Returns null if the learner is not enrolled.
+   */
+  static async sync(courseId: string, userId: string): Promise<CompletionStatus | null> {
+    const { data: enrollment } = await supabaseAdmin
+      .from('enrollments')
+      .select('id, completed_at')
+      .eq('user_id', userId)
+      .eq('course_id', courseId)
+      .maybeSingle();
+
+    if (!enrollment) {
+      return null;
+    }
+
+    const progress = await this.evaluate(courseId, userId, enrollment.id);
+
+    const { error } = await supabaseAdmin
+      .from('enrollments')
+      .update({ progress_percentage: progress.progressPercentage })
+      .eq('id', enrollment.id);
+
+    if (error) {
+      throw new AppError('Failed to update progress', 500);
+    }
+
+    let completedAt = enrollment.completed_at;
+    let certificate: Certificate | null = null;
+
+    if (!completedAt && progress.criteria.every((criterion) => criterion.met)) {
+      // Conditional update so concurrent calls complete the enrollment once
+      const { data: completed } = await supabaseAdmin
+        .from('enrollments')
+        .update({ completed_at: new Date().toISOString() })
+        .eq('id', enrollment.id)
+        .is('completed_at', null)
+        .select('completed_at')
+        .maybeSingle();
+
+      if (completed) {
+        completedAt = completed.completed_at;
+        certificate = await CertificateService.issue(userId, { courseId });
+
+        // Completion satisfies prerequisites and learning paths
+        await LearningPathService.syncCompletion(userId);
+      }
+    } else if (completedAt) {
+      // Completed before certificates were issued here, or issuing failed at completion
+      const [issued] = await this.issueMissingCertificates(userId, courseId);
+      certificate = issued ?? null;
+    }
+
+    return { ...progress, completed: !!completedAt, completedAt, certificate };
+  }
+
+  /**
+   * Issue the course certificates a learner is missing for completed enrollments, such as
+   * enrollments completed before certificates were issued automatically or whose certificate
+   * could not be issued at completion. Safe to repeat: a learner holds one certificate per course.
+   * @returns Certificates issued by this call
+   */
+  static async issueMissingCertificates(userId: string, courseId?: string): Promise<Certificate[]> {
+    let enrollmentsQuery = supabaseAdmin
+      .from('enrollments')
+      .select('course_id')
+      .eq('user_id', userId)
+      .not('completed_at', 'is', null);
+
+    let certificatesQuery = supabaseAdmin
+      .from('certificates')
+      .select('course_id')
+      .eq('user_id', userId)
+      .not('course_id', 'is', null);
+
+    if (courseId) {
+      enrollmentsQuery = enrollmentsQuery.eq('course_id', courseId);
+      certificatesQuery = certificatesQuery.eq('course_id', courseId);
+    }
+
+    const [{ data: enrollments, error }, { data: certificates, error: certificatesError }] = await Promise.all([
+      enrollmentsQuery,
+      certificatesQuery,
+    ]);
+
+    if (error || certificatesError) {
+      throw new AppError('Failed to fetch certificates', 500);
+    }
+
+    const certified = new Set((certificates || []).map((certificate) => certificate.course_id));
+    const issued: Certificate[] = [];
+
+    for (const { course_id } of enrollments || []) {
+      if (!course_id || certified.has(course_id)) {
+        continue;
+      }
+
+      const certificate = await CertificateService.issue(userId, { courseId: course_id });
+
+      if (certificate) {
+        issued.push(certificate);
+      }
+    }
+
+    return issued;
+  }
+
+  /**
+   * Average of the learner's best score on each quiz in percent, unattempted quizzes counting as 0
+   */
+  private static async quizScore(userId: string, quizIds: string[]): Promise<number | null> {
+    if (!quizIds.length) {
+      return null;
+    }
+
+    const { data: attempts } = await supabaseAdmin
+      .from('quiz_attempts')
+      .select('quiz_id, score, max_score')
+      .eq('user_id', userId)
+      .in('quiz_id', quizIds);
+
+    const best = new Map<string, number>();
+
+    for (const attempt of attempts || []) {
+      const percentage = attempt.max_score > 0 ? (attempt.score / attempt.max_score) * 100 : 0;
+      best.set(attempt.quiz_id, Math.max(best.get(attempt.quiz_id) ?? 0, percentage));
+    }
+
+    const total = quizIds.reduce((sum, quizId) => sum + (best.get(quizId) ?? 0), 0);
+
+    return round(total / quizIds.length);
+  }
+
+  private static async passedAssignments(courseId: string, userId: string, assignmentIds: Set<string>): Promise<number> {
+    if (!assignmentIds.size) {
+      return 0;
+    }
+
+    const { data: submissions } = await supabaseAdmin
+      .from('assignment_submissions')
+      .select('assignment_id')
+      .eq('course_id', courseId)
+      .eq('user_id', userId)
+      .eq('status', 'graded')
+      .eq('passed', true);
+
+    const passed = new Set((submissions || []).map((submission) => submission.assignment_id));
+
+    return [...assignmentIds].filter((assignmentId) => passed.has(assignmentId)).length;
+  }
+}
@@ -0,0 +1,216 @@
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { AppError, AuthorizationError, NotFoundError } from '../utils/errors';
+import { CourseMemberService } from './courseMember.service';
+
+const CLOUDFLARE_BASE_URL = `https://api.cloudflare.com/client/v4/accounts/${process.env.CLOUDFLARE_ACCOUNT_ID}`;
+
+/**
+ * What happens to the lesson videos of a duplicated course:
+ * - reuse: the copy streams the same Cloudflare videos
+ * - copy: each video is copied into a new Cloudflare video owned by the new course
+ * - none: lessons are copied without videos
+ */
+export type VideoMode = 'reuse' | 'copy' | 'none';
+
+export interface DuplicateOptions {
+  title?: string;
+  videos?: VideoMode;
+}
+
+/**
+ * copying: a Cloudflare copy was started; the webhook swaps it in once ready, until then
+ * the lesson streams the original. reused: the original could not be copied yet (its
+ * download is still being prepared) and stays in use for good; the copy is not retried.
+ */
+export type VideoCopyStatus = 'reused' | 'copying' | 'failed';
+
+export interface VideoCopyResult {
+  lesson_id: string;
+  video_id: string;
+  status: VideoCopyStatus;
+}
+
+export class CourseDuplicationService {
+  /**
+   * Copy a course into a new unpublished course owned by the user. Course staff with
+   * edit_content get a full copy including pricing, access rules and prerequisites;
+   * anyone else can only clone published templates, and gets the content alone.
+   */
+  static async duplicate(sourceId: string, userId: string, options: DuplicateOptions = {}) {
+    const { data: source } = await supabaseAdmin
+      .from('courses')
+      .select('id, is_template, is_published')
+      .eq('id', sourceId)
+      .maybeSingle();
+
+    if (!source) {
+      throw new NotFoundError('Course not found');
+    }
+
+    const canEdit = await CourseMemberService.hasPermission(sourceId, userId, 'edit_content');
+
+    if (!canEdit && !(source.is_template && source.is_published)) {
+      throw new AuthorizationError('Only course staff can duplicate a course that is not a published template');
+    }
+
+    const videos = options.videos ?? 'reuse';
+
+    const { data: courseId, error } = await supabaseAdmin.rpc('duplicate_course', {
+      source_id_param: sourceId,
+      instructor_id_param: userId,
+      title_param: options.title ?? null,
+      include_settings_param: canEdit,
+      keep_videos_param: videos !== 'none',
+    });
+
+    if (error || !courseId) {
+      if (error?.message?.includes('COURSE_NOT_FOUND')) {
+        throw new NotFoundError('Course not found');
+      }
+      throw new AppError('Failed to duplicate course', 500);
+    }
+
+    const videoResults = videos === 'copy' ? await this.copyVideos(courseId, userId) : [];
+
+    const { data: course } = await supabaseAdmin
+      .from('courses')
+      .select('*')
+      .eq('id', courseId)
+      .single();
+
+    return { course, videos: videoResults, includesSettings: canEdit };
+  }
+
+  /**
+   * Published templates, newest first
+   */
+  static async listTemplates() {
+    const { data, error } = await supabaseAdmin
+      .from('courses')
+      .select(`
+        *,
+        instructor:users!courses_instructor_id_fkey(
+          id,
+          wallet_address,
+          display_name,
+          avatar_url
+        )
+      `)
+      .eq('is_template', true)
+      .eq('is_published', true)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new AppError('Failed to fetch course templates', 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Start a Cloudflare copy of every video of the new course. The lessons keep streaming
+   * the original videos until the copies are ready.
+   */
+  private static async copyVideos(courseId: string, userId: string): Promise<VideoCopyResult[]> {
+    const { data: lessons } = await supabaseAdmin
+      .from('lessons')
+      .select('id, video_url')
+      .eq('course_id', courseId)
+      .not('video_url', 'is', null);
+
+    return Promise.all(
+      (lessons || []).map(async (lesson) => ({
+        lesson_id: lesson.id,
+        video_id: lesson.video_url!,
+        status: await this.copyVideo(lesson.video_url!, { userId, courseId, lessonId: lesson.id }),
+      }))
+    );
+  }
+
+  /**
+   * Disable the MP4 download a copy of a duplicated course's video was made from, once the
+   * copy is ready or has failed. Downloads that were enabled before the copy are kept.
+   * Call from the Stream webhook with the copy's meta.
+   */
+  static async finishVideoCopy(meta: Record<string, string> | undefined): Promise<void> {
+    if (meta?.copyOf && meta.disableSourceDownloads === 'true') {
+      await this.disableDownloads(meta.copyOf);
+    }
+  }
+
+  private static async copyVideo(videoId: string, meta: Record<string, string>): Promise<VideoCopyStatus> {
+    const headers = {
+      'Authorization': `Bearer ${process.env.CLOUDFLARE_STREAM_TOKEN}`,
+      'Content-Type': 'application/json',
+    };
+
+    try {
+      // Cloudflare copies from a URL, so the original needs a downloadable MP4. It is only
+      // public while the copy fetches it.
+      const existingResponse = await fetch(`${CLOUDFLARE_BASE_URL}/stream/${videoId}/downloads`, { headers });
+      const existing = existingResponse.ok
+        ? ((await existingResponse.json()) as { result?: { default?: unknown } }).result?.default
+        : undefined;
+
+      const downloadResponse = await fetch(`${CLOUDFLARE_BASE_URL}/stream/${videoId}/downloads`, {
+        method: 'POST',
+        headers,
+      });
+
+      if (!downloadResponse.ok) {
+        logger.error(`Failed to enable downloads of video ${videoId}:`, await downloadResponse.text());
+        return 'failed';
+      }
+
+      const { result } = (await downloadResponse.json()) as {
+        result?: { default?: { status: string; url: string } };
+      };
+      const download = result?.default;
+
+      if (download?.status !== 'ready') {
+        if (!existing) {
+          await this.disableDownloads(videoId);
+        }
+        return 'reused';
+      }
+
+      const copyResponse = await fetch(`${CLOUDFLARE_BASE_URL}/stream/copy`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          url: download.url,
+          meta: { ...meta, copyOf: videoId, disableSourceDownloads: String(!existing) },
+        }),
+      });
+
+      if (!copyResponse.ok) {
+        logger.error(`Failed to copy video ${videoId}:`, await copyResponse.text());
+        if (!existing) {
+          await this.disableDownloads(videoId);
+        }
+        return 'failed';
+      }
+
+      return 'copying';
+    } catch (error) {
+      logger.error(`Error copying video ${videoId}:`, error);
+      return 'failed';
+    }
+  }
+
+  private static async disableDownloads(videoId: string): Promise<void> {
+    try {
+      const response = await fetch(`${CLOUDFLARE_BASE_URL}/stream/${videoId}/downloads`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${process.env.CLOUDFLARE_STREAM_TOKEN}` },
+      });
+
+      if (!response.ok) {
+        logger.error(`Failed to disable downloads of video ${videoId}:`, await response.text());
+      }
+    } catch (error) {
+      logger.error(`Error disabling downloads of video ${videoId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,286 @@
+import { supabaseAdmin } from '../config/supabase';
+import { Database } from '../types/database.types';
+import { AppError, AuthorizationError, NotFoundError, ValidationError } from '../utils/errors';
+import { WalletService } from './wallet.service';
+
+export type CourseMember = Database['public']['Tables']['course_members']['Row'];
+export type CourseRole = 'owner' | 'co_instructor' | 'ta';
+export type StaffRole = Exclude<CourseRole, 'owner'>;
+
+/**
+ * What course staff can do. `manage_course` (pricing, access rules, prerequisites,
+ * members, deletion) belongs to the owner alone and cannot be granted.
+ */
+export type CoursePermission =
+  | 'edit_content'
+  | 'upload_video'
+  | 'publish'
+  | 'view_students'
+  | 'moderate_discussions'
+  | 'grade_submissions'
+  | 'manage_course';
+
+export type GrantablePermission = Exclude<CoursePermission, 'manage_course'>;
+
+export const GRANTABLE_PERMISSIONS: GrantablePermission[] = [
+  'edit_content',
+  'upload_video',
+  'publish',
+  'view_students',
+  'moderate_discussions',
+  'grade_submissions',
+];
+
+const ROLE_PERMISSIONS: Record<StaffRole, GrantablePermission[]> = {
+  co_instructor: GRANTABLE_PERMISSIONS,
+  ta: ['view_students', 'moderate_discussions', 'grade_submissions'],
+};
+
+export interface MemberInvite {
+  wallet_address: string;
+  role: StaffRole;
+  /** Overrides the role defaults */
+  permissions?: GrantablePermission[] | null;
+}
+
+export type MemberUpdate = Partial<Omit<MemberInvite, 'wallet_address'>>;
+
+export class CourseMemberService {
+  /**
+   * Permissions of a member: everything for the owner, otherwise the member's
+   * own list or the defaults of their role
+   */
+  static permissionsOf(member: Pick<CourseMember, 'role' | 'permissions'>): CoursePermission[] {
+    if (member.role === 'owner') {
+      return [...GRANTABLE_PERMISSIONS, 'manage_course'];
+    }
+
+    return (member.permissions as GrantablePermission[] | null) ?? ROLE_PERMISSIONS[member.role as StaffRole] ?? [];
+  }
+
+  /**
+   * Active membership of a user in a course, or null
+   */
+  static async getMember(courseId: string, userId: string): Promise<CourseMember | null> {
+    const { data } = await supabaseAdmin
+      .from('course_members')
+      .select('*')
+      .eq('course_id', courseId)
+      .eq('user_id', userId)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    return data;
+  }
+
+  /**
+   * Whether the user is on the course staff; staff see every lesson
+   */
+  static async isStaff(courseId: string, userId: string): Promise<boolean> {
+    return !!(await this.getMember(courseId, userId));
+  }
+
+  static async hasPermission(courseId: string, userId: string, permission: CoursePermission): Promise<boolean> {
+    const member = await this.getMember(courseId, userId);
+    return !!member && this.permissionsOf(member).includes(permission);
+  }
+
+  /**
+   * @throws AuthorizationError if the user lacks the permission on the course
+   */
+  static async assertPermission(courseId: string, userId: string, permission: CoursePermission): Promise<void> {
+    if (!(await this.hasPermission(courseId, userId, permission))) {
+      throw new AuthorizationError(`Access denied. Requires the ${permission} course permission`);
+    }
+  }
+
+  /**
+   * Members and pending invites of a course, owner first
+   */
+  static async list(courseId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('course_members')
+      .select(`
+        *,
+        user:users!course_members_user_id_fkey(id, wallet_address, display_name, avatar_url)
+      `)
+      .eq('course_id', courseId)
+      .order('invited_at', { ascending: true });
+
+    if (error) {
+      throw new AppError('Failed to fetch course members', 500);
+    }
+
+    return (data || [])
+      .map((member) => ({ ...member, effective_permissions: this.permissionsOf(member) }))
+      .sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner'));
+  }
+
+  /**
+   * Invite a wallet to the course staff; the owner of the wallet accepts the invite
+   */
+  static async invite(courseId: string, invitedBy: string, input: MemberInvite): Promise<CourseMember> {
+    const { data: member, error } = await supabaseAdmin
+      .from('course_members')
+      .insert({
+        course_id: courseId,
+        wallet_address: input.wallet_address.toLowerCase(),
+        role: input.role,
+        permissions: input.permissions ?? null,
+        invited_by: invitedBy,
+      })
+      .select()
+      .single();
+
+    if (error || !member) {
+      if (error?.code === '23505') {
+        throw new AppError('This wallet is already a member or invited', 409);
+      }
+      throw new AppError('Failed to invite course member', 500);
+    }
+
+    return member;
+  }
+
+  /**
+   * Change the role or permissions of a co-instructor or TA
+   */
+  static async update(courseId: string, memberId: string, changes: MemberUpdate): Promise<CourseMember> {
+    await this.getStaffMember(courseId, memberId);
+
+    const { data: member, error } = await supabaseAdmin
+      .from('course_members')
+      .update(changes)
+      .eq('id', memberId)
+      .select()
+      .single();
+
+    if (error || !member) {
+      throw new AppError('Failed to update course member', 500);
+    }
+
+    return member;
+  }
+
+  /**
+   * Remove a co-instructor or TA, or withdraw an invite
+   */
+  static async remove(courseId: string, memberId: string): Promise<void> {
+    await this.getStaffMember(courseId, memberId);
+
+    const { error } = await supabaseAdmin.from('course_members').delete().eq('id', memberId);
+
+    if (error) {
+      throw new AppError('Failed to remove course member', 500);
+    }
+  }
+
+  /**
+   * Pending invites addressed to any of the user's wallets
+   */
+  static async listInvitations(userId: string) {
+    const wallets = (await WalletService.list(userId)).map((wallet) => wallet.address);
+
+    if (wallets.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('course_members')
+      .select('*, course:courses(id, title, thumbnail_url)')
+      .in('wallet_address', wallets)
+      .eq('status', 'pending')
+      .order('invited_at', { ascending: false });
+
+    if (error) {
+      throw new AppError('Failed to fetch invitations', 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Accept an invite to a course sent to one of the user's wallets
+   */
+  static async accept(courseId: string, userId: string): Promise<CourseMember> {
+    const invite = await this.getInvitation(courseId, userId);
+
+    const { data: member, error } = await supabaseAdmin
+      .from('course_members')
+      .update({ user_id: userId, status: 'active', accepted_at: new Date().toISOString() })
+      .eq('id', invite.id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new AppError('Already a member of this course', 409);
+      }
+      throw new AppError('Failed to accept invitation', 500);
+    }
+
+    if (!member) {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    return member;
+  }
+
+  static async decline(courseId: string, userId: string): Promise<void> {
+    const invite = await this.getInvitation(courseId, userId);
+
+    const { error } = await supabaseAdmin
+      .from('course_members')
+      .delete()
+      .eq('id', invite.id)
+      .eq('status', 'pending');
+
+    if (error) {
+      throw new AppError('Failed to decline invitation', 500);
+    }
+  }
+
+  private static async getInvitation(courseId: string, userId: string): Promise<CourseMember> {
+    const wallets = (await WalletService.list(userId)).map((wallet) => wallet.address);
+
+    const { data: invite } = wallets.length
+      ? await supabaseAdmin
+          .from('course_members')
+          .select('*')
+          .eq('course_id', courseId)
+          .in('wallet_address', wallets)
+          .eq('status', 'pending')
+          .limit(1)
+          .maybeSingle()
+      : { data: null };
+
+    if (!invite) {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    return invite;
+  }
+
+  /**
+   * @throws ValidationError for the owner, whose membership follows courses.instructor_id
+   */
+  private static async getStaffMember(courseId: string, memberId: string): Promise<CourseMember> {
+    const { data: member } = await supabaseAdmin
+      .from('course_members')
+      .select('*')
+      .eq('id', memberId)
+      .eq('course_id', courseId)
+      .maybeSingle();
+
+    if (!member) {
+      throw new NotFoundError('Course member not found');
+    }
+
+    if (member.role === 'owner') {
+      throw new ValidationError('The course owner cannot be changed or removed');
+    }
+
+    return member;
+  }
+}
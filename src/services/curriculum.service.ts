@@ -0,0 +1,161 @@
+import { supabaseAdmin } from '../config/supabase';
+import { Database } from '../types/database.types';
+import { AppError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export type Section = Database['public']['Tables']['sections']['Row'];
+export type Lesson = Database['public']['Tables']['lessons']['Row'];
+
+type OrderedSection = { id: string; order: number };
+type OrderedLesson = { id: string; order: number; section_id: string | null };
+
+export interface CurriculumTree<S extends OrderedSection, L extends OrderedLesson> {
+  sections: Array<S & { lessons: L[] }>;
+  /** Lessons not assigned to a section, listed after all sections */
+  unsectioned_lessons: L[];
+}
+
+export interface SectionProgress {
+  section_id: string | null;
+  title: string | null;
+  totalLessons: number;
+  completedLessons: number;
+  progressPercentage: number;
+}
+
+const byOrder = (a: { order: number }, b: { order: number }) => a.order - b.order;
+
+export class CurriculumService {
+  /**
+   * Nest lessons under their sections, both sorted by `order`
+   */
+  static buildTree<S extends OrderedSection, L extends OrderedLesson>(
+    sections: S[],
+    lessons: L[]
+  ): CurriculumTree<S, L> {
+    const sorted = [...lessons].sort(byOrder);
+    const sectionIds = new Set(sections.map((section) => section.id));
+
+    return {
+      sections: [...sections].sort(byOrder).map((section) => ({
+        ...section,
+        lessons: sorted.filter((lesson) => lesson.section_id === section.id),
+      })),
+      unsectioned_lessons: sorted.filter(
+        (lesson) => !lesson.section_id || !sectionIds.has(lesson.section_id)
+      ),
+    };
+  }
+
+  /**
+   * Lessons in the order a learner goes through them
+   */
+  static flatten<S extends OrderedSection, L extends OrderedLesson>(tree: CurriculumTree<S, L>): L[] {
+    return [...tree.sections.flatMap((section) => section.lessons), ...tree.unsectioned_lessons];
+  }
+
+  /**
+   * Full curriculum of a course
+   */
+  static async getTree(courseId: string): Promise<CurriculumTree<Section, Lesson>> {
+    const [sections, lessons] = await Promise.all([
+      supabaseAdmin.from('sections').select('*').eq('course_id', courseId),
+      supabaseAdmin.from('lessons').select('*').eq('course_id', courseId),
+    ]);
+
+    if (sections.error || lessons.error) {
+      throw new AppError('Failed to fetch lessons', 500);
+    }
+
+    return this.buildTree(sections.data, lessons.data);
+  }
+
+  /**
+   * Completion per section, with unsectioned lessons rolled up under a null section
+   */
+  static rollup<S extends OrderedSection & { title: string }, L extends OrderedLesson>(
+    tree: CurriculumTree<S, L>,
+    completedLessonIds: Set<string>
+  ): SectionProgress[] {
+    const groups = [
+      ...tree.sections.map((section) => ({ section_id: section.id, title: section.title, lessons: section.lessons })),
+      ...(tree.unsectioned_lessons.length > 0
+        ? [{ section_id: null, title: null, lessons: tree.unsectioned_lessons }]
+        : []),
+    ];
+
+    return groups.map(({ section_id, title, lessons }) => {
+      const completedLessons = lessons.filter((lesson) => completedLessonIds.has(lesson.id)).length;
+
+      return {
+        section_id,
+        title,
+        totalLessons: lessons.length,
+        completedLessons,
+        progressPercentage: lessons.length > 0 ? (completedLessons / lessons.length) * 100 : 0,
+      };
+    });
+  }
+
+  /**
+   * @throws ValidationError if the section is not part of the course
+   */
+  static async assertSectionInCourse(courseId: string, sectionId: string): Promise<void> {
+    const { data: section } = await supabaseAdmin
+      .from('sections')
+      .select('id')
+      .eq('id', sectionId)
+      .eq('course_id', courseId)
+      .maybeSingle();
+
+    if (!section) {
+      throw new ValidationError('Section does not belong to this course');
+    }
+  }
+
+  /**
+   * Apply a full lesson order in one transaction, numbering lessons 0..n-1.
+   * `sectionAssignments` moves lessons between sections (null: out of any section).
+   * @throws ValidationError unless `lessonIds` lists every lesson of the course exactly once
+   */
+  static async reorderLessons(
+    courseId: string,
+    lessonIds: string[],
+    sectionAssignments: Record<string, string | null> = {}
+  ): Promise<void> {
+    const { error } = await supabaseAdmin.rpc('reorder_lessons', {
+      course_id_param: courseId,
+      lesson_ids_param: lessonIds,
+      section_assignments_param: sectionAssignments,
+    });
+
+    if (!error) {
+      return;
+    }
+
+    if (error.message?.includes('LESSON_ORDER_MISMATCH')) {
+      throw new ValidationError('Lesson order must list every lesson of the course exactly once');
+    }
+    if (error.message?.includes('SECTION_NOT_IN_COURSE')) {
+      throw new ValidationError('Lessons can only be moved to sections of this course');
+    }
+    if (error.message?.includes('COURSE_NOT_FOUND')) {
+      throw new NotFoundError('Course not found');
+    }
+
+    logger.error('Failed to reorder lessons:', error);
+    throw new AppError('Failed to reorder lessons', 500);
+  }
+
+  /**
+   * Close gaps left in the lesson order, e.g. after a delete
+   */
+  static async renumberLessons(courseId: string): Promise<void> {
+    const { error } = await supabaseAdmin.rpc('renumber_lessons', { course_id_param: courseId });
+
+    if (error) {
+      logger.error('Failed to renumber lessons:', error);
+      throw new AppError('Failed to renumber lessons', 500);
+    }
+  }
+}
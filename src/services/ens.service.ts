@@ -0,0 +1,160 @@
+import { getRpcProvider } from '../config/ethereum';
+import { logger } from '../utils/logger';
+import { CacheService, CacheKeys } from './cache.service';
+
+/** ENS lives on mainnet; point ETH_RPC_URL(S) at a fork for local work */
+const ENS_CHAIN_ID = 1;
+
+const ENS_CACHE_TTL = 60 * 60; // 1 hour
+
+export interface EnsProfile {
+  ens_name: string | null;
+  ens_avatar: string | null;
+}
+
+/**
+ * Source of ENS data. The default implementation queries mainnet through
+ * the configured RPC provider; tests can plug in a fixture-backed one.
+ */
+export interface EnsResolver {
+  /** Primary (reverse) name of an address, forward-verified */
+  lookupName(address: string): Promise<string | null>;
+  /** Address a name resolves to */
+  resolveAddress(name: string): Promise<string | null>;
+  /** Avatar URL of a name */
+  getAvatar(name: string): Promise<string | null>;
+}
+
+export class ProviderEnsResolver implements EnsResolver {
+  async lookupName(address: string): Promise<string | null> {
+    const provider = getRpcProvider(ENS_CHAIN_ID);
+    return provider ? provider.lookupAddress(address) : null;
+  }
+
+  async resolveAddress(name: string): Promise<string | null> {
+    const provider = getRpcProvider(ENS_CHAIN_ID);
+    return provider ? provider.resolveName(name) : null;
+  }
+
+  async getAvatar(name: string): Promise<string | null> {
+    const provider = getRpcProvider(ENS_CHAIN_ID);
+    return provider ? provider.getAvatar(name) : null;
+  }
+}
+
+/**
+ * In-memory resolver backed by fixed records
+ *
+ * @example
+ * EnsService.setResolver(new StaticEnsResolver([
+ *   { name: 'alice.eth', address: '0xabc...', avatar: 'https://...' },
+ * ]));
+ */
+export class StaticEnsResolver implements EnsResolver {
+  private records: Array<{ name: string; address: string; avatar?: string | null }>;
+
+  constructor(records: Array<{ name: string; address: string; avatar?: string | null }>) {
+    this.records = records.map((record) => ({
+      ...record,
+      name: record.name.toLowerCase(),
+      address: record.address.toLowerCase(),
+    }));
+  }
+
+  async lookupName(address: string): Promise<string | null> {
+    return this.records.find((r) => r.address === address.toLowerCase())?.name ?? null;
+  }
+
+  async resolveAddress(name: string): Promise<string | null> {
+    return this.records.find((r) => r.name === name.toLowerCase())?.address ?? null;
+  }
+
+  async getAvatar(name: string): Promise<string | null> {
+    return this.records.find((r) => r.name === name.toLowerCase())?.avatar ?? null;
+  }
+}
+
+let resolver: EnsResolver = new ProviderEnsResolver();
+
+export class EnsService {
+  /**
+   * Swap the ENS backend (fixtures, local fork)
+   */
+  static setResolver(next: EnsResolver): void {
+    resolver = next;
+  }
+
+  /**
+   * Whether a string looks like an ENS name rather than an address
+   */
+  static isEnsName(value: string): boolean {
+    return !value.startsWith('0x') && value.includes('.');
+  }
+
+  /**
+   * Primary ENS name and avatar of an address (cached)
+   */
+  static async getProfile(address: string): Promise<EnsProfile> {
+    const normalized = address.toLowerCase();
+
+    return CacheService.getOrSet<EnsProfile>(
+      CacheKeys.ensProfile(normalized),
+      async () => {
+        try {
+          const name = await resolver.lookupName(normalized);
+          const avatar = name ? await resolver.getAvatar(name) : null;
+          return { ens_name: name, ens_avatar: avatar };
+        } catch (error) {
+          logger.warn(`ENS lookup failed for ${normalized}:`, error);
+          return { ens_name: null, ens_avatar: null };
+        }
+      },
+      ENS_CACHE_TTL
+    );
+  }
+
+  /**
+   * Address an ENS name points to (cached)
+   */
+  static async resolveName(name: string): Promise<string | null> {
+    const normalized = name.toLowerCase();
+
+    const { address } = await CacheService.getOrSet<{ address: string | null }>(
+      CacheKeys.ensName(normalized),
+      async () => {
+        try {
+          const resolved = await resolver.resolveAddress(normalized);
+          return { address: resolved ? resolved.toLowerCase() : null };
+        } catch (error) {
+          logger.warn(`ENS resolution failed for ${normalized}:`, error);
+          return { address: null };
+        }
+      },
+      ENS_CACHE_TTL
+    );
+
+    return address;
+  }
+
+  /**
+   * Add ens_name/ens_avatar to any object carrying a wallet_address
+   */
+  static async withProfile<T extends { wallet_address: string }>(entity: T): Promise<T & EnsProfile> {
+    return { ...entity, ...(await this.getProfile(entity.wallet_address)) };
+  }
+
+  /**
+   * Add ENS data to the embedded `instructor` of each course
+   */
+  static async withInstructorProfiles<
+    T extends { instructor?: { wallet_address: string } | null }
+  >(courses: T[]): Promise<T[]> {
+    return Promise.all(
+      courses.map(async (course) =>
+        course.instructor
+          ? { ...course, instructor: await this.withProfile(course.instructor) }
+          : course
+      )
+    );
+  }
+}
@@ -0,0 +1,352 @@
+import { supabaseAdmin } from '../config/supabase';
+import { Database } from '../types/database.types';
+import { AppError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { CertificateService } from './certificate.service';
+
+export type LearningPath = Database['public']['Tables']['learning_paths']['Row'];
+type PathEnrollment = Database['public']['Tables']['path_enrollments']['Row'];
+
+export interface LearningPathInput {
+  slug: string;
+  title: string;
+  description?: string | null;
+  thumbnail_url?: string | null;
+}
+
+export type LearningPathUpdate = Partial<LearningPathInput> & { is_published?: boolean };
+
+export interface PathCourse {
+  id: string;
+  title: string;
+  description: string | null;
+  thumbnail_url: string | null;
+  level: string | null;
+  price_amount: string | null;
+  price_currency: string | null;
+  is_published: boolean | null;
+  order: number;
+}
+
+export interface PathCourseProgress extends PathCourse {
+  enrolled: boolean;
+  completed: boolean;
+}
+
+export interface PathProgress {
+  totalCourses: number;
+  completedCourses: number;
+  progressPercentage: number;
+  /** First course of the path the learner has not completed */
+  nextCourseId: string | null;
+  courses: PathCourseProgress[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const PATH_COURSES_SELECT = `
+  order,
+  course:courses(id, title, description, thumbnail_url, level, price_amount, price_currency, is_published)
+`;
+
+type PathCourseRow = { order: number; course: Omit<PathCourse, 'order'> | null };
+
+const toPathCourses = (rows: PathCourseRow[] | null): PathCourse[] =>
+  (rows || [])
+    .flatMap((row) => (row.course ? [{ ...row.course, order: row.order }] : []))
+    .sort((a, b) => a.order - b.order);
+
+export class LearningPathService {
+  /**
+   * Published paths with their courses, newest first
+   */
+  static async listPublished() {
+    const { data, error } = await supabaseAdmin
+      .from('learning_paths')
+      .select(`*, courses:learning_path_courses(${PATH_COURSES_SELECT})`)
+      .eq('is_published', true)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new AppError('Failed to fetch learning paths', 500);
+    }
+
+    return (data || []).map(({ courses, ...path }) => ({ ...path, courses: toPathCourses(courses) }));
+  }
+
+  /**
+   * A path by id or slug with its courses in order. Unpublished paths are only
+   * visible to their creator.
+   */
+  static async get(idOrSlug: string, viewerId?: string): Promise<LearningPath & { courses: PathCourse[] }> {
+    const { data, error } = await supabaseAdmin
+      .from('learning_paths')
+      .select(`*, courses:learning_path_courses(${PATH_COURSES_SELECT})`)
+      .eq(UUID_PATTERN.test(idOrSlug) ? 'id' : 'slug', idOrSlug)
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError('Failed to fetch learning path', 500);
+    }
+
+    if (!data || (!data.is_published && data.creator_id !== viewerId)) {
+      throw new NotFoundError('Learning path not found');
+    }
+
+    const { courses, ...path } = data;
+    return { ...path, courses: toPathCourses(courses) };
+  }
+
+  static async create(creatorId: string, input: LearningPathInput): Promise<LearningPath> {
+    const { data: path, error } = await supabaseAdmin
+      .from('learning_paths')
+      .insert({ ...input, creator_id: creatorId })
+      .select()
+      .single();
+
+    if (error || !path) {
+      if (error?.code === '23505') {
+        throw new AppError('Slug already in use', 409);
+      }
+      throw new AppError('Failed to create learning path', 500);
+    }
+
+    return path;
+  }
+
+  /**
+   * Update a creator's path. Publishing requires at least one course, all of them published.
+   */
+  static async update(creatorId: string, pathId: string, changes: LearningPathUpdate): Promise<LearningPath> {
+    const current = await this.getOwned(creatorId, pathId);
+
+    if (changes.is_published && !current.is_published) {
+      const courses = await this.listCourses(pathId);
+
+      if (courses.length === 0) {
+        throw new ValidationError('Cannot publish a learning path without courses');
+      }
+      this.assertCoursesPublished(courses);
+    }
+
+    const { data: path, error } = await supabaseAdmin
+      .from('learning_paths')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', pathId)
+      .select()
+      .single();
+
+    if (error || !path) {
+      if (error?.code === '23505') {
+        throw new AppError('Slug already in use', 409);
+      }
+      throw new AppError('Failed to update learning path', 500);
+    }
+
+    return path;
+  }
+
+  static async remove(creatorId: string, pathId: string): Promise<void> {
+    await this.getOwned(creatorId, pathId);
+
+    const { error } = await supabaseAdmin.from('learning_paths').delete().eq('id', pathId);
+
+    if (error) {
+      throw new AppError('Failed to delete learning path', 500);
+    }
+  }
+
+  /**
+   * Replace the courses of a creator's path, in order. A published path only takes published courses.
+   */
+  static async setCourses(creatorId: string, pathId: string, courseIds: string[]): Promise<PathCourse[]> {
+    const path = await this.getOwned(creatorId, pathId);
+
+    if (path.is_published) {
+      if (courseIds.length === 0) {
+        throw new ValidationError('A published learning path needs at least one course');
+      }
+
+      const { count: unpublished } = await supabaseAdmin
+        .from('courses')
+        .select('*', { count: 'exact', head: true })
+        .in('id', courseIds)
+        .eq('is_published', false);
+
+      if (unpublished) {
+        throw new ValidationError('A published learning path can only contain published courses');
+      }
+    }
+
+    const { error } = await supabaseAdmin.rpc('set_learning_path_courses', {
+      path_id_param: pathId,
+      course_ids_param: courseIds,
+    });
+
+    if (error) {
+      if (error.message?.includes('COURSE_NOT_FOUND')) {
+        throw new ValidationError('Course not found');
+      }
+      if (error.message?.includes('PATH_NOT_FOUND')) {
+        throw new NotFoundError('Learning path not found');
+      }
+
+      logger.error('Failed to set learning path courses:', error);
+      throw new AppError('Failed to set learning path courses', 500);
+    }
+
+    return this.listCourses(pathId);
+  }
+
+  /**
+   * Enroll a learner in a published path. Courses keep their own enrollment.
+   */
+  static async enroll(userId: string, idOrSlug: string): Promise<PathEnrollment> {
+    // Without a viewer, unpublished paths are not found
+    const path = await this.get(idOrSlug);
+
+    const { data: enrollment, error } = await supabaseAdmin
+      .from('path_enrollments')
+      .insert({ path_id: path.id, user_id: userId })
+      .select()
+      .single();
+
+    if (error || !enrollment) {
+      if (error?.code === '23505') {
+        throw new AppError('Already enrolled in this learning path', 400);
+      }
+      throw new AppError('Failed to enroll in learning path', 500);
+    }
+
+    // Learners may join a path after finishing its courses
+    await this.syncCompletion(userId);
+
+    return enrollment;
+  }
+
+  /**
+   * Course-by-course progress of a learner through a path
+   */
+  static async progress(userId: string, courses: PathCourse[]): Promise<PathProgress> {
+    const { data: enrollments, error } = courses.length
+      ? await supabaseAdmin
+          .from('enrollments')
+          .select('course_id, completed_at')
+          .eq('user_id', userId)
+          .in('course_id', courses.map((course) => course.id))
+      : { data: [], error: null };
+
+    if (error) {
+      throw new AppError('Failed to fetch path progress', 500);
+    }
+
+    const byCourse = new Map((enrollments || []).map((enrollment) => [enrollment.course_id, enrollment]));
+
+    const courseProgress = courses.map((course) => ({
+      ...course,
+      enrolled: byCourse.has(course.id),
+      completed: !!byCourse.get(course.id)?.completed_at,
+    }));
+
+    const completedCourses = courseProgress.filter((course) => course.completed).length;
+
+    return {
+      totalCourses: courses.length,
+      completedCourses,
+      progressPercentage: courses.length > 0 ? (completedCourses / courses.length) * 100 : 0,
+      nextCourseId: courseProgress.find((course) => !course.completed)?.id ?? null,
+      courses: courseProgress,
+    };
+  }
+
+  /**
+   * Paths a learner is enrolled in, with their progress
+   */
+  static async listEnrolled(userId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('path_enrollments')
+      .select(`
+        *,
+        path:learning_paths(id, slug, title, thumbnail_url, courses:learning_path_courses(${PATH_COURSES_SELECT}))
+      `)
+      .eq('user_id', userId)
+      .order('enrolled_at', { ascending: false });
+
+    if (error) {
+      throw new AppError('Failed to fetch path enrollments', 500);
+    }
+
+    return Promise.all(
+      (data || []).map(async ({ path, ...enrollment }) => {
+        const { courses, ...pathInfo } = path || { courses: [] };
+        return {
+          ...enrollment,
+          path: path ? pathInfo : null,
+          ...(await this.progress(userId, toPathCourses(courses))),
+        };
+      })
+    );
+  }
+
+  /**
+   * Mark the learner's paths whose courses are all completed, issuing each a
+   * certificate once. Call after a course is completed.
+   */
+  static async syncCompletion(userId: string): Promise<void> {
+    const open = (await this.listEnrolled(userId)).filter(
+      (enrollment) => !enrollment.completed_at && enrollment.totalCourses > 0 && enrollment.nextCourseId === null
+    );
+
+    for (const enrollment of open) {
+      // Conditional update so concurrent calls issue one certificate
+      const { data: completed } = await supabaseAdmin
+        .from('path_enrollments')
+        .update({ completed_at: new Date().toISOString() })
+        .eq('id', enrollment.id)
+        .is('completed_at', null)
+        .select('id')
+        .maybeSingle();
+
+      if (completed) {
+        await CertificateService.issue(userId, { pathId: enrollment.path_id });
+      }
+    }
+  }
+
+  private static async getOwned(creatorId: string, pathId: string): Promise<LearningPath> {
+    const { data: path } = await supabaseAdmin
+      .from('learning_paths')
+      .select('*')
+      .eq('id', pathId)
+      .maybeSingle();
+
+    if (!path) {
+      throw new NotFoundError('Learning path not found');
+    }
+
+    if (path.creator_id !== creatorId) {
+      throw new AppError('Access denied', 403);
+    }
+
+    return path;
+  }
+
+  private static async listCourses(pathId: string): Promise<PathCourse[]> {
+    const { data, error } = await supabaseAdmin
+      .from('learning_path_courses')
+      .select(PATH_COURSES_SELECT)
+      .eq('path_id', pathId);
+
+    if (error) {
+      throw new AppError('Failed to fetch learning path courses', 500);
+    }
+
+    return toPathCourses(data);
+  }
+
+  private static assertCoursesPublished(courses: PathCourse[]): void {
+    if (courses.some((course) => !course.is_published)) {
+      throw new ValidationError('A published learning path can only contain published courses');
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import { supabaseAdmin } from '../config/supabase';
+import { Database } from '../types/database.types';
+import { LessonLockedError, ValidationError } from '../utils/errors';
+import { CourseMemberService } from './courseMember.service';
+import { CurriculumService } from './curriculum.service';
+
+type LessonRow = Database['public']['Tables']['lessons']['Row'];
+
+export type ReleaseRule = Pick<LessonRow, 'release_after_days' | 'release_at'>;
+
+/**
+ * Why a lesson is locked: `enrollment` for visitors who only see previews,
+ * `drip` until its release time, `sequential` until the previous lesson of a
+ * sequential course is completed
+ */
+export type LockReason = 'enrollment' | 'drip' | 'sequential';
+
+/** Lesson as seen by a learner; content and video are withheld while locked */
+export type ReleasedLesson<L> = L & {
+  locked: boolean;
+  locked_reason: LockReason | null;
+  unlocks_at: string | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Viewer {
+  /** Course staff see every lesson unlocked */
+  isInstructor: boolean;
+  /** Not enrolled: only preview lessons are unlocked */
+  previewOnly: boolean;
+  enrolledAt: string | null;
+  /** Lessons must be completed in curriculum order */
+  sequential: boolean;
+  completedLessonIds: Set<string>;
+}
+
+export class LessonReleaseService {
+  /**
+   * A lesson has at most one release rule: setting one clears the other
+   * @throws ValidationError if both are set
+   */
+  static normalizeRule<T extends Partial<ReleaseRule>>(changes: T): T {
+    const hasDays = changes.release_after_days !== null && changes.release_after_days !== undefined;
+    const hasDate = !!changes.release_at;
+
+    if (hasDays && hasDate) {
+      throw new ValidationError('Set either release_after_days or release_at, not both');
+    }
+
+    if (hasDays) {
+      return { ...changes, release_at: null };
+    }
+    if (hasDate) {
+      return { ...changes, release_after_days: null };
+    }
+    return changes;
+  }
+
+  /**
+   * When a lesson unlocks for a learner, or null if it has no release rule
+   */
+  static unlockAt(rule: ReleaseRule, enrolledAt: string | null): Date | null {
+    if (rule.release_at) {
+      return new Date(rule.release_at);
+    }
+
+    if (rule.release_after_days !== null && rule.release_after_days !== undefined) {
+      // Enrollments always carry a date; fall back to now rather than unlocking
+      const start = enrolledAt ? new Date(enrolledAt).getTime() : Date.now();
+      return new Date(start + rule.release_after_days * DAY_MS);
+    }
+
+    return null;
+  }
+
+  static isLocked(rule: ReleaseRule, viewer: Viewer, now: Date = new Date()): boolean {
+    if (viewer.isInstructor) {
+      return false;
+    }
+
+    const unlocksAt = this.unlockAt(rule, viewer.enrolledAt);
+    return !!unlocksAt && unlocksAt.getTime() > now.getTime();
+  }
+
+  /**
+   * Mark each lesson locked or unlocked for the viewer, stripping content of locked ones.
+   * Preview lessons are always unlocked. Lessons must be in curriculum order for sequential gating.
+   */
+  static apply<
+    L extends ReleaseRule & { id: string; is_preview?: boolean; content?: string | null; video_url?: string | null }
+  >(
+    lessons: L[],
+    viewer: Viewer,
+    now: Date = new Date()
+  ): Array<ReleasedLesson<L>> {
+    return lessons.map((lesson, index) => {
+      const gated = !lesson.is_preview && !viewer.isInstructor && !viewer.previewOnly;
+      const unlocksAt = gated ? this.unlockAt(lesson, viewer.enrolledAt) : null;
+      const previous = lessons[index - 1];
+
+      let lockedReason: LockReason | null = null;
+      if (lesson.is_preview) {
+        // Previews are open to everyone, so drip and sequential rules skip them
+        lockedReason = null;
+      } else if (viewer.previewOnly) {
+        lockedReason = 'enrollment';
+      } else if (this.isLocked(lesson, viewer, now)) {
+        lockedReason = 'drip';
+      } else if (
+        !viewer.isInstructor &&
+        viewer.sequential &&
+        previous &&
+        !viewer.completedLessonIds.has(previous.id)
+      ) {
+        lockedReason = 'sequential';
+      }
+      const locked = lockedReason !== null;
+
+      return {
+        ...lesson,
+        ...(locked && 'content' in lesson && { content: null }),
+        ...(locked && 'video_url' in lesson && { video_url: null }),
+        locked,
+        locked_reason: lockedReason,
+        unlocks_at: unlocksAt?.toISOString() ?? null,
+      };
+    });
+  }
+
+  /**
+   * Seconds until the next drip release among the lessons, or null if none is pending
+   */
+  static secondsUntilNextRelease(
+    lessons: Array<Pick<ReleasedLesson<ReleaseRule>, 'unlocks_at'>>,
+    now: Date = new Date()
+  ): number | null {
+    const pending = lessons
+      .map((lesson) => (lesson.unlocks_at ? new Date(lesson.unlocks_at).getTime() - now.getTime() : 0))
+      .filter((ms) => ms > 0);
+
+    return pending.length ? Math.ceil(Math.min(...pending) / 1000) : null;
+  }
+
+  /**
+   * Who is looking at a course: its staff, a learner with when they enrolled
+   * and, in sequential courses, which lessons they completed, or a visitor who is
+   * not enrolled (no `userId` for anonymous visitors)
+   */
+  static async getViewer(courseId: string, userId?: string): Promise<Viewer> {
+    if (!userId) {
+      return this.previewViewer();
+    }
+
+    const [{ data: course }, isStaff] = await Promise.all([
+      supabaseAdmin
+        .from('courses')
+        .select('sequential')
+        .eq('id', courseId)
+        .single(),
+      CourseMemberService.isStaff(courseId, userId),
+    ]);
+
+    if (isStaff) {
+      return {
+        isInstructor: true,
+        previewOnly: false,
+        enrolledAt: null,
+        sequential: false,
+        completedLessonIds: new Set(),
+      };
+    }
+
+    const { data: enrollment } = await supabaseAdmin
+      .from('enrollments')
+      .select('id, enrolled_at')
+      .eq('user_id', userId)
+      .eq('course_id', courseId)
+      .maybeSingle();
+
+    if (!enrollment) {
+      return this.previewViewer();
+    }
+
+    const sequential = !!course?.sequential;
+    const completedLessonIds = new Set<string>();
+
+    if (sequential) {
+      const { data: progress } = await supabaseAdmin
+        .from('lesson_progress')
+        .select('lesson_id')
+        .eq('enrollment_id', enrollment.id)
+        .eq('completed', true);
+
+      for (const row of progress || []) {
+        if (row.lesson_id) {
+          completedLessonIds.add(row.lesson_id);
+        }
+      }
+    }
+
+    return {
+      isInstructor: false,
+      previewOnly: false,
+      enrolledAt: enrollment.enrolled_at,
+      sequential,
+      completedLessonIds,
+    };
+  }
+
+  static previewViewer(): Viewer {
+    return {
+      isInstructor: false,
+      previewOnly: true,
+      enrolledAt: null,
+      sequential: false,
+      completedLessonIds: new Set(),
+    };
+  }
+
+  /**
+   * @throws LessonLockedError if the lesson is not yet released to the viewer or,
+   * in a sequential course, the previous lesson is not completed
+   */
+  static async assertAccessible(courseId: string, lessonId: string, viewer: Viewer): Promise<void> {
+    if (viewer.isInstructor) {
+      return;
+    }
+
+    const tree = await CurriculumService.getTree(courseId);
+    const lessons = this.apply(CurriculumService.flatten(tree), viewer);
+    const index = lessons.findIndex((lesson) => lesson.id === lessonId);
+    const lesson = lessons[index];
+
+    if (!lesson?.locked) {
+      return;
+    }
+
+    if (lesson.locked_reason === 'enrollment') {
+      throw new LessonLockedError('Enroll in this course to access this lesson', {
+        lesson_id: lesson.id,
+        reason: lesson.locked_reason,
+      });
+    }
+
+    if (lesson.locked_reason === 'sequential') {
+      throw new LessonLockedError('Complete the previous lesson first', {
+        lesson_id: lesson.id,
+        reason: lesson.locked_reason,
+        previous_lesson_id: lessons[index - 1].id,
+      });
+    }
+
+    throw new LessonLockedError('This lesson is not available yet', {
+      lesson_id: lesson.id,
+      reason: lesson.locked_reason,
+      unlocks_at: lesson.unlocks_at,
+    });
+  }
+}
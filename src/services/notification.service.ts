@@ -0,0 +1,88 @@
+import { supabaseAdmin } from '../config/supabase';
+import { Database, Json } from '../types/database.types';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export type Notification = Database['public']['Tables']['notifications']['Row'];
+
+export type NotificationType = 'assignment_graded' | 'assignment_returned';
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  /** Ids the client links to, e.g. courseId and lessonId */
+  data?: Record<string, string>;
+}
+
+export class NotificationService {
+  /**
+   * Notify a user. Failures are logged rather than thrown, so they never undo the
+   * action that triggered the notification.
+   */
+  static async notify(userId: string, input: NotificationInput): Promise<void> {
+    const { error } = await supabaseAdmin.from('notifications').insert({
+      user_id: userId,
+      type: input.type,
+      title: input.title,
+      body: input.body ?? null,
+      data: (input.data ?? {}) as Json,
+    });
+
+    if (error) {
+      logger.error(`Failed to notify user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Notifications of a user, newest first, with the number still unread
+   */
+  static async list(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}) {
+    let query = supabaseAdmin
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 50);
+
+    if (options.unreadOnly) {
+      query = query.is('read_at', null);
+    }
+
+    const [{ data, error }, { count }] = await Promise.all([
+      query,
+      supabaseAdmin
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null),
+    ]);
+
+    if (error) {
+      throw new AppError('Failed to fetch notifications', 500);
+    }
+
+    return { notifications: data || [], unread: count ?? 0 };
+  }
+
+  /**
+   * Mark the given notifications, or all of them, as read
+   */
+  static async markRead(userId: string, ids?: string[]): Promise<void> {
+    let query = supabaseAdmin
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (ids) {
+      query = query.in('id', ids);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      throw new AppError('Failed to update notifications', 500);
+    }
+  }
+}
@@ -0,0 +1,312 @@
+import { AbstractProvider, Interface, TransactionReceipt, TransactionResponse } from 'ethers';
+import { getRpcProvider } from '../config/ethereum';
+import { paymentConfig, PaymentConfig } from '../config/payments';
+import { supabaseAdmin } from '../config/supabase';
+import { Database } from '../types/database.types';
+import { AppError, NotFoundError, PaymentError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { CouponService, PriceQuote } from './coupon.service';
+import { CourseAccessService } from './courseAccess.service';
+import { PrerequisiteService } from './prerequisite.service';
+import { WalletService } from './wallet.service';
+
+export type PaymentIntent = Database['public']['Tables']['payment_intents']['Row'];
+
+export interface PaymentConfirmation {
+  intent: PaymentIntent;
+  enrollmentId: string;
+  /** False when the same transaction had already been confirmed */
+  created: boolean;
+}
+
+/**
+ * Result of a checkout: a payment intent to pay, or an enrollment when a
+ * coupon made the course free
+ */
+export interface CheckoutResult {
+  intent: PaymentIntent | null;
+  enrollmentId: string | null;
+  quote: PriceQuote;
+}
+
+/** The part of an intent that a transaction has to satisfy */
+export type ExpectedPayment = Pick<
+  PaymentIntent,
+  'chain_id' | 'token_address' | 'recipient' | 'amount' | 'created_at' | 'expires_at'
+>;
+
+const ERC20_INTERFACE = new Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+const TRANSFER_TOPIC = ERC20_INTERFACE.getEvent('Transfer')!.topicHash;
+
+export class PaymentService {
+  /**
+   * Start a checkout for a paid course, optionally with a coupon. An unexpired pending
+   * intent for the same price is reused so retries do not pile up intents. New intents
+   * with a coupon reserve a use of it. A coupon covering the whole price enrolls the
+   * user right away instead.
+   */
+  static async checkout(userId: string, courseId: string, couponCode?: string): Promise<CheckoutResult> {
+    const { data: enrollment } = await supabaseAdmin
+      .from('enrollments')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('course_id', courseId)
+      .maybeSingle();
+
+    if (enrollment) {
+      throw new AppError('Already enrolled in this course', 400);
+    }
+
+    const quote = await CouponService.quote(userId, courseId, couponCode);
+
+    if (!quote.chain_id) {
+      throw new AppError('Course price is missing a payment chain', 400);
+    }
+
+    await CourseAccessService.assertAccess(courseId, userId);
+    await PrerequisiteService.assertMet(courseId, userId);
+
+    if (quote.coupon && BigInt(quote.final_amount) === 0n) {
+      return { intent: null, enrollmentId: await CouponService.enrollFree(userId, quote), quote };
+    }
+
+    if (!paymentConfig.recipient) {
+      throw new PaymentError('PAYMENTS_DISABLED', 'Payments are not enabled on this server', 503);
+    }
+
+    let existingQuery = supabaseAdmin
+      .from('payment_intents')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('course_id', courseId)
+      .eq('status', 'pending')
+      .eq('amount', quote.final_amount)
+      .eq('chain_id', quote.chain_id)
+      .gt('expires_at', new Date().toISOString());
+
+    existingQuery = quote.coupon
+      ? existingQuery.eq('coupon_id', quote.coupon.id).not('coupon_reserved_at', 'is', null)
+      : existingQuery.is('coupon_id', null);
+
+    const { data: existing } = await existingQuery
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (existing && existing.token_address === quote.token_address) {
+      return { intent: existing, enrollmentId: null, quote };
+    }
+
+    const { data: intent, error } = await supabaseAdmin
+      .from('payment_intents')
+      .insert({
+        user_id: userId,
+        course_id: courseId,
+        chain_id: quote.chain_id,
+        token_address: quote.token_address,
+        currency: quote.currency,
+        decimals: quote.decimals,
+        recipient: paymentConfig.recipient,
+        amount: quote.final_amount,
+        list_amount: quote.list_amount,
+        discount_amount: quote.discount_amount,
+        coupon_id: quote.coupon?.id ?? null,
+        platform_fee_bps: paymentConfig.platformFeeBps,
+        expires_at: new Date(Date.now() + paymentConfig.intentTtlMinutes * 60 * 1000).toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error || !intent) {
+      throw new AppError('Failed to create payment intent', 500);
+    }
+
+    if (quote.coupon) {
+      try {
+        await CouponService.reserve(userId, intent.id);
+      } catch (reserveError) {
+        // The coupon ran out since the quote; do not leave a discounted intent behind
+        await supabaseAdmin.from('payment_intents').delete().eq('id', intent.id);
+        throw reserveError;
+      }
+
+      return { intent: await this.getIntent(userId, intent.id), enrollmentId: null, quote };
+    }
+
+    return { intent, enrollmentId: null, quote };
+  }
+
+  /**
+   * Get one of the user's payment intents
+   */
+  static async getIntent(userId: string, intentId: string): Promise<PaymentIntent> {
+    const { data: intent } = await supabaseAdmin
+      .from('payment_intents')
+      .select('*')
+      .eq('id', intentId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!intent) {
+      throw new NotFoundError('Payment intent not found');
+    }
+
+    return intent;
+  }
+
+  /**
+   * Verify the submitted transaction pays the intent, then confirm it and enroll
+   * the user atomically. Idempotent per transaction hash.
+   */
+  static async confirm(userId: string, intentId: string, txHash: string): Promise<PaymentConfirmation> {
+    const normalizedHash = txHash.toLowerCase();
+    const intent = await this.getIntent(userId, intentId);
+
+    if (intent.status === 'confirmed') {
+      if (intent.tx_hash === normalizedHash && intent.enrollment_id) {
+        return { intent, enrollmentId: intent.enrollment_id, created: false };
+      }
+      throw new PaymentError(
+        'PAYMENT_INTENT_ALREADY_CONFIRMED',
+        'This checkout was already paid with another transaction',
+        409
+      );
+    }
+
+    const { data: usedBy } = await supabaseAdmin
+      .from('payment_intents')
+      .select('id')
+      .eq('tx_hash', normalizedHash)
+      .maybeSingle();
+
+    if (usedBy) {
+      throw new PaymentError('PAYMENT_TX_ALREADY_USED', 'Transaction was already used for another payment', 409);
+    }
+
+    const wallets = (await WalletService.list(userId)).map((wallet) => wallet.address);
+    const payer = await this.verifyTransaction(intent, normalizedHash, wallets);
+
+    const { data: enrollmentId, error } = await supabaseAdmin.rpc('confirm_payment_intent', {
+      intent_id_param: intent.id,
+      tx_hash_param: normalizedHash,
+      payer_address_param: payer,
+    });
+
+    if (error || !enrollmentId) {
+      // Unique violation: the same hash was confirmed concurrently for another intent
+      if (error?.code === '23505') {
+        throw new PaymentError('PAYMENT_TX_ALREADY_USED', 'Transaction was already used for another payment', 409);
+      }
+      logger.error('Failed to confirm payment intent:', error);
+      throw new AppError('Failed to confirm payment', 500);
+    }
+
+    return { intent: await this.getIntent(userId, intentId), enrollmentId, created: true };
+  }
+
+  /**
+   * Check a mined transaction against an expected payment:
+   * - native currency: a successful tx from one of `payerWallets` to the recipient carrying at least the amount
+   * - ERC-20: a Transfer log of the token from one of `payerWallets` to the recipient of at least the amount
+   *
+   * Smart accounts paying in the native currency through an internal call are not detected;
+   * they should pay with the ERC-20 option. Pass a provider to verify against a local chain.
+   * @returns The paying wallet address
+   * @throws PaymentError describing why the transaction does not count
+   */
+  static async verifyTransaction(
+    expected: ExpectedPayment,
+    txHash: string,
+    payerWallets: string[],
+    provider: AbstractProvider | null = getRpcProvider(expected.chain_id),
+    config: PaymentConfig = paymentConfig
+  ): Promise<string> {
+    if (!provider) {
+      throw new PaymentError('PAYMENTS_DISABLED', `No RPC provider configured for chain ${expected.chain_id}`, 503);
+    }
+
+    let tx: TransactionResponse | null;
+    let receipt: TransactionReceipt | null;
+    try {
+      [tx, receipt] = await Promise.all([
+        provider.getTransaction(txHash),
+        provider.getTransactionReceipt(txHash),
+      ]);
+    } catch (error) {
+      logger.warn(`Failed to fetch transaction ${txHash}:`, error);
+      throw new PaymentError('PAYMENT_TX_PENDING', 'Could not reach the network. Try again shortly', 503);
+    }
+
+    if (!tx) {
+      throw new PaymentError('PAYMENT_TX_NOT_FOUND', `Transaction not found on chain ${expected.chain_id}`, 404);
+    }
+
+    if (!receipt || (await receipt.confirmations()) < Math.max(config.minConfirmations, 1)) {
+      throw new PaymentError('PAYMENT_TX_PENDING', 'Transaction is not confirmed yet. Try again shortly', 409);
+    }
+
+    if (receipt.status !== 1) {
+      throw new PaymentError('PAYMENT_TX_FAILED', 'Transaction reverted');
+    }
+
+    const block = await provider.getBlock(receipt.blockNumber);
+    const minedAt = (block?.timestamp ?? 0) * 1000;
+    const skewMs = config.clockSkewSeconds * 1000;
+
+    if (
+      minedAt < new Date(expected.created_at).getTime() - skewMs ||
+      minedAt > new Date(expected.expires_at).getTime() + skewMs
+    ) {
+      throw new PaymentError(
+        'PAYMENT_TX_OUTSIDE_WINDOW',
+        'Transaction was not made during this checkout. Start a new checkout and pay again'
+      );
+    }
+
+    const recipient = expected.recipient.toLowerCase();
+    const amount = BigInt(expected.amount);
+    const wallets = payerWallets.map((wallet) => wallet.toLowerCase());
+
+    if (!expected.token_address) {
+      const from = tx.from.toLowerCase();
+
+      if (tx.to?.toLowerCase() !== recipient || tx.value < amount || !wallets.includes(from)) {
+        throw new PaymentError(
+          'PAYMENT_TX_MISMATCH',
+          'Transaction does not send the expected amount to the payment address from one of your wallets'
+        );
+      }
+
+      return from;
+    }
+
+    const token = expected.token_address.toLowerCase();
+
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== token || log.topics[0] !== TRANSFER_TOPIC) {
+        continue;
+      }
+
+      const parsed = ERC20_INTERFACE.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) {
+        continue;
+      }
+
+      const from = String(parsed.args.from).toLowerCase();
+      const to = String(parsed.args.to).toLowerCase();
+      const value = parsed.args.value as bigint;
+
+      if (to === recipient && value >= amount && wallets.includes(from)) {
+        return from;
+      }
+    }
+
+    throw new PaymentError(
+      'PAYMENT_TX_MISMATCH',
+      'Transaction does not transfer the expected token amount to the payment address from one of your wallets'
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { supabaseAdmin } from '../config/supabase';
+import { AppError, PrerequisiteError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export type PrerequisiteEnforcement = 'required' | 'recommended';
+
+export interface PrerequisiteInput {
+  prerequisite_id: string;
+  enforcement?: PrerequisiteEnforcement;
+}
+
+export interface Prerequisite {
+  prerequisite_id: string;
+  enforcement: PrerequisiteEnforcement;
+  course: { id: string; title: string; thumbnail_url: string | null; is_published: boolean | null } | null;
+}
+
+export interface PrerequisiteResult extends Prerequisite {
+  completed: boolean;
+}
+
+export interface PrerequisiteEvaluation {
+  /** Every required prerequisite is completed */
+  met: boolean;
+  results: PrerequisiteResult[];
+  /** Recommended prerequisites that are not completed */
+  warnings: PrerequisiteResult[];
+}
+
+export class PrerequisiteService {
+  /**
+   * Prerequisites of a course, oldest first
+   */
+  static async list(courseId: string): Promise<Prerequisite[]> {
+    const { data, error } = await supabaseAdmin
+      .from('course_prerequisites')
+      .select(`
+        prerequisite_id,
+        enforcement,
+        course:courses!course_prerequisites_prerequisite_id_fkey(id, title, thumbnail_url, is_published)
+      `)
+      .eq('course_id', courseId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new AppError('Failed to fetch prerequisites', 500);
+    }
+
+    return (data || []).map((row) => ({
+      ...row,
+      enforcement: row.enforcement as PrerequisiteEnforcement,
+    }));
+  }
+
+  /**
+   * Replace the prerequisites of a course
+   * @throws ValidationError for unknown courses or a prerequisite cycle
+   */
+  static async set(courseId: string, prerequisites: PrerequisiteInput[]): Promise<Prerequisite[]> {
+    if (prerequisites.some((item) => item.prerequisite_id === courseId)) {
+      throw new ValidationError('A course cannot be its own prerequisite');
+    }
+
+    const { error } = await supabaseAdmin.rpc('set_course_prerequisites', {
+      course_id_param: courseId,
+      prerequisites_param: prerequisites.map((item) => ({
+        prerequisite_id: item.prerequisite_id,
+        enforcement: item.enforcement ?? 'required',
+      })),
+    });
+
+    if (error) {
+      if (error.message?.includes('PREREQUISITE_NOT_FOUND')) {
+        throw new ValidationError('Prerequisite course not found');
+      }
+      if (error.message?.includes('PREREQUISITE_CYCLE')) {
+        throw new ValidationError('Prerequisites cannot form a cycle');
+      }
+
+      logger.error('Failed to set prerequisites:', error);
+      throw new AppError('Failed to set prerequisites', 500);
+    }
+
+    return this.list(courseId);
+  }
+
+  /**
+   * Which of the given courses the user has completed
+   */
+  static async completedCourseIds(userId: string, courseIds: string[]): Promise<Set<string>> {
+    if (courseIds.length === 0) {
+      return new Set();
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('enrollments')
+      .select('course_id')
+      .eq('user_id', userId)
+      .in('course_id', courseIds)
+      .not('completed_at', 'is', null);
+
+    if (error) {
+      throw new AppError('Failed to fetch completed courses', 500);
+    }
+
+    return new Set((data || []).flatMap((row) => (row.course_id ? [row.course_id] : [])));
+  }
+
+  /**
+   * Check a course's prerequisites against the courses the user completed
+   */
+  static async evaluate(courseId: string, userId: string): Promise<PrerequisiteEvaluation> {
+    const prerequisites = await this.list(courseId);
+    const completed = await this.completedCourseIds(
+      userId,
+      prerequisites.map((item) => item.prerequisite_id)
+    );
+
+    const results = prerequisites.map((item) => ({ ...item, completed: completed.has(item.prerequisite_id) }));
+
+    return {
+      met: results.every((result) => result.completed || result.enforcement !== 'required'),
+      results,
+      warnings: results.filter((result) => !result.completed && result.enforcement === 'recommended'),
+    };
+  }
+
+  /**
+   * @throws PrerequisiteError listing the prerequisites when a required one is not completed
+   */
+  static async assertMet(courseId: string, userId: string): Promise<PrerequisiteEvaluation> {
+    const evaluation = await this.evaluate(courseId, userId);
+
+    if (!evaluation.met) {
+      throw new PrerequisiteError('Complete the required prerequisite courses first', {
+        prerequisites: evaluation.results,
+      });
+    }
+
+    return evaluation;
+  }
+}
@@ -0,0 +1,212 @@
+import { supabaseAdmin } from '../config/supabase';
+import { AppError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { CacheService } from './cache.service';
+
+/** Cached course list, detail, section and lesson responses */
+const COURSE_CACHE_PATTERN = 'cache:*:/api/courses*';
+
+export interface PublishSchedule {
+  publish_at: string | null;
+  unpublish_at: string | null;
+}
+
+export interface ScheduleRunResult {
+  published: string[];
+  unpublished: string[];
+  /** Due for publishing but had no lessons; their publish_at was cleared */
+  skipped: string[];
+}
+
+export class PublishScheduleService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  /**
+   * @throws AppError if the course has no lessons
+   */
+  static async assertPublishable(courseId: string): Promise<void> {
+    const { count } = await supabaseAdmin
+      .from('lessons')
+      .select('*', { count: 'exact', head: true })
+      .eq('course_id', courseId);
+
+    if (!count) {
+      throw new AppError('Cannot publish course without lessons', 400);
+    }
+  }
+
+  /**
+   * Set or clear a course's publish and unpublish times. Times must be in the future.
+   */
+  static async setSchedule(courseId: string, schedule: Partial<PublishSchedule>) {
+    const now = Date.now();
+
+    for (const [field, value] of Object.entries(schedule)) {
+      if (value && new Date(value).getTime() <= now) {
+        throw new ValidationError(`${field} must be in the future`);
+      }
+    }
+
+    const { data: current } = await supabaseAdmin
+      .from('courses')
+      .select('publish_at, unpublish_at')
+      .eq('id', courseId)
+      .single();
+
+    const publishAt = schedule.publish_at !== undefined ? schedule.publish_at : current?.publish_at ?? null;
+    const unpublishAt = schedule.unpublish_at !== undefined ? schedule.unpublish_at : current?.unpublish_at ?? null;
+
+    if (publishAt && unpublishAt && new Date(unpublishAt).getTime() <= new Date(publishAt).getTime()) {
+      throw new ValidationError('unpublish_at must be after publish_at');
+    }
+
+    if (schedule.publish_at) {
+      await this.assertPublishable(courseId);
+    }
+
+    const { data: course, error } = await supabaseAdmin
+      .from('courses')
+      .update(schedule)
+      .eq('id', courseId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new AppError('Failed to update publish schedule', 500);
+    }
+
+    return course;
+  }
+
+  /**
+   * Apply every publish and unpublish time that has passed. Each course is flipped
+   * with a conditional update, so concurrent runs on several instances apply and
+   * audit it once.
+   */
+  static async runDue(now: Date = new Date()): Promise<ScheduleRunResult> {
+    const nowIso = now.toISOString();
+    const result: ScheduleRunResult = { published: [], unpublished: [], skipped: [] };
+
+    const { data: duePublish, error: publishError } = await supabaseAdmin
+      .from('courses')
+      .select('id, instructor_id')
+      .lte('publish_at', nowIso);
+
+    if (publishError) {
+      throw new AppError('Failed to fetch scheduled courses', 500);
+    }
+
+    for (const course of duePublish || []) {
+      const { count } = await supabaseAdmin
+        .from('lessons')
+        .select('*', { count: 'exact', head: true })
+        .eq('course_id', course.id);
+
+      const { data: applied } = await supabaseAdmin
+        .from('courses')
+        .update(count ? { is_published: true, publish_at: null } : { publish_at: null })
+        .eq('id', course.id)
+        .lte('publish_at', nowIso)
+        .select('id')
+        .maybeSingle();
+
+      if (!applied) {
+        continue;
+      }
+
+      if (!count) {
+        result.skipped.push(course.id);
+        logger.warn(`Scheduled publish of course ${course.id} skipped: course has no lessons`);
+        await AuditService.log({
+          userId: course.instructor_id ?? undefined,
+          action: 'PUBLISH',
+          resourceType: 'course',
+          resourceId: course.id,
+          status: 'failed',
+          errorMessage: 'Cannot publish course without lessons',
+          metadata: { scheduled: true },
+        });
+        continue;
+      }
+
+      result.published.push(course.id);
+      await AuditService.logCoursePublication({
+        userId: course.instructor_id ?? undefined,
+        courseId: course.id,
+        published: true,
+        scheduled: true,
+      });
+    }
+
+    const { data: dueUnpublish, error: unpublishError } = await supabaseAdmin
+      .from('courses')
+      .update({ is_published: false, unpublish_at: null })
+      .lte('unpublish_at', nowIso)
+      .select('id, instructor_id');
+
+    if (unpublishError) {
+      throw new AppError('Failed to unpublish scheduled courses', 500);
+    }
+
+    for (const course of dueUnpublish || []) {
+      result.unpublished.push(course.id);
+      await AuditService.logCoursePublication({
+        userId: course.instructor_id ?? undefined,
+        courseId: course.id,
+        published: false,
+        scheduled: true,
+      });
+    }
+
+    if (result.published.length + result.unpublished.length + result.skipped.length > 0) {
+      await CacheService.delPattern(COURSE_CACHE_PATTERN);
+      logger.info(
+        `Publish scheduler: ${result.published.length} published, ${result.unpublished.length} unpublished, ${result.skipped.length} skipped`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the scheduler every `intervalSeconds` (0 disables it)
+   */
+  static start(intervalSeconds: number): void {
+    if (this.timer || intervalSeconds <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, intervalSeconds * 1000);
+    // Do not keep the process alive just for the scheduler
+    this.timer.unref();
+
+    logger.info(`⏰ Publish scheduler running every ${intervalSeconds}s`);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private static async tick(): Promise<void> {
+    // Skip a tick while the previous run is still going
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runDue();
+    } catch (error) {
+      logger.error('Publish scheduler run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,427 @@
+import { supabaseAdmin } from '../config/supabase';
+import { Database, Json } from '../types/database.types';
+import { AppError, NotFoundError, QuizError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export type Quiz = Database['public']['Tables']['quizzes']['Row'];
+export type QuizQuestion = Database['public']['Tables']['quiz_questions']['Row'];
+export type QuizAttempt = Database['public']['Tables']['quiz_attempts']['Row'];
+
+export type QuestionType = 'multiple_choice' | 'multi_select' | 'true_false' | 'short_answer';
+
+export interface QuizSettings {
+  title: string;
+  description?: string | null;
+  pass_percentage?: number;
+  max_attempts?: number | null;
+  required_to_complete?: boolean;
+}
+
+/**
+ * correct_answer by type: multiple_choice an option index, multi_select option indexes,
+ * true_false a boolean, short_answer the accepted answers (compared case-insensitively)
+ */
+export interface QuestionInput {
+  type: QuestionType;
+  prompt: string;
+  options?: string[] | null;
+  correct_answer: number | number[] | boolean | string[];
+  explanation?: string | null;
+  points?: number;
+  order?: number;
+}
+
+/** Question id -> submitted answer, in the shape of the question's correct_answer */
+export type QuizAnswers = Record<string, unknown>;
+
+export interface QuestionResult {
+  question_id: string;
+  correct: boolean;
+  points: number;
+}
+
+export interface QuizGrade {
+  score: number;
+  max_score: number;
+  percentage: number;
+  passed: boolean;
+  results: QuestionResult[];
+}
+
+export type LearnerQuestion = Omit<QuizQuestion, 'correct_answer' | 'explanation'> &
+  Partial<Pick<QuizQuestion, 'correct_answer' | 'explanation'>>;
+
+export class QuizService {
+  /**
+   * Quiz of a lesson with its questions in order, or null
+   */
+  static async getForLesson(courseId: string, lessonId: string): Promise<{ quiz: Quiz; questions: QuizQuestion[] } | null> {
+    await this.assertLessonInCourse(courseId, lessonId);
+
+    const { data: quiz } = await supabaseAdmin
+      .from('quizzes')
+      .select('*')
+      .eq('lesson_id', lessonId)
+      .maybeSingle();
+
+    if (!quiz) {
+      return null;
+    }
+
+    const { data: questions, error } = await supabaseAdmin
+      .from('quiz_questions')
+      .select('*')
+      .eq('quiz_id', quiz.id)
+      .order('order', { ascending: true });
+
+    if (error) {
+      throw new AppError('Failed to fetch quiz questions', 500);
+    }
+
+    return { quiz, questions: questions || [] };
+  }
+
+  /**
+   * @throws NotFoundError if the lesson has no quiz
+   */
+  static async getForLessonOrFail(courseId: string, lessonId: string) {
+    const result = await this.getForLesson(courseId, lessonId);
+
+    if (!result) {
+      throw new NotFoundError('Quiz not found');
+    }
+
+    return result;
+  }
+
+  /**
+   * Create the quiz of a lesson or update its settings
+   */
+  static async upsert(courseId: string, lessonId: string, settings: QuizSettings): Promise<Quiz> {
+    await this.assertLessonInCourse(courseId, lessonId);
+
+    const { data: quiz, error } = await supabaseAdmin
+      .from('quizzes')
+      .upsert({ ...settings, lesson_id: lessonId }, { onConflict: 'lesson_id' })
+      .select()
+      .single();
+
+    if (error || !quiz) {
+      throw new AppError('Failed to save quiz', 500);
+    }
+
+    return quiz;
+  }
+
+  /**
+   * Delete the quiz of a lesson with its questions and attempts
+   */
+  static async remove(courseId: string, lessonId: string): Promise<void> {
+    const { quiz } = await this.getForLessonOrFail(courseId, lessonId);
+
+    const { error } = await supabaseAdmin.from('quizzes').delete().eq('id', quiz.id);
+
+    if (error) {
+      throw new AppError('Failed to delete quiz', 500);
+    }
+  }
+
+  /**
+   * Add a question, at the end unless an order is given
+   */
+  static async addQuestion(quizId: string, input: QuestionInput): Promise<QuizQuestion> {
+    this.assertValidQuestion(input);
+
+    let order = input.order;
+    if (order === undefined) {
+      const { data: last } = await supabaseAdmin
+        .from('quiz_questions')
+        .select('order')
+        .eq('quiz_id', quizId)
+        .order('order', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      order = last ? last.order + 1 : 0;
+    }
+
+    const { data: question, error } = await supabaseAdmin
+      .from('quiz_questions')
+      .insert({
+        ...input,
+        options: this.usesOptions(input.type) ? input.options : null,
+        quiz_id: quizId,
+        order,
+      })
+      .select()
+      .single();
+
+    if (error || !question) {
+      throw new AppError('Failed to create question', 500);
+    }
+
+    return question;
+  }
+
+  /**
+   * Update a question; the result is validated as a whole, so changing the type
+   * usually needs a new correct_answer too
+   */
+  static async updateQuestion(quizId: string, questionId: string, changes: Partial<QuestionInput>): Promise<QuizQuestion> {
+    const { data: existing } = await supabaseAdmin
+      .from('quiz_questions')
+      .select('*')
+      .eq('id', questionId)
+      .eq('quiz_id', quizId)
+      .maybeSingle();
+
+    if (!existing) {
+      throw new NotFoundError('Question not found');
+    }
+
+    const merged = { ...existing, ...changes } as QuestionInput;
+    this.assertValidQuestion(merged);
+
+    const { data: question, error } = await supabaseAdmin
+      .from('quiz_questions')
+      .update({
+        ...changes,
+        options: this.usesOptions(merged.type) ? merged.options : null,
+      })
+      .eq('id', questionId)
+      .select()
+      .single();
+
+    if (error || !question) {
+      throw new AppError('Failed to update question', 500);
+    }
+
+    return question;
+  }
+
+  static async removeQuestion(quizId: string, questionId: string): Promise<void> {
+    const { data: deleted, error } = await supabaseAdmin
+      .from('quiz_questions')
+      .delete()
+      .eq('id', questionId)
+      .eq('quiz_id', quizId)
+      .select('id');
+
+    if (error) {
+      throw new AppError('Failed to delete question', 500);
+    }
+
+    if (!deleted?.length) {
+      throw new NotFoundError('Question not found');
+    }
+  }
+
+  /**
+   * Grade answers against the questions. Multi-select questions only score when
+   * exactly the correct options are chosen.
+   */
+  static grade(questions: QuizQuestion[], answers: QuizAnswers, passPercentage: number): QuizGrade {
+    const results = questions.map((question) => {
+      const correct = this.isCorrect(question, answers[question.id]);
+      return { question_id: question.id, correct, points: correct ? question.points : 0 };
+    });
+
+    const score = results.reduce((sum, result) => sum + result.points, 0);
+    const maxScore = questions.reduce((sum, question) => sum + question.points, 0);
+
+    return {
+      score,
+      max_score: maxScore,
+      percentage: maxScore > 0 ? Math.round((score / maxScore) * 10000) / 100 : 0,
+      // Integer comparison so a 70% pass mark is not missed by rounding
+      passed: maxScore > 0 && score * 100 >= passPercentage * maxScore,
+      results,
+    };
+  }
+
+  /**
+   * Grade and store an attempt
+   * @throws QuizError QUIZ_MAX_ATTEMPTS_REACHED once the attempts are used up
+   */
+  static async submitAttempt(quiz: Quiz, questions: QuizQuestion[], userId: string, answers: QuizAnswers) {
+    if (questions.length === 0) {
+      throw new ValidationError('This quiz has no questions yet');
+    }
+
+    const grade = this.grade(questions, answers, quiz.pass_percentage);
+
+    const { data: attemptId, error } = await supabaseAdmin.rpc('record_quiz_attempt', {
+      quiz_id_param: quiz.id,
+      user_id_param: userId,
+      answers_param: answers as Json,
+      results_param: grade.results as unknown as Json,
+      score_param: grade.score,
+      max_score_param: grade.max_score,
+      passed_param: grade.passed,
+    });
+
+    if (error || !attemptId) {
+      if (error?.message?.includes('QUIZ_MAX_ATTEMPTS_REACHED')) {
+        throw new QuizError('QUIZ_MAX_ATTEMPTS_REACHED', 'No attempts left for this quiz', 409);
+      }
+      if (error?.message?.includes('QUIZ_NOT_FOUND')) {
+        throw new NotFoundError('Quiz not found');
+      }
+
+      logger.error('Failed to record quiz attempt:', error);
+      throw new AppError('Failed to submit quiz attempt', 500);
+    }
+
+    return { id: attemptId, ...grade };
+  }
+
+  /**
+   * The learner's attempts at a quiz, newest first
+   */
+  static async listAttempts(quizId: string, userId: string): Promise<QuizAttempt[]> {
+    const { data, error } = await supabaseAdmin
+      .from('quiz_attempts')
+      .select('*')
+      .eq('quiz_id', quizId)
+      .eq('user_id', userId)
+      .order('submitted_at', { ascending: false });
+
+    if (error) {
+      throw new AppError('Failed to fetch quiz attempts', 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Attempt counts and best result of a learner
+   */
+  static summarize(quiz: Quiz, attempts: QuizAttempt[]) {
+    return {
+      attempts_used: attempts.length,
+      attempts_remaining: quiz.max_attempts === null ? null : Math.max(quiz.max_attempts - attempts.length, 0),
+      passed: attempts.some((attempt) => attempt.passed),
+      best_score: attempts.length ? Math.max(...attempts.map((attempt) => attempt.score)) : null,
+    };
+  }
+
+  /**
+   * Questions as shown to a learner: answers and explanations only once they passed
+   */
+  static forLearner(questions: QuizQuestion[], revealAnswers: boolean): LearnerQuestion[] {
+    if (revealAnswers) {
+      return questions;
+    }
+
+    return questions.map((question) => ({ ...question, correct_answer: undefined, explanation: undefined }));
+  }
+
+  /**
+   * Lessons whose quiz is required_to_complete can only be completed once it is passed
+   * @throws QuizError QUIZ_NOT_PASSED
+   */
+  static async assertCompletable(lessonId: string, userId: string): Promise<void> {
+    const { data: quiz } = await supabaseAdmin
+      .from('quizzes')
+      .select('id, required_to_complete')
+      .eq('lesson_id', lessonId)
+      .maybeSingle();
+
+    if (!quiz?.required_to_complete) {
+      return;
+    }
+
+    const { count } = await supabaseAdmin
+      .from('quiz_attempts')
+      .select('id', { count: 'exact', head: true })
+      .eq('quiz_id', quiz.id)
+      .eq('user_id', userId)
+      .eq('passed', true);
+
+    if (!count) {
+      throw new QuizError('QUIZ_NOT_PASSED', 'Pass the quiz of this lesson to complete it');
+    }
+  }
+
+  private static isCorrect(question: QuizQuestion, answer: unknown): boolean {
+    const expected = question.correct_answer;
+
+    switch (question.type as QuestionType) {
+      case 'multiple_choice':
+      case 'true_false':
+        return answer === expected;
+      case 'multi_select': {
+        if (!Array.isArray(answer) || !Array.isArray(expected)) {
+          return false;
+        }
+        const chosen = new Set(answer);
+        return chosen.size === expected.length && expected.every((index) => chosen.has(index));
+      }
+      case 'short_answer':
+        return typeof answer === 'string' && Array.isArray(expected) &&
+          expected.some((accepted) => typeof accepted === 'string' && this.normalize(accepted) === this.normalize(answer));
+      default:
+        return false;
+    }
+  }
+
+  private static normalize(text: string): string {
+    return text.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  private static usesOptions(type: QuestionType): boolean {
+    return type === 'multiple_choice' || type === 'multi_select';
+  }
+
+  /**
+   * @throws ValidationError when options and correct_answer do not fit the question type
+   */
+  private static assertValidQuestion(question: QuestionInput): void {
+    const { type, options, correct_answer: answer } = question;
+    const optionCount = options?.length ?? 0;
+    const isOptionIndex = (value: unknown) =>
+      typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < optionCount;
+
+    if (this.usesOptions(type) && optionCount < 2) {
+      throw new ValidationError('Choice questions need at least two options');
+    }
+
+    switch (type) {
+      case 'multiple_choice':
+        if (!isOptionIndex(answer)) {
+          throw new ValidationError('correct_answer must be the index of an option');
+        }
+        break;
+      case 'multi_select':
+        if (!Array.isArray(answer) || answer.length === 0 || !answer.every(isOptionIndex) ||
+            new Set<unknown>(answer).size !== answer.length) {
+          throw new ValidationError('correct_answer must list the indexes of the correct options');
+        }
+        break;
+      case 'true_false':
+        if (typeof answer !== 'boolean') {
+          throw new ValidationError('correct_answer must be true or false');
+        }
+        break;
+      case 'short_answer':
+        if (!Array.isArray(answer) || answer.length === 0 ||
+            !answer.every((value) => typeof value === 'string' && value.trim())) {
+          throw new ValidationError('correct_answer must list the accepted answers');
+        }
+        break;
+    }
+  }
+
+  private static async assertLessonInCourse(courseId: string, lessonId: string): Promise<void> {
+    const { data: lesson } = await supabaseAdmin
+      .from('lessons')
+      .select('id')
+      .eq('id', lessonId)
+      .eq('course_id', courseId)
+      .maybeSingle();
+
+    if (!lesson) {
+      throw new NotFoundError('Lesson not found');
+    }
+  }
+}
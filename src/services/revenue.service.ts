@@ -0,0 +1,356 @@
+import { supabaseAdmin } from '../config/supabase';
+import { Database } from '../types/database.types';
+import { AppError, ConflictError, NotFoundError } from '../utils/errors';
+import { Sale, SalesRange, SalesService } from './sales.service';
+
+export type Payout = Database['public']['Tables']['instructor_payouts']['Row'];
+export type PayoutInput = Pick<
+  Database['public']['Tables']['instructor_payouts']['Insert'],
+  'instructor_id' | 'chain_id' | 'token_address' | 'currency' | 'decimals' | 'amount' | 'tx_hash' | 'note' | 'paid_at'
+> & {
+  /** Defaults to the instructor's primary wallet */
+  recipient_address?: string | null;
+};
+
+/** Amounts in different tokens are never added up; everything is grouped by asset */
+export interface Asset {
+  chain_id: number | null;
+  token_address: string | null;
+  currency: string | null;
+  decimals: number | null;
+}
+
+export interface RevenueFigures {
+  sales_count: number;
+  gross: string;
+  discounts: string;
+  platform_fee: string;
+  net: string;
+}
+
+export interface CourseRevenue extends Asset, RevenueFigures {
+  course_id: string;
+  course_title: string | null;
+}
+
+export interface AssetRevenue extends Asset, RevenueFigures {
+  /** Payouts made within the range */
+  paid_out: string;
+  /** Net earned minus payouts made, from the beginning up to the end of the range */
+  balance_owed: string;
+}
+
+export interface RevenueReport {
+  from: string | null;
+  to: string | null;
+  courses: CourseRevenue[];
+  totals: AssetRevenue[];
+  payouts: Payout[];
+}
+
+export interface LedgerEntry extends Asset {
+  type: 'sale' | 'payout';
+  date: string;
+  reference_id: string;
+  course_id: string | null;
+  course_title: string | null;
+  /** Buyer wallet for sales, instructor wallet for payouts */
+  counterparty: string | null;
+  tx_hash: string | null;
+  list_amount: string;
+  discount_amount: string;
+  gross: string;
+  platform_fee: string;
+  net: string;
+  payout: string;
+  coupon_code: string | null;
+}
+
+const LEDGER_COLUMNS: Array<keyof LedgerEntry> = [
+  'type',
+  'date',
+  'reference_id',
+  'course_id',
+  'course_title',
+  'counterparty',
+  'tx_hash',
+  'chain_id',
+  'token_address',
+  'currency',
+  'decimals',
+  'list_amount',
+  'discount_amount',
+  'gross',
+  'platform_fee',
+  'net',
+  'payout',
+  'coupon_code',
+];
+
+const assetKey = (asset: Pick<Asset, 'chain_id' | 'token_address'>): string =>
+  `${asset.chain_id ?? '-'}:${asset.token_address ?? 'native'}`;
+
+const emptyFigures = (): { sales_count: number; gross: bigint; discounts: bigint; platform_fee: bigint; net: bigint } => ({
+  sales_count: 0,
+  gross: 0n,
+  discounts: 0n,
+  platform_fee: 0n,
+  net: 0n,
+});
+
+const inRange = (date: string, range: SalesRange): boolean => {
+  const time = new Date(date).getTime();
+  return (!range.from || time >= new Date(range.from).getTime()) &&
+    (!range.to || time < new Date(range.to).getTime());
+};
+
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  // Quote when needed and defuse spreadsheet formulas
+  const safe = /^[=+\-@]/.test(text) && !/^-?\d/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export class RevenueService {
+  /**
+   * Platform fee of a sale, rounded down in favour of the instructor
+   */
+  static feeFor(amount: bigint, feeBps: number): bigint {
+    return (amount * BigInt(feeBps)) / 10000n;
+  }
+
+  /**
+   * Gross, fee and net per course and per asset within a date range, plus the
+   * balance still owed to the instructor at the end of the range
+   */
+  static async getReport(instructorId: string, range: SalesRange = {}): Promise<RevenueReport> {
+    // Everything up to the end of the range is needed for the running balance
+    const [sales, payouts] = await Promise.all([
+      SalesService.listForInstructor(instructorId, { to: range.to }),
+      this.listPayouts(instructorId, { to: range.to }),
+    ]);
+
+    const courses = new Map<string, CourseRevenue & { figures: ReturnType<typeof emptyFigures> }>();
+    const totals = new Map<string, Asset & { figures: ReturnType<typeof emptyFigures>; paid_out: bigint; earned: bigint; paid_total: bigint }>();
+
+    const totalFor = (asset: Asset) => {
+      const key = assetKey(asset);
+      if (!totals.has(key)) {
+        totals.set(key, {
+          chain_id: asset.chain_id,
+          token_address: asset.token_address,
+          currency: asset.currency,
+          decimals: asset.decimals,
+          figures: emptyFigures(),
+          paid_out: 0n,
+          earned: 0n,
+          paid_total: 0n,
+        });
+      }
+      return totals.get(key)!;
+    };
+
+    for (const sale of sales) {
+      const amount = BigInt(sale.amount);
+      const fee = this.feeFor(amount, sale.platform_fee_bps);
+      const total = totalFor(sale);
+
+      total.earned += amount - fee;
+
+      if (!inRange(sale.sold_at, range)) {
+        continue;
+      }
+
+      const courseKey = `${sale.course_id}:${assetKey(sale)}`;
+      if (!courses.has(courseKey)) {
+        courses.set(courseKey, {
+          course_id: sale.course_id,
+          course_title: sale.course_title,
+          chain_id: sale.chain_id,
+          token_address: sale.token_address,
+          currency: sale.currency,
+          decimals: sale.decimals,
+          sales_count: 0,
+          gross: '0',
+          discounts: '0',
+          platform_fee: '0',
+          net: '0',
+          figures: emptyFigures(),
+        });
+      }
+
+      for (const figures of [courses.get(courseKey)!.figures, total.figures]) {
+        figures.sales_count += 1;
+        figures.gross += amount;
+        figures.discounts += BigInt(sale.discount_amount);
+        figures.platform_fee += fee;
+        figures.net += amount - fee;
+      }
+    }
+
+    for (const payout of payouts) {
+      const total = totalFor(payout);
+      total.paid_total += BigInt(payout.amount);
+
+      if (inRange(payout.paid_at, range)) {
+        total.paid_out += BigInt(payout.amount);
+      }
+    }
+
+    const toStrings = (figures: ReturnType<typeof emptyFigures>): RevenueFigures => ({
+      sales_count: figures.sales_count,
+      gross: figures.gross.toString(),
+      discounts: figures.discounts.toString(),
+      platform_fee: figures.platform_fee.toString(),
+      net: figures.net.toString(),
+    });
+
+    return {
+      from: range.from ?? null,
+      to: range.to ?? null,
+      courses: [...courses.values()].map(({ figures, ...course }) => ({ ...course, ...toStrings(figures) })),
+      totals: [...totals.values()].map(({ figures, paid_out, earned, paid_total, ...asset }) => ({
+        ...asset,
+        ...toStrings(figures),
+        paid_out: paid_out.toString(),
+        balance_owed: (earned - paid_total).toString(),
+      })),
+      payouts: payouts.filter((payout) => inRange(payout.paid_at, range)),
+    };
+  }
+
+  /**
+   * Sales and payouts in a date range as ledger lines, oldest first
+   */
+  static async getLedger(instructorId: string, range: SalesRange = {}): Promise<LedgerEntry[]> {
+    const [sales, payouts] = await Promise.all([
+      SalesService.listForInstructor(instructorId, range),
+      this.listPayouts(instructorId, range),
+    ]);
+
+    const saleEntries = sales.map((sale: Sale): LedgerEntry => {
+      const amount = BigInt(sale.amount);
+      const fee = this.feeFor(amount, sale.platform_fee_bps);
+
+      return {
+        type: 'sale',
+        date: sale.sold_at,
+        reference_id: sale.id,
+        course_id: sale.course_id,
+        course_title: sale.course_title,
+        counterparty: sale.payer_address,
+        tx_hash: sale.tx_hash,
+        chain_id: sale.chain_id,
+        token_address: sale.token_address,
+        currency: sale.currency,
+        decimals: sale.decimals,
+        list_amount: sale.list_amount,
+        discount_amount: sale.discount_amount,
+        gross: amount.toString(),
+        platform_fee: fee.toString(),
+        net: (amount - fee).toString(),
+        payout: '0',
+        coupon_code: sale.coupon_code,
+      };
+    });
+
+    const payoutEntries = payouts.map((payout): LedgerEntry => ({
+      type: 'payout',
+      date: payout.paid_at,
+      reference_id: payout.id,
+      course_id: null,
+      course_title: null,
+      counterparty: payout.recipient_address,
+      tx_hash: payout.tx_hash,
+      chain_id: payout.chain_id,
+      token_address: payout.token_address,
+      currency: payout.currency,
+      decimals: payout.decimals,
+      list_amount: '0',
+      discount_amount: '0',
+      gross: '0',
+      platform_fee: '0',
+      net: '0',
+      payout: payout.amount,
+      coupon_code: null,
+    }));
+
+    return [...saleEntries, ...payoutEntries].sort(
+      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+    );
+  }
+
+  /**
+   * Render ledger entries as CSV (amounts in base units, see the decimals column)
+   */
+  static toCsv(entries: LedgerEntry[]): string {
+    const lines = [
+      LEDGER_COLUMNS.join(','),
+      ...entries.map((entry) => LEDGER_COLUMNS.map((column) => csvCell(entry[column])).join(',')),
+    ];
+
+    return `${lines.join('\r\n')}\r\n`;
+  }
+
+  /**
+   * Payouts made to an instructor, newest first
+   */
+  static async listPayouts(instructorId: string, range: SalesRange = {}): Promise<Payout[]> {
+    let query = supabaseAdmin
+      .from('instructor_payouts')
+      .select('*')
+      .eq('instructor_id', instructorId);
+
+    if (range.from) {
+      query = query.gte('paid_at', range.from);
+    }
+    if (range.to) {
+      query = query.lt('paid_at', range.to);
+    }
+
+    const { data, error } = await query.order('paid_at', { ascending: false });
+
+    if (error) {
+      throw new AppError('Failed to fetch payouts', 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Record a payout sent from the treasury. Defaults the recipient to the
+   * instructor's primary wallet.
+   */
+  static async recordPayout(recordedBy: string, input: PayoutInput): Promise<Payout> {
+    const { data: instructor } = await supabaseAdmin
+      .from('users')
+      .select('wallet_address')
+      .eq('id', input.instructor_id)
+      .maybeSingle();
+
+    if (!instructor) {
+      throw new NotFoundError('Instructor not found');
+    }
+
+    const { data: payout, error } = await supabaseAdmin
+      .from('instructor_payouts')
+      .insert({
+        ...input,
+        token_address: input.token_address?.toLowerCase() ?? null,
+        recipient_address: (input.recipient_address || instructor.wallet_address).toLowerCase(),
+        tx_hash: input.tx_hash.toLowerCase(),
+        recorded_by: recordedBy,
+      })
+      .select()
+      .single();
+
+    if (error || !payout) {
+      if (error?.code === '23505') {
+        throw new ConflictError('A payout with this transaction hash is already recorded');
+      }
+      throw new AppError('Failed to record payout', 500);
+    }
+
+    return payout;
+  }
+}
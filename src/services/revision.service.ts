@@ -0,0 +1,483 @@
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { Database, Json } from '../types/database.types';
+import { AppError, NotFoundError, RevisionError, RevisionErrorCode, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { CurriculumService } from './curriculum.service';
+import { LessonReleaseService } from './lessonRelease.service';
+
+export type CourseRevision = Database['public']['Tables']['course_revisions']['Row'];
+
+type CourseRow = Database['public']['Tables']['courses']['Row'];
+type SectionRow = Database['public']['Tables']['sections']['Row'];
+type LessonRow = Database['public']['Tables']['lessons']['Row'];
+
+/** Course, section and lesson fields that are versioned; everything else (price, access rules) is live */
+export const VERSIONED_COURSE_FIELDS = ['title', 'description', 'thumbnail_url', 'category', 'level', 'tags'] as const;
+const SECTION_FIELDS = ['id', 'title', 'description', 'order'] as const;
+const LESSON_FIELDS = [
+  'id',
+  'section_id',
+  'title',
+  'description',
+  'video_url',
+  'content',
+  'order',
+  'duration_minutes',
+  'release_after_days',
+  'release_at',
+  'is_preview',
+] as const;
+
+export type SnapshotCourse = Pick<CourseRow, typeof VERSIONED_COURSE_FIELDS[number]>;
+export type SnapshotSection = Pick<SectionRow, typeof SECTION_FIELDS[number]>;
+export type SnapshotLesson = Pick<LessonRow, typeof LESSON_FIELDS[number]>;
+
+export interface CourseSnapshot {
+  course: SnapshotCourse;
+  sections: SnapshotSection[];
+  lessons: SnapshotLesson[];
+}
+
+/**
+ * Edits to a draft. `sections` and `lessons` replace the whole list, in order;
+ * items without an id are new.
+ */
+export interface DraftChanges {
+  course?: Partial<SnapshotCourse>;
+  sections?: Array<Partial<Omit<SnapshotSection, 'id' | 'order'>> & { id?: string; title: string }>;
+  lessons?: Array<Partial<Omit<SnapshotLesson, 'id' | 'order'>> & { id?: string; title: string }>;
+  notes?: string | null;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ItemDiff {
+  added: Array<{ id: string; title: string }>;
+  removed: Array<{ id: string; title: string }>;
+  changed: Array<{ id: string; title: string; changes: FieldChange[] }>;
+}
+
+export interface RevisionDiff {
+  course: FieldChange[];
+  sections: ItemDiff;
+  lessons: ItemDiff;
+}
+
+// Missing fields become null, matching the database rows
+const pick = <T extends object, K extends keyof T>(row: T, fields: readonly K[]): Pick<T, K> =>
+  Object.fromEntries(fields.map((field) => [field, row[field] ?? null])) as Pick<T, K>;
+
+const changedFields = (before: object, after: object, fields: readonly string[]): FieldChange[] =>
+  fields
+    .filter((field) => field !== 'id')
+    .map((field) => ({
+      field,
+      before: (before as Record<string, unknown>)[field] ?? null,
+      after: (after as Record<string, unknown>)[field] ?? null,
+    }))
+    .filter((change) => JSON.stringify(change.before) !== JSON.stringify(change.after));
+
+const diffItems = <T extends { id: string; title: string }>(
+  before: T[],
+  after: T[],
+  fields: readonly string[]
+): ItemDiff => {
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterIds = new Set(after.map((item) => item.id));
+
+  return {
+    added: after.filter((item) => !beforeById.has(item.id)).map(({ id, title }) => ({ id, title })),
+    removed: before.filter((item) => !afterIds.has(item.id)).map(({ id, title }) => ({ id, title })),
+    changed: after
+      .filter((item) => beforeById.has(item.id))
+      .map((item) => ({ id: item.id, title: item.title, changes: changedFields(beforeById.get(item.id)!, item, fields) }))
+      .filter((item) => item.changes.length > 0),
+  };
+};
+
+const revisionErrors: Record<Exclude<RevisionErrorCode, 'COURSE_PUBLISHED'>, () => RevisionError> = {
+  DRAFT_NOT_FOUND: () => new RevisionError('DRAFT_NOT_FOUND', 'This course has no draft', 404),
+  DRAFT_OUTDATED: () => new RevisionError(
+    'DRAFT_OUTDATED',
+    'Another version was published after this draft was started. Publish with force to overwrite it'
+  ),
+  REVISION_NOT_FOUND: () => new RevisionError('REVISION_NOT_FOUND', 'Version not found', 404),
+  REVISION_ID_CONFLICT: () => new RevisionError(
+    'REVISION_ID_CONFLICT',
+    'The draft references sections or lessons of another course'
+  ),
+};
+
+export class RevisionService {
+  /**
+   * Current live content of a course, in the snapshot format
+   */
+  static async captureLive(courseId: string): Promise<CourseSnapshot> {
+    const { data: course } = await supabaseAdmin
+      .from('courses')
+      .select('*')
+      .eq('id', courseId)
+      .single();
+
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+
+    const curriculum = await CurriculumService.getTree(courseId);
+
+    return {
+      course: pick(course, VERSIONED_COURSE_FIELDS),
+      sections: curriculum.sections.map((section) => pick(section, SECTION_FIELDS)),
+      lessons: CurriculumService.flatten(curriculum).map((lesson) => pick(lesson, LESSON_FIELDS)),
+    };
+  }
+
+  /**
+   * Changes going from one snapshot to another
+   */
+  static diff(before: CourseSnapshot, after: CourseSnapshot): RevisionDiff {
+    return {
+      course: changedFields(before.course, after.course, VERSIONED_COURSE_FIELDS),
+      sections: diffItems(before.sections, after.sections, SECTION_FIELDS),
+      lessons: diffItems(before.lessons, after.lessons, LESSON_FIELDS),
+    };
+  }
+
+  /**
+   * Snapshot with lessons nested under sections, as served for previews
+   */
+  static toTree(snapshot: CourseSnapshot) {
+    const curriculum = CurriculumService.buildTree(snapshot.sections, snapshot.lessons);
+
+    return {
+      ...snapshot.course,
+      lessons: CurriculumService.flatten(curriculum),
+      sections: curriculum.sections,
+      unsectioned_lessons: curriculum.unsectioned_lessons,
+    };
+  }
+
+  /**
+   * Published courses change only through drafts
+   * @throws RevisionError when the course is published
+   */
+  static async assertLiveEditable(courseId: string): Promise<void> {
+    const { data: course } = await supabaseAdmin
+      .from('courses')
+      .select('is_published')
+      .eq('id', courseId)
+      .single();
+
+    if (course?.is_published) {
+      throw new RevisionError(
+        'COURSE_PUBLISHED',
+        'Course is published. Edit its content through a draft (POST /courses/:courseId/draft)'
+      );
+    }
+  }
+
+  static async getDraft(courseId: string): Promise<CourseRevision | null> {
+    const { data: draft } = await supabaseAdmin
+      .from('course_revisions')
+      .select('*')
+      .eq('course_id', courseId)
+      .eq('status', 'draft')
+      .maybeSingle();
+
+    return draft;
+  }
+
+  /**
+   * Start a draft from the live content, or return the one in progress. The first
+   * draft of a course also records the live content as version 1 so it can be
+   * rolled back to.
+   */
+  static async startDraft(courseId: string, userId: string): Promise<CourseRevision> {
+    const existing = await this.getDraft(courseId);
+    if (existing) {
+      return existing;
+    }
+
+    const snapshot = await this.captureLive(courseId);
+    const basedOnVersion = await this.ensureBaseline(courseId, userId, snapshot);
+
+    const { data: draft, error } = await supabaseAdmin
+      .from('course_revisions')
+      .insert({
+        course_id: courseId,
+        status: 'draft',
+        snapshot: snapshot as unknown as Json,
+        based_on_version: basedOnVersion,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error || !draft) {
+      // A concurrent request created the draft first
+      if (error?.code === '23505') {
+        const concurrent = await this.getDraft(courseId);
+        if (concurrent) {
+          return concurrent;
+        }
+      }
+      throw new AppError('Failed to create draft', 500);
+    }
+
+    return draft;
+  }
+
+  /**
+   * Apply edits to the draft. Sections and lessons are numbered by their position;
+   * new ones get an id unless the client supplies one (needed to place a lesson in
+   * a section created in the same edit).
+   */
+  static async updateDraft(courseId: string, changes: DraftChanges): Promise<CourseRevision> {
+    const draft = await this.getDraft(courseId);
+    if (!draft) {
+      throw revisionErrors.DRAFT_NOT_FOUND();
+    }
+
+    const current = draft.snapshot as unknown as CourseSnapshot;
+    const sections = changes.sections
+      ? changes.sections.map((section, index) =>
+        pick({ ...section, id: section.id ?? randomUUID(), order: index }, SECTION_FIELDS) as SnapshotSection)
+      : current.sections;
+    const lessons = changes.lessons
+      ? changes.lessons.map((lesson, index) => pick(
+        { ...LessonReleaseService.normalizeRule(lesson), id: lesson.id ?? randomUUID(), order: index },
+        LESSON_FIELDS
+      ) as SnapshotLesson)
+      : current.lessons;
+
+    const sectionIds = new Set(sections.map((section) => section.id));
+    const lessonIds = new Set(lessons.map((lesson) => lesson.id));
+
+    if (sectionIds.size !== sections.length || lessonIds.size !== lessons.length) {
+      throw new ValidationError('Section and lesson ids must be unique');
+    }
+
+    if (lessons.some((lesson) => lesson.section_id && !sectionIds.has(lesson.section_id))) {
+      throw new ValidationError('Lessons can only be placed in sections of the draft');
+    }
+
+    await this.assertIdsAvailable(courseId, [...sectionIds], [...lessonIds]);
+
+    const snapshot: CourseSnapshot = {
+      course: { ...current.course, ...changes.course },
+      sections,
+      lessons,
+    };
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('course_revisions')
+      .update({
+        snapshot: snapshot as unknown as Json,
+        ...(changes.notes !== undefined && { notes: changes.notes }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', draft.id)
+      .eq('status', 'draft')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError('Failed to update draft', 500);
+    }
+
+    if (!updated) {
+      // Published or discarded while editing
+      throw revisionErrors.DRAFT_NOT_FOUND();
+    }
+
+    return updated;
+  }
+
+  static async discardDraft(courseId: string): Promise<void> {
+    const { data: draft, error } = await supabaseAdmin
+      .from('course_revisions')
+      .delete()
+      .eq('course_id', courseId)
+      .eq('status', 'draft')
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError('Failed to discard draft', 500);
+    }
+
+    if (!draft) {
+      throw revisionErrors.DRAFT_NOT_FOUND();
+    }
+  }
+
+  /**
+   * Make the draft the live content as the next version, in one transaction
+   * @param force Publish even if another version went live after the draft was started
+   * @returns The new version number
+   */
+  static async publishDraft(courseId: string, userId: string, force = false): Promise<number> {
+    const draft = await this.getDraft(courseId);
+    if (!draft) {
+      throw revisionErrors.DRAFT_NOT_FOUND();
+    }
+
+    const { data: version, error } = await supabaseAdmin.rpc('publish_course_draft', {
+      draft_id_param: draft.id,
+      published_by_param: userId,
+      force_param: force,
+    });
+
+    if (error || !version) {
+      throw this.mapError(error, 'Failed to publish draft');
+    }
+
+    return version;
+  }
+
+  /**
+   * Publish an earlier version's content again as the next version
+   * @returns The new version number
+   */
+  static async rollback(courseId: string, version: number, userId: string): Promise<number> {
+    const { data: newVersion, error } = await supabaseAdmin.rpc('rollback_course_revision', {
+      course_id_param: courseId,
+      version_param: version,
+      published_by_param: userId,
+    });
+
+    if (error || !newVersion) {
+      throw this.mapError(error, 'Failed to roll back course');
+    }
+
+    return newVersion;
+  }
+
+  /**
+   * Published versions, newest first, each with its changes from the version before
+   */
+  static async listVersions(courseId: string) {
+    const { data: revisions, error } = await supabaseAdmin
+      .from('course_revisions')
+      .select('*')
+      .eq('course_id', courseId)
+      .eq('status', 'published')
+      .order('version', { ascending: true });
+
+    if (error) {
+      throw new AppError('Failed to fetch versions', 500);
+    }
+
+    return (revisions || [])
+      .map(({ snapshot, ...revision }, index, all) => ({
+        ...revision,
+        diff: index > 0
+          ? this.diff(all[index - 1].snapshot as unknown as CourseSnapshot, snapshot as unknown as CourseSnapshot)
+          : null,
+      }))
+      .reverse();
+  }
+
+  /**
+   * One published version with its full content and its changes from the version before
+   */
+  static async getVersion(courseId: string, version: number) {
+    const { data: revisions } = await supabaseAdmin
+      .from('course_revisions')
+      .select('*')
+      .eq('course_id', courseId)
+      .eq('status', 'published')
+      .lte('version', version)
+      .order('version', { ascending: false })
+      .limit(2);
+
+    const [revision, previous] = revisions || [];
+
+    if (!revision || revision.version !== version) {
+      throw revisionErrors.REVISION_NOT_FOUND();
+    }
+
+    const snapshot = revision.snapshot as unknown as CourseSnapshot;
+
+    return {
+      ...revision,
+      snapshot,
+      diff: previous ? this.diff(previous.snapshot as unknown as CourseSnapshot, snapshot) : null,
+    };
+  }
+
+  /**
+   * Record the live content as version 1 if the course has no versions yet
+   * @returns The live version
+   */
+  private static async ensureBaseline(courseId: string, userId: string, snapshot: CourseSnapshot): Promise<number> {
+    const { data: course } = await supabaseAdmin
+      .from('courses')
+      .select('published_version')
+      .eq('id', courseId)
+      .single();
+
+    if (course?.published_version) {
+      return course.published_version;
+    }
+
+    const { error } = await supabaseAdmin
+      .from('course_revisions')
+      .insert({
+        course_id: courseId,
+        status: 'published',
+        version: 1,
+        snapshot: snapshot as unknown as Json,
+        notes: 'Initial version',
+        created_by: userId,
+        published_by: userId,
+        published_at: new Date().toISOString(),
+      });
+
+    // Unique violation: recorded concurrently
+    if (error && error.code !== '23505') {
+      throw new AppError('Failed to record initial version', 500);
+    }
+
+    await supabaseAdmin
+      .from('courses')
+      .update({ published_version: 1 })
+      .eq('id', courseId)
+      .is('published_version', null);
+
+    return 1;
+  }
+
+  /**
+   * @throws ValidationError if any id is used by another course
+   */
+  private static async assertIdsAvailable(courseId: string, sectionIds: string[], lessonIds: string[]): Promise<void> {
+    const [sections, lessons] = await Promise.all([
+      sectionIds.length > 0
+        ? supabaseAdmin.from('sections').select('id').in('id', sectionIds).neq('course_id', courseId)
+        : { data: [] },
+      lessonIds.length > 0
+        ? supabaseAdmin.from('lessons').select('id').in('id', lessonIds).neq('course_id', courseId)
+        : { data: [] },
+    ]);
+
+    if ((sections.data?.length ?? 0) > 0 || (lessons.data?.length ?? 0) > 0) {
+      throw new ValidationError('Section and lesson ids must not belong to another course');
+    }
+  }
+
+  private static mapError(error: { message?: string } | null, fallback: string): AppError {
+    const known = Object.entries(revisionErrors).find(([code]) => error?.message?.includes(code));
+    if (known) {
+      return known[1]();
+    }
+
+    logger.error(`${fallback}:`, error);
+    return new AppError(fallback, 500);
+  }
+}
@@ -0,0 +1,131 @@
+import { supabaseAdmin } from '../config/supabase';
+import { AppError } from '../utils/errors';
+
+export interface Sale {
+  /** Payment intent id, or coupon redemption id for fully discounted enrollments */
+  id: string;
+  course_id: string;
+  course_title: string | null;
+  buyer_id: string;
+  payer_address: string | null;
+  chain_id: number | null;
+  token_address: string | null;
+  currency: string | null;
+  decimals: number | null;
+  list_amount: string;
+  discount_amount: string;
+  amount: string;
+  platform_fee_bps: number;
+  coupon_code: string | null;
+  tx_hash: string | null;
+  sold_at: string;
+}
+
+export interface SalesRange {
+  from?: string;
+  to?: string;
+}
+
+export class SalesService {
+  /**
+   * Sales of an instructor's courses, newest first: confirmed payments plus
+   * enrollments through coupons that covered the whole price
+   */
+  static async listForInstructor(instructorId: string, range: SalesRange = {}): Promise<Sale[]> {
+    let paymentsQuery = supabaseAdmin
+      .from('payment_intents')
+      .select(`
+        id,
+        course_id,
+        user_id,
+        payer_address,
+        chain_id,
+        token_address,
+        currency,
+        decimals,
+        amount,
+        list_amount,
+        discount_amount,
+        platform_fee_bps,
+        tx_hash,
+        confirmed_at,
+        course:courses!inner(title, instructor_id),
+        coupon:coupons(code)
+      `)
+      .eq('status', 'confirmed')
+      .eq('course.instructor_id', instructorId);
+
+    let freeQuery = supabaseAdmin
+      .from('coupon_redemptions')
+      .select(`
+        id,
+        course_id,
+        user_id,
+        wallet_address,
+        list_amount,
+        discount_amount,
+        final_amount,
+        redeemed_at,
+        course:courses!inner(title, instructor_id, price_currency, price_decimals, price_chain_id, price_token_address),
+        coupon:coupons(code)
+      `)
+      .is('payment_intent_id', null)
+      .eq('course.instructor_id', instructorId);
+
+    if (range.from) {
+      paymentsQuery = paymentsQuery.gte('confirmed_at', range.from);
+      freeQuery = freeQuery.gte('redeemed_at', range.from);
+    }
+    if (range.to) {
+      paymentsQuery = paymentsQuery.lt('confirmed_at', range.to);
+      freeQuery = freeQuery.lt('redeemed_at', range.to);
+    }
+
+    const [payments, free] = await Promise.all([paymentsQuery, freeQuery]);
+
+    if (payments.error || free.error) {
+      throw new AppError('Failed to fetch sales', 500);
+    }
+
+    const sales: Sale[] = [
+      ...payments.data.map((payment) => ({
+        id: payment.id,
+        course_id: payment.course_id,
+        course_title: payment.course?.title ?? null,
+        buyer_id: payment.user_id,
+        payer_address: payment.payer_address,
+        chain_id: payment.chain_id,
+        token_address: payment.token_address,
+        currency: payment.currency,
+        decimals: payment.decimals,
+        list_amount: payment.list_amount ?? payment.amount,
+        discount_amount: payment.discount_amount ?? '0',
+        amount: payment.amount,
+        platform_fee_bps: payment.platform_fee_bps,
+        coupon_code: payment.coupon?.code ?? null,
+        tx_hash: payment.tx_hash,
+        sold_at: payment.confirmed_at!,
+      })),
+      ...free.data.map((redemption) => ({
+        id: redemption.id,
+        course_id: redemption.course_id,
+        course_title: redemption.course?.title ?? null,
+        buyer_id: redemption.user_id,
+        payer_address: redemption.wallet_address || null,
+        chain_id: redemption.course?.price_chain_id ?? null,
+        token_address: redemption.course?.price_token_address ?? null,
+        currency: redemption.course?.price_currency ?? null,
+        decimals: redemption.course?.price_decimals ?? null,
+        list_amount: redemption.list_amount,
+        discount_amount: redemption.discount_amount,
+        amount: redemption.final_amount,
+        platform_fee_bps: 0,
+        coupon_code: redemption.coupon?.code ?? null,
+        tx_hash: null,
+        sold_at: redemption.redeemed_at,
+      })),
+    ];
+
+    return sales.sort((a, b) => new Date(b.sold_at).getTime() - new Date(a.sold_at).getTime());
+  }
+}
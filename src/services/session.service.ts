@@ -0,0 +1,367 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { supabaseAdmin } from '../config/supabase';
+import { AppError, AuthenticationError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { env } from '../utils/validateEnv';
+import { AuditService } from './audit.service';
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'logout_all'
+  | 'revoked_by_user'
+  | 'refresh_token_reuse';
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * Claims carried by every access token
+ */
+export interface AccessTokenPayload {
+  id: string;
+  address: string;
+  sid: string;
+}
+
+export interface ActiveSession {
+  id: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+}
+
+// Write last_seen_at at most this often per session
+const LAST_SEEN_THROTTLE_MS = 5 * 60 * 1000;
+
+const refreshTokenTtlMs = () =>
+  parseFloat(env.REFRESH_TOKEN_TTL_DAYS || '30') * 24 * 60 * 60 * 1000;
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+export class SessionService {
+  /**
+   * Start a new session after a successful SIWE login
+   * @returns Short-lived access token and the first refresh token of the family
+   */
+  static async create(
+    user: { id: string; wallet_address: string },
+    context: SessionContext = {}
+  ): Promise<SessionTokens> {
+    const expiresAt = new Date(Date.now() + refreshTokenTtlMs()).toISOString();
+
+    const { data: session, error } = await supabaseAdmin
+      .from('auth_sessions')
+      .insert({
+        user_id: user.id,
+        wallet_address: user.wallet_address,
+        ip_address: context.ipAddress,
+        user_agent: context.userAgent,
+        expires_at: expiresAt,
+      })
+      .select('id')
+      .single();
+
+    if (error || !session) {
+      throw new AppError('Failed to create session', 500);
+    }
+
+    const refreshToken = await this.issueRefreshToken(session.id, expiresAt);
+
+    return {
+      sessionId: session.id,
+      accessToken: this.signAccessToken({
+        id: user.id,
+        address: user.wallet_address,
+        sid: session.id,
+      }),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair (rotation).
+   * Presenting a token that was already rotated revokes the whole session.
+   */
+  static async refresh(refreshToken: string, context: SessionContext = {}): Promise<SessionTokens> {
+    const tokenHash = hashToken(refreshToken);
+
+    const { data: stored } = await supabaseAdmin
+      .from('refresh_tokens')
+      .select(`
+        id,
+        used_at,
+        expires_at,
+        session:auth_sessions(
+          id,
+          user_id,
+          wallet_address,
+          revoked_at,
+          expires_at
+        )
+      `)
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+
+    const session = stored?.session;
+
+    if (!stored || !session) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    if (session.revoked_at) {
+      throw new AuthenticationError('Session has been revoked');
+    }
+
+    if (stored.used_at) {
+      await this.handleReuse(session.id, session.user_id, session.wallet_address, context);
+      throw new AuthenticationError('Refresh token reuse detected');
+    }
+
+    if (new Date(stored.expires_at) <= new Date() || new Date(session.expires_at) <= new Date()) {
+      throw new AuthenticationError('Refresh token expired');
+    }
+
+    // Only one concurrent caller can consume the token
+    const { data: consumed } = await supabaseAdmin
+      .from('refresh_tokens')
+      .update({ used_at: new Date().toISOString() })
+      .eq('id', stored.id)
+      .is('used_at', null)
+      .select('id');
+
+    if (!consumed || consumed.length === 0) {
+      await this.handleReuse(session.id, session.user_id, session.wallet_address, context);
+      throw new AuthenticationError('Refresh token reuse detected');
+    }
+
+    const expiresAt = new Date(Date.now() + refreshTokenTtlMs()).toISOString();
+
+    await supabaseAdmin
+      .from('auth_sessions')
+      .update({
+        last_seen_at: new Date().toISOString(),
+        expires_at: expiresAt,
+        ...(context.ipAddress && { ip_address: context.ipAddress }),
+        ...(context.userAgent && { user_agent: context.userAgent }),
+      })
+      .eq('id', session.id);
+
+    const nextRefreshToken = await this.issueRefreshToken(session.id, expiresAt);
+
+    return {
+      sessionId: session.id,
+      accessToken: this.signAccessToken({
+        id: session.user_id,
+        address: session.wallet_address,
+        sid: session.id,
+      }),
+      refreshToken: nextRefreshToken,
+    };
+  }
+
+  /**
+   * Revoke a single session
+   */
+  static async revoke(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('auth_sessions')
+      .update({
+        revoked_at: new Date().toISOString(),
+        revoked_reason: reason,
+      })
+      .eq('id', sessionId)
+      .is('revoked_at', null);
+
+    if (error) {
+      throw new AppError('Failed to revoke session', 500);
+    }
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to
+   * @returns Revoked session id, or null if the token is unknown
+   */
+  static async revokeByRefreshToken(
+    refreshToken: string,
+    reason: SessionRevokeReason
+  ): Promise<string | null> {
+    const { data: stored } = await supabaseAdmin
+      .from('refresh_tokens')
+      .select('session_id')
+      .eq('token_hash', hashToken(refreshToken))
+      .maybeSingle();
+
+    if (!stored) {
+      return null;
+    }
+
+    await this.revoke(stored.session_id, reason);
+    return stored.session_id;
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   * @throws NotFoundError if the session does not belong to the user
+   */
+  static async revokeForUser(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevokeReason
+  ): Promise<void> {
+    const { data: session } = await supabaseAdmin
+      .from('auth_sessions')
+      .select('id')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!session) {
+      throw new NotFoundError('Session not found');
+    }
+
+    await this.revoke(session.id, reason);
+  }
+
+  /**
+   * Revoke every active session of a user ("log out everywhere")
+   * @returns Number of sessions revoked
+   */
+  static async revokeAllForUser(userId: string, reason: SessionRevokeReason): Promise<number> {
+    const { data, error } = await supabaseAdmin
+      .from('auth_sessions')
+      .update({
+        revoked_at: new Date().toISOString(),
+        revoked_reason: reason,
+      })
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      throw new AppError('Failed to revoke sessions', 500);
+    }
+
+    return data?.length || 0;
+  }
+
+  /**
+   * List a user's sessions that are neither revoked nor expired, most recently used first
+   */
+  static async listActive(userId: string): Promise<ActiveSession[]> {
+    const { data, error } = await supabaseAdmin
+      .from('auth_sessions')
+      .select('id, ip_address, user_agent, created_at, last_seen_at, expires_at')
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('last_seen_at', { ascending: false });
+
+    if (error) {
+      throw new AppError('Failed to fetch sessions', 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Check that a session referenced by an access token is still usable.
+   * Also refreshes last_seen_at (throttled) so session listings stay current.
+   */
+  static async isActive(sessionId: string, userId: string): Promise<boolean> {
+    const { data: session } = await supabaseAdmin
+      .from('auth_sessions')
+      .select('user_id, revoked_at, expires_at, last_seen_at')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    const active = !!session &&
+      session.user_id === userId &&
+      !session.revoked_at &&
+      new Date(session.expires_at) > new Date();
+
+    if (active && Date.now() - new Date(session.last_seen_at).getTime() > LAST_SEEN_THROTTLE_MS) {
+      supabaseAdmin
+        .from('auth_sessions')
+        .update({ last_seen_at: new Date().toISOString() })
+        .eq('id', sessionId)
+        .then(({ error }) => {
+          if (error) {
+            logger.error(`Failed to update last_seen_at for session ${sessionId}:`, error);
+          }
+        });
+    }
+
+    return active;
+  }
+
+  /**
+   * Verify an access token and return its claims.
+   * Tokens issued before sessions existed carry no `sid` and are rejected.
+   */
+  static verifyAccessToken(token: string): AccessTokenPayload {
+    const decoded = jwt.verify(token, env.JWT_SECRET) as Partial<AccessTokenPayload>;
+
+    if (!decoded.id || !decoded.address || !decoded.sid) {
+      throw new jwt.JsonWebTokenError('Token is missing session claims');
+    }
+
+    return decoded as AccessTokenPayload;
+  }
+
+  private static signAccessToken(payload: AccessTokenPayload): string {
+    return jwt.sign(payload, env.JWT_SECRET, {
+      expiresIn: env.JWT_EXPIRES_IN as jwt.SignOptions['expiresIn'],
+    });
+  }
+
+  private static async issueRefreshToken(sessionId: string, expiresAt: string): Promise<string> {
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+
+    const { error } = await supabaseAdmin
+      .from('refresh_tokens')
+      .insert({
+        session_id: sessionId,
+        token_hash: hashToken(refreshToken),
+        expires_at: expiresAt,
+      });
+
+    if (error) {
+      throw new AppError('Failed to issue refresh token', 500);
+    }
+
+    return refreshToken;
+  }
+
+  private static async handleReuse(
+    sessionId: string,
+    userId: string,
+    walletAddress: string,
+    context: SessionContext
+  ): Promise<void> {
+    logger.warn(`Refresh token reuse detected, revoking session ${sessionId}`);
+
+    await this.revoke(sessionId, 'refresh_token_reuse');
+
+    await AuditService.logSuspiciousActivity({
+      userId,
+      walletAddress,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      action: 'REFRESH_TOKEN_REUSE',
+      details: { sessionId },
+      riskScore: 80,
+    });
+  }
+}
@@ -0,0 +1,140 @@
+import { SiweMessage } from 'siwe';
+import { siwePolicy, SiwePolicy } from '../config/siwe';
+import { supabaseAdmin } from '../config/supabase';
+import { SiweValidationError } from '../utils/errors';
+import { SignatureService } from './signature.service';
+
+export class SiweService {
+  /**
+   * Parse a SIWE message string
+   * @throws SiweValidationError with SIWE_INVALID_MESSAGE if it is not EIP-4361 compliant
+   */
+  static parse(message: string): SiweMessage {
+    try {
+      return new SiweMessage(message);
+    } catch {
+      throw new SiweValidationError('SIWE_INVALID_MESSAGE', 'Malformed SIWE message', 400);
+    }
+  }
+
+  /**
+   * Enforce the configured policy on a parsed message.
+   * Runs before signature verification so users get a precise reason.
+   */
+  static assertPolicy(
+    siweMessage: SiweMessage,
+    policy: SiwePolicy = siwePolicy,
+    now: Date = new Date()
+  ): void {
+    if (!policy.allowedDomains.includes(siweMessage.domain)) {
+      throw new SiweValidationError(
+        'SIWE_DOMAIN_NOT_ALLOWED',
+        `Sign-in requests from domain "${siweMessage.domain}" are not accepted`
+      );
+    }
+
+    let uriOrigin: string | null = null;
+    try {
+      uriOrigin = new URL(siweMessage.uri).origin;
+    } catch {
+      uriOrigin = null;
+    }
+
+    if (!uriOrigin || !policy.allowedOrigins.includes(uriOrigin)) {
+      throw new SiweValidationError(
+        'SIWE_URI_NOT_ALLOWED',
+        `Sign-in URI "${siweMessage.uri}" does not match an allowed origin`
+      );
+    }
+
+    if (!policy.allowedChainIds.includes(Number(siweMessage.chainId))) {
+      throw new SiweValidationError(
+        'SIWE_CHAIN_NOT_ALLOWED',
+        `Chain ${siweMessage.chainId} is not supported. Switch to chain ${policy.allowedChainIds.join(' or ')}`
+      );
+    }
+
+    if (policy.requiredStatement !== undefined && siweMessage.statement !== policy.requiredStatement) {
+      throw new SiweValidationError(
+        'SIWE_STATEMENT_MISMATCH',
+        'Sign-in statement does not match the expected text'
+      );
+    }
+
+    const skewMs = policy.clockSkewSeconds * 1000;
+
+    if (!siweMessage.issuedAt) {
+      throw new SiweValidationError('SIWE_INVALID_MESSAGE', 'SIWE message is missing issuedAt', 400);
+    }
+
+    const issuedAt = new Date(siweMessage.issuedAt).getTime();
+
+    if (issuedAt - skewMs > now.getTime()) {
+      throw new SiweValidationError('SIWE_ISSUED_IN_FUTURE', 'Sign-in message was issued in the future');
+    }
+
+    if (now.getTime() - issuedAt > policy.maxMessageAgeSeconds * 1000) {
+      throw new SiweValidationError(
+        'SIWE_MESSAGE_TOO_OLD',
+        `Sign-in message is older than ${policy.maxMessageAgeSeconds} seconds. Please sign again`
+      );
+    }
+
+    if (siweMessage.expirationTime && new Date(siweMessage.expirationTime).getTime() <= now.getTime()) {
+      throw new SiweValidationError('SIWE_MESSAGE_EXPIRED', 'Sign-in message has expired');
+    }
+
+    if (siweMessage.notBefore && new Date(siweMessage.notBefore).getTime() - skewMs > now.getTime()) {
+      throw new SiweValidationError('SIWE_MESSAGE_NOT_YET_VALID', 'Sign-in message is not valid yet');
+    }
+  }
+
+  /**
+   * Parse, check against the policy and verify the signature of a SIWE message.
+   * Smart contract wallets are verified on the message's chain via ERC-1271/ERC-6492.
+   * @returns The verified message
+   */
+  static async verify(message: string, signature: string): Promise<SiweMessage> {
+    const siweMessage = this.parse(message);
+
+    this.assertPolicy(siweMessage);
+
+    const signerKind = await SignatureService.verify({
+      address: siweMessage.address,
+      message,
+      signature,
+      chainId: Number(siweMessage.chainId),
+    });
+
+    if (!signerKind) {
+      throw new SiweValidationError('SIWE_INVALID_SIGNATURE', 'Invalid signature');
+    }
+
+    return siweMessage;
+  }
+
+  /**
+   * Check that the message nonce was issued to its address and is unexpired, then burn it
+   * @throws SiweValidationError with SIWE_INVALID_NONCE otherwise
+   */
+  static async consumeNonce(siweMessage: SiweMessage): Promise<void> {
+    const address = siweMessage.address.toLowerCase();
+
+    const { data: nonceData, error: nonceError } = await supabaseAdmin
+      .from('nonces')
+      .select('id')
+      .eq('address', address)
+      .eq('nonce', siweMessage.nonce)
+      .gt('expires_at', new Date().toISOString())
+      .single();
+
+    if (nonceError || !nonceData) {
+      throw new SiweValidationError('SIWE_INVALID_NONCE', 'Invalid or expired nonce');
+    }
+
+    await supabaseAdmin
+      .from('nonces')
+      .delete()
+      .eq('id', nonceData.id);
+  }
+}
@@ -0,0 +1,111 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { AppError, ExerciseError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+/** File name of the learner's contract; test sources import it as "./Solution.sol" */
+export const SOLUTION_FILE = 'Solution.sol';
+export const TEST_FILE = 'Test.sol';
+
+export type RunStatus = 'passed' | 'failed' | 'compile_error' | 'timeout';
+
+export interface RunInput {
+  source: string;
+  testSource: string;
+  /** Gas available to each deployment, setUp() and test call */
+  gasLimit: number;
+}
+
+export interface TestCaseResult {
+  /** Contract.function of the test */
+  name: string;
+  passed: boolean;
+  gas_used: number;
+  /** Revert reason or EVM error of a failing test */
+  error?: string;
+}
+
+export interface RunResult {
+  status: RunStatus;
+  /** solc version the sources were compiled with; null when the run timed out */
+  compiler: string | null;
+  /** Compiler errors, or why the tests could not run */
+  errors: string[];
+  tests: TestCaseResult[];
+}
+
+const RUN_TIMEOUT_MS = 20_000;
+const MAX_CONCURRENT_RUNS = 2;
+const WORKER_MEMORY_MB = 512;
+
+// Compiled JavaScript in production; under tsx in development the worker registers tsx first
+const WORKER_PATH = path.join(__dirname, `solidityRunner.worker${path.extname(__filename)}`);
+const WORKER_BOOTSTRAP = path.extname(__filename) === '.ts'
+  ? `require('tsx/cjs'); require(${JSON.stringify(WORKER_PATH)});`
+  : null;
+
+let activeRuns = 0;
+
+export class SolidityRunnerService {
+  /**
+   * Compile a contract with its test contract and run every test* function against a fresh
+   * in-process EVM. Runs in a worker thread that is terminated after RUN_TIMEOUT_MS and
+   * limited to WORKER_MEMORY_MB, so learner code can never block or exhaust the API.
+   * @throws ExerciseError EXERCISE_RUNNER_BUSY when MAX_CONCURRENT_RUNS are in progress
+   */
+  static async run(input: RunInput): Promise<RunResult> {
+    if (activeRuns >= MAX_CONCURRENT_RUNS) {
+      throw new ExerciseError('EXERCISE_RUNNER_BUSY', 'All exercise runners are busy, please try again shortly', 503);
+    }
+
+    activeRuns++;
+
+    try {
+      return await this.runInWorker(input);
+    } finally {
+      activeRuns--;
+    }
+  }
+
+  private static runInWorker(input: RunInput): Promise<RunResult> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(WORKER_BOOTSTRAP ?? WORKER_PATH, {
+        eval: WORKER_BOOTSTRAP !== null,
+        workerData: input,
+        resourceLimits: { maxOldGenerationSizeMb: WORKER_MEMORY_MB },
+      });
+
+      let settled = false;
+
+      const settle = (done: () => void) => {
+        if (settled) {
+          return;
+        }
+
+        settled = true;
+        clearTimeout(timer);
+        void worker.terminate();
+        done();
+      };
+
+      const timer = setTimeout(() => settle(() => resolve({
+        status: 'timeout',
+        compiler: null,
+        errors: [`Tests did not finish within ${RUN_TIMEOUT_MS / 1000} seconds`],
+        tests: [],
+      })), RUN_TIMEOUT_MS);
+
+      worker.once('message', (result: RunResult) => settle(() => resolve(result)));
+
+      worker.once('error', (error) => settle(() => {
+        logger.error('Solidity runner failed:', error);
+        reject(new AppError('Failed to run the exercise tests', 500));
+      }));
+
+      worker.once('exit', (code) => settle(() => {
+        logger.error(`Solidity runner exited with code ${code} before reporting`);
+        reject(new AppError('Failed to run the exercise tests', 500));
+      }));
+    });
+  }
+}
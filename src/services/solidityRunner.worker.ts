@@ -0,0 +1,170 @@
+// Worker thread of SolidityRunnerService: compiles the sources with the pinned solc-js build
+// and runs the tests on an in-process EVM, then posts a RunResult back and exits.
+
+import { parentPort, workerData } from 'worker_threads';
+import solc from 'solc';
+import { createEVM, EVM, ExecResult } from '@ethereumjs/evm';
+import { createAddressFromString } from '@ethereumjs/util';
+import { AbiCoder, dataSlice, getBytes, hexlify, Interface, InterfaceAbi } from 'ethers';
+import { RunInput, RunResult, SOLUTION_FILE, TEST_FILE, TestCaseResult } from './solidityRunner.service';
+
+interface CompilerMessage {
+  severity: 'error' | 'warning' | 'info';
+  formattedMessage: string;
+}
+
+interface CompiledContract {
+  abi: InterfaceAbi;
+  evm: { bytecode: { object: string } };
+}
+
+interface CompilerOutput {
+  errors?: CompilerMessage[];
+  contracts?: Record<string, Record<string, CompiledContract>>;
+}
+
+const ERROR_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+const SENDER = createAddressFromString('0x000000000000000000000000000000000000ac1d');
+
+function compile(input: RunInput): CompilerOutput {
+  return JSON.parse(solc.compile(JSON.stringify({
+    language: 'Solidity',
+    sources: {
+      [SOLUTION_FILE]: { content: input.source },
+      [TEST_FILE]: { content: input.testSource },
+    },
+    settings: {
+      outputSelection: { [TEST_FILE]: { '*': ['abi', 'evm.bytecode.object'] } },
+    },
+  })));
+}
+
+function describeFailure(result: ExecResult): string {
+  const error = result.exceptionError?.error;
+
+  if (error === 'out of gas') {
+    return 'Out of gas';
+  }
+
+  if (error !== 'revert') {
+    return `EVM error: ${error}`;
+  }
+
+  const data = hexlify(result.returnValue);
+
+  try {
+    if (data.startsWith(ERROR_SELECTOR)) {
+      return AbiCoder.defaultAbiCoder().decode(['string'], dataSlice(data, 4))[0];
+    }
+
+    if (data.startsWith(PANIC_SELECTOR)) {
+      const [code] = AbiCoder.defaultAbiCoder().decode(['uint256'], dataSlice(data, 4));
+      return `Panic 0x${code.toString(16)}`;
+    }
+  } catch {
+    // Malformed revert data is reported raw below
+  }
+
+  return data === '0x' ? 'Reverted' : `Reverted with ${data}`;
+}
+
+/**
+ * Deploy a fresh instance of the test contract, call setUp() when it has one, then the test
+ */
+async function runTest(
+  evm: EVM,
+  name: string,
+  bytecode: Uint8Array,
+  contract: Interface,
+  testFunction: string,
+  gasLimit: bigint
+): Promise<TestCaseResult> {
+  const deployment = await evm.runCall({ caller: SENDER, data: bytecode, gasLimit, skipBalance: true });
+
+  if (deployment.execResult.exceptionError || !deployment.createdAddress) {
+    return { name, passed: false, gas_used: 0, error: `Deployment failed: ${describeFailure(deployment.execResult)}` };
+  }
+
+  const to = deployment.createdAddress;
+
+  if (contract.getFunction('setUp')) {
+    const setUp = await evm.runCall({
+      caller: SENDER,
+      to,
+      data: getBytes(contract.encodeFunctionData('setUp')),
+      gasLimit,
+    });
+
+    if (setUp.execResult.exceptionError) {
+      return { name, passed: false, gas_used: 0, error: `setUp() failed: ${describeFailure(setUp.execResult)}` };
+    }
+  }
+
+  const test = await evm.runCall({
+    caller: SENDER,
+    to,
+    data: getBytes(contract.encodeFunctionData(testFunction)),
+    gasLimit,
+  });
+
+  const gasUsed = Number(test.execResult.executionGasUsed);
+
+  if (test.execResult.exceptionError) {
+    return { name, passed: false, gas_used: gasUsed, error: describeFailure(test.execResult) };
+  }
+
+  return { name, passed: true, gas_used: gasUsed };
+}
+
+async function run(input: RunInput): Promise<RunResult> {
+  const compiler = solc.version();
+  const output = compile(input);
+
+  const errors = (output.errors ?? [])
+    .filter((message) => message.severity === 'error')
+    .map((message) => message.formattedMessage);
+
+  if (errors.length) {
+    return { status: 'compile_error', compiler, errors, tests: [] };
+  }
+
+  const evm = await createEVM();
+  const gasLimit = BigInt(input.gasLimit);
+  const tests: TestCaseResult[] = [];
+
+  for (const [contractName, compiled] of Object.entries(output.contracts?.[TEST_FILE] ?? {})) {
+    // Abstract contracts and interfaces have no bytecode
+    if (!compiled.evm.bytecode.object) {
+      continue;
+    }
+
+    const contract = new Interface(compiled.abi);
+    const bytecode = getBytes(`0x${compiled.evm.bytecode.object}`);
+    const testFunctions: string[] = [];
+
+    contract.forEachFunction((fn) => {
+      if (fn.name.startsWith('test') && fn.inputs.length === 0) {
+        testFunctions.push(fn.name);
+      }
+    });
+
+    for (const testFunction of testFunctions) {
+      tests.push(await runTest(evm, `${contractName}.${testFunction}`, bytecode, contract, testFunction, gasLimit));
+    }
+  }
+
+  if (!tests.length) {
+    return { status: 'failed', compiler, errors: [`${TEST_FILE} has no test functions`], tests };
+  }
+
+  return {
+    status: tests.every((test) => test.passed) ? 'passed' : 'failed',
+    compiler,
+    errors: [],
+    tests,
+  };
+}
+
+run(workerData as RunInput).then((result) => parentPort!.postMessage(result));
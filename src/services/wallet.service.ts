@@ -0,0 +1,160 @@
+import { supabaseAdmin } from '../config/supabase';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+export interface LinkedWallet {
+  address: string;
+  is_primary: boolean;
+  linked_at: string;
+}
+
+export class WalletService {
+  /**
+   * Resolve the user owning an address through any linked wallet
+   * @returns User id, or null if the address is not linked to anyone
+   */
+  static async findUserId(address: string): Promise<string | null> {
+    const normalized = address.toLowerCase();
+
+    const { data: wallet } = await supabaseAdmin
+      .from('user_wallets')
+      .select('user_id')
+      .eq('address', normalized)
+      .maybeSingle();
+
+    if (wallet) {
+      return wallet.user_id;
+    }
+
+    // Accounts created before wallets could be linked
+    const { data: user } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('wallet_address', normalized)
+      .maybeSingle();
+
+    return user?.id ?? null;
+  }
+
+  /**
+   * Resolve the user an address signs in as. On first sign-in the account is created
+   * with the address as its primary wallet.
+   * @returns User id
+   */
+  static async signIn(address: string): Promise<string> {
+    const { data: userId, error } = await supabaseAdmin.rpc('sign_in_wallet', {
+      address_param: address.toLowerCase(),
+    });
+
+    if (error || !userId) {
+      throw new AppError('Failed to create user', 500);
+    }
+
+    return userId;
+  }
+
+  /**
+   * List a user's wallets, primary first
+   */
+  static async list(userId: string): Promise<LinkedWallet[]> {
+    const { data, error } = await supabaseAdmin
+      .from('user_wallets')
+      .select('address, is_primary, linked_at')
+      .eq('user_id', userId)
+      .order('is_primary', { ascending: false })
+      .order('linked_at', { ascending: true });
+
+    if (error) {
+      throw new AppError('Failed to fetch wallets', 500);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Link an address the user has proven control of
+   * @throws ConflictError if the address already belongs to an account
+   */
+  static async link(userId: string, address: string, isPrimary: boolean = false): Promise<LinkedWallet> {
+    const normalized = address.toLowerCase();
+
+    const ownerId = await this.findUserId(normalized);
+    if (ownerId === userId) {
+      throw new ConflictError('Wallet is already linked to your account');
+    }
+    if (ownerId) {
+      throw new ConflictError('Wallet is already linked to another account');
+    }
+
+    const { data: wallet, error } = await supabaseAdmin
+      .from('user_wallets')
+      .insert({
+        user_id: userId,
+        address: normalized,
+        is_primary: isPrimary,
+      })
+      .select('address, is_primary, linked_at')
+      .single();
+
+    if (error || !wallet) {
+      // Unique violation from a concurrent link of the same address
+      if (error?.code === '23505') {
+        throw new ConflictError('Wallet is already linked to another account');
+      }
+      throw new AppError('Failed to link wallet', 500);
+    }
+
+    return wallet;
+  }
+
+  /**
+   * Unlink a secondary wallet. The primary wallet cannot be removed.
+   */
+  static async unlink(userId: string, address: string): Promise<void> {
+    const wallet = await this.getOwned(userId, address);
+
+    if (wallet.is_primary) {
+      throw new ValidationError('Cannot unlink the primary wallet. Set another wallet as primary first');
+    }
+
+    const { error } = await supabaseAdmin
+      .from('user_wallets')
+      .delete()
+      .eq('user_id', userId)
+      .eq('address', wallet.address);
+
+    if (error) {
+      throw new AppError('Failed to unlink wallet', 500);
+    }
+  }
+
+  /**
+   * Make a linked wallet the primary one (also updates users.wallet_address)
+   */
+  static async setPrimary(userId: string, address: string): Promise<void> {
+    const wallet = await this.getOwned(userId, address);
+
+    const { data: updated, error } = await supabaseAdmin.rpc('set_primary_wallet', {
+      user_id_param: userId,
+      address_param: wallet.address,
+    });
+
+    if (error || !updated) {
+      throw new AppError('Failed to set primary wallet', 500);
+    }
+  }
+
+  private static async getOwned(userId: string, address: string): Promise<LinkedWallet> {
+    const { data: wallet } = await supabaseAdmin
+      .from('user_wallets')
+      .select('address, is_primary, linked_at')
+      .eq('user_id', userId)
+      .eq('address', address.toLowerCase())
+      .maybeSingle();
+
+    if (!wallet) {
+      throw new NotFoundError('Wallet not linked to your account');
+    }
+
+    return wallet;
+  }
+}
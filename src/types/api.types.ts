@@ -8,6 +8,8 @@ export interface UserResponse {
   display_name?: string;
   bio?: string;
   avatar_url?: string;
+  ens_name?: string | null;
+  ens_avatar?: string | null;
   social_links?: {
     twitter?: string;
     github?: string;
@@ -21,9 +23,15 @@ export interface UserResponse {
 
 export interface AuthVerifyResponse {
   token: string;
+  refreshToken: string;
   user: UserResponse;
 }
 
+export interface AuthRefreshResponse {
+  token: string;
+  refreshToken: string;
+}
+
 export interface AuthMeResponse {
   user: UserResponse;
 }
@@ -41,6 +49,11 @@ export interface CourseResponse {
   level?: 'beginner' | 'intermediate' | 'advanced';
   is_published: boolean;
   tags?: string[];
+  price_amount?: string | null;
+  price_currency?: string | null;
+  price_decimals?: number | null;
+  price_chain_id?: number | null;
+  price_token_address?: string | null;
   instructor_id: string;
   created_at: string;
   updated_at?: string;
@@ -49,6 +62,8 @@ export interface CourseResponse {
     wallet_address: string;
     display_name?: string;
     avatar_url?: string;
+    ens_name?: string | null;
+    ens_avatar?: string | null;
   };
   lessons?: LessonResponse[];
   _count?: {
@@ -77,6 +92,24 @@ export interface EnrollmentResponse {
   course?: CourseResponse;
 }
 
+export interface PaymentIntentResponse {
+  id: string;
+  course_id: string;
+  chain_id: number;
+  token_address: string | null;
+  currency: string | null;
+  decimals: number;
+  recipient: string;
+  amount: string;
+  status: 'pending' | 'confirmed';
+  tx_hash: string | null;
+  payer_address: string | null;
+  enrollment_id: string | null;
+  expires_at: string;
+  created_at: string;
+  confirmed_at: string | null;
+}
+
 export interface ProgressResponse {
   id: string;
   user_id: string;
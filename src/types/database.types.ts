@@ -14,6 +14,195 @@ export type Database = {
   }
   public: {
     Tables: {
+      assignment_submissions: {
+        Row: {
+          assignment_id: string
+          attempt_number: number
+          content: string
+          course_id: string
+          feedback: string | null
+          graded_at: string | null
+          graded_by: string | null
+          id: string
+          max_score: number | null
+          passed: boolean | null
+          rubric_scores: Json | null
+          score: number | null
+          status: string
+          submission_type: string
+          submitted_at: string
+          user_id: string
+        }
+        Insert: {
+          assignment_id: string
+          attempt_number: number
+          content: string
+          course_id: string
+          feedback?: string | null
+          graded_at?: string | null
+          graded_by?: string | null
+          id?: string
+          max_score?: number | null
+          passed?: boolean | null
+          rubric_scores?: Json | null
+          score?: number | null
+          status?: string
+          submission_type: string
+          submitted_at?: string
+          user_id: string
+        }
+        Update: {
+          assignment_id?: string
+          attempt_number?: number
+          content?: string
+          course_id?: string
+          feedback?: string | null
+          graded_at?: string | null
+          graded_by?: string | null
+          id?: string
+          max_score?: number | null
+          passed?: boolean | null
+          rubric_scores?: Json | null
+          score?: number | null
+          status?: string
+          submission_type?: string
+          submitted_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_submissions_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_submissions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_submissions_graded_by_fkey"
+            columns: ["graded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_submissions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assignments: {
+        Row: {
+          allow_resubmission: boolean
+          contract_chain_id: number | null
+          created_at: string
+          id: string
+          instructions: string
+          lesson_id: string
+          max_submissions: number | null
+          pass_percentage: number
+          required_to_complete: boolean
+          rubric: Json
+          submission_types: string[]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          allow_resubmission?: boolean
+          contract_chain_id?: number | null
+          created_at?: string
+          id?: string
+          instructions: string
+          lesson_id: string
+          max_submissions?: number | null
+          pass_percentage?: number
+          required_to_complete?: boolean
+          rubric: Json
+          submission_types: string[]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          allow_resubmission?: boolean
+          contract_chain_id?: number | null
+          created_at?: string
+          id?: string
+          instructions?: string
+          lesson_id?: string
+          max_submissions?: number | null
+          pass_percentage?: number
+          required_to_complete?: boolean
+          rubric?: Json
+          submission_types?: string[]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignments_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      auth_sessions: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          ip_address: string | null
+          last_seen_at: string
+          revoked_at: string | null
+          revoked_reason: string | null
+          user_agent: string | null
+          user_id: string
+          wallet_address: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          ip_address?: string | null
+          last_seen_at?: string
+          revoked_at?: string | null
+          revoked_reason?: string | null
+          user_agent?: string | null
+          user_id: string
+          wallet_address: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          ip_address?: string | null
+          last_seen_at?: string
+          revoked_at?: string | null
+          revoked_reason?: string | null
+          user_agent?: string | null
+          user_id?: string
+          wallet_address?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auth_sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       certificates: {
         Row: {
           certificate_hash: string | null
@@ -21,6 +210,9 @@ export type Database = {
           id: string
           issued_at: string | null
           nft_token_id: string | null
+          path_id: string | null
+          payload: Json | null
+          signature: string | null
           user_id: string | null
         }
         Insert: {
@@ -29,6 +221,9 @@ export type Database = {
           id?: string
           issued_at?: string | null
           nft_token_id?: string | null
+          path_id?: string | null
+          payload?: Json | null
+          signature?: string | null
           user_id?: string | null
         }
         Update: {
@@ -37,6 +232,9 @@ export type Database = {
           id?: string
           issued_at?: string | null
           nft_token_id?: string | null
+          path_id?: string | null
+          payload?: Json | null
+          signature?: string | null
           user_id?: string | null
         }
         Relationships: [
@@ -48,102 +246,1036 @@ export type Database = {
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "certificates_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "certificates_path_id_fkey"
+            columns: ["path_id"]
+            isOneToOne: false
+            referencedRelation: "learning_paths"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certificates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      code_exercise_attempts: {
+        Row: {
+          compiler_version: string | null
+          errors: string[]
+          exercise_id: string
+          id: string
+          results: Json
+          source: string
+          status: string
+          submitted_at: string
+          tests_passed: number
+          tests_total: number
+          user_id: string
+        }
+        Insert: {
+          compiler_version?: string | null
+          errors?: string[]
+          exercise_id: string
+          id?: string
+          results?: Json
+          source: string
+          status: string
+          submitted_at?: string
+          tests_passed: number
+          tests_total: number
+          user_id: string
+        }
+        Update: {
+          compiler_version?: string | null
+          errors?: string[]
+          exercise_id?: string
+          id?: string
+          results?: Json
+          source?: string
+          status?: string
+          submitted_at?: string
+          tests_passed?: number
+          tests_total?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "code_exercise_attempts_exercise_id_fkey"
+            columns: ["exercise_id"]
+            isOneToOne: false
+            referencedRelation: "code_exercises"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "code_exercise_attempts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      code_exercises: {
+        Row: {
+          created_at: string
+          gas_limit: number
+          id: string
+          instructions: string
+          lesson_id: string
+          required_to_complete: boolean
+          solution_source: string
+          starter_code: string | null
+          test_cases: string[]
+          test_source: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          gas_limit?: number
+          id?: string
+          instructions: string
+          lesson_id: string
+          required_to_complete?: boolean
+          solution_source: string
+          starter_code?: string | null
+          test_cases: string[]
+          test_source: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          gas_limit?: number
+          id?: string
+          instructions?: string
+          lesson_id?: string
+          required_to_complete?: boolean
+          solution_source?: string
+          starter_code?: string | null
+          test_cases?: string[]
+          test_source?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "code_exercises_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coupon_redemptions: {
+        Row: {
+          coupon_id: string
+          course_id: string
+          discount_amount: string
+          enrollment_id: string | null
+          final_amount: string
+          id: string
+          list_amount: string
+          payment_intent_id: string | null
+          redeemed_at: string
+          user_id: string
+          wallet_address: string
+        }
+        Insert: {
+          coupon_id: string
+          course_id: string
+          discount_amount: string
+          enrollment_id?: string | null
+          final_amount: string
+          id?: string
+          list_amount: string
+          payment_intent_id?: string | null
+          redeemed_at?: string
+          user_id: string
+          wallet_address: string
+        }
+        Update: {
+          coupon_id?: string
+          course_id?: string
+          discount_amount?: string
+          enrollment_id?: string | null
+          final_amount?: string
+          id?: string
+          list_amount?: string
+          payment_intent_id?: string | null
+          redeemed_at?: string
+          user_id?: string
+          wallet_address?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coupon_redemptions_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupon_redemptions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupon_redemptions_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupon_redemptions_payment_intent_id_fkey"
+            columns: ["payment_intent_id"]
+            isOneToOne: false
+            referencedRelation: "payment_intents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupon_redemptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coupons: {
+        Row: {
+          amount_off: string | null
+          code: string
+          course_id: string | null
+          created_at: string
+          currency: string | null
+          discount_type: string
+          expires_at: string | null
+          id: string
+          instructor_id: string
+          is_active: boolean
+          max_redemptions: number | null
+          per_wallet_limit: number | null
+          percent_off: number | null
+          redemption_count: number
+        }
+        Insert: {
+          amount_off?: string | null
+          code: string
+          course_id?: string | null
+          created_at?: string
+          currency?: string | null
+          discount_type: string
+          expires_at?: string | null
+          id?: string
+          instructor_id: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          per_wallet_limit?: number | null
+          percent_off?: number | null
+          redemption_count?: number
+        }
+        Update: {
+          amount_off?: string | null
+          code?: string
+          course_id?: string | null
+          created_at?: string
+          currency?: string | null
+          discount_type?: string
+          expires_at?: string | null
+          id?: string
+          instructor_id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          per_wallet_limit?: number | null
+          percent_off?: number | null
+          redemption_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coupons_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupons_instructor_id_fkey"
+            columns: ["instructor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_access_rules: {
+        Row: {
+          chain_id: number | null
+          contract_address: string | null
+          course_id: string
+          created_at: string
+          description: string | null
+          id: string
+          merkle_root: string | null
+          min_balance: string | null
+          rule_type: string
+          token_id: string | null
+        }
+        Insert: {
+          chain_id?: number | null
+          contract_address?: string | null
+          course_id: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          merkle_root?: string | null
+          min_balance?: string | null
+          rule_type: string
+          token_id?: string | null
+        }
+        Update: {
+          chain_id?: number | null
+          contract_address?: string | null
+          course_id?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          merkle_root?: string | null
+          min_balance?: string | null
+          rule_type?: string
+          token_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_access_rules_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_allowlist_proofs: {
+        Row: {
+          address: string
+          created_at: string
+          id: string
+          proof: Json
+          rule_id: string
+          user_id: string
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          id?: string
+          proof: Json
+          rule_id: string
+          user_id: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          id?: string
+          proof?: Json
+          rule_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_allowlist_proofs_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "course_access_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_allowlist_proofs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_members: {
+        Row: {
+          accepted_at: string | null
+          course_id: string
+          id: string
+          invited_at: string
+          invited_by: string | null
+          permissions: string[] | null
+          role: string
+          status: string
+          user_id: string | null
+          wallet_address: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          course_id: string
+          id?: string
+          invited_at?: string
+          invited_by?: string | null
+          permissions?: string[] | null
+          role: string
+          status?: string
+          user_id?: string | null
+          wallet_address: string
+        }
+        Update: {
+          accepted_at?: string | null
+          course_id?: string
+          id?: string
+          invited_at?: string
+          invited_by?: string | null
+          permissions?: string[] | null
+          role?: string
+          status?: string
+          user_id?: string | null
+          wallet_address?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_members_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_members_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_prerequisites: {
+        Row: {
+          course_id: string
+          created_at: string
+          enforcement: string
+          prerequisite_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          enforcement?: string
+          prerequisite_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          enforcement?: string
+          prerequisite_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_prerequisites_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_prerequisites_prerequisite_id_fkey"
+            columns: ["prerequisite_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_revisions: {
+        Row: {
+          based_on_version: number | null
+          course_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          published_at: string | null
+          published_by: string | null
+          rolled_back_from: number | null
+          snapshot: Json
+          status: string
+          updated_at: string
+          version: number | null
+        }
+        Insert: {
+          based_on_version?: number | null
+          course_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          published_at?: string | null
+          published_by?: string | null
+          rolled_back_from?: number | null
+          snapshot: Json
+          status?: string
+          updated_at?: string
+          version?: number | null
+        }
+        Update: {
+          based_on_version?: number | null
+          course_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          published_at?: string | null
+          published_by?: string | null
+          rolled_back_from?: number | null
+          snapshot?: Json
+          status?: string
+          updated_at?: string
+          version?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_revisions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_revisions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_revisions_published_by_fkey"
+            columns: ["published_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      courses: {
+        Row: {
+          access_rule_mode: string | null
+          category: string | null
+          completion_all_lessons: boolean
+          completion_min_quiz_score: number | null
+          completion_requires_assignments: boolean
+          created_at: string | null
+          description: string
+          duplicated_from: string | null
+          id: string
+          instructor_id: string | null
+          is_public: boolean | null
+          is_published: boolean | null
+          is_template: boolean
+          level: string | null
+          price_amount: string | null
+          price_chain_id: number | null
+          price_currency: string | null
+          price_decimals: number | null
+          price_token_address: string | null
+          publish_at: string | null
+          published_version: number | null
+          sequential: boolean
+          tags: string[] | null
+          thumbnail_url: string | null
+          title: string
+          unpublish_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          access_rule_mode?: string | null
+          category?: string | null
+          completion_all_lessons?: boolean
+          completion_min_quiz_score?: number | null
+          completion_requires_assignments?: boolean
+          created_at?: string | null
+          description: string
+          duplicated_from?: string | null
+          id?: string
+          instructor_id?: string | null
+          is_public?: boolean | null
+          is_published?: boolean | null
+          is_template?: boolean
+          level?: string | null
+          price_amount?: string | null
+          price_chain_id?: number | null
+          price_currency?: string | null
+          price_decimals?: number | null
+          price_token_address?: string | null
+          publish_at?: string | null
+          published_version?: number | null
+          sequential?: boolean
+          tags?: string[] | null
+          thumbnail_url?: string | null
+          title: string
+          unpublish_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          access_rule_mode?: string | null
+          category?: string | null
+          completion_all_lessons?: boolean
+          completion_min_quiz_score?: number | null
+          completion_requires_assignments?: boolean
+          created_at?: string | null
+          description?: string
+          duplicated_from?: string | null
+          id?: string
+          instructor_id?: string | null
+          is_public?: boolean | null
+          is_published?: boolean | null
+          is_template?: boolean
+          level?: string | null
+          price_amount?: string | null
+          price_chain_id?: number | null
+          price_currency?: string | null
+          price_decimals?: number | null
+          price_token_address?: string | null
+          publish_at?: string | null
+          published_version?: number | null
+          sequential?: boolean
+          tags?: string[] | null
+          thumbnail_url?: string | null
+          title?: string
+          unpublish_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "courses_duplicated_from_fkey"
+            columns: ["duplicated_from"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "courses_instructor_id_fkey"
+            columns: ["instructor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      enrollments: {
+        Row: {
+          completed_at: string | null
+          course_id: string | null
+          enrolled_at: string | null
+          id: string
+          progress_percentage: number | null
+          user_id: string | null
+        }
+        Insert: {
+          completed_at?: string | null
+          course_id?: string | null
+          enrolled_at?: string | null
+          id?: string
+          progress_percentage?: number | null
+          user_id?: string | null
+        }
+        Update: {
+          completed_at?: string | null
+          course_id?: string | null
+          enrolled_at?: string | null
+          id?: string
+          progress_percentage?: number | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollments_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      instructor_payouts: {
+        Row: {
+          amount: string
+          chain_id: number
+          created_at: string
+          currency: string | null
+          decimals: number
+          id: string
+          instructor_id: string
+          note: string | null
+          paid_at: string
+          recipient_address: string
+          recorded_by: string | null
+          token_address: string | null
+          tx_hash: string
+        }
+        Insert: {
+          amount: string
+          chain_id: number
+          created_at?: string
+          currency?: string | null
+          decimals?: number
+          id?: string
+          instructor_id: string
+          note?: string | null
+          paid_at?: string
+          recipient_address: string
+          recorded_by?: string | null
+          token_address?: string | null
+          tx_hash: string
+        }
+        Update: {
+          amount?: string
+          chain_id?: number
+          created_at?: string
+          currency?: string | null
+          decimals?: number
+          id?: string
+          instructor_id?: string
+          note?: string | null
+          paid_at?: string
+          recipient_address?: string
+          recorded_by?: string | null
+          token_address?: string | null
+          tx_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "instructor_payouts_instructor_id_fkey"
+            columns: ["instructor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "instructor_payouts_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learning_path_courses: {
+        Row: {
+          course_id: string
+          order: number
+          path_id: string
+        }
+        Insert: {
+          course_id: string
+          order: number
+          path_id: string
+        }
+        Update: {
+          course_id?: string
+          order?: number
+          path_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learning_path_courses_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "learning_path_courses_path_id_fkey"
+            columns: ["path_id"]
+            isOneToOne: false
+            referencedRelation: "learning_paths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learning_paths: {
+        Row: {
+          created_at: string
+          creator_id: string
+          description: string | null
+          id: string
+          is_published: boolean
+          slug: string
+          thumbnail_url: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          creator_id: string
+          description?: string | null
+          id?: string
+          is_published?: boolean
+          slug: string
+          thumbnail_url?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          creator_id?: string
+          description?: string | null
+          id?: string
+          is_published?: boolean
+          slug?: string
+          thumbnail_url?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learning_paths_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_progress: {
+        Row: {
+          completed: boolean | null
+          completed_at: string | null
+          enrollment_id: string | null
+          exercise_results: Json | null
+          id: string
+          last_position: number | null
+          lesson_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          completed?: boolean | null
+          completed_at?: string | null
+          enrollment_id?: string | null
+          exercise_results?: Json | null
+          id?: string
+          last_position?: number | null
+          lesson_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          completed?: boolean | null
+          completed_at?: string | null
+          enrollment_id?: string | null
+          exercise_results?: Json | null
+          id?: string
+          last_position?: number | null
+          lesson_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_progress_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lesson_progress_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lesson_progress_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lessons: {
+        Row: {
+          content: string | null
+          course_id: string | null
+          created_at: string | null
+          description: string | null
+          duration_minutes: number | null
+          id: string
+          is_preview: boolean
+          order: number
+          release_after_days: number | null
+          release_at: string | null
+          section_id: string | null
+          title: string
+          updated_at: string | null
+          video_url: string | null
+        }
+        Insert: {
+          content?: string | null
+          course_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          duration_minutes?: number | null
+          id?: string
+          is_preview?: boolean
+          order: number
+          release_after_days?: number | null
+          release_at?: string | null
+          section_id?: string | null
+          title: string
+          updated_at?: string | null
+          video_url?: string | null
+        }
+        Update: {
+          content?: string | null
+          course_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          duration_minutes?: number | null
+          id?: string
+          is_preview?: boolean
+          order?: number
+          release_after_days?: number | null
+          release_at?: string | null
+          section_id?: string | null
+          title?: string
+          updated_at?: string | null
+          video_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lessons_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lessons_section_id_fkey"
+            columns: ["section_id"]
             isOneToOne: false
-            referencedRelation: "users"
+            referencedRelation: "sections"
             referencedColumns: ["id"]
           },
         ]
       }
-      courses: {
+      nonces: {
         Row: {
-          category: string | null
+          address: string
           created_at: string | null
-          description: string
+          expires_at: string
           id: string
-          instructor_id: string | null
-          is_public: boolean | null
-          is_published: boolean | null
-          level: string | null
-          tags: string[] | null
-          thumbnail_url: string | null
-          title: string
-          updated_at: string | null
+          nonce: string
         }
         Insert: {
-          category?: string | null
+          address: string
           created_at?: string | null
-          description: string
+          expires_at: string
           id?: string
-          instructor_id?: string | null
-          is_public?: boolean | null
-          is_published?: boolean | null
-          level?: string | null
-          tags?: string[] | null
-          thumbnail_url?: string | null
-          title: string
-          updated_at?: string | null
+          nonce: string
         }
         Update: {
-          category?: string | null
+          address?: string
           created_at?: string | null
-          description?: string
+          expires_at?: string
           id?: string
-          instructor_id?: string | null
-          is_public?: boolean | null
-          is_published?: boolean | null
-          level?: string | null
-          tags?: string[] | null
-          thumbnail_url?: string | null
+          nonce?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          data: Json
+          id: string
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          read_at?: string | null
           title?: string
-          updated_at?: string | null
+          type?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "courses_instructor_id_fkey"
-            columns: ["instructor_id"]
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
         ]
       }
-      enrollments: {
+      path_enrollments: {
         Row: {
           completed_at: string | null
-          course_id: string | null
-          enrolled_at: string | null
+          enrolled_at: string
           id: string
-          progress_percentage: number | null
-          user_id: string | null
+          path_id: string
+          user_id: string
         }
         Insert: {
           completed_at?: string | null
-          course_id?: string | null
-          enrolled_at?: string | null
+          enrolled_at?: string
           id?: string
-          progress_percentage?: number | null
-          user_id?: string | null
+          path_id: string
+          user_id: string
         }
         Update: {
           completed_at?: string | null
-          course_id?: string | null
-          enrolled_at?: string | null
+          enrolled_at?: string
           id?: string
-          progress_percentage?: number | null
-          user_id?: string | null
+          path_id?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "enrollments_course_id_fkey"
-            columns: ["course_id"]
+            foreignKeyName: "path_enrollments_path_id_fkey"
+            columns: ["path_id"]
             isOneToOne: false
-            referencedRelation: "courses"
+            referencedRelation: "learning_paths"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "enrollments_user_id_fkey"
+            foreignKeyName: "path_enrollments_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "users"
@@ -151,51 +1283,151 @@ export type Database = {
           },
         ]
       }
-      lesson_progress: {
+      payment_intents: {
         Row: {
-          completed: boolean | null
-          completed_at: string | null
+          amount: string
+          chain_id: number
+          confirmed_at: string | null
+          coupon_id: string | null
+          coupon_reserved_at: string | null
+          course_id: string
+          created_at: string
+          currency: string | null
+          decimals: number
+          discount_amount: string | null
           enrollment_id: string | null
+          expires_at: string
           id: string
-          last_position: number | null
-          lesson_id: string | null
-          user_id: string | null
+          list_amount: string | null
+          payer_address: string | null
+          platform_fee_bps: number
+          recipient: string
+          status: string
+          token_address: string | null
+          tx_hash: string | null
+          user_id: string
         }
         Insert: {
-          completed?: boolean | null
-          completed_at?: string | null
+          amount: string
+          chain_id: number
+          confirmed_at?: string | null
+          coupon_id?: string | null
+          coupon_reserved_at?: string | null
+          course_id: string
+          created_at?: string
+          currency?: string | null
+          decimals?: number
+          discount_amount?: string | null
           enrollment_id?: string | null
+          expires_at: string
           id?: string
-          last_position?: number | null
-          lesson_id?: string | null
-          user_id?: string | null
+          list_amount?: string | null
+          payer_address?: string | null
+          platform_fee_bps?: number
+          recipient: string
+          status?: string
+          token_address?: string | null
+          tx_hash?: string | null
+          user_id: string
         }
         Update: {
-          completed?: boolean | null
-          completed_at?: string | null
+          amount?: string
+          chain_id?: number
+          confirmed_at?: string | null
+          coupon_id?: string | null
+          coupon_reserved_at?: string | null
+          course_id?: string
+          created_at?: string
+          currency?: string | null
+          decimals?: number
+          discount_amount?: string | null
           enrollment_id?: string | null
+          expires_at?: string
           id?: string
-          last_position?: number | null
-          lesson_id?: string | null
-          user_id?: string | null
+          list_amount?: string | null
+          payer_address?: string | null
+          platform_fee_bps?: number
+          recipient?: string
+          status?: string
+          token_address?: string | null
+          tx_hash?: string | null
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "lesson_progress_enrollment_id_fkey"
+            foreignKeyName: "payment_intents_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_intents_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_intents_enrollment_id_fkey"
             columns: ["enrollment_id"]
             isOneToOne: false
             referencedRelation: "enrollments"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "lesson_progress_lesson_id_fkey"
-            columns: ["lesson_id"]
+            foreignKeyName: "payment_intents_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "lessons"
+            referencedRelation: "users"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      quiz_attempts: {
+        Row: {
+          answers: Json
+          id: string
+          max_score: number
+          passed: boolean
+          quiz_id: string
+          results: Json
+          score: number
+          submitted_at: string
+          user_id: string
+        }
+        Insert: {
+          answers: Json
+          id?: string
+          max_score: number
+          passed: boolean
+          quiz_id: string
+          results: Json
+          score: number
+          submitted_at?: string
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          id?: string
+          max_score?: number
+          passed?: boolean
+          quiz_id?: string
+          results?: Json
+          score?: number
+          submitted_at?: string
+          user_id?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "lesson_progress_user_id_fkey"
+            foreignKeyName: "quiz_attempts_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "users"
@@ -203,46 +1435,166 @@ export type Database = {
           },
         ]
       }
-      lessons: {
+      quiz_questions: {
         Row: {
-          content: string | null
-          course_id: string | null
+          correct_answer: Json
+          created_at: string
+          explanation: string | null
+          id: string
+          options: Json | null
+          order: number
+          points: number
+          prompt: string
+          quiz_id: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          correct_answer: Json
+          created_at?: string
+          explanation?: string | null
+          id?: string
+          options?: Json | null
+          order: number
+          points?: number
+          prompt: string
+          quiz_id: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          correct_answer?: Json
+          created_at?: string
+          explanation?: string | null
+          id?: string
+          options?: Json | null
+          order?: number
+          points?: number
+          prompt?: string
+          quiz_id?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_questions_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quizzes: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          lesson_id: string
+          max_attempts: number | null
+          pass_percentage: number
+          required_to_complete: boolean
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          lesson_id: string
+          max_attempts?: number | null
+          pass_percentage?: number
+          required_to_complete?: boolean
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          lesson_id?: string
+          max_attempts?: number | null
+          pass_percentage?: number
+          required_to_complete?: boolean
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quizzes_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refresh_tokens: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          session_id: string
+          token_hash: string
+          used_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          session_id: string
+          token_hash: string
+          used_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          session_id?: string
+          token_hash?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refresh_tokens_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "auth_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sections: {
+        Row: {
+          course_id: string
           created_at: string | null
           description: string | null
-          duration_minutes: number | null
           id: string
           order: number
           title: string
           updated_at: string | null
-          video_url: string | null
         }
         Insert: {
-          content?: string | null
-          course_id?: string | null
+          course_id: string
           created_at?: string | null
           description?: string | null
-          duration_minutes?: number | null
           id?: string
           order: number
           title: string
           updated_at?: string | null
-          video_url?: string | null
         }
         Update: {
-          content?: string | null
-          course_id?: string | null
+          course_id?: string
           created_at?: string | null
           description?: string | null
-          duration_minutes?: number | null
           id?: string
           order?: number
           title?: string
           updated_at?: string | null
-          video_url?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "lessons_course_id_fkey"
+            foreignKeyName: "sections_course_id_fkey"
             columns: ["course_id"]
             isOneToOne: false
             referencedRelation: "courses"
@@ -250,29 +1602,37 @@ export type Database = {
           },
         ]
       }
-      nonces: {
+      user_wallets: {
         Row: {
           address: string
-          created_at: string | null
-          expires_at: string
           id: string
-          nonce: string
+          is_primary: boolean
+          linked_at: string
+          user_id: string
         }
         Insert: {
           address: string
-          created_at?: string | null
-          expires_at: string
           id?: string
-          nonce: string
+          is_primary?: boolean
+          linked_at?: string
+          user_id: string
         }
         Update: {
           address?: string
-          created_at?: string | null
-          expires_at?: string
           id?: string
-          nonce?: string
+          is_primary?: boolean
+          linked_at?: string
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_wallets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       users: {
         Row: {
@@ -318,7 +1678,147 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_course_snapshot: {
+        Args: {
+          course_id_param: string
+          snapshot_param: Json
+        }
+        Returns: undefined
+      }
       clean_expired_nonces: { Args: never; Returns: undefined }
+      clean_expired_sessions: { Args: never; Returns: undefined }
+      confirm_payment_intent: {
+        Args: {
+          intent_id_param: string
+          payer_address_param: string
+          tx_hash_param: string
+        }
+        Returns: string
+      }
+      duplicate_course: {
+        Args: {
+          include_settings_param: boolean
+          instructor_id_param: string
+          keep_videos_param: boolean
+          source_id_param: string
+          title_param: string | null
+        }
+        Returns: string
+      }
+      enroll_with_coupon: {
+        Args: {
+          coupon_id_param: string
+          course_id_param: string
+          list_amount_param: string
+          user_id_param: string
+          wallet_address_param: string
+        }
+        Returns: string
+      }
+      pending_coupon_reservations: {
+        Args: {
+          coupon_id_param: string
+          course_id_param: string
+          only_user_param: boolean
+          user_id_param: string
+        }
+        Returns: number
+      }
+      publish_course_draft: {
+        Args: {
+          draft_id_param: string
+          force_param?: boolean
+          published_by_param: string
+        }
+        Returns: number
+      }
+      record_coupon_redemption: {
+        Args: {
+          coupon_id_param: string
+          course_id_param: string
+          discount_amount_param: string
+          enrollment_id_param: string
+          final_amount_param: string
+          list_amount_param: string
+          payment_intent_id_param: string
+          user_id_param: string
+          wallet_address_param: string
+        }
+        Returns: undefined
+      }
+      record_quiz_attempt: {
+        Args: {
+          answers_param: Json
+          max_score_param: number
+          passed_param: boolean
+          quiz_id_param: string
+          results_param: Json
+          score_param: number
+          user_id_param: string
+        }
+        Returns: string
+      }
+      renumber_lessons: {
+        Args: {
+          course_id_param: string
+        }
+        Returns: undefined
+      }
+      reorder_lessons: {
+        Args: {
+          course_id_param: string
+          lesson_ids_param: string[]
+          section_assignments_param?: Json
+        }
+        Returns: undefined
+      }
+      reserve_coupon: {
+        Args: {
+          intent_id_param: string
+          wallet_addresses_param: string[]
+        }
+        Returns: undefined
+      }
+      rollback_course_revision: {
+        Args: {
+          course_id_param: string
+          published_by_param: string
+          version_param: number
+        }
+        Returns: number
+      }
+      set_course_prerequisites: {
+        Args: {
+          course_id_param: string
+          prerequisites_param: Json
+        }
+        Returns: undefined
+      }
+      set_learning_path_courses: {
+        Args: {
+          course_ids_param: string[]
+          path_id_param: string
+        }
+        Returns: undefined
+      }
+      set_primary_wallet: {
+        Args: { address_param: string; user_id_param: string }
+        Returns: boolean
+      }
+      sign_in_wallet: {
+        Args: { address_param: string }
+        Returns: string
+      }
+      submit_assignment: {
+        Args: {
+          assignment_id_param: string
+          content_param: string
+          course_id_param: string
+          submission_type_param: string
+          user_id_param: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
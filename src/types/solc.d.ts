@@ -0,0 +1,18 @@
+// solc-js ships without type declarations; only the parts used by the exercise runner
+
+declare module 'solc' {
+  interface ImportResult {
+    contents?: string;
+    error?: string;
+  }
+
+  interface Solc {
+    /** Compile a Standard JSON input, returns the Standard JSON output */
+    compile(input: string, callbacks?: { import?: (path: string) => ImportResult }): string;
+    /** Version of the bundled compiler, e.g. 0.8.28+commit.7893614a.Emscripten.clang */
+    version(): string;
+  }
+
+  const solc: Solc;
+  export default solc;
+}
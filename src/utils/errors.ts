@@ -1,11 +1,14 @@
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  code?: string;
+  details?: unknown;
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, code?: string) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.code = code;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -46,3 +49,144 @@ export class RateLimitError extends AppError {
     super(message, 429);
   }
 }
+
+export type SiweErrorCode =
+  | 'SIWE_INVALID_MESSAGE'
+  | 'SIWE_DOMAIN_NOT_ALLOWED'
+  | 'SIWE_URI_NOT_ALLOWED'
+  | 'SIWE_CHAIN_NOT_ALLOWED'
+  | 'SIWE_STATEMENT_MISMATCH'
+  | 'SIWE_ISSUED_IN_FUTURE'
+  | 'SIWE_MESSAGE_TOO_OLD'
+  | 'SIWE_MESSAGE_EXPIRED'
+  | 'SIWE_MESSAGE_NOT_YET_VALID'
+  | 'SIWE_INVALID_SIGNATURE'
+  | 'SIWE_INVALID_NONCE';
+
+export class SiweValidationError extends AppError {
+  constructor(code: SiweErrorCode, message: string, statusCode: number = 401) {
+    super(message, statusCode, code);
+  }
+}
+
+/**
+ * Learner does not satisfy a course's token-gating rules.
+ * `details` lists each requirement and whether it was met.
+ */
+export class AccessRequirementError extends AppError {
+  constructor(message: string, details: unknown) {
+    super(message, 403, 'ACCESS_REQUIREMENT_NOT_MET');
+    this.details = details;
+  }
+}
+
+/**
+ * Lesson has not been released to the learner yet.
+ * `details` holds the lesson id and when it unlocks.
+ */
+export class LessonLockedError extends AppError {
+  constructor(message: string, details: unknown) {
+    super(message, 403, 'LESSON_LOCKED');
+    this.details = details;
+  }
+}
+
+/**
+ * Learner has not completed the required prerequisite courses.
+ * `details` lists each prerequisite and whether it is completed.
+ */
+export class PrerequisiteError extends AppError {
+  constructor(message: string, details: unknown) {
+    super(message, 403, 'PREREQUISITES_NOT_MET');
+    this.details = details;
+  }
+}
+
+export type PaymentErrorCode =
+  | 'PAYMENT_REQUIRED'
+  | 'PAYMENTS_DISABLED'
+  | 'PAYMENT_TX_NOT_FOUND'
+  | 'PAYMENT_TX_PENDING'
+  | 'PAYMENT_TX_FAILED'
+  | 'PAYMENT_TX_MISMATCH'
+  | 'PAYMENT_TX_OUTSIDE_WINDOW'
+  | 'PAYMENT_TX_ALREADY_USED'
+  | 'PAYMENT_INTENT_ALREADY_CONFIRMED';
+
+export class PaymentError extends AppError {
+  constructor(code: PaymentErrorCode, message: string, statusCode: number = 400) {
+    super(message, statusCode, code);
+  }
+}
+
+export type CouponErrorCode =
+  | 'COUPON_NOT_FOUND'
+  | 'COUPON_INACTIVE'
+  | 'COUPON_EXPIRED'
+  | 'COUPON_NOT_APPLICABLE'
+  | 'COUPON_EXHAUSTED'
+  | 'COUPON_WALLET_LIMIT';
+
+export class CouponError extends AppError {
+  constructor(code: CouponErrorCode, message: string, statusCode: number = 400) {
+    super(message, statusCode, code);
+  }
+}
+
+export type RevisionErrorCode =
+  | 'COURSE_PUBLISHED'
+  | 'DRAFT_NOT_FOUND'
+  | 'DRAFT_OUTDATED'
+  | 'REVISION_NOT_FOUND'
+  | 'REVISION_ID_CONFLICT';
+
+export class RevisionError extends AppError {
+  constructor(code: RevisionErrorCode, message: string, statusCode: number = 409) {
+    super(message, statusCode, code);
+  }
+}
+
+export type QuizErrorCode =
+  | 'QUIZ_NOT_PASSED'
+  | 'QUIZ_MAX_ATTEMPTS_REACHED';
+
+export class QuizError extends AppError {
+  constructor(code: QuizErrorCode, message: string, statusCode: number = 403) {
+    super(message, statusCode, code);
+  }
+}
+
+export type AssignmentErrorCode =
+  | 'ASSIGNMENT_NOT_PASSED'
+  | 'SUBMISSION_PENDING'
+  | 'ASSIGNMENT_ALREADY_PASSED'
+  | 'RESUBMISSION_NOT_ALLOWED'
+  | 'MAX_SUBMISSIONS_REACHED'
+  | 'SUBMISSION_ALREADY_GRADED';
+
+export class AssignmentError extends AppError {
+  constructor(code: AssignmentErrorCode, message: string, statusCode: number = 409) {
+    super(message, statusCode, code);
+  }
+}
+
+export type ExerciseErrorCode =
+  | 'EXERCISE_NOT_PASSED'
+  | 'EXERCISE_RUNNER_BUSY';
+
+export class ExerciseError extends AppError {
+  constructor(code: ExerciseErrorCode, message: string, statusCode: number = 403) {
+    super(message, statusCode, code);
+  }
+}
+
+/**
+ * Reference solution of a code exercise does not pass the exercise's tests.
+ * `details` holds the test run.
+ */
+export class ExerciseSolutionError extends AppError {
+  constructor(message: string, details: unknown) {
+    super(message, 400, 'SOLUTION_FAILS_TESTS');
+    this.details = details;
+  }
+}
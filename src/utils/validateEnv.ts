@@ -12,15 +12,36 @@ interface EnvConfig {
   // JWT
   JWT_SECRET: string;
   JWT_EXPIRES_IN: string;
+  REFRESH_TOKEN_TTL_DAYS?: string;
 
   // Server
   NODE_ENV: string;
   PORT: string;
   FRONTEND_URL: string;
 
-  // SIWE
+  // SIWE (domain and origin accept comma-separated lists)
   SIWE_DOMAIN: string;
   SIWE_ORIGIN: string;
+  SIWE_ALLOWED_CHAIN_IDS?: string;
+  SIWE_MAX_MESSAGE_AGE_SECONDS?: string;
+  SIWE_STATEMENT?: string;
+
+  // Optional: Ethereum JSON-RPC (for smart contract wallets and other on-chain reads)
+  ETH_RPC_URL?: string;
+  ETH_RPC_URLS?: string;
+
+  // Optional: Paid enrollment (payments are disabled without a recipient)
+  PAYMENT_RECIPIENT_ADDRESS?: string;
+  PAYMENT_INTENT_TTL_MINUTES?: string;
+  PAYMENT_MIN_CONFIRMATIONS?: string;
+  PLATFORM_FEE_BPS?: string;
+
+  // Optional: How often scheduled publish/unpublish times are applied (0 disables)
+  PUBLISH_SCHEDULER_INTERVAL_SECONDS?: string;
+
+  // Optional: Certificate signing (certificates are issued unsigned without a key)
+  CERTIFICATE_SIGNER_PRIVATE_KEY?: string;
+  CERTIFICATE_TRUSTED_SIGNERS?: string;
 
   // Optional: Cloudflare (for video uploads)
   CLOUDFLARE_ACCOUNT_ID?: string;
@@ -57,6 +78,13 @@ const REQUIRED_ENV_VARS = [
  * Optional environment variables with defaults
  */
 const OPTIONAL_ENV_VARS = {
+  REFRESH_TOKEN_TTL_DAYS: '30',
+  SIWE_ALLOWED_CHAIN_IDS: '1',
+  SIWE_MAX_MESSAGE_AGE_SECONDS: '600',
+  PAYMENT_INTENT_TTL_MINUTES: '30',
+  PAYMENT_MIN_CONFIRMATIONS: '1',
+  PLATFORM_FEE_BPS: '0',
+  PUBLISH_SCHEDULER_INTERVAL_SECONDS: '60',
   RATE_LIMIT_WINDOW_MS: '900000',
   RATE_LIMIT_MAX_REQUESTS: '100'
 } as const;
@@ -89,6 +117,11 @@ export function validateEnv(): EnvConfig {
     errors.push('JWT_SECRET must be at least 32 characters long for security');
   }
 
+  const refreshTtl = process.env.REFRESH_TOKEN_TTL_DAYS;
+  if (refreshTtl && (isNaN(Number(refreshTtl)) || Number(refreshTtl) <= 0)) {
+    errors.push('REFRESH_TOKEN_TTL_DAYS must be a positive number of days');
+  }
+
   const nodeEnv = process.env.NODE_ENV;
   if (nodeEnv && !['development', 'production', 'test'].includes(nodeEnv)) {
     warnings.push('NODE_ENV should be one of: development, production, test');
@@ -104,6 +137,67 @@ export function validateEnv(): EnvConfig {
     errors.push('FRONTEND_URL must be a valid URL starting with http:// or https://');
   }
 
+  const siweOrigins = process.env.SIWE_ORIGIN;
+  if (siweOrigins && siweOrigins.split(',').some(origin => !origin.trim().startsWith('http'))) {
+    errors.push('SIWE_ORIGIN must be a comma-separated list of URLs starting with http:// or https://');
+  }
+
+  const siweChainIds = process.env.SIWE_ALLOWED_CHAIN_IDS;
+  if (siweChainIds && siweChainIds.split(',').some(id => !/^\d+$/.test(id.trim()))) {
+    errors.push('SIWE_ALLOWED_CHAIN_IDS must be a comma-separated list of numeric chain IDs');
+  }
+
+  const siweMaxAge = process.env.SIWE_MAX_MESSAGE_AGE_SECONDS;
+  if (siweMaxAge && (isNaN(Number(siweMaxAge)) || Number(siweMaxAge) <= 0)) {
+    errors.push('SIWE_MAX_MESSAGE_AGE_SECONDS must be a positive number');
+  }
+
+  const ethRpcUrls = process.env.ETH_RPC_URLS;
+  if (ethRpcUrls && ethRpcUrls.split(',').some(entry => !/^\d+=https?:\/\//.test(entry.trim()))) {
+    errors.push('ETH_RPC_URLS must be a comma-separated list of chainId=url pairs');
+  }
+
+  if (!process.env.ETH_RPC_URL && !ethRpcUrls) {
+    warnings.push('No ETH_RPC_URL configured: smart contract wallet (ERC-1271/6492) sign-in is disabled');
+  }
+
+  const paymentRecipient = process.env.PAYMENT_RECIPIENT_ADDRESS;
+  if (paymentRecipient && !/^0x[a-fA-F0-9]{40}$/.test(paymentRecipient)) {
+    errors.push('PAYMENT_RECIPIENT_ADDRESS must be a valid Ethereum address');
+  }
+
+  const intentTtl = process.env.PAYMENT_INTENT_TTL_MINUTES;
+  if (intentTtl && (isNaN(Number(intentTtl)) || Number(intentTtl) <= 0)) {
+    errors.push('PAYMENT_INTENT_TTL_MINUTES must be a positive number of minutes');
+  }
+
+  const minConfirmations = process.env.PAYMENT_MIN_CONFIRMATIONS;
+  if (minConfirmations && !/^\d+$/.test(minConfirmations)) {
+    errors.push('PAYMENT_MIN_CONFIRMATIONS must be a non-negative integer');
+  }
+
+  const platformFee = process.env.PLATFORM_FEE_BPS;
+  if (platformFee && (!/^\d+$/.test(platformFee) || Number(platformFee) > 10000)) {
+    errors.push('PLATFORM_FEE_BPS must be an integer between 0 and 10000 (basis points)');
+  }
+
+  const schedulerInterval = process.env.PUBLISH_SCHEDULER_INTERVAL_SECONDS;
+  if (schedulerInterval && !/^\d+$/.test(schedulerInterval)) {
+    errors.push('PUBLISH_SCHEDULER_INTERVAL_SECONDS must be a non-negative integer (0 disables the scheduler)');
+  }
+
+  const certificateKey = process.env.CERTIFICATE_SIGNER_PRIVATE_KEY;
+  if (certificateKey && !/^0x[a-fA-F0-9]{64}$/.test(certificateKey)) {
+    errors.push('CERTIFICATE_SIGNER_PRIVATE_KEY must be a 32-byte hex private key');
+  } else if (!certificateKey) {
+    warnings.push('No CERTIFICATE_SIGNER_PRIVATE_KEY configured: certificates are issued unsigned and fail verification');
+  }
+
+  const trustedSigners = process.env.CERTIFICATE_TRUSTED_SIGNERS;
+  if (trustedSigners && trustedSigners.split(',').some(address => !/^0x[a-fA-F0-9]{40}$/.test(address.trim()))) {
+    errors.push('CERTIFICATE_TRUSTED_SIGNERS must be a comma-separated list of Ethereum addresses');
+  }
+
   // Check optional Cloudflare config (both or neither)
   const hasCloudflareAccount = process.env.CLOUDFLARE_ACCOUNT_ID;
   const hasCloudflareToken = process.env.CLOUDFLARE_STREAM_TOKEN;
@@ -134,11 +228,24 @@ export function validateEnv(): EnvConfig {
     SUPABASE_SERVICE_KEY: process.env.SUPABASE_SERVICE_KEY!,
     JWT_SECRET: process.env.JWT_SECRET!,
     JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN!,
+    REFRESH_TOKEN_TTL_DAYS: process.env.REFRESH_TOKEN_TTL_DAYS || OPTIONAL_ENV_VARS.REFRESH_TOKEN_TTL_DAYS,
     NODE_ENV: process.env.NODE_ENV!,
     PORT: process.env.PORT!,
     FRONTEND_URL: process.env.FRONTEND_URL!,
     SIWE_DOMAIN: process.env.SIWE_DOMAIN!,
     SIWE_ORIGIN: process.env.SIWE_ORIGIN!,
+    SIWE_ALLOWED_CHAIN_IDS: process.env.SIWE_ALLOWED_CHAIN_IDS || OPTIONAL_ENV_VARS.SIWE_ALLOWED_CHAIN_IDS,
+    SIWE_MAX_MESSAGE_AGE_SECONDS: process.env.SIWE_MAX_MESSAGE_AGE_SECONDS || OPTIONAL_ENV_VARS.SIWE_MAX_MESSAGE_AGE_SECONDS,
+    SIWE_STATEMENT: process.env.SIWE_STATEMENT,
+    ETH_RPC_URL: process.env.ETH_RPC_URL,
+    ETH_RPC_URLS: process.env.ETH_RPC_URLS,
+    PAYMENT_RECIPIENT_ADDRESS: process.env.PAYMENT_RECIPIENT_ADDRESS,
+    PAYMENT_INTENT_TTL_MINUTES: process.env.PAYMENT_INTENT_TTL_MINUTES || OPTIONAL_ENV_VARS.PAYMENT_INTENT_TTL_MINUTES,
+    PAYMENT_MIN_CONFIRMATIONS: process.env.PAYMENT_MIN_CONFIRMATIONS || OPTIONAL_ENV_VARS.PAYMENT_MIN_CONFIRMATIONS,
+    PLATFORM_FEE_BPS: process.env.PLATFORM_FEE_BPS || OPTIONAL_ENV_VARS.PLATFORM_FEE_BPS,
+    PUBLISH_SCHEDULER_INTERVAL_SECONDS: process.env.PUBLISH_SCHEDULER_INTERVAL_SECONDS || OPTIONAL_ENV_VARS.PUBLISH_SCHEDULER_INTERVAL_SECONDS,
+    CERTIFICATE_SIGNER_PRIVATE_KEY: process.env.CERTIFICATE_SIGNER_PRIVATE_KEY,
+    CERTIFICATE_TRUSTED_SIGNERS: process.env.CERTIFICATE_TRUSTED_SIGNERS,
     CLOUDFLARE_ACCOUNT_ID: process.env.CLOUDFLARE_ACCOUNT_ID,
     CLOUDFLARE_STREAM_TOKEN: process.env.CLOUDFLARE_STREAM_TOKEN,
     REDIS_HOST: process.env.REDIS_HOST,
@@ -0,0 +1,74 @@
+-- =====================================================
+-- Migration: Auth Sessions and Refresh Tokens
+-- Description: Server-side sessions with rotating refresh tokens for SIWE logins
+-- Created: 2026-10-19
+-- =====================================================
+
+-- ============================================================================
+-- AUTH SESSIONS TABLE
+-- ============================================================================
+
+-- One row per login (a refresh token "family"). Revoking the row invalidates
+-- every access token carrying its id in the `sid` claim.
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  wallet_address VARCHAR(42) NOT NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  last_seen_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  revoked_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_active
+ON auth_sessions(user_id)
+WHERE revoked_at IS NULL;
+
+-- ============================================================================
+-- REFRESH TOKENS TABLE
+-- ============================================================================
+
+-- Every refresh token ever issued for a session. Only the SHA-256 hash is stored.
+-- A token with used_at set has already been rotated; presenting it again is
+-- treated as theft and revokes the whole session.
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES auth_sessions(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session ON refresh_tokens(session_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE auth_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refresh_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sessions" ON auth_sessions
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+-- Refresh tokens are only ever touched by the service role
+CREATE POLICY refresh_tokens_no_access_policy ON refresh_tokens
+  FOR ALL
+  USING (false);
+
+-- Clean up sessions that expired more than 30 days ago
+CREATE OR REPLACE FUNCTION clean_expired_sessions() RETURNS void AS $$
+BEGIN
+  DELETE FROM auth_sessions WHERE expires_at < NOW() - INTERVAL '30 days';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Comments
+COMMENT ON TABLE auth_sessions IS 'Server-side login sessions, one per refresh token family';
+COMMENT ON TABLE refresh_tokens IS 'Hashed rotating refresh tokens issued for auth sessions';
+COMMENT ON FUNCTION clean_expired_sessions IS 'Delete long-expired auth sessions and their refresh tokens';
@@ -0,0 +1,117 @@
+-- =====================================================
+-- Migration: Linked Wallets
+-- Description: Allow several wallet addresses per user with one primary wallet
+-- Created: 2026-10-19
+-- =====================================================
+
+-- ============================================================================
+-- USER WALLETS TABLE
+-- ============================================================================
+
+-- users.wallet_address is kept as a denormalized copy of the primary wallet
+CREATE TABLE IF NOT EXISTS user_wallets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  address VARCHAR(42) UNIQUE NOT NULL,
+  is_primary BOOLEAN DEFAULT false NOT NULL,
+  linked_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_wallets_user ON user_wallets(user_id);
+
+-- At most one primary wallet per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_wallets_primary
+ON user_wallets(user_id)
+WHERE is_primary = true;
+
+-- Backfill existing users
+INSERT INTO user_wallets (user_id, address, is_primary, linked_at)
+SELECT id, wallet_address, true, COALESCE(created_at, NOW())
+FROM users
+ON CONFLICT (address) DO NOTHING;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE user_wallets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own wallets" ON user_wallets
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Switch the primary wallet and keep users.wallet_address in sync, atomically
+CREATE OR REPLACE FUNCTION set_primary_wallet(user_id_param UUID, address_param TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_wallets
+    WHERE user_id = user_id_param AND address = address_param
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE user_wallets
+  SET is_primary = false
+  WHERE user_id = user_id_param AND is_primary = true;
+
+  UPDATE user_wallets
+  SET is_primary = true
+  WHERE user_id = user_id_param AND address = address_param;
+
+  UPDATE users
+  SET wallet_address = address_param
+  WHERE id = user_id_param;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Resolve the account an address signs in to. On first sign-in the account is created
+-- with the address as its primary wallet, in the same transaction. Accounts that only
+-- have users.wallet_address get their missing wallet row here.
+CREATE OR REPLACE FUNCTION sign_in_wallet(address_param TEXT)
+RETURNS UUID AS $$
+DECLARE
+  user_id_var UUID;
+BEGIN
+  SELECT user_id INTO user_id_var
+  FROM user_wallets
+  WHERE address = address_param;
+
+  IF FOUND THEN
+    RETURN user_id_var;
+  END IF;
+
+  SELECT id INTO user_id_var
+  FROM users
+  WHERE wallet_address = address_param;
+
+  IF NOT FOUND THEN
+    INSERT INTO users (wallet_address, created_at, last_login)
+    VALUES (address_param, NOW(), NOW())
+    RETURNING id INTO user_id_var;
+  END IF;
+
+  INSERT INTO user_wallets (user_id, address, is_primary)
+  VALUES (
+    user_id_var,
+    address_param,
+    NOT EXISTS (
+      SELECT 1 FROM user_wallets
+      WHERE user_id = user_id_var AND is_primary = true
+    )
+  );
+
+  RETURN user_id_var;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Comments
+COMMENT ON TABLE user_wallets IS 'Wallet addresses linked to a user account';
+COMMENT ON COLUMN user_wallets.is_primary IS 'Primary wallet, mirrored in users.wallet_address';
+COMMENT ON FUNCTION set_primary_wallet IS 'Make a linked wallet the primary wallet of a user';
+COMMENT ON FUNCTION sign_in_wallet IS 'Resolve or create the account a wallet signs in to';
@@ -0,0 +1,74 @@
+-- =====================================================
+-- Migration: Token-Gated Courses
+-- Description: On-chain holding and allowlist requirements for course access
+-- Created: 2026-10-19
+-- =====================================================
+
+-- Whether a learner must meet every rule or just one of them
+ALTER TABLE courses
+ADD COLUMN IF NOT EXISTS access_rule_mode VARCHAR(3) DEFAULT 'all' CHECK (access_rule_mode IN ('all', 'any'));
+
+-- ============================================================================
+-- COURSE ACCESS RULES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS course_access_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  rule_type VARCHAR(20) NOT NULL CHECK (rule_type IN ('erc20', 'erc721', 'erc1155', 'merkle_allowlist')),
+  chain_id INTEGER,                       -- Required for on-chain rules
+  contract_address VARCHAR(42),           -- Token contract for on-chain rules
+  token_id TEXT,                          -- Specific ERC-721/1155 token, as a decimal string
+  min_balance TEXT,                       -- Minimum balance in base units, as a decimal string
+  merkle_root VARCHAR(66),                -- Allowlist root (OpenZeppelin StandardMerkleTree of addresses)
+  description TEXT,                       -- Human-readable requirement shown to learners
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CHECK (
+    (rule_type = 'merkle_allowlist' AND merkle_root IS NOT NULL)
+    OR (rule_type <> 'merkle_allowlist' AND chain_id IS NOT NULL AND contract_address IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_access_rules_course ON course_access_rules(course_id);
+
+-- ============================================================================
+-- ALLOWLIST PROOFS TABLE
+-- ============================================================================
+
+-- Merkle proofs submitted at enrollment, re-checked against the current root on access
+CREATE TABLE IF NOT EXISTS course_allowlist_proofs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  rule_id UUID NOT NULL REFERENCES course_access_rules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  address VARCHAR(42) NOT NULL,
+  proof JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE(rule_id, user_id)
+);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE course_access_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_allowlist_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Access rules are viewable by everyone" ON course_access_rules
+  FOR SELECT USING (true);
+
+CREATE POLICY "Instructors can manage access rules" ON course_access_rules
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = course_access_rules.course_id
+      AND courses.instructor_id = auth.uid()::uuid
+    )
+  );
+
+CREATE POLICY "Users can view their own allowlist proofs" ON course_allowlist_proofs
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+-- Comments
+COMMENT ON COLUMN courses.access_rule_mode IS 'all: every access rule must pass, any: one rule is enough';
+COMMENT ON TABLE course_access_rules IS 'Token holding and allowlist requirements for enrolling in a course';
+COMMENT ON TABLE course_allowlist_proofs IS 'Merkle proofs learners submitted for allowlist rules';
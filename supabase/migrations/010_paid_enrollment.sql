@@ -0,0 +1,104 @@
+-- =====================================================
+-- Migration: Paid Enrollment
+-- Description: Course prices and on-chain payment intents
+-- Created: 2026-10-19
+-- =====================================================
+
+-- Course price. A NULL price_amount means the course is free.
+ALTER TABLE courses
+ADD COLUMN IF NOT EXISTS price_amount TEXT CHECK (price_amount ~ '^[1-9][0-9]*$'), -- Base units (wei, 6-decimals USDC, ...)
+ADD COLUMN IF NOT EXISTS price_currency VARCHAR(16),                          -- Display symbol, e.g. ETH, USDC
+ADD COLUMN IF NOT EXISTS price_decimals SMALLINT DEFAULT 18,
+ADD COLUMN IF NOT EXISTS price_chain_id INTEGER,
+ADD COLUMN IF NOT EXISTS price_token_address VARCHAR(42);                     -- NULL for the native currency
+
+-- ============================================================================
+-- PAYMENT INTENTS TABLE
+-- ============================================================================
+
+-- Expected payment for one checkout; confirmed by a single transaction
+CREATE TABLE IF NOT EXISTS payment_intents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  chain_id INTEGER NOT NULL,
+  token_address VARCHAR(42),
+  currency VARCHAR(16),
+  decimals SMALLINT NOT NULL DEFAULT 18,
+  recipient VARCHAR(42) NOT NULL,
+  amount TEXT NOT NULL CHECK (amount ~ '^[0-9]+$'),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed')),
+  tx_hash VARCHAR(66) UNIQUE,
+  payer_address VARCHAR(42),
+  enrollment_id UUID REFERENCES enrollments(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  confirmed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_intents_user_course ON payment_intents(user_id, course_id);
+CREATE INDEX IF NOT EXISTS idx_payment_intents_course_status ON payment_intents(course_id, status);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE payment_intents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payment intents" ON payment_intents
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Mark an intent as paid and enroll the user in one transaction.
+-- Re-confirming with the same tx hash returns the existing enrollment;
+-- reusing a tx hash for another intent fails on the unique constraint.
+CREATE OR REPLACE FUNCTION confirm_payment_intent(
+  intent_id_param UUID,
+  tx_hash_param TEXT,
+  payer_address_param TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  intent_record payment_intents%ROWTYPE;
+  enrollment_id_var UUID;
+BEGIN
+  SELECT * INTO intent_record
+  FROM payment_intents
+  WHERE id = intent_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment intent % not found', intent_id_param;
+  END IF;
+
+  IF intent_record.status = 'confirmed' THEN
+    IF intent_record.tx_hash = tx_hash_param THEN
+      RETURN intent_record.enrollment_id;
+    END IF;
+    RAISE EXCEPTION 'Payment intent % is already confirmed', intent_id_param;
+  END IF;
+
+  INSERT INTO enrollments (user_id, course_id, enrolled_at)
+  VALUES (intent_record.user_id, intent_record.course_id, NOW())
+  ON CONFLICT (user_id, course_id) DO UPDATE SET user_id = EXCLUDED.user_id
+  RETURNING id INTO enrollment_id_var;
+
+  UPDATE payment_intents
+  SET status = 'confirmed',
+      tx_hash = tx_hash_param,
+      payer_address = payer_address_param,
+      enrollment_id = enrollment_id_var,
+      confirmed_at = NOW()
+  WHERE id = intent_id_param;
+
+  RETURN enrollment_id_var;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Comments
+COMMENT ON COLUMN courses.price_amount IS 'Price in base units of the payment token; NULL for free courses';
+COMMENT ON TABLE payment_intents IS 'Checkout sessions awaiting an on-chain payment';
+COMMENT ON FUNCTION confirm_payment_intent IS 'Confirm a verified payment and create the enrollment atomically';
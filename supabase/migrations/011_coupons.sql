@@ -0,0 +1,313 @@
+-- =====================================================
+-- Migration: Coupons
+-- Description: Discount codes for paid courses and their redemptions
+-- Created: 2026-10-19
+-- =====================================================
+
+-- ============================================================================
+-- COUPONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS coupons (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code VARCHAR(64) UNIQUE NOT NULL,                       -- Stored uppercase
+  instructor_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  course_id UUID REFERENCES courses(id) ON DELETE CASCADE, -- NULL: all of the instructor's courses
+  discount_type VARCHAR(10) NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  percent_off NUMERIC(5, 2) CHECK (percent_off > 0 AND percent_off <= 100),
+  amount_off TEXT CHECK (amount_off ~ '^[0-9]+$'),         -- Base units of `currency`
+  currency VARCHAR(16),                                    -- Fixed discounts only apply to courses priced in it
+  max_redemptions INTEGER CHECK (max_redemptions > 0),     -- NULL: unlimited
+  per_wallet_limit INTEGER DEFAULT 1 CHECK (per_wallet_limit > 0), -- NULL: unlimited
+  redemption_count INTEGER DEFAULT 0 NOT NULL,
+  expires_at TIMESTAMPTZ,
+  is_active BOOLEAN DEFAULT true NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CHECK (
+    (discount_type = 'percent' AND percent_off IS NOT NULL)
+    OR (discount_type = 'fixed' AND amount_off IS NOT NULL AND currency IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupons_instructor ON coupons(instructor_id);
+CREATE INDEX IF NOT EXISTS idx_coupons_course ON coupons(course_id);
+
+-- ============================================================================
+-- COUPON REDEMPTIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  wallet_address VARCHAR(42) NOT NULL,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  enrollment_id UUID REFERENCES enrollments(id) ON DELETE SET NULL,
+  payment_intent_id UUID REFERENCES payment_intents(id) ON DELETE SET NULL,
+  list_amount TEXT NOT NULL,
+  discount_amount TEXT NOT NULL,
+  final_amount TEXT NOT NULL,
+  redeemed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon ON coupon_redemptions(coupon_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_user ON coupon_redemptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_wallet ON coupon_redemptions(wallet_address);
+
+-- Discount applied to a checkout; amount holds the final price
+ALTER TABLE payment_intents
+ADD COLUMN IF NOT EXISTS coupon_id UUID REFERENCES coupons(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS list_amount TEXT,
+ADD COLUMN IF NOT EXISTS discount_amount TEXT,
+ADD COLUMN IF NOT EXISTS coupon_reserved_at TIMESTAMPTZ;                 -- Coupon limits checked and a use held
+
+CREATE INDEX IF NOT EXISTS idx_payment_intents_coupon_pending ON payment_intents(coupon_id)
+WHERE status = 'pending' AND coupon_reserved_at IS NOT NULL;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage their coupons" ON coupons
+  FOR ALL USING (auth.uid()::text = instructor_id::text);
+
+CREATE POLICY "Users can view their own redemptions" ON coupon_redemptions
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Uses of a coupon held by unexpired pending checkouts. A learner's own checkout of
+-- the given course is left out: retrying it reuses that checkout, not another use.
+-- Pass a user to count only their checkouts.
+CREATE OR REPLACE FUNCTION pending_coupon_reservations(
+  coupon_id_param UUID,
+  user_id_param UUID,
+  course_id_param UUID,
+  only_user_param BOOLEAN
+)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM payment_intents
+  WHERE coupon_id = coupon_id_param
+  AND status = 'pending'
+  AND coupon_reserved_at IS NOT NULL
+  AND expires_at > NOW()
+  AND NOT (user_id = user_id_param AND course_id = course_id_param)
+  AND (NOT only_user_param OR user_id = user_id_param);
+$$ LANGUAGE sql STABLE;
+
+-- Hold a use of the coupon for a new checkout, enforcing the global and per-wallet
+-- limits under a row lock. The hold lapses when the checkout expires unpaid.
+CREATE OR REPLACE FUNCTION reserve_coupon(
+  intent_id_param UUID,
+  wallet_addresses_param TEXT[]
+)
+RETURNS VOID AS $$
+DECLARE
+  intent_record payment_intents%ROWTYPE;
+  coupon_record coupons%ROWTYPE;
+  used_count INTEGER;
+BEGIN
+  SELECT * INTO intent_record
+  FROM payment_intents
+  WHERE id = intent_id_param;
+
+  IF NOT FOUND OR intent_record.coupon_id IS NULL THEN
+    RAISE EXCEPTION 'Payment intent % has no coupon', intent_id_param;
+  END IF;
+
+  SELECT * INTO coupon_record
+  FROM coupons
+  WHERE id = intent_record.coupon_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'COUPON_NOT_FOUND';
+  END IF;
+
+  IF coupon_record.max_redemptions IS NOT NULL
+     AND coupon_record.redemption_count
+       + pending_coupon_reservations(coupon_record.id, intent_record.user_id, intent_record.course_id, false)
+       >= coupon_record.max_redemptions THEN
+    RAISE EXCEPTION 'COUPON_EXHAUSTED';
+  END IF;
+
+  IF coupon_record.per_wallet_limit IS NOT NULL THEN
+    SELECT COUNT(*) INTO used_count
+    FROM coupon_redemptions
+    WHERE coupon_id = coupon_record.id
+    AND (user_id = intent_record.user_id OR wallet_address = ANY(wallet_addresses_param));
+
+    IF used_count
+       + pending_coupon_reservations(coupon_record.id, intent_record.user_id, intent_record.course_id, true)
+       >= coupon_record.per_wallet_limit THEN
+      RAISE EXCEPTION 'COUPON_WALLET_LIMIT';
+    END IF;
+  END IF;
+
+  UPDATE payment_intents
+  SET coupon_reserved_at = NOW()
+  WHERE id = intent_id_param;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a redemption, enforcing the global and per-wallet limits under a row lock.
+-- Uses held by pending checkouts count against both.
+CREATE OR REPLACE FUNCTION record_coupon_redemption(
+  coupon_id_param UUID,
+  user_id_param UUID,
+  wallet_address_param TEXT,
+  course_id_param UUID,
+  enrollment_id_param UUID,
+  payment_intent_id_param UUID,
+  list_amount_param TEXT,
+  discount_amount_param TEXT,
+  final_amount_param TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  coupon_record coupons%ROWTYPE;
+  used_count INTEGER;
+BEGIN
+  SELECT * INTO coupon_record
+  FROM coupons
+  WHERE id = coupon_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'COUPON_NOT_FOUND';
+  END IF;
+
+  IF coupon_record.max_redemptions IS NOT NULL
+     AND coupon_record.redemption_count
+       + pending_coupon_reservations(coupon_id_param, user_id_param, course_id_param, false)
+       >= coupon_record.max_redemptions THEN
+    RAISE EXCEPTION 'COUPON_EXHAUSTED';
+  END IF;
+
+  IF coupon_record.per_wallet_limit IS NOT NULL THEN
+    SELECT COUNT(*) INTO used_count
+    FROM coupon_redemptions
+    WHERE coupon_id = coupon_id_param
+    AND (user_id = user_id_param OR wallet_address = wallet_address_param);
+
+    IF used_count
+       + pending_coupon_reservations(coupon_id_param, user_id_param, course_id_param, true)
+       >= coupon_record.per_wallet_limit THEN
+      RAISE EXCEPTION 'COUPON_WALLET_LIMIT';
+    END IF;
+  END IF;
+
+  INSERT INTO coupon_redemptions (
+    coupon_id, user_id, wallet_address, course_id, enrollment_id,
+    payment_intent_id, list_amount, discount_amount, final_amount
+  )
+  VALUES (
+    coupon_id_param, user_id_param, wallet_address_param, course_id_param, enrollment_id_param,
+    payment_intent_id_param, list_amount_param, discount_amount_param, final_amount_param
+  );
+
+  UPDATE coupons
+  SET redemption_count = redemption_count + 1
+  WHERE id = coupon_id_param;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enroll with a coupon that covers the full price (no payment needed)
+CREATE OR REPLACE FUNCTION enroll_with_coupon(
+  user_id_param UUID,
+  course_id_param UUID,
+  coupon_id_param UUID,
+  wallet_address_param TEXT,
+  list_amount_param TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  enrollment_id_var UUID;
+BEGIN
+  INSERT INTO enrollments (user_id, course_id, enrolled_at)
+  VALUES (user_id_param, course_id_param, NOW())
+  RETURNING id INTO enrollment_id_var;
+
+  PERFORM record_coupon_redemption(
+    coupon_id_param, user_id_param, wallet_address_param, course_id_param,
+    enrollment_id_var, NULL, list_amount_param, list_amount_param, '0'
+  );
+
+  RETURN enrollment_id_var;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Payment confirmation now also records the coupon redemption in the same transaction.
+-- The checkout reserved its use of the coupon, so a paid intent is always honoured.
+CREATE OR REPLACE FUNCTION confirm_payment_intent(
+  intent_id_param UUID,
+  tx_hash_param TEXT,
+  payer_address_param TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  intent_record payment_intents%ROWTYPE;
+  enrollment_id_var UUID;
+BEGIN
+  SELECT * INTO intent_record
+  FROM payment_intents
+  WHERE id = intent_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment intent % not found', intent_id_param;
+  END IF;
+
+  IF intent_record.status = 'confirmed' THEN
+    IF intent_record.tx_hash = tx_hash_param THEN
+      RETURN intent_record.enrollment_id;
+    END IF;
+    RAISE EXCEPTION 'Payment intent % is already confirmed', intent_id_param;
+  END IF;
+
+  INSERT INTO enrollments (user_id, course_id, enrolled_at)
+  VALUES (intent_record.user_id, intent_record.course_id, NOW())
+  ON CONFLICT (user_id, course_id) DO UPDATE SET user_id = EXCLUDED.user_id
+  RETURNING id INTO enrollment_id_var;
+
+  UPDATE payment_intents
+  SET status = 'confirmed',
+      tx_hash = tx_hash_param,
+      payer_address = payer_address_param,
+      enrollment_id = enrollment_id_var,
+      confirmed_at = NOW()
+  WHERE id = intent_id_param;
+
+  IF intent_record.coupon_id IS NOT NULL THEN
+    INSERT INTO coupon_redemptions (
+      coupon_id, user_id, wallet_address, course_id, enrollment_id,
+      payment_intent_id, list_amount, discount_amount, final_amount
+    )
+    VALUES (
+      intent_record.coupon_id, intent_record.user_id, payer_address_param, intent_record.course_id,
+      enrollment_id_var, intent_record.id, intent_record.list_amount,
+      intent_record.discount_amount, intent_record.amount
+    );
+
+    UPDATE coupons
+    SET redemption_count = redemption_count + 1
+    WHERE id = intent_record.coupon_id;
+  END IF;
+
+  RETURN enrollment_id_var;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Comments
+COMMENT ON TABLE coupons IS 'Instructor discount codes, per course or for all their courses';
+COMMENT ON COLUMN coupons.per_wallet_limit IS 'Redemptions allowed per account and per paying wallet';
+COMMENT ON TABLE coupon_redemptions IS 'Coupons applied to enrollments, with the price breakdown';
+COMMENT ON COLUMN payment_intents.coupon_reserved_at IS 'When the checkout reserved its coupon use; held until the intent expires';
+COMMENT ON FUNCTION reserve_coupon IS 'Reserve a coupon use for a checkout under the coupon row lock';
+COMMENT ON FUNCTION enroll_with_coupon IS 'Enroll and redeem a coupon covering the full price atomically';
@@ -0,0 +1,44 @@
+-- =====================================================
+-- Migration: Instructor Revenue Ledger
+-- Description: Platform fee snapshots on payments and instructor payouts
+-- Created: 2026-10-19
+-- =====================================================
+
+-- Fee in basis points at checkout time, so later fee changes do not rewrite history
+ALTER TABLE payment_intents
+ADD COLUMN IF NOT EXISTS platform_fee_bps INTEGER NOT NULL DEFAULT 0 CHECK (platform_fee_bps BETWEEN 0 AND 10000);
+
+-- ============================================================================
+-- INSTRUCTOR PAYOUTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS instructor_payouts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  instructor_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chain_id INTEGER NOT NULL,
+  token_address VARCHAR(42),                 -- NULL for the native currency
+  currency VARCHAR(16),
+  decimals SMALLINT NOT NULL DEFAULT 18,
+  amount TEXT NOT NULL CHECK (amount ~ '^[0-9]+$'),
+  recipient_address VARCHAR(42) NOT NULL,
+  tx_hash VARCHAR(66) UNIQUE NOT NULL,
+  note TEXT,
+  recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  paid_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_instructor_payouts_instructor ON instructor_payouts(instructor_id, paid_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE instructor_payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can view their payouts" ON instructor_payouts
+  FOR SELECT USING (auth.uid()::text = instructor_id::text);
+
+-- Comments
+COMMENT ON COLUMN payment_intents.platform_fee_bps IS 'Platform fee in basis points applied to this payment';
+COMMENT ON TABLE instructor_payouts IS 'Transfers of net revenue from the platform treasury to instructors';
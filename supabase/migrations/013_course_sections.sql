@@ -0,0 +1,55 @@
+-- =====================================================
+-- Migration: Course Sections
+-- Description: Group lessons into ordered sections (modules)
+-- Created: 2026-10-19
+-- =====================================================
+
+-- ============================================================================
+-- SECTIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  title VARCHAR(200) NOT NULL,
+  description TEXT,
+  "order" INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sections_course ON sections(course_id, "order");
+
+-- Lessons without a section are listed after all sections
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS section_id UUID REFERENCES sections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lessons_section ON lessons(section_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE sections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sections of published courses are viewable by everyone" ON sections
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = sections.course_id
+      AND courses.is_published = true
+    )
+  );
+
+CREATE POLICY "Instructors can manage sections" ON sections
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = sections.course_id
+      AND courses.instructor_id = auth.uid()::uuid
+    )
+  );
+
+-- Comments
+COMMENT ON TABLE sections IS 'Ordered groups of lessons within a course';
+COMMENT ON COLUMN lessons.section_id IS 'Section the lesson belongs to; NULL for unsectioned lessons';
@@ -0,0 +1,108 @@
+-- =====================================================
+-- Migration: Lesson Reordering
+-- Description: Atomic bulk reordering/moving of lessons and contiguous renumbering
+-- Created: 2026-10-19
+-- =====================================================
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Apply a full ordered list of a course's lessons in one transaction. Lessons are
+-- numbered 0..n-1 in the given order. section_assignments_param maps lesson ids to
+-- the section they move to (JSON null moves a lesson out of its section).
+CREATE OR REPLACE FUNCTION reorder_lessons(
+  course_id_param UUID,
+  lesson_ids_param UUID[],
+  section_assignments_param JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID AS $$
+DECLARE
+  lesson_count INTEGER;
+BEGIN
+  -- Serialize concurrent reorders of the same course
+  PERFORM 1 FROM courses WHERE id = course_id_param FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'COURSE_NOT_FOUND';
+  END IF;
+
+  SELECT COUNT(*) INTO lesson_count
+  FROM lessons
+  WHERE course_id = course_id_param;
+
+  -- Every lesson of the course exactly once, and nothing else
+  IF COALESCE(cardinality(lesson_ids_param), 0) <> lesson_count
+     OR (SELECT COUNT(DISTINCT t.lesson_id) FROM unnest(lesson_ids_param) AS t(lesson_id)) <> lesson_count
+     OR EXISTS (
+       SELECT 1
+       FROM unnest(lesson_ids_param) AS t(lesson_id)
+       WHERE NOT EXISTS (
+         SELECT 1 FROM lessons
+         WHERE lessons.id = t.lesson_id
+         AND lessons.course_id = course_id_param
+       )
+     ) THEN
+    RAISE EXCEPTION 'LESSON_ORDER_MISMATCH';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_each_text(section_assignments_param) AS a(lesson_id, section_id)
+    WHERE NOT (a.lesson_id::uuid = ANY(lesson_ids_param))
+    OR (
+      a.section_id IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM sections
+        WHERE sections.id = a.section_id::uuid
+        AND sections.course_id = course_id_param
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'SECTION_NOT_IN_COURSE';
+  END IF;
+
+  UPDATE lessons
+  SET "order" = t.position - 1,
+      section_id = CASE
+        WHEN section_assignments_param ? lessons.id::text
+          THEN (section_assignments_param ->> lessons.id::text)::uuid
+        ELSE lessons.section_id
+      END
+  FROM unnest(lesson_ids_param) WITH ORDINALITY AS t(lesson_id, position)
+  WHERE lessons.id = t.lesson_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Close gaps and duplicates in a course's lesson order, keeping the current sequence
+CREATE OR REPLACE FUNCTION renumber_lessons(course_id_param UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM 1 FROM courses WHERE id = course_id_param FOR UPDATE;
+
+  UPDATE lessons
+  SET "order" = ranked.position - 1
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY "order", created_at, id) AS position
+    FROM lessons
+    WHERE course_id = course_id_param
+  ) AS ranked
+  WHERE lessons.id = ranked.id
+  AND lessons."order" <> ranked.position - 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Existing courses may already have gaps or duplicates
+DO $$
+DECLARE
+  course_record RECORD;
+BEGIN
+  FOR course_record IN SELECT DISTINCT course_id FROM lessons LOOP
+    PERFORM renumber_lessons(course_record.course_id);
+  END LOOP;
+END;
+$$;
+
+-- Comments
+COMMENT ON FUNCTION reorder_lessons IS 'Atomically apply a full lesson order (and section moves) to a course';
+COMMENT ON FUNCTION renumber_lessons IS 'Renumber a course''s lessons contiguously from 0';
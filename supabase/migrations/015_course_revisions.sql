@@ -0,0 +1,228 @@
+-- =====================================================
+-- Migration: Course Revisions
+-- Description: Draft copies of course content, versioned publishing and rollback
+-- Created: 2026-10-19
+-- =====================================================
+
+-- ============================================================================
+-- COURSE REVISIONS TABLE
+-- ============================================================================
+
+-- A snapshot of the versioned course content:
+-- { "course": { title, description, ... }, "sections": [...], "lessons": [...] }
+-- Published rows form the version history; each course has at most one draft.
+CREATE TABLE IF NOT EXISTS course_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+  version INTEGER,                         -- NULL while draft
+  snapshot JSONB NOT NULL,
+  based_on_version INTEGER,                -- Live version when the draft was started
+  rolled_back_from INTEGER,                -- Version this one restores, for rollbacks
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  published_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  published_at TIMESTAMPTZ,
+  UNIQUE (course_id, version),
+  CHECK ((status = 'draft') = (version IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_course_revisions_one_draft
+  ON course_revisions(course_id) WHERE status = 'draft';
+
+-- Version currently live; NULL until the course is first versioned
+ALTER TABLE courses
+ADD COLUMN IF NOT EXISTS published_version INTEGER;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE course_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage revisions" ON course_revisions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = course_revisions.course_id
+      AND courses.instructor_id = auth.uid()::uuid
+    )
+  );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Make a snapshot the live content of a course. Sections and lessons are matched by
+-- id so learner progress on kept lessons survives; missing ones are deleted.
+CREATE OR REPLACE FUNCTION apply_course_snapshot(course_id_param UUID, snapshot_param JSONB)
+RETURNS VOID AS $$
+DECLARE
+  snapshot_sections JSONB := COALESCE(snapshot_param->'sections', '[]'::jsonb);
+  snapshot_lessons JSONB := COALESCE(snapshot_param->'lessons', '[]'::jsonb);
+BEGIN
+  -- Ids must not belong to another course
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_populate_recordset(NULL::lessons, snapshot_lessons) AS l
+    JOIN lessons ON lessons.id = l.id
+    WHERE lessons.course_id IS DISTINCT FROM course_id_param
+  ) OR EXISTS (
+    SELECT 1
+    FROM jsonb_populate_recordset(NULL::sections, snapshot_sections) AS s
+    JOIN sections ON sections.id = s.id
+    WHERE sections.course_id <> course_id_param
+  ) THEN
+    RAISE EXCEPTION 'REVISION_ID_CONFLICT';
+  END IF;
+
+  UPDATE courses
+  SET title = c.title,
+      description = c.description,
+      thumbnail_url = c.thumbnail_url,
+      category = c.category,
+      level = c.level,
+      tags = c.tags
+  FROM jsonb_populate_record(NULL::courses, snapshot_param->'course') AS c
+  WHERE courses.id = course_id_param;
+
+  INSERT INTO sections (id, course_id, title, description, "order")
+  SELECT s.id, course_id_param, s.title, s.description, s."order"
+  FROM jsonb_populate_recordset(NULL::sections, snapshot_sections) AS s
+  ON CONFLICT (id) DO UPDATE
+  SET title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      "order" = EXCLUDED."order",
+      updated_at = NOW();
+
+  INSERT INTO lessons (id, course_id, section_id, title, description, video_url, content, "order", duration_minutes)
+  SELECT l.id, course_id_param, l.section_id, l.title, l.description, l.video_url, l.content, l."order", l.duration_minutes
+  FROM jsonb_populate_recordset(NULL::lessons, snapshot_lessons) AS l
+  ON CONFLICT (id) DO UPDATE
+  SET section_id = EXCLUDED.section_id,
+      title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      video_url = EXCLUDED.video_url,
+      content = EXCLUDED.content,
+      "order" = EXCLUDED."order",
+      duration_minutes = EXCLUDED.duration_minutes;
+
+  DELETE FROM lessons
+  WHERE course_id = course_id_param
+  AND id NOT IN (SELECT (value->>'id')::uuid FROM jsonb_array_elements(snapshot_lessons));
+
+  DELETE FROM sections
+  WHERE course_id = course_id_param
+  AND id NOT IN (SELECT (value->>'id')::uuid FROM jsonb_array_elements(snapshot_sections));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Publish a course's draft as the next version
+CREATE OR REPLACE FUNCTION publish_course_draft(
+  draft_id_param UUID,
+  published_by_param UUID,
+  force_param BOOLEAN DEFAULT false
+)
+RETURNS INTEGER AS $$
+DECLARE
+  draft_record course_revisions%ROWTYPE;
+  live_version INTEGER;
+  next_version INTEGER;
+BEGIN
+  SELECT * INTO draft_record
+  FROM course_revisions
+  WHERE id = draft_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND OR draft_record.status <> 'draft' THEN
+    RAISE EXCEPTION 'DRAFT_NOT_FOUND';
+  END IF;
+
+  SELECT published_version INTO live_version
+  FROM courses
+  WHERE id = draft_record.course_id
+  FOR UPDATE;
+
+  -- Another version went live after the draft was started
+  IF NOT force_param AND live_version IS DISTINCT FROM draft_record.based_on_version THEN
+    RAISE EXCEPTION 'DRAFT_OUTDATED';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM course_revisions
+  WHERE course_id = draft_record.course_id;
+
+  PERFORM apply_course_snapshot(draft_record.course_id, draft_record.snapshot);
+
+  UPDATE course_revisions
+  SET status = 'published',
+      version = next_version,
+      published_by = published_by_param,
+      published_at = NOW(),
+      updated_at = NOW()
+  WHERE id = draft_id_param;
+
+  UPDATE courses
+  SET published_version = next_version
+  WHERE id = draft_record.course_id;
+
+  RETURN next_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Restore a previous version by publishing its snapshot again as a new version
+CREATE OR REPLACE FUNCTION rollback_course_revision(
+  course_id_param UUID,
+  version_param INTEGER,
+  published_by_param UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  target_record course_revisions%ROWTYPE;
+  live_version INTEGER;
+  next_version INTEGER;
+BEGIN
+  SELECT published_version INTO live_version
+  FROM courses
+  WHERE id = course_id_param
+  FOR UPDATE;
+
+  SELECT * INTO target_record
+  FROM course_revisions
+  WHERE course_id = course_id_param
+  AND version = version_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'REVISION_NOT_FOUND';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM course_revisions
+  WHERE course_id = course_id_param;
+
+  PERFORM apply_course_snapshot(course_id_param, target_record.snapshot);
+
+  INSERT INTO course_revisions (
+    course_id, status, version, snapshot, based_on_version, rolled_back_from,
+    notes, created_by, published_by, published_at
+  )
+  VALUES (
+    course_id_param, 'published', next_version, target_record.snapshot, live_version, version_param,
+    'Rollback to version ' || version_param, published_by_param, published_by_param, NOW()
+  );
+
+  UPDATE courses
+  SET published_version = next_version
+  WHERE id = course_id_param;
+
+  RETURN next_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Comments
+COMMENT ON TABLE course_revisions IS 'Draft and published snapshots of course content';
+COMMENT ON COLUMN courses.published_version IS 'Version of course_revisions currently live';
+COMMENT ON FUNCTION publish_course_draft IS 'Atomically make a draft the live content as the next version';
+COMMENT ON FUNCTION rollback_course_revision IS 'Atomically republish an earlier version as the next version';
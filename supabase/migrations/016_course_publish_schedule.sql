@@ -0,0 +1,21 @@
+-- =====================================================
+-- Migration: Course Publish Schedule
+-- Description: Publish and unpublish courses at a set time
+-- Created: 2026-10-19
+-- =====================================================
+
+-- Cleared by the scheduler once applied
+ALTER TABLE courses
+ADD COLUMN IF NOT EXISTS publish_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS unpublish_at TIMESTAMPTZ;
+
+ALTER TABLE courses
+ADD CONSTRAINT courses_publish_schedule_order
+CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+
+CREATE INDEX IF NOT EXISTS idx_courses_publish_at ON courses(publish_at) WHERE publish_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_courses_unpublish_at ON courses(unpublish_at) WHERE unpublish_at IS NOT NULL;
+
+-- Comments
+COMMENT ON COLUMN courses.publish_at IS 'When the scheduler publishes the course; NULL when nothing is scheduled';
+COMMENT ON COLUMN courses.unpublish_at IS 'When the scheduler unpublishes the course; NULL when nothing is scheduled';
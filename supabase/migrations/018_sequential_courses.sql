@@ -0,0 +1,11 @@
+-- =====================================================
+-- Migration: Sequential Courses
+-- Description: Courses where each lesson unlocks once the previous one is completed
+-- Created: 2026-10-19
+-- =====================================================
+
+ALTER TABLE courses
+ADD COLUMN IF NOT EXISTS sequential BOOLEAN DEFAULT false NOT NULL;
+
+-- Comments
+COMMENT ON COLUMN courses.sequential IS 'Lessons unlock only after the previous lesson in curriculum order is completed';
@@ -0,0 +1,99 @@
+-- =====================================================
+-- Migration: Lesson Previews
+-- Description: Lessons anyone can watch without enrolling
+-- Created: 2026-10-19
+-- =====================================================
+
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS is_preview BOOLEAN DEFAULT false NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lessons_preview ON lessons(course_id) WHERE is_preview;
+
+-- Previews of published courses are public, unlike the rest of the lessons (see 005)
+DROP POLICY IF EXISTS "Preview lessons are viewable by everyone" ON lessons;
+CREATE POLICY "Preview lessons are viewable by everyone" ON lessons
+  FOR SELECT USING (
+    is_preview AND EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = lessons.course_id
+      AND courses.is_published = true
+    )
+  );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Snapshots now carry the preview flag of lessons
+CREATE OR REPLACE FUNCTION apply_course_snapshot(course_id_param UUID, snapshot_param JSONB)
+RETURNS VOID AS $$
+DECLARE
+  snapshot_sections JSONB := COALESCE(snapshot_param->'sections', '[]'::jsonb);
+  snapshot_lessons JSONB := COALESCE(snapshot_param->'lessons', '[]'::jsonb);
+BEGIN
+  -- Ids must not belong to another course
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_populate_recordset(NULL::lessons, snapshot_lessons) AS l
+    JOIN lessons ON lessons.id = l.id
+    WHERE lessons.course_id IS DISTINCT FROM course_id_param
+  ) OR EXISTS (
+    SELECT 1
+    FROM jsonb_populate_recordset(NULL::sections, snapshot_sections) AS s
+    JOIN sections ON sections.id = s.id
+    WHERE sections.course_id <> course_id_param
+  ) THEN
+    RAISE EXCEPTION 'REVISION_ID_CONFLICT';
+  END IF;
+
+  UPDATE courses
+  SET title = c.title,
+      description = c.description,
+      thumbnail_url = c.thumbnail_url,
+      category = c.category,
+      level = c.level,
+      tags = c.tags
+  FROM jsonb_populate_record(NULL::courses, snapshot_param->'course') AS c
+  WHERE courses.id = course_id_param;
+
+  INSERT INTO sections (id, course_id, title, description, "order")
+  SELECT s.id, course_id_param, s.title, s.description, s."order"
+  FROM jsonb_populate_recordset(NULL::sections, snapshot_sections) AS s
+  ON CONFLICT (id) DO UPDATE
+  SET title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      "order" = EXCLUDED."order",
+      updated_at = NOW();
+
+  INSERT INTO lessons (
+    id, course_id, section_id, title, description, video_url, content, "order", duration_minutes,
+    release_after_days, release_at, is_preview
+  )
+  SELECT
+    l.id, course_id_param, l.section_id, l.title, l.description, l.video_url, l.content, l."order", l.duration_minutes,
+    l.release_after_days, l.release_at, COALESCE(l.is_preview, false)
+  FROM jsonb_populate_recordset(NULL::lessons, snapshot_lessons) AS l
+  ON CONFLICT (id) DO UPDATE
+  SET section_id = EXCLUDED.section_id,
+      title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      video_url = EXCLUDED.video_url,
+      content = EXCLUDED.content,
+      "order" = EXCLUDED."order",
+      duration_minutes = EXCLUDED.duration_minutes,
+      release_after_days = EXCLUDED.release_after_days,
+      release_at = EXCLUDED.release_at,
+      is_preview = EXCLUDED.is_preview;
+
+  DELETE FROM lessons
+  WHERE course_id = course_id_param
+  AND id NOT IN (SELECT (value->>'id')::uuid FROM jsonb_array_elements(snapshot_lessons));
+
+  DELETE FROM sections
+  WHERE course_id = course_id_param
+  AND id NOT IN (SELECT (value->>'id')::uuid FROM jsonb_array_elements(snapshot_sections));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Comments
+COMMENT ON COLUMN lessons.is_preview IS 'Content and video are available to visitors who are not enrolled';
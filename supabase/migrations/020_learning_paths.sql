@@ -0,0 +1,199 @@
+-- =====================================================
+-- Migration: Course Prerequisites and Learning Paths
+-- Description: Courses that require others first, and ordered sets of courses
+--              with their own enrollment and completion certificate
+-- Created: 2026-10-19
+-- =====================================================
+
+-- ============================================================================
+-- COURSE PREREQUISITES
+-- ============================================================================
+
+-- required: enrollment is refused until completed; recommended: enrollment only warns
+CREATE TABLE IF NOT EXISTS course_prerequisites (
+  course_id UUID REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  prerequisite_id UUID REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  enforcement TEXT DEFAULT 'required' NOT NULL CHECK (enforcement IN ('required', 'recommended')),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (course_id, prerequisite_id),
+  CHECK (course_id <> prerequisite_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_prerequisites_prerequisite ON course_prerequisites(prerequisite_id);
+
+-- A course counts as completed once every lesson is; backfill learners who already are
+UPDATE enrollments
+SET completed_at = (
+  SELECT MAX(lesson_progress.completed_at)
+  FROM lesson_progress
+  WHERE lesson_progress.enrollment_id = enrollments.id
+)
+WHERE completed_at IS NULL
+AND EXISTS (SELECT 1 FROM lessons WHERE lessons.course_id = enrollments.course_id)
+AND NOT EXISTS (
+  SELECT 1 FROM lessons
+  WHERE lessons.course_id = enrollments.course_id
+  AND NOT EXISTS (
+    SELECT 1 FROM lesson_progress
+    WHERE lesson_progress.enrollment_id = enrollments.id
+    AND lesson_progress.lesson_id = lessons.id
+    AND lesson_progress.completed = true
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_enrollments_completed ON enrollments(user_id) WHERE completed_at IS NOT NULL;
+
+-- ============================================================================
+-- LEARNING PATHS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS learning_paths (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  creator_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  slug VARCHAR(100) UNIQUE NOT NULL,
+  title VARCHAR(200) NOT NULL,
+  description TEXT,
+  thumbnail_url TEXT,
+  is_published BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_learning_paths_creator ON learning_paths(creator_id);
+CREATE INDEX IF NOT EXISTS idx_learning_paths_published ON learning_paths(created_at DESC) WHERE is_published;
+
+CREATE TABLE IF NOT EXISTS learning_path_courses (
+  path_id UUID REFERENCES learning_paths(id) ON DELETE CASCADE NOT NULL,
+  course_id UUID REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  "order" INTEGER NOT NULL,
+  PRIMARY KEY (path_id, course_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_learning_path_courses_course ON learning_path_courses(course_id);
+
+CREATE TABLE IF NOT EXISTS path_enrollments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  path_id UUID REFERENCES learning_paths(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  enrolled_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  completed_at TIMESTAMPTZ,
+  UNIQUE(user_id, path_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_path_enrollments_path ON path_enrollments(path_id);
+
+-- Path certificates live next to course certificates
+ALTER TABLE certificates
+ADD COLUMN IF NOT EXISTS path_id UUID REFERENCES learning_paths(id) ON DELETE CASCADE;
+
+ALTER TABLE certificates
+ADD CONSTRAINT certificates_single_subject
+CHECK (course_id IS NULL OR path_id IS NULL);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificates_user_path
+ON certificates(user_id, path_id) WHERE path_id IS NOT NULL;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE course_prerequisites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE learning_paths ENABLE ROW LEVEL SECURITY;
+ALTER TABLE learning_path_courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE path_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Prerequisites are viewable by everyone" ON course_prerequisites
+  FOR SELECT USING (true);
+
+CREATE POLICY "Published paths are viewable by everyone" ON learning_paths
+  FOR SELECT USING (is_published = true);
+
+CREATE POLICY "Creators can manage their own paths" ON learning_paths
+  FOR ALL USING (auth.uid()::text = creator_id::text);
+
+CREATE POLICY "Courses of published paths are viewable by everyone" ON learning_path_courses
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM learning_paths
+      WHERE learning_paths.id = learning_path_courses.path_id
+      AND learning_paths.is_published = true
+    )
+  );
+
+CREATE POLICY "Users can view their own path enrollments" ON path_enrollments
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Replace the prerequisites of a course. Serialized so two concurrent edits
+-- cannot close a cycle between them.
+CREATE OR REPLACE FUNCTION set_course_prerequisites(course_id_param UUID, prerequisites_param JSONB)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('course_prerequisites'));
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(prerequisites_param) AS p(prerequisite_id UUID, enforcement TEXT)
+    WHERE NOT EXISTS (SELECT 1 FROM courses WHERE courses.id = p.prerequisite_id)
+  ) THEN
+    RAISE EXCEPTION 'PREREQUISITE_NOT_FOUND';
+  END IF;
+
+  DELETE FROM course_prerequisites WHERE course_id = course_id_param;
+
+  INSERT INTO course_prerequisites (course_id, prerequisite_id, enforcement)
+  SELECT course_id_param, p.prerequisite_id, COALESCE(p.enforcement, 'required')
+  FROM jsonb_to_recordset(prerequisites_param) AS p(prerequisite_id UUID, enforcement TEXT);
+
+  -- The course must not be reachable from its own prerequisites
+  IF EXISTS (
+    WITH RECURSIVE reachable(id) AS (
+      SELECT prerequisite_id FROM course_prerequisites WHERE course_id = course_id_param
+      UNION
+      SELECT course_prerequisites.prerequisite_id
+      FROM course_prerequisites
+      JOIN reachable ON course_prerequisites.course_id = reachable.id
+    )
+    SELECT 1 FROM reachable WHERE id = course_id_param
+  ) THEN
+    RAISE EXCEPTION 'PREREQUISITE_CYCLE';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace the courses of a path, numbered in the given order
+CREATE OR REPLACE FUNCTION set_learning_path_courses(path_id_param UUID, course_ids_param UUID[])
+RETURNS VOID AS $$
+BEGIN
+  PERFORM 1 FROM learning_paths WHERE id = path_id_param FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PATH_NOT_FOUND';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(course_ids_param) AS c(id)
+    WHERE NOT EXISTS (SELECT 1 FROM courses WHERE courses.id = c.id)
+  ) THEN
+    RAISE EXCEPTION 'COURSE_NOT_FOUND';
+  END IF;
+
+  DELETE FROM learning_path_courses WHERE path_id = path_id_param;
+
+  INSERT INTO learning_path_courses (path_id, course_id, "order")
+  SELECT path_id_param, c.id, (c.position - 1)::INTEGER
+  FROM unnest(course_ids_param) WITH ORDINALITY AS c(id, position);
+
+  UPDATE learning_paths SET updated_at = NOW() WHERE id = path_id_param;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Comments
+COMMENT ON TABLE course_prerequisites IS 'Courses to complete before enrolling in another course';
+COMMENT ON COLUMN course_prerequisites.enforcement IS 'required blocks enrollment; recommended only warns';
+COMMENT ON TABLE learning_paths IS 'Ordered sets of courses with their own landing page, enrollment and certificate';
+COMMENT ON TABLE path_enrollments IS 'Learners following a path; completed_at is set once every course in it is completed';
+COMMENT ON COLUMN certificates.path_id IS 'Set for learning path certificates, which have no course_id';
@@ -0,0 +1,86 @@
+-- =====================================================
+-- Migration: Course Members
+-- Description: Co-instructors and teaching assistants with per-course permissions,
+--              invited by wallet address
+-- Created: 2026-10-19
+-- =====================================================
+
+-- ============================================================================
+-- COURSE MEMBERS TABLE
+-- ============================================================================
+
+-- Invites are addressed to a wallet; user_id is filled in once the invite is accepted.
+-- permissions NULL means the defaults of the role.
+CREATE TABLE IF NOT EXISTS course_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  course_id UUID REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  wallet_address VARCHAR(42) NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'co_instructor', 'ta')),
+  permissions TEXT[] CHECK (
+    permissions <@ ARRAY['edit_content', 'upload_video', 'publish', 'view_students', 'moderate_discussions']::TEXT[]
+  ),
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'active')),
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  invited_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  UNIQUE(course_id, wallet_address),
+  CHECK (status = 'pending' OR user_id IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_course_members_user
+ON course_members(course_id, user_id) WHERE user_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_course_members_owner
+ON course_members(course_id) WHERE role = 'owner';
+
+CREATE INDEX IF NOT EXISTS idx_course_members_user_active
+ON course_members(user_id) WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_course_members_pending_wallet
+ON course_members(wallet_address) WHERE status = 'pending';
+
+-- Every course gets its instructor as owner
+INSERT INTO course_members (course_id, user_id, wallet_address, role, status, invited_at, accepted_at)
+SELECT courses.id, users.id, users.wallet_address, 'owner', 'active', COALESCE(courses.created_at, NOW()), COALESCE(courses.created_at, NOW())
+FROM courses
+JOIN users ON users.id = courses.instructor_id
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION add_course_owner_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO course_members (course_id, user_id, wallet_address, role, status, accepted_at)
+  SELECT NEW.id, users.id, users.wallet_address, 'owner', 'active', NOW()
+  FROM users
+  WHERE users.id = NEW.instructor_id
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS add_course_owner_member ON courses;
+CREATE TRIGGER add_course_owner_member
+AFTER INSERT ON courses
+FOR EACH ROW EXECUTE FUNCTION add_course_owner_member();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE course_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view the members of their courses" ON course_members
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM course_members AS own
+      WHERE own.course_id = course_members.course_id
+      AND own.user_id = auth.uid()::uuid
+      AND own.status = 'active'
+    )
+  );
+
+-- Comments
+COMMENT ON TABLE course_members IS 'Course staff: the owner, co-instructors and teaching assistants';
+COMMENT ON COLUMN course_members.permissions IS 'Overrides the role defaults when set; owners always have every permission';
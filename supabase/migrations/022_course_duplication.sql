@@ -0,0 +1,96 @@
+-- =====================================================
+-- Migration: Course Duplication and Templates
+-- Description: Deep-copy courses into new unpublished courses, and let instructors
+--              share courses as templates anyone can clone
+-- Created: 2026-10-19
+-- =====================================================
+
+ALTER TABLE courses
+ADD COLUMN IF NOT EXISTS is_template BOOLEAN DEFAULT false NOT NULL,
+ADD COLUMN IF NOT EXISTS duplicated_from UUID REFERENCES courses(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_courses_template ON courses(created_at DESC) WHERE is_template;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Copy a course with its sections and lessons into a new unpublished course in one
+-- transaction. Settings (pricing, access rules, prerequisites) are copied only when
+-- include_settings_param is set; videos are kept only when keep_videos_param is set.
+CREATE OR REPLACE FUNCTION duplicate_course(
+  source_id_param UUID,
+  instructor_id_param UUID,
+  title_param TEXT,
+  include_settings_param BOOLEAN,
+  keep_videos_param BOOLEAN
+)
+RETURNS UUID AS $$
+DECLARE
+  new_course_id UUID := uuid_generate_v4();
+  section_map JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM courses WHERE id = source_id_param) THEN
+    RAISE EXCEPTION 'COURSE_NOT_FOUND';
+  END IF;
+
+  INSERT INTO courses (
+    id, instructor_id, title, description, thumbnail_url, category, level, tags, sequential,
+    access_rule_mode, price_amount, price_currency, price_decimals, price_chain_id, price_token_address,
+    is_published, duplicated_from
+  )
+  SELECT
+    new_course_id, instructor_id_param, COALESCE(title_param, title), description, thumbnail_url,
+    category, level, tags, sequential,
+    CASE WHEN include_settings_param THEN access_rule_mode ELSE 'all' END,
+    CASE WHEN include_settings_param THEN price_amount END,
+    CASE WHEN include_settings_param THEN price_currency END,
+    CASE WHEN include_settings_param THEN price_decimals ELSE 18 END,
+    CASE WHEN include_settings_param THEN price_chain_id END,
+    CASE WHEN include_settings_param THEN price_token_address END,
+    false, source_id_param
+  FROM courses
+  WHERE id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(id, uuid_generate_v4()), '{}'::jsonb)
+  INTO section_map
+  FROM sections
+  WHERE course_id = source_id_param;
+
+  INSERT INTO sections (id, course_id, title, description, "order")
+  SELECT (section_map->>id::text)::uuid, new_course_id, title, description, "order"
+  FROM sections
+  WHERE course_id = source_id_param;
+
+  INSERT INTO lessons (
+    course_id, section_id, title, description, video_url, content, "order", duration_minutes,
+    release_after_days, release_at, is_preview
+  )
+  SELECT
+    new_course_id, (section_map->>section_id::text)::uuid, title, description,
+    CASE WHEN keep_videos_param THEN video_url END, content, "order", duration_minutes,
+    release_after_days, release_at, is_preview
+  FROM lessons
+  WHERE course_id = source_id_param;
+
+  IF include_settings_param THEN
+    INSERT INTO course_access_rules (
+      course_id, rule_type, chain_id, contract_address, token_id, min_balance, merkle_root, description
+    )
+    SELECT new_course_id, rule_type, chain_id, contract_address, token_id, min_balance, merkle_root, description
+    FROM course_access_rules
+    WHERE course_id = source_id_param;
+
+    INSERT INTO course_prerequisites (course_id, prerequisite_id, enforcement)
+    SELECT new_course_id, prerequisite_id, enforcement
+    FROM course_prerequisites
+    WHERE course_id = source_id_param;
+  END IF;
+
+  RETURN new_course_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Comments
+COMMENT ON COLUMN courses.is_template IS 'Any instructor can clone the course content';
+COMMENT ON COLUMN courses.duplicated_from IS 'Course this one was copied from';
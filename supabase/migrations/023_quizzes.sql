@@ -0,0 +1,228 @@
+-- =====================================================
+-- Migration: Quizzes
+-- Description: Lesson quizzes with server-side graded attempts, a pass mark and an
+--              optional attempt limit; passing can be required to complete the lesson
+-- Created: 2026-10-19
+-- =====================================================
+
+-- ============================================================================
+-- QUIZZES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS quizzes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  lesson_id UUID NOT NULL UNIQUE REFERENCES lessons(id) ON DELETE CASCADE,
+  title VARCHAR(200) NOT NULL,
+  description TEXT,
+  pass_percentage INTEGER DEFAULT 70 NOT NULL CHECK (pass_percentage BETWEEN 0 AND 100),
+  max_attempts INTEGER CHECK (max_attempts > 0),           -- NULL for unlimited attempts
+  required_to_complete BOOLEAN DEFAULT false NOT NULL,      -- Lesson completes only once passed
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- ============================================================================
+-- QUIZ QUESTIONS TABLE
+-- ============================================================================
+
+-- correct_answer by type: multiple_choice an option index, multi_select an array of
+-- option indexes, true_false a boolean, short_answer an array of accepted answers
+CREATE TABLE IF NOT EXISTS quiz_questions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  quiz_id UUID NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('multiple_choice', 'multi_select', 'true_false', 'short_answer')),
+  prompt TEXT NOT NULL,
+  options JSONB,                                            -- Answer choices for (multi) choice questions
+  correct_answer JSONB NOT NULL,
+  explanation TEXT,                                         -- Shown with the answers once passed
+  points INTEGER DEFAULT 1 NOT NULL CHECK (points > 0),
+  "order" INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_questions_quiz ON quiz_questions(quiz_id, "order");
+
+-- ============================================================================
+-- QUIZ ATTEMPTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  quiz_id UUID NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  answers JSONB NOT NULL,                                   -- Question id -> submitted answer
+  results JSONB NOT NULL,                                   -- Per question: correct and points earned
+  score INTEGER NOT NULL,
+  max_score INTEGER NOT NULL,
+  passed BOOLEAN NOT NULL,
+  submitted_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user ON quiz_attempts(quiz_id, user_id, submitted_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Questions hold the answers, so they are only served through the API
+ALTER TABLE quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quiz attempts" ON quiz_attempts
+  FOR SELECT USING (user_id = auth.uid()::uuid);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Store a graded attempt. Serialized per learner and quiz so concurrent submissions
+-- cannot exceed max_attempts.
+CREATE OR REPLACE FUNCTION record_quiz_attempt(
+  quiz_id_param UUID,
+  user_id_param UUID,
+  answers_param JSONB,
+  results_param JSONB,
+  score_param INTEGER,
+  max_score_param INTEGER,
+  passed_param BOOLEAN
+)
+RETURNS UUID AS $$
+DECLARE
+  max_attempts_var INTEGER;
+  attempt_id_var UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('quiz_attempts:' || quiz_id_param::text || ':' || user_id_param::text));
+
+  SELECT max_attempts INTO max_attempts_var FROM quizzes WHERE id = quiz_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'QUIZ_NOT_FOUND';
+  END IF;
+
+  IF max_attempts_var IS NOT NULL AND (
+    SELECT COUNT(*) FROM quiz_attempts WHERE quiz_id = quiz_id_param AND user_id = user_id_param
+  ) >= max_attempts_var THEN
+    RAISE EXCEPTION 'QUIZ_MAX_ATTEMPTS_REACHED';
+  END IF;
+
+  INSERT INTO quiz_attempts (quiz_id, user_id, answers, results, score, max_score, passed)
+  VALUES (quiz_id_param, user_id_param, answers_param, results_param, score_param, max_score_param, passed_param)
+  RETURNING id INTO attempt_id_var;
+
+  RETURN attempt_id_var;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Duplicated courses now also copy the quizzes of their lessons
+CREATE OR REPLACE FUNCTION duplicate_course(
+  source_id_param UUID,
+  instructor_id_param UUID,
+  title_param TEXT,
+  include_settings_param BOOLEAN,
+  keep_videos_param BOOLEAN
+)
+RETURNS UUID AS $$
+DECLARE
+  new_course_id UUID := uuid_generate_v4();
+  section_map JSONB;
+  lesson_map JSONB;
+  quiz_map JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM courses WHERE id = source_id_param) THEN
+    RAISE EXCEPTION 'COURSE_NOT_FOUND';
+  END IF;
+
+  INSERT INTO courses (
+    id, instructor_id, title, description, thumbnail_url, category, level, tags, sequential,
+    access_rule_mode, price_amount, price_currency, price_decimals, price_chain_id, price_token_address,
+    is_published, duplicated_from
+  )
+  SELECT
+    new_course_id, instructor_id_param, COALESCE(title_param, title), description, thumbnail_url,
+    category, level, tags, sequential,
+    CASE WHEN include_settings_param THEN access_rule_mode ELSE 'all' END,
+    CASE WHEN include_settings_param THEN price_amount END,
+    CASE WHEN include_settings_param THEN price_currency END,
+    CASE WHEN include_settings_param THEN price_decimals ELSE 18 END,
+    CASE WHEN include_settings_param THEN price_chain_id END,
+    CASE WHEN include_settings_param THEN price_token_address END,
+    false, source_id_param
+  FROM courses
+  WHERE id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(id, uuid_generate_v4()), '{}'::jsonb)
+  INTO section_map
+  FROM sections
+  WHERE course_id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(id, uuid_generate_v4()), '{}'::jsonb)
+  INTO lesson_map
+  FROM lessons
+  WHERE course_id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(quizzes.id, uuid_generate_v4()), '{}'::jsonb)
+  INTO quiz_map
+  FROM quizzes
+  JOIN lessons ON lessons.id = quizzes.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  INSERT INTO sections (id, course_id, title, description, "order")
+  SELECT (section_map->>id::text)::uuid, new_course_id, title, description, "order"
+  FROM sections
+  WHERE course_id = source_id_param;
+
+  INSERT INTO lessons (
+    id, course_id, section_id, title, description, video_url, content, "order", duration_minutes,
+    release_after_days, release_at, is_preview
+  )
+  SELECT
+    (lesson_map->>id::text)::uuid, new_course_id, (section_map->>section_id::text)::uuid, title, description,
+    CASE WHEN keep_videos_param THEN video_url END, content, "order", duration_minutes,
+    release_after_days, release_at, is_preview
+  FROM lessons
+  WHERE course_id = source_id_param;
+
+  INSERT INTO quizzes (id, lesson_id, title, description, pass_percentage, max_attempts, required_to_complete)
+  SELECT
+    (quiz_map->>quizzes.id::text)::uuid, (lesson_map->>quizzes.lesson_id::text)::uuid, quizzes.title,
+    quizzes.description, pass_percentage, max_attempts, required_to_complete
+  FROM quizzes
+  JOIN lessons ON lessons.id = quizzes.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  INSERT INTO quiz_questions (quiz_id, type, prompt, options, correct_answer, explanation, points, "order")
+  SELECT (quiz_map->>quiz_id::text)::uuid, type, prompt, options, correct_answer, explanation, points, "order"
+  FROM quiz_questions
+  WHERE quiz_map ? quiz_id::text;
+
+  IF include_settings_param THEN
+    INSERT INTO course_access_rules (
+      course_id, rule_type, chain_id, contract_address, token_id, min_balance, merkle_root, description
+    )
+    SELECT new_course_id, rule_type, chain_id, contract_address, token_id, min_balance, merkle_root, description
+    FROM course_access_rules
+    WHERE course_id = source_id_param;
+
+    INSERT INTO course_prerequisites (course_id, prerequisite_id, enforcement)
+    SELECT new_course_id, prerequisite_id, enforcement
+    FROM course_prerequisites
+    WHERE course_id = source_id_param;
+  END IF;
+
+  RETURN new_course_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Triggers
+CREATE TRIGGER update_quizzes_updated_at BEFORE UPDATE ON quizzes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_quiz_questions_updated_at BEFORE UPDATE ON quiz_questions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Comments
+COMMENT ON TABLE quizzes IS 'Quiz attached to a lesson, at most one per lesson';
+COMMENT ON COLUMN quizzes.required_to_complete IS 'Learners must pass before the lesson can be marked complete';
+COMMENT ON TABLE quiz_attempts IS 'Graded quiz submissions';
@@ -0,0 +1,296 @@
+-- =====================================================
+-- Migration: Assignments
+-- Description: Lesson assignments submitted as text, links, GitHub repositories or
+--              deployed contracts, graded by course staff against a rubric, and
+--              in-app notifications of submission status changes
+-- Created: 2026-10-19
+-- =====================================================
+
+-- ============================================================================
+-- GRADING PERMISSION
+-- ============================================================================
+
+ALTER TABLE course_members DROP CONSTRAINT IF EXISTS course_members_permissions_check;
+ALTER TABLE course_members ADD CONSTRAINT course_members_permissions_check CHECK (
+  permissions <@ ARRAY[
+    'edit_content', 'upload_video', 'publish', 'view_students', 'moderate_discussions', 'grade_submissions'
+  ]::TEXT[]
+);
+
+-- ============================================================================
+-- ASSIGNMENTS TABLE
+-- ============================================================================
+
+-- rubric: [{ key, title, description, max_points }]; the score is the sum of the criteria
+CREATE TABLE IF NOT EXISTS assignments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  lesson_id UUID NOT NULL UNIQUE REFERENCES lessons(id) ON DELETE CASCADE,
+  title VARCHAR(200) NOT NULL,
+  instructions TEXT NOT NULL,
+  submission_types TEXT[] NOT NULL CHECK (
+    cardinality(submission_types) > 0
+    AND submission_types <@ ARRAY['text', 'url', 'github', 'contract']::TEXT[]
+  ),
+  contract_chain_id INTEGER,                                 -- Chain of contract submissions
+  rubric JSONB NOT NULL,
+  pass_percentage INTEGER DEFAULT 60 NOT NULL CHECK (pass_percentage BETWEEN 0 AND 100),
+  allow_resubmission BOOLEAN DEFAULT true NOT NULL,          -- After a failing grade
+  max_submissions INTEGER CHECK (max_submissions > 0),       -- NULL for no limit
+  required_to_complete BOOLEAN DEFAULT false NOT NULL,       -- Lesson completes only once passed
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CHECK (NOT ('contract' = ANY(submission_types)) OR contract_chain_id IS NOT NULL)
+);
+
+-- ============================================================================
+-- ASSIGNMENT SUBMISSIONS TABLE
+-- ============================================================================
+
+-- status: submitted (awaiting grading), returned (revision requested) or graded
+CREATE TABLE IF NOT EXISTS assignment_submissions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  assignment_id UUID NOT NULL REFERENCES assignments(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL,
+  submission_type TEXT NOT NULL CHECK (submission_type IN ('text', 'url', 'github', 'contract')),
+  content TEXT NOT NULL,                                     -- Text, URL or contract address
+  status TEXT DEFAULT 'submitted' NOT NULL CHECK (status IN ('submitted', 'returned', 'graded')),
+  rubric_scores JSONB,                                       -- Criterion key -> points
+  score INTEGER,
+  max_score INTEGER,
+  passed BOOLEAN,
+  feedback TEXT,
+  graded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  graded_at TIMESTAMPTZ,
+  submitted_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE(assignment_id, user_id, attempt_number),
+  CHECK (status <> 'graded' OR (score IS NOT NULL AND passed IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_submissions_queue
+ON assignment_submissions(course_id, status, submitted_at);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_submissions_user
+ON assignment_submissions(assignment_id, user_id, attempt_number DESC);
+
+-- ============================================================================
+-- NOTIFICATIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,                                        -- e.g. assignment_graded
+  title TEXT NOT NULL,
+  body TEXT,
+  data JSONB DEFAULT '{}'::jsonb NOT NULL,                   -- Ids the client links to
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE assignment_submissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own submissions" ON assignment_submissions
+  FOR SELECT USING (user_id = auth.uid()::uuid);
+
+CREATE POLICY "Users can view their own notifications" ON notifications
+  FOR SELECT USING (user_id = auth.uid()::uuid);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Store a submission once the resubmission rules allow it. Serialized per learner and
+-- assignment so concurrent submissions cannot bypass them.
+CREATE OR REPLACE FUNCTION submit_assignment(
+  assignment_id_param UUID,
+  course_id_param UUID,
+  user_id_param UUID,
+  submission_type_param TEXT,
+  content_param TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  assignment_record assignments%ROWTYPE;
+  latest_record assignment_submissions%ROWTYPE;
+  submission_count INTEGER;
+  submission_id_var UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('assignment_submissions:' || assignment_id_param::text || ':' || user_id_param::text));
+
+  SELECT * INTO assignment_record FROM assignments WHERE id = assignment_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ASSIGNMENT_NOT_FOUND';
+  END IF;
+
+  SELECT COUNT(*) INTO submission_count
+  FROM assignment_submissions
+  WHERE assignment_id = assignment_id_param AND user_id = user_id_param;
+
+  SELECT * INTO latest_record
+  FROM assignment_submissions
+  WHERE assignment_id = assignment_id_param AND user_id = user_id_param
+  ORDER BY attempt_number DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF latest_record.status = 'submitted' THEN
+      RAISE EXCEPTION 'SUBMISSION_PENDING';
+    END IF;
+
+    IF latest_record.status = 'graded' AND latest_record.passed THEN
+      RAISE EXCEPTION 'ASSIGNMENT_ALREADY_PASSED';
+    END IF;
+
+    -- A returned submission always invites a revision
+    IF NOT assignment_record.allow_resubmission AND latest_record.status <> 'returned' THEN
+      RAISE EXCEPTION 'RESUBMISSION_NOT_ALLOWED';
+    END IF;
+  END IF;
+
+  IF assignment_record.max_submissions IS NOT NULL AND submission_count >= assignment_record.max_submissions THEN
+    RAISE EXCEPTION 'MAX_SUBMISSIONS_REACHED';
+  END IF;
+
+  INSERT INTO assignment_submissions (
+    assignment_id, course_id, user_id, attempt_number, submission_type, content
+  )
+  VALUES (
+    assignment_id_param, course_id_param, user_id_param, submission_count + 1, submission_type_param, content_param
+  )
+  RETURNING id INTO submission_id_var;
+
+  RETURN submission_id_var;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Duplicated courses now also copy the assignments of their lessons
+CREATE OR REPLACE FUNCTION duplicate_course(
+  source_id_param UUID,
+  instructor_id_param UUID,
+  title_param TEXT,
+  include_settings_param BOOLEAN,
+  keep_videos_param BOOLEAN
+)
+RETURNS UUID AS $$
+DECLARE
+  new_course_id UUID := uuid_generate_v4();
+  section_map JSONB;
+  lesson_map JSONB;
+  quiz_map JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM courses WHERE id = source_id_param) THEN
+    RAISE EXCEPTION 'COURSE_NOT_FOUND';
+  END IF;
+
+  INSERT INTO courses (
+    id, instructor_id, title, description, thumbnail_url, category, level, tags, sequential,
+    access_rule_mode, price_amount, price_currency, price_decimals, price_chain_id, price_token_address,
+    is_published, duplicated_from
+  )
+  SELECT
+    new_course_id, instructor_id_param, COALESCE(title_param, title), description, thumbnail_url,
+    category, level, tags, sequential,
+    CASE WHEN include_settings_param THEN access_rule_mode ELSE 'all' END,
+    CASE WHEN include_settings_param THEN price_amount END,
+    CASE WHEN include_settings_param THEN price_currency END,
+    CASE WHEN include_settings_param THEN price_decimals ELSE 18 END,
+    CASE WHEN include_settings_param THEN price_chain_id END,
+    CASE WHEN include_settings_param THEN price_token_address END,
+    false, source_id_param
+  FROM courses
+  WHERE id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(id, uuid_generate_v4()), '{}'::jsonb)
+  INTO section_map
+  FROM sections
+  WHERE course_id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(id, uuid_generate_v4()), '{}'::jsonb)
+  INTO lesson_map
+  FROM lessons
+  WHERE course_id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(quizzes.id, uuid_generate_v4()), '{}'::jsonb)
+  INTO quiz_map
+  FROM quizzes
+  JOIN lessons ON lessons.id = quizzes.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  INSERT INTO sections (id, course_id, title, description, "order")
+  SELECT (section_map->>id::text)::uuid, new_course_id, title, description, "order"
+  FROM sections
+  WHERE course_id = source_id_param;
+
+  INSERT INTO lessons (
+    id, course_id, section_id, title, description, video_url, content, "order", duration_minutes,
+    release_after_days, release_at, is_preview
+  )
+  SELECT
+    (lesson_map->>id::text)::uuid, new_course_id, (section_map->>section_id::text)::uuid, title, description,
+    CASE WHEN keep_videos_param THEN video_url END, content, "order", duration_minutes,
+    release_after_days, release_at, is_preview
+  FROM lessons
+  WHERE course_id = source_id_param;
+
+  INSERT INTO quizzes (id, lesson_id, title, description, pass_percentage, max_attempts, required_to_complete)
+  SELECT
+    (quiz_map->>quizzes.id::text)::uuid, (lesson_map->>quizzes.lesson_id::text)::uuid, quizzes.title,
+    quizzes.description, pass_percentage, max_attempts, required_to_complete
+  FROM quizzes
+  JOIN lessons ON lessons.id = quizzes.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  INSERT INTO quiz_questions (quiz_id, type, prompt, options, correct_answer, explanation, points, "order")
+  SELECT (quiz_map->>quiz_id::text)::uuid, type, prompt, options, correct_answer, explanation, points, "order"
+  FROM quiz_questions
+  WHERE quiz_map ? quiz_id::text;
+
+  INSERT INTO assignments (
+    lesson_id, title, instructions, submission_types, contract_chain_id, rubric, pass_percentage,
+    allow_resubmission, max_submissions, required_to_complete
+  )
+  SELECT
+    (lesson_map->>assignments.lesson_id::text)::uuid, assignments.title, instructions, submission_types,
+    contract_chain_id, rubric, pass_percentage, allow_resubmission, max_submissions, required_to_complete
+  FROM assignments
+  JOIN lessons ON lessons.id = assignments.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  IF include_settings_param THEN
+    INSERT INTO course_access_rules (
+      course_id, rule_type, chain_id, contract_address, token_id, min_balance, merkle_root, description
+    )
+    SELECT new_course_id, rule_type, chain_id, contract_address, token_id, min_balance, merkle_root, description
+    FROM course_access_rules
+    WHERE course_id = source_id_param;
+
+    INSERT INTO course_prerequisites (course_id, prerequisite_id, enforcement)
+    SELECT new_course_id, prerequisite_id, enforcement
+    FROM course_prerequisites
+    WHERE course_id = source_id_param;
+  END IF;
+
+  RETURN new_course_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Triggers
+CREATE TRIGGER update_assignments_updated_at BEFORE UPDATE ON assignments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Comments
+COMMENT ON TABLE assignments IS 'Assignment attached to a lesson, at most one per lesson';
+COMMENT ON COLUMN assignments.required_to_complete IS 'Learners must pass before the lesson can be marked complete';
+COMMENT ON TABLE assignment_submissions IS 'Learner submissions, numbered per learner and assignment';
+COMMENT ON TABLE notifications IS 'In-app notifications, e.g. of assignment grading';
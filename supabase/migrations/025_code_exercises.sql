@@ -0,0 +1,204 @@
+-- =====================================================
+-- Migration: Code Exercises
+-- Description: Auto-graded Solidity exercises. Learner source is compiled with the
+--              pinned solc-js build and run against the instructor's test contract on
+--              an in-process EVM; per-test results are kept in lesson progress
+-- Created: 2026-10-19
+-- =====================================================
+
+-- ============================================================================
+-- CODE EXERCISES TABLE
+-- ============================================================================
+
+-- test_source is compiled next to the learner's source as Test.sol and imports it as
+-- "./Solution.sol"; every test* function of its contracts is a test case
+CREATE TABLE IF NOT EXISTS code_exercises (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  lesson_id UUID NOT NULL UNIQUE REFERENCES lessons(id) ON DELETE CASCADE,
+  title VARCHAR(200) NOT NULL,
+  instructions TEXT NOT NULL,
+  starter_code TEXT,                                         -- Prefilled in the learner's editor
+  solution_source TEXT NOT NULL,                             -- Reference solution, staff only
+  test_source TEXT NOT NULL,
+  test_cases TEXT[] NOT NULL,                                -- Contract.function of each test
+  gas_limit INTEGER DEFAULT 10000000 NOT NULL CHECK (gas_limit BETWEEN 100000 AND 30000000),
+  required_to_complete BOOLEAN DEFAULT false NOT NULL,       -- Lesson completes only once passed
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- ============================================================================
+-- CODE EXERCISE ATTEMPTS TABLE
+-- ============================================================================
+
+-- results: [{ name, passed, gas_used, error }] per test case
+CREATE TABLE IF NOT EXISTS code_exercise_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  exercise_id UUID NOT NULL REFERENCES code_exercises(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  compiler_version TEXT,                                     -- NULL when the run timed out
+  status TEXT NOT NULL CHECK (status IN ('passed', 'failed', 'compile_error', 'timeout')),
+  errors TEXT[] DEFAULT '{}' NOT NULL,                       -- Compiler errors
+  results JSONB DEFAULT '[]'::jsonb NOT NULL,
+  tests_passed INTEGER NOT NULL,
+  tests_total INTEGER NOT NULL,
+  submitted_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_code_exercise_attempts_user
+ON code_exercise_attempts(exercise_id, user_id, submitted_at DESC);
+
+-- ============================================================================
+-- LESSON PROGRESS
+-- ============================================================================
+
+-- Latest attempt of the lesson's exercise: { attempt_id, status, tests: [{ name, passed }] }
+ALTER TABLE lesson_progress ADD COLUMN IF NOT EXISTS exercise_results JSONB;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Exercises hold the reference solution, so they are only served through the API
+ALTER TABLE code_exercises ENABLE ROW LEVEL SECURITY;
+ALTER TABLE code_exercise_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own exercise attempts" ON code_exercise_attempts
+  FOR SELECT USING (user_id = auth.uid()::uuid);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Duplicated courses now also copy the code exercises of their lessons
+CREATE OR REPLACE FUNCTION duplicate_course(
+  source_id_param UUID,
+  instructor_id_param UUID,
+  title_param TEXT,
+  include_settings_param BOOLEAN,
+  keep_videos_param BOOLEAN
+)
+RETURNS UUID AS $$
+DECLARE
+  new_course_id UUID := uuid_generate_v4();
+  section_map JSONB;
+  lesson_map JSONB;
+  quiz_map JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM courses WHERE id = source_id_param) THEN
+    RAISE EXCEPTION 'COURSE_NOT_FOUND';
+  END IF;
+
+  INSERT INTO courses (
+    id, instructor_id, title, description, thumbnail_url, category, level, tags, sequential,
+    access_rule_mode, price_amount, price_currency, price_decimals, price_chain_id, price_token_address,
+    is_published, duplicated_from
+  )
+  SELECT
+    new_course_id, instructor_id_param, COALESCE(title_param, title), description, thumbnail_url,
+    category, level, tags, sequential,
+    CASE WHEN include_settings_param THEN access_rule_mode ELSE 'all' END,
+    CASE WHEN include_settings_param THEN price_amount END,
+    CASE WHEN include_settings_param THEN price_currency END,
+    CASE WHEN include_settings_param THEN price_decimals ELSE 18 END,
+    CASE WHEN include_settings_param THEN price_chain_id END,
+    CASE WHEN include_settings_param THEN price_token_address END,
+    false, source_id_param
+  FROM courses
+  WHERE id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(id, uuid_generate_v4()), '{}'::jsonb)
+  INTO section_map
+  FROM sections
+  WHERE course_id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(id, uuid_generate_v4()), '{}'::jsonb)
+  INTO lesson_map
+  FROM lessons
+  WHERE course_id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(quizzes.id, uuid_generate_v4()), '{}'::jsonb)
+  INTO quiz_map
+  FROM quizzes
+  JOIN lessons ON lessons.id = quizzes.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  INSERT INTO sections (id, course_id, title, description, "order")
+  SELECT (section_map->>id::text)::uuid, new_course_id, title, description, "order"
+  FROM sections
+  WHERE course_id = source_id_param;
+
+  INSERT INTO lessons (
+    id, course_id, section_id, title, description, video_url, content, "order", duration_minutes,
+    release_after_days, release_at, is_preview
+  )
+  SELECT
+    (lesson_map->>id::text)::uuid, new_course_id, (section_map->>section_id::text)::uuid, title, description,
+    CASE WHEN keep_videos_param THEN video_url END, content, "order", duration_minutes,
+    release_after_days, release_at, is_preview
+  FROM lessons
+  WHERE course_id = source_id_param;
+
+  INSERT INTO quizzes (id, lesson_id, title, description, pass_percentage, max_attempts, required_to_complete)
+  SELECT
+    (quiz_map->>quizzes.id::text)::uuid, (lesson_map->>quizzes.lesson_id::text)::uuid, quizzes.title,
+    quizzes.description, pass_percentage, max_attempts, required_to_complete
+  FROM quizzes
+  JOIN lessons ON lessons.id = quizzes.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  INSERT INTO quiz_questions (quiz_id, type, prompt, options, correct_answer, explanation, points, "order")
+  SELECT (quiz_map->>quiz_id::text)::uuid, type, prompt, options, correct_answer, explanation, points, "order"
+  FROM quiz_questions
+  WHERE quiz_map ? quiz_id::text;
+
+  INSERT INTO assignments (
+    lesson_id, title, instructions, submission_types, contract_chain_id, rubric, pass_percentage,
+    allow_resubmission, max_submissions, required_to_complete
+  )
+  SELECT
+    (lesson_map->>assignments.lesson_id::text)::uuid, assignments.title, instructions, submission_types,
+    contract_chain_id, rubric, pass_percentage, allow_resubmission, max_submissions, required_to_complete
+  FROM assignments
+  JOIN lessons ON lessons.id = assignments.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  INSERT INTO code_exercises (
+    lesson_id, title, instructions, starter_code, solution_source, test_source, test_cases,
+    gas_limit, required_to_complete
+  )
+  SELECT
+    (lesson_map->>code_exercises.lesson_id::text)::uuid, code_exercises.title, instructions, starter_code,
+    solution_source, test_source, test_cases, gas_limit, required_to_complete
+  FROM code_exercises
+  JOIN lessons ON lessons.id = code_exercises.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  IF include_settings_param THEN
+    INSERT INTO course_access_rules (
+      course_id, rule_type, chain_id, contract_address, token_id, min_balance, merkle_root, description
+    )
+    SELECT new_course_id, rule_type, chain_id, contract_address, token_id, min_balance, merkle_root, description
+    FROM course_access_rules
+    WHERE course_id = source_id_param;
+
+    INSERT INTO course_prerequisites (course_id, prerequisite_id, enforcement)
+    SELECT new_course_id, prerequisite_id, enforcement
+    FROM course_prerequisites
+    WHERE course_id = source_id_param;
+  END IF;
+
+  RETURN new_course_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Triggers
+CREATE TRIGGER update_code_exercises_updated_at BEFORE UPDATE ON code_exercises
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Comments
+COMMENT ON TABLE code_exercises IS 'Auto-graded Solidity exercise attached to a lesson, at most one per lesson';
+COMMENT ON COLUMN code_exercises.required_to_complete IS 'Learners must pass every test before the lesson can be marked complete';
+COMMENT ON TABLE code_exercise_attempts IS 'Learner sources with their compiler and test results';
+COMMENT ON COLUMN lesson_progress.exercise_results IS 'Per-test results of the latest code exercise attempt';
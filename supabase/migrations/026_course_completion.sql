@@ -0,0 +1,170 @@
+-- =====================================================
+-- Migration: Course Completion
+-- Description: Configurable completion criteria per course. Completion is evaluated by
+--              the API, which stamps the enrollment and issues the course certificate
+-- Created: 2026-10-19
+-- =====================================================
+
+-- ============================================================================
+-- COMPLETION CRITERIA
+-- ============================================================================
+
+-- The quiz score is the average best score over every quiz of the course, with
+-- unattempted quizzes counting as 0
+ALTER TABLE courses
+ADD COLUMN IF NOT EXISTS completion_all_lessons BOOLEAN DEFAULT true NOT NULL,
+ADD COLUMN IF NOT EXISTS completion_min_quiz_score INTEGER CHECK (completion_min_quiz_score BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS completion_requires_assignments BOOLEAN DEFAULT false NOT NULL;
+
+ALTER TABLE courses
+ADD CONSTRAINT courses_completion_criteria_check CHECK (
+  completion_all_lessons OR completion_min_quiz_score IS NOT NULL OR completion_requires_assignments
+);
+
+-- ============================================================================
+-- ENROLLMENT PROGRESS
+-- ============================================================================
+
+-- Progress and completion are now kept by the API: the trigger only counted lessons and
+-- cleared completed_at again, while completion is kept once reached
+DROP TRIGGER IF EXISTS update_progress_on_lesson_complete ON lesson_progress;
+DROP FUNCTION IF EXISTS update_enrollment_progress();
+
+-- ============================================================================
+-- CERTIFICATES
+-- ============================================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificates_hash
+ON certificates(certificate_hash) WHERE certificate_hash IS NOT NULL;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Duplicated courses keep the completion criteria of the source course
+CREATE OR REPLACE FUNCTION duplicate_course(
+  source_id_param UUID,
+  instructor_id_param UUID,
+  title_param TEXT,
+  include_settings_param BOOLEAN,
+  keep_videos_param BOOLEAN
+)
+RETURNS UUID AS $$
+DECLARE
+  new_course_id UUID := uuid_generate_v4();
+  section_map JSONB;
+  lesson_map JSONB;
+  quiz_map JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM courses WHERE id = source_id_param) THEN
+    RAISE EXCEPTION 'COURSE_NOT_FOUND';
+  END IF;
+
+  INSERT INTO courses (
+    id, instructor_id, title, description, thumbnail_url, category, level, tags, sequential,
+    completion_all_lessons, completion_min_quiz_score, completion_requires_assignments, access_rule_mode, price_amount, price_currency, price_decimals, price_chain_id, price_token_address,
+    is_published, duplicated_from
+  )
+  SELECT
+    new_course_id, instructor_id_param, COALESCE(title_param, title), description, thumbnail_url,
+    category, level, tags, sequential,
+    completion_all_lessons, completion_min_quiz_score, completion_requires_assignments,
+    CASE WHEN include_settings_param THEN access_rule_mode ELSE 'all' END,
+    CASE WHEN include_settings_param THEN price_amount END,
+    CASE WHEN include_settings_param THEN price_currency END,
+    CASE WHEN include_settings_param THEN price_decimals ELSE 18 END,
+    CASE WHEN include_settings_param THEN price_chain_id END,
+    CASE WHEN include_settings_param THEN price_token_address END,
+    false, source_id_param
+  FROM courses
+  WHERE id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(id, uuid_generate_v4()), '{}'::jsonb)
+  INTO section_map
+  FROM sections
+  WHERE course_id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(id, uuid_generate_v4()), '{}'::jsonb)
+  INTO lesson_map
+  FROM lessons
+  WHERE course_id = source_id_param;
+
+  SELECT COALESCE(jsonb_object_agg(quizzes.id, uuid_generate_v4()), '{}'::jsonb)
+  INTO quiz_map
+  FROM quizzes
+  JOIN lessons ON lessons.id = quizzes.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  INSERT INTO sections (id, course_id, title, description, "order")
+  SELECT (section_map->>id::text)::uuid, new_course_id, title, description, "order"
+  FROM sections
+  WHERE course_id = source_id_param;
+
+  INSERT INTO lessons (
+    id, course_id, section_id, title, description, video_url, content, "order", duration_minutes,
+    release_after_days, release_at, is_preview
+  )
+  SELECT
+    (lesson_map->>id::text)::uuid, new_course_id, (section_map->>section_id::text)::uuid, title, description,
+    CASE WHEN keep_videos_param THEN video_url END, content, "order", duration_minutes,
+    release_after_days, release_at, is_preview
+  FROM lessons
+  WHERE course_id = source_id_param;
+
+  INSERT INTO quizzes (id, lesson_id, title, description, pass_percentage, max_attempts, required_to_complete)
+  SELECT
+    (quiz_map->>quizzes.id::text)::uuid, (lesson_map->>quizzes.lesson_id::text)::uuid, quizzes.title,
+    quizzes.description, pass_percentage, max_attempts, required_to_complete
+  FROM quizzes
+  JOIN lessons ON lessons.id = quizzes.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  INSERT INTO quiz_questions (quiz_id, type, prompt, options, correct_answer, explanation, points, "order")
+  SELECT (quiz_map->>quiz_id::text)::uuid, type, prompt, options, correct_answer, explanation, points, "order"
+  FROM quiz_questions
+  WHERE quiz_map ? quiz_id::text;
+
+  INSERT INTO assignments (
+    lesson_id, title, instructions, submission_types, contract_chain_id, rubric, pass_percentage,
+    allow_resubmission, max_submissions, required_to_complete
+  )
+  SELECT
+    (lesson_map->>assignments.lesson_id::text)::uuid, assignments.title, instructions, submission_types,
+    contract_chain_id, rubric, pass_percentage, allow_resubmission, max_submissions, required_to_complete
+  FROM assignments
+  JOIN lessons ON lessons.id = assignments.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  INSERT INTO code_exercises (
+    lesson_id, title, instructions, starter_code, solution_source, test_source, test_cases,
+    gas_limit, required_to_complete
+  )
+  SELECT
+    (lesson_map->>code_exercises.lesson_id::text)::uuid, code_exercises.title, instructions, starter_code,
+    solution_source, test_source, test_cases, gas_limit, required_to_complete
+  FROM code_exercises
+  JOIN lessons ON lessons.id = code_exercises.lesson_id
+  WHERE lessons.course_id = source_id_param;
+
+  IF include_settings_param THEN
+    INSERT INTO course_access_rules (
+      course_id, rule_type, chain_id, contract_address, token_id, min_balance, merkle_root, description
+    )
+    SELECT new_course_id, rule_type, chain_id, contract_address, token_id, min_balance, merkle_root, description
+    FROM course_access_rules
+    WHERE course_id = source_id_param;
+
+    INSERT INTO course_prerequisites (course_id, prerequisite_id, enforcement)
+    SELECT new_course_id, prerequisite_id, enforcement
+    FROM course_prerequisites
+    WHERE course_id = source_id_param;
+  END IF;
+
+  RETURN new_course_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Comments
+COMMENT ON COLUMN courses.completion_all_lessons IS 'Every lesson must be completed';
+COMMENT ON COLUMN courses.completion_min_quiz_score IS 'Minimum average best quiz score in percent; NULL for none';
+COMMENT ON COLUMN courses.completion_requires_assignments IS 'Every assignment of the course must be passed';
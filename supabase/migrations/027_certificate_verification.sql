@@ -0,0 +1,17 @@
+-- =====================================================
+-- Migration: Certificate Verification
+-- Description: Signed certificate payloads. certificate_hash is the EIP-712 hash of the
+--              payload, which the platform signs so anyone can verify a certificate
+-- Created: 2026-10-19
+-- =====================================================
+
+-- payload: { id, recipient, kind, subjectId, title, instructor, issuedAt }, a snapshot
+-- of the learner wallet, course or path, instructor and issue date (unix seconds)
+ALTER TABLE certificates
+ADD COLUMN IF NOT EXISTS payload JSONB,
+ADD COLUMN IF NOT EXISTS signature TEXT;
+
+-- Comments
+COMMENT ON COLUMN certificates.payload IS 'Signed certificate contents; certificates issued before have none and do not verify';
+COMMENT ON COLUMN certificates.signature IS 'EIP-712 signature of payload by the platform certificate signer';
+COMMENT ON COLUMN certificates.certificate_hash IS 'EIP-712 hash of payload';
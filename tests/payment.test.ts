@@ -0,0 +1,184 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AbstractProvider, Interface, zeroPadValue } from 'ethers';
+import { setRpcProvider } from '../src/config/ethereum';
+import { PaymentConfig } from '../src/config/payments';
+import { ExpectedPayment, PaymentService } from '../src/services/payment.service';
+
+const CHAIN_ID = 31337;
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+const PAYER = '0x1111111111111111111111111111111111111111';
+const OTHER_WALLET = '0x2222222222222222222222222222222222222222';
+const RECIPIENT = '0x3333333333333333333333333333333333333333';
+const TOKEN = '0x4444444444444444444444444444444444444444';
+const OTHER_TOKEN = '0x5555555555555555555555555555555555555555';
+
+const CREATED_AT = Date.parse('2026-10-19T12:00:00Z');
+
+const config: PaymentConfig = {
+  recipient: RECIPIENT,
+  intentTtlMinutes: 30,
+  minConfirmations: 2,
+  platformFeeBps: 0,
+  clockSkewSeconds: 120,
+};
+
+const ERC20 = new Interface(['event Transfer(address indexed from, address indexed to, uint256 value)']);
+
+interface ChainTransaction {
+  from?: string;
+  to?: string;
+  value?: bigint;
+  status?: number;
+  confirmations?: number;
+  /** Block timestamp in ms */
+  minedAt?: number;
+  logs?: { address: string; topics: string[]; data: string }[];
+}
+
+const transferLog = (token: string, from: string, to: string, value: bigint) => {
+  const { data, topics } = ERC20.encodeEventLog('Transfer', [from, to, value]);
+  return { address: token, topics, data };
+};
+
+/**
+ * Stand-in for a JSON-RPC provider serving a single mined transaction
+ */
+const chainWith = (transaction: ChainTransaction | null): AbstractProvider => {
+  const {
+    from = PAYER,
+    to = RECIPIENT,
+    value = 0n,
+    status = 1,
+    confirmations = 5,
+    minedAt = CREATED_AT + 60_000,
+    logs = [],
+  } = transaction ?? {};
+
+  return {
+    getTransaction: async () => (transaction ? { from, to, value } : null),
+    getTransactionReceipt: async () => (transaction
+      ? { status, blockNumber: 100, logs, confirmations: async () => confirmations }
+      : null),
+    getBlock: async () => ({ timestamp: Math.floor(minedAt / 1000) }),
+  } as unknown as AbstractProvider;
+};
+
+const expected = (overrides: Partial<ExpectedPayment> = {}): ExpectedPayment => ({
+  chain_id: CHAIN_ID,
+  token_address: null,
+  recipient: RECIPIENT,
+  amount: '1000',
+  created_at: new Date(CREATED_AT).toISOString(),
+  expires_at: new Date(CREATED_AT + 30 * 60_000).toISOString(),
+  ...overrides,
+});
+
+const verify = (payment: ExpectedPayment, transaction: ChainTransaction | null, wallets: string[] = [PAYER]) =>
+  PaymentService.verifyTransaction(payment, TX_HASH, wallets, chainWith(transaction), config);
+
+const rejectsWith = (promise: Promise<unknown>, code: string) =>
+  assert.rejects(promise, (error: { code?: string }) => error.code === code);
+
+describe('PaymentService.verifyTransaction', () => {
+  afterEach(() => {
+    setRpcProvider(CHAIN_ID, null);
+  });
+
+  describe('native currency', () => {
+    it('accepts a transfer of the amount from a linked wallet', async () => {
+      assert.equal(await verify(expected(), { value: 1000n }, [OTHER_WALLET, PAYER.toUpperCase()]), PAYER);
+    });
+
+    it('uses the provider configured for the chain', async () => {
+      setRpcProvider(CHAIN_ID, chainWith({ value: 1500n }));
+
+      assert.equal(await PaymentService.verifyTransaction(expected(), TX_HASH, [PAYER], undefined, config), PAYER);
+    });
+
+    it('rejects a transfer below the amount', async () => {
+      await rejectsWith(verify(expected(), { value: 999n }), 'PAYMENT_TX_MISMATCH');
+    });
+
+    it('rejects a transfer to another address', async () => {
+      await rejectsWith(verify(expected(), { value: 1000n, to: OTHER_WALLET }), 'PAYMENT_TX_MISMATCH');
+    });
+
+    it('rejects a transfer from a wallet the user has not linked', async () => {
+      await rejectsWith(verify(expected(), { value: 1000n, from: OTHER_WALLET }), 'PAYMENT_TX_MISMATCH');
+    });
+  });
+
+  describe('ERC-20', () => {
+    const tokenPayment = expected({ token_address: TOKEN });
+
+    it('accepts a Transfer log of the token from a linked wallet', async () => {
+      const logs = [transferLog(TOKEN, PAYER, RECIPIENT, 1000n)];
+
+      assert.equal(await verify(tokenPayment, { to: TOKEN, logs }), PAYER);
+    });
+
+    it('finds the transfer among other logs', async () => {
+      const logs = [
+        { address: TOKEN, topics: [zeroPadValue('0x01', 32)], data: '0x' },
+        transferLog(TOKEN, PAYER, OTHER_WALLET, 1000n),
+        transferLog(TOKEN, PAYER, RECIPIENT, 2000n),
+      ];
+
+      assert.equal(await verify(tokenPayment, { to: TOKEN, logs }), PAYER);
+    });
+
+    it('rejects a Transfer of another token', async () => {
+      const logs = [transferLog(OTHER_TOKEN, PAYER, RECIPIENT, 1000n)];
+
+      await rejectsWith(verify(tokenPayment, { to: OTHER_TOKEN, logs }), 'PAYMENT_TX_MISMATCH');
+    });
+
+    it('rejects a Transfer below the amount', async () => {
+      const logs = [transferLog(TOKEN, PAYER, RECIPIENT, 999n)];
+
+      await rejectsWith(verify(tokenPayment, { to: TOKEN, logs }), 'PAYMENT_TX_MISMATCH');
+    });
+
+    it('rejects a Transfer from a wallet the user has not linked', async () => {
+      const logs = [transferLog(TOKEN, OTHER_WALLET, RECIPIENT, 1000n)];
+
+      await rejectsWith(verify(tokenPayment, { to: TOKEN, logs }), 'PAYMENT_TX_MISMATCH');
+    });
+
+    it('ignores native value sent along', async () => {
+      await rejectsWith(verify(tokenPayment, { value: 1000n }), 'PAYMENT_TX_MISMATCH');
+    });
+  });
+
+  describe('receipt', () => {
+    it('rejects unknown transactions', async () => {
+      await rejectsWith(verify(expected(), null), 'PAYMENT_TX_NOT_FOUND');
+    });
+
+    it('waits for the configured confirmations', async () => {
+      await rejectsWith(verify(expected(), { value: 1000n, confirmations: 1 }), 'PAYMENT_TX_PENDING');
+    });
+
+    it('rejects reverted transactions', async () => {
+      await rejectsWith(verify(expected(), { value: 1000n, status: 0 }), 'PAYMENT_TX_FAILED');
+    });
+
+    it('rejects transactions mined before the checkout', async () => {
+      const minedAt = CREATED_AT - 10 * 60_000;
+
+      await rejectsWith(verify(expected(), { value: 1000n, minedAt }), 'PAYMENT_TX_OUTSIDE_WINDOW');
+    });
+
+    it('tolerates clock skew around the checkout window', async () => {
+      assert.equal(await verify(expected(), { value: 1000n, minedAt: CREATED_AT - 60_000 }), PAYER);
+    });
+
+    it('requires a provider for the chain', async () => {
+      await rejectsWith(
+        PaymentService.verifyTransaction(expected(), TX_HASH, [PAYER], null, config),
+        'PAYMENTS_DISABLED'
+      );
+    });
+  });
+});
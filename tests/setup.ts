@@ -0,0 +1,17 @@
+// Placeholder configuration so modules under src can be imported; no test talks to these services
+const defaults: Record<string, string> = {
+  NODE_ENV: 'test',
+  SUPABASE_URL: 'http://127.0.0.1:54321',
+  SUPABASE_ANON_KEY: 'test-anon-key',
+  SUPABASE_SERVICE_KEY: 'test-service-key',
+  JWT_SECRET: 'test-jwt-secret-at-least-32-characters',
+  JWT_EXPIRES_IN: '15m',
+  PORT: '3001',
+  FRONTEND_URL: 'http://localhost:3000',
+  SIWE_DOMAIN: 'localhost:3000',
+  SIWE_ORIGIN: 'http://localhost:3000',
+};
+
+for (const [key, value] of Object.entries(defaults)) {
+  process.env[key] ??= value;
+}
@@ -0,0 +1,87 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { pgcrypto } from '@electric-sql/pglite/contrib/pgcrypto';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+
+const MIGRATIONS = ['001_initial_schema.sql', '008_user_wallets.sql'];
+
+const NEW_WALLET = '0x1111111111111111111111111111111111111111';
+const SECOND_WALLET = '0x2222222222222222222222222222222222222222';
+const LEGACY_WALLET = '0x3333333333333333333333333333333333333333';
+
+describe('sign_in_wallet', () => {
+  let db: PGlite;
+
+  const signIn = async (address: string): Promise<string> => {
+    const { rows } = await db.query<{ user_id: string }>('SELECT sign_in_wallet($1) AS user_id', [address]);
+    return rows[0].user_id;
+  };
+
+  const walletsOf = async (userId: string) => {
+    const { rows } = await db.query<{ address: string; is_primary: boolean }>(
+      'SELECT address, is_primary FROM user_wallets WHERE user_id = $1 ORDER BY linked_at',
+      [userId]
+    );
+    return rows;
+  };
+
+  before(async () => {
+    db = new PGlite({ extensions: { pgcrypto, uuid_ossp } });
+
+    // Supabase provides auth.uid() for the RLS policies
+    await db.exec(`
+      CREATE SCHEMA auth;
+      CREATE FUNCTION auth.uid() RETURNS UUID AS $$ SELECT NULL::UUID $$ LANGUAGE sql;
+    `);
+
+    for (const migration of MIGRATIONS) {
+      await db.exec(readFileSync(join(__dirname, '../supabase/migrations', migration), 'utf8'));
+    }
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  it('creates the account with its primary wallet on first sign-in', async () => {
+    const userId = await signIn(NEW_WALLET);
+
+    const { rows: users } = await db.query<{ wallet_address: string }>(
+      'SELECT wallet_address FROM users WHERE id = $1',
+      [userId]
+    );
+
+    assert.deepEqual(users, [{ wallet_address: NEW_WALLET }]);
+    assert.deepEqual(await walletsOf(userId), [{ address: NEW_WALLET, is_primary: true }]);
+  });
+
+  it('signs in to the same account again', async () => {
+    const userId = await signIn(NEW_WALLET);
+
+    assert.equal(await signIn(NEW_WALLET), userId);
+
+    const { rows } = await db.query<{ count: number }>('SELECT COUNT(*)::int AS count FROM users');
+    assert.equal(rows[0].count, 1);
+  });
+
+  it('signs in to the owning account with a linked wallet', async () => {
+    const userId = await signIn(NEW_WALLET);
+
+    await db.query('INSERT INTO user_wallets (user_id, address) VALUES ($1, $2)', [userId, SECOND_WALLET]);
+
+    assert.equal(await signIn(SECOND_WALLET), userId);
+  });
+
+  it('adds the missing primary wallet to accounts without one', async () => {
+    const { rows } = await db.query<{ id: string }>(
+      'INSERT INTO users (wallet_address) VALUES ($1) RETURNING id',
+      [LEGACY_WALLET]
+    );
+
+    assert.equal(await signIn(LEGACY_WALLET), rows[0].id);
+    assert.deepEqual(await walletsOf(rows[0].id), [{ address: LEGACY_WALLET, is_primary: true }]);
+  });
+});